@@ -1,5 +1,7 @@
 export * from './lib/abstract';
 export * from './lib/crud.decorator';
+export * from './lib/crud-resolver.decorator';
+export * from './lib/crud-message.decorator';
 export * from './lib/crud.policy';
 export * from './lib/crud.route.factory';
 export * from './lib/crud.service';
@@ -16,36 +18,50 @@ export * from './lib/utils/relations-helper';
 export * from './lib/utils/crud-query-helper';
 export * from './lib/utils/crud-operation-helper';
 export * from './lib/utils/exclude-fields.util';
+export * from './lib/utils/entity-tag.util';
+export * from './lib/utils/cursor-token';
+export * from './lib/utils/audit-trail';
+export * from './lib/utils/crud-audit-log';
+export * from './lib/utils/crud-outbox-event';
+export * from './lib/utils/crud-event-dispatcher';
+export * from './lib/utils/event-emitter.transport';
 export * from './lib/utils/crud-conditional-helper';
 export * from './lib/utils/crud-query-builder';
 export * from './lib/utils/type-safe-query-builder';
 export * from './lib/utils/auto-relation-detector';
-export {
-    CrudCacheHelper,
-    CacheEntry as CrudCacheEntry,
-    CacheLayer as CrudCacheLayer,
-    CacheResult as CrudCacheResult,
-    CrudCacheStats
-} from './lib/utils/crud-cache-helper';
-export {
-    SmartBatchProcessor,
-    PerformanceProfile as SmartBatchPerformanceProfile
-} from './lib/utils/smart-batch-processor';
+export { CrudCacheHelper, CacheResult as CrudCacheResult } from './lib/utils/crud-cache-helper';
+export type { CacheEntry as CrudCacheEntry, CacheLayer as CrudCacheLayer, CrudCacheStats } from './lib/utils/crud-cache-helper';
+export { SmartBatchProcessor } from './lib/utils/smart-batch-processor';
+export type { PerformanceProfile as SmartBatchPerformanceProfile } from './lib/utils/smart-batch-processor';
 export * from './lib/utils/progress-tracker';
 export * from './lib/utils/change-detector';
 export * from './lib/utils/conditional-field-processor';
 export * from './lib/utils/lazy-relation-loader';
-export {
-    ResponseTransformer,
-    ResponseFormat as TransformerResponseFormat
-} from './lib/utils/response-transformer';
+export { ResponseTransformer } from './lib/utils/response-transformer';
+export type { ResponseFormat as TransformerResponseFormat } from './lib/utils/response-transformer';
+export * from './lib/utils/crud-response-formatter';
+export * from './lib/utils/export-writer';
+export * from './lib/utils/xlsx-writer';
+export * from './lib/utils/import-parser';
+export * from './lib/utils/import-report';
+export * from './lib/utils/crud-job-record';
+export * from './lib/utils/memory-job.store';
+export * from './lib/utils/typeorm-job.store';
+export * from './lib/utils/nested-write';
+export * from './lib/utils/http-platform';
 export * from './lib/utils/query-performance-analyzer';
 export * from './lib/utils/index-suggestion-engine';
-export { 
-    MultiTierCache,
+export { MultiTierCache } from './lib/utils/multi-tier-cache';
+export type {
     CacheOptions as MultiTierCacheOptions,
-    PerformanceMetrics as MultiTierPerformanceMetrics
+    CacheMetrics as MultiTierCacheMetrics,
+    PerformanceMetrics as MultiTierPerformanceMetrics,
+    RedisClientLike,
+    RedisConnectionOptions,
 } from './lib/utils/multi-tier-cache';
+export * from './lib/utils/cache-invalidation-bus';
+export * from './lib/utils/redis-invalidation.transport';
+export * from './lib/utils/in-process-invalidation.transport';
 export * from './lib/utils/debug-tools';
 export * from './lib/utils/test-generator';
 
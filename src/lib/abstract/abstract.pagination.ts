@@ -1,12 +1,18 @@
 import { Expose } from 'class-transformer';
 import { IsString, IsOptional } from 'class-validator';
+import _ from 'lodash';
 
 import { PaginationResponse, PaginationType } from '../interface';
+import { CursorToken } from '../utils/cursor-token';
+
+import type { CursorTokenOptions, PaginationCount } from '../interface';
 
 interface PaginationQuery {
     where: string;
     nextCursor: string;
     total: number;
+    estimated?: boolean;
+    capped?: boolean;
 }
 const encoding = 'base64';
 
@@ -17,8 +23,9 @@ export interface PaginationAbstractResponse<T> {
 export abstract class AbstractPaginationRequest {
     private _isNext: boolean = false;
     private _where: string;
-    private _total: number;
+    private _count: PaginationCount = {};
     private _nextCursor: string;
+    private _cursorOptions?: CursorTokenOptions;
 
     type: PaginationType;
 
@@ -34,18 +41,36 @@ export abstract class AbstractPaginationRequest {
         this._where = where;
     }
 
-    makeQuery(total: number, nextCursor: string): string {
-        return Buffer.from(
-            JSON.stringify({
-                where: this._where,
-                nextCursor,
-                total,
-            }),
-        ).toString(encoding);
+    /**
+     * Sign the tokens of `makeQuery` and verify the tokens of `setQuery` (`pagination.cursor` option)
+     */
+    setCursorOptions(cursorOptions: CursorTokenOptions | undefined): this {
+        this._cursorOptions = cursorOptions;
+        return this;
+    }
+
+    makeQuery({ total, estimated, capped }: PaginationCount, nextCursor: string): string {
+        const paginationQuery = {
+            where: this._where,
+            nextCursor,
+            total,
+            estimated,
+            capped,
+        };
+        if (this._cursorOptions) {
+            return CursorToken.sign(paginationQuery, this._cursorOptions);
+        }
+        return Buffer.from(JSON.stringify(paginationQuery)).toString(encoding);
     }
 
+    /**
+     * @throws BadRequestException when a signed token is tampered with or expired
+     */
     setQuery(query: string): boolean {
         const paginationQuery: PaginationQuery | null = (() => {
+            if (this._cursorOptions) {
+                return CursorToken.verify<PaginationQuery>(query, this._cursorOptions);
+            }
             try {
                 return JSON.parse(Buffer.from(query, encoding).toString());
             } catch {
@@ -57,7 +82,7 @@ export abstract class AbstractPaginationRequest {
         }
 
         this._where = paginationQuery.where;
-        this._total = paginationQuery.total;
+        this._count = _.pick(paginationQuery, ['total', 'estimated', 'capped']);
         this._nextCursor = paginationQuery.nextCursor;
 
         this._isNext = true;
@@ -66,7 +91,7 @@ export abstract class AbstractPaginationRequest {
     }
 
     protected get total(): number {
-        return this._total;
+        return this._count.total!;
     }
 
     get where(): string {
@@ -81,6 +106,13 @@ export abstract class AbstractPaginationRequest {
         return this._nextCursor;
     }
 
+    /**
+     * Count of the first page carried by the token, so that later pages are not counted again
+     */
+    nextCount(): PaginationCount {
+        return this._count;
+    }
+
     abstract nextTotal(): number;
-    abstract metadata<T>(take: number, dataLength: number, total: number, nextCursor: string): PaginationResponse<T>['metadata'];
+    abstract metadata<T>(take: number, dataLength: number, count: PaginationCount, nextCursor: string, prevCursor: string): PaginationResponse<T>['metadata'];
 }
@@ -1,14 +1,74 @@
-import { NotFoundException } from '@nestjs/common';
+import {
+    BadRequestException,
+    ForbiddenException,
+    HttpException,
+    HttpStatus,
+    NotFoundException,
+    UnauthorizedException,
+    UnprocessableEntityException,
+} from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
 import _ from 'lodash';
+import { map } from 'rxjs';
 
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { getCrudResponseFormat, getCrudRoles } from '../decorator/conditional.decorator';
 import { CreateParamsDto } from '../dto/params.dto';
+import { isFilterGroup } from '../interface';
+import { QueryConverter } from '../provider/query-converter';
+import { QueryParser } from '../provider/query-parser';
+import { CrudResponseFormatter, RESPONSE_FORMAT_MEDIA_TYPES } from '../utils/crud-response-formatter';
+import { EntityTagUtil } from '../utils/entity-tag.util';
+import { HttpPlatform } from '../utils/http-platform';
+import { NestedWrite } from '../utils/nested-write';
 
-
-import type { Column, CrudOptions as _CrudOptions, EntityType, Method as _Method } from '../interface';
+import type { ResponseFormat } from '../decorator/conditional.decorator';
+import type {
+    BulkFilterOptions,
+    Column,
+    CrudAuthorization,
+    CrudBulkFilter,
+    CrudJob,
+    CrudJobMethod,
+    CrudJobOptions,
+    CrudJobOwner,
+    CrudNestedWriteOptions,
+    CrudOptions as _CrudOptions,
+    CrudRequestJob,
+    CrudResponse,
+    CrudVersionCondition,
+    EntityType,
+    FilterCondition,
+    HttpCacheOptions,
+    Method as _Method,
+    QueryParserOptions,
+    TenantOptions,
+    TransactionOptions,
+} from '../interface';
 import type { CrudLogger } from '../provider/crud-logger';
-import type { Request as _Request } from 'express';
+import type { ResponseFormatContext } from '../utils/crud-response-formatter';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CrudNestedWrites } from '../utils/nested-write';
+import type { ExecutionContext } from '@nestjs/common';
+import type { ClassConstructor } from 'class-transformer';
+import type { OperatorFunction } from 'rxjs';
+import type { FindManyOptions, FindOptionsSelect, FindOptionsWhere } from 'typeorm';
+
+const JOB_METHODS: CrudJobMethod[] = ['create', 'update', 'upsert', 'destroy'];
+
+/**
+ * Path of the controller of a request, e.g. `/users` for `PATCH /users/bulk` of the route `/users/:id`
+ */
+const controllerPath = (req: CrudHttpRequest): string => {
+    const segments = HttpPlatform.routePath(req)
+        .split('/')
+        .filter(Boolean);
+    while (segments.at(-1)?.startsWith(':')) {
+        segments.pop();
+    }
+    return `/${segments.map((segment) => (segment.startsWith(':') ? encodeURIComponent(String(req.params[segment.slice(1)])) : segment)).join('/')}`;
+};
 
 export abstract class RequestAbstractInterceptor {
     constructor(public readonly crudLogger: CrudLogger) { }
@@ -38,5 +98,445 @@ export abstract class RequestAbstractInterceptor {
         return Object.assign({}, transformed);
     }
 
+    /**
+     * Builds the filter of a filter-based bulk request (`/bulk?filter[...]`).
+     * At least one allowed filter is required so that a request cannot match the whole table by accident.
+     */
+    getBulkFilter<T>(
+        query: Record<string, unknown>,
+        allowedFilters: string[] | undefined,
+        options: BulkFilterOptions,
+        defaults: Required<BulkFilterOptions>,
+        hidden?: string[],
+    ): CrudBulkFilter<T> {
+        const parsedQuery = new QueryParser(this.narrowQueryOptions(query ?? {}, { allowedFilters }, hidden)).parse(query ?? {});
+        if (parsedQuery.filters.length === 0 && !parsedQuery.filterGroups) {
+            throw new UnprocessableEntityException('At least one allowed filter is required for bulk requests by filter');
+        }
+        const { where } = new QueryConverter<T>().convertToFindOptions(parsedQuery);
+
+        return {
+            where: where as CrudBulkFilter<T>['where'],
+            maxRows: options.maxRows ?? defaults.maxRows,
+            sampleSize: options.sampleSize ?? defaults.sampleSize,
+            dryRun: query?.dryRun === 'true' || query?.dryRun === true,
+        };
+    }
+
+    /**
+     * Enforces `@CrudRoles` and the `policy` option for the caller of the request.
+     * The returned scope combines the tenant and the row-level conditions of the caller.
+     */
+    async authorize(context: ExecutionContext, crudOptions: _CrudOptions, method: _Method): Promise<CrudAuthorization> {
+        const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+        const tenantScope = await this.getTenantScope(req, crudOptions.tenant);
+        const { policy } = crudOptions;
+        const roles = getCrudRoles(context.getClass());
+        if (!policy && !roles) {
+            return { scope: tenantScope };
+        }
+
+        const user = policy?.user ? await policy.user(req) : req.user;
+        if (roles && roles.length > 0) {
+            if (_.isNil(user)) {
+                throw new UnauthorizedException();
+            }
+            const userRoles = policy?.roles ? policy.roles(user) : (user as { roles?: string[] }).roles;
+            if (_.intersection(roles, userRoles ?? []).length === 0) {
+                this.crudLogger.log(`Roles ${roles.toLocaleString()} are required for ${method}`);
+                throw new ForbiddenException(`Not allowed to ${method}`);
+            }
+        }
+
+        const can = policy?.can;
+        if (can && !(await can(user, method))) {
+            throw new ForbiddenException(`Not allowed to ${method}`);
+        }
+
+        const conditions = await policy?.conditions?.(user, method);
+        const fields = policy?.fields?.(user, method);
+        return {
+            scope: conditions || tenantScope ? { ...conditions, ...tenantScope } : undefined,
+            ability: can && ((entity) => can(user, method, entity)),
+            writable: fields?.writable,
+            hidden: fields?.hidden,
+        };
+    }
+
+    /**
+     * Narrows `allowedParams` with the fields the caller may write
+     */
+    narrowAllowedParams(allowedParams: string[] | undefined, writable: string[] | undefined): string[] | undefined {
+        if (!writable) {
+            return allowedParams;
+        }
+        return allowedParams ? _.intersection(allowedParams, writable) : writable;
+    }
+
+    /**
+     * Narrows the filters and sorts of a query with the fields the caller may read.
+     * Filtering or sorting by a hidden field would reveal its values, so the request is rejected (400).
+     */
+    narrowQueryOptions(query: Record<string, unknown>, options: QueryParserOptions, hidden: string[] | undefined): QueryParserOptions {
+        if (!hidden || hidden.length === 0) {
+            return options;
+        }
+        const { filters, filterGroups, sorts } = new QueryParser({ allowedFilters: hidden, allowedSorts: hidden }).parse(query);
+        const fields = sorts.map(({ field }) => field);
+        const conditions: FilterCondition[] = [...filters, ...(filterGroups ?? [])];
+        for (let condition = conditions.pop(); condition; condition = conditions.pop()) {
+            if (isFilterGroup(condition)) {
+                conditions.push(...condition.conditions);
+            } else {
+                fields.push(condition.field);
+            }
+        }
+        if (fields.length > 0) {
+            throw new BadRequestException(`Cannot filter or sort by ${_.uniq(fields).join(', ')}`);
+        }
+        return {
+            ...options,
+            allowedFilters: options.allowedFilters && _.difference(options.allowedFilters, hidden),
+            allowedSorts: options.allowedSorts && _.difference(options.allowedSorts, hidden),
+        };
+    }
+
+    /**
+     * Takes the nested writes out of a body, or out of each item of a bulk body, and checks them against `allowedNestedWrites`
+     * and the fields the caller may write. Rows to create or update are validated with the rules of the related entity.
+     * Put them back with `restoreNestedWrites` once the rest of the body is filtered and validated.
+     */
+    async takeNestedWrites(
+        body: unknown,
+        entity: EntityType,
+        relations: string[],
+        allowedNestedWrites: CrudNestedWriteOptions | undefined,
+        writable: string[] | undefined,
+    ): Promise<{ body: unknown; nestedWrites: CrudNestedWrites[] }> {
+        const items = _.castArray(body).map((item) => NestedWrite.split(item, relations));
+        const allowed = writable ? _.pick(allowedNestedWrites, writable) : allowedNestedWrites;
+
+        for (const { nestedWrites } of items) {
+            for (const [relation, nestedWrite] of Object.entries(nestedWrites)) {
+                const denied = NestedWrite.operations(nestedWrite).filter((operation) => !allowed?.[relation]?.includes(operation));
+                if (denied.length > 0) {
+                    throw new UnprocessableEntityException(`${denied.join(', ')} of ${relation} is not allowed`);
+                }
+                const relatedEntity = NestedWrite.relatedEntity(entity, relation);
+                if (nestedWrite.create !== undefined) {
+                    nestedWrite.create = await this.validateNestedRows(relatedEntity, nestedWrite.create, false);
+                }
+                if (nestedWrite.update !== undefined) {
+                    nestedWrite.update = await this.validateNestedRows(relatedEntity, nestedWrite.update, true);
+                }
+            }
+        }
+
+        return {
+            body: Array.isArray(body) ? items.map((item) => item.body) : items[0].body,
+            nestedWrites: items.map((item) => item.nestedWrites),
+        };
+    }
+
+    /**
+     * Puts the nested writes taken by `takeNestedWrites` back into the validated body
+     */
+    restoreNestedWrites(body: unknown, nestedWrites: CrudNestedWrites[]): void {
+        for (const [index, item] of _.castArray(body).entries()) {
+            if (_.isObject(item) && nestedWrites[index]) {
+                Object.assign(item, nestedWrites[index]);
+            }
+        }
+    }
+
+    /**
+     * Validates rows of a nested create or update with the rules of the related entity.
+     * Primary keys are kept, so that the rows to update can be found.
+     */
+    async validateNestedRows(entity: ClassConstructor<unknown> | undefined, rows: unknown, skipMissingProperties: boolean): Promise<unknown> {
+        if (Array.isArray(rows)) {
+            return Promise.all(rows.map((row) => this.validateNestedRows(entity, row, skipMissingProperties)));
+        }
+        if (!_.isPlainObject(rows)) {
+            throw new UnprocessableEntityException('Rows of nested writes must be objects');
+        }
+        if (!entity) {
+            return rows;
+        }
+        const transformed = plainToInstance(entity, rows) as Record<string, unknown>;
+        const errorList = await validate(transformed, {
+            whitelist: true,
+            forbidNonWhitelisted: false,
+            forbidUnknownValues: false,
+            skipMissingProperties,
+        });
+        if (errorList.length > 0) {
+            this.crudLogger.log(errorList, 'ValidationError');
+            throw new UnprocessableEntityException(errorList);
+        }
+        return Object.assign(transformed, _.pick(rows, NestedWrite.primaryKeys(entity)));
+    }
+
+    /**
+     * Adds the fields hidden from the caller to `exclude`
+     */
+    excludeHidden(exclude: string[] | undefined, hidden: string[] | undefined): string[] | undefined {
+        if (!hidden || hidden.length === 0) {
+            return exclude;
+        }
+        return _.union(exclude ?? [], hidden);
+    }
+
+    /**
+     * Resolves the tenant of the request into the condition `{ [column]: tenant }` of the `tenant` option.
+     * Requests without a tenant are rejected, so a route is never served unscoped.
+     */
+    async getTenantScope(req: CrudHttpRequest, tenant: TenantOptions | undefined): Promise<Record<string, unknown> | undefined> {
+        if (!tenant) {
+            return;
+        }
+        const { column, resolver } = tenant;
+        const value =
+            typeof resolver === 'function'
+                ? await resolver(req)
+                : 'header' in resolver
+                    ? req.headers[resolver.header.toLowerCase()]
+                    : _.get(req.user, resolver.user);
+
+        if (_.isNil(value) || value === '' || Array.isArray(value)) {
+            this.crudLogger.log(`Tenant of the request could not be resolved (column: ${column})`);
+            throw new ForbiddenException('Tenant could not be resolved');
+        }
+        return { [column]: value };
+    }
+
+    /**
+     * Adds the scope to the where condition. Each OR branch of a where-array gets the scope,
+     * and the scope overrides client filters on the same column.
+     */
+    scopeWhere<W extends FindOptionsWhere<unknown> | Array<FindOptionsWhere<unknown>> | undefined>(
+        where: W,
+        scope: Record<string, unknown> | undefined,
+    ): W {
+        if (!scope) {
+            return where;
+        }
+        if (Array.isArray(where)) {
+            return (where.length > 0 ? where.map((condition) => ({ ...condition, ...scope })) : scope) as W;
+        }
+        return { ...where, ...scope } as W;
+    }
+
+    /**
+     * Normalizes the `transaction` option of a route. `true` runs the route in a transaction with the default isolation level.
+     */
+    getTransaction(transaction: boolean | TransactionOptions | undefined): TransactionOptions | undefined {
+        if (!transaction) {
+            return;
+        }
+        return transaction === true ? {} : transaction;
+    }
+
+    /**
+     * Job options of a bulk request which prefers an asynchronous response (`Prefer: respond-async`),
+     * or undefined when the request runs synchronously
+     */
+    getJob(req: CrudHttpRequest, crudOptions: _CrudOptions, method: CrudJobMethod, scope: CrudAuthorization['scope']): CrudRequestJob | undefined {
+        const { jobs } = crudOptions;
+        if (!jobs || !(jobs.methods ?? JOB_METHODS).includes(method)) {
+            return;
+        }
+        const preferences = String(req.headers.prefer ?? '')
+            .split(',')
+            .map((preference) => preference.split(';')[0].trim().toLowerCase());
+        return preferences.includes('respond-async') ? { ...jobs, owner: this.getJobOwner(req, jobs, scope) } : undefined;
+    }
+
+    /**
+     * Caller of the request as the owner of a job or an import.
+     * The scope is kept as JSON so that it compares equal after a round trip through the job store.
+     */
+    getJobOwner(req: CrudHttpRequest, jobs: Pick<CrudJobOptions, 'user'> | undefined, scope: CrudAuthorization['scope']): CrudJobOwner {
+        const user = jobs?.user ? jobs.user(req) : (req.user as { id?: unknown } | undefined)?.id;
+        return {
+            scope: scope ? (JSON.parse(JSON.stringify(scope)) as Record<string, unknown>) : null,
+            user: _.isNil(user) ? null : String(user),
+        };
+    }
+
+    /**
+     * Responds `202 Accepted` with the location of the job when the request runs as a background job
+     */
+    withJob(context: ExecutionContext): OperatorFunction<unknown, unknown> {
+        return map((response) => {
+            const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+            if (!(req as unknown as Record<string, { job?: CrudRequestJob } | undefined>)[CRUD_ROUTE_ARGS]?.job) {
+                return response;
+            }
+            const { data } = response as CrudResponse<CrudJob>;
+            context
+                .switchToHttp()
+                .getResponse()
+                .status(HttpStatus.ACCEPTED)
+                .header('Preference-Applied', 'respond-async')
+                .header('Location', `${controllerPath(req)}/jobs/${data.id}`);
+            return response;
+        });
+    }
+
+    /**
+     * Reads the expected version for optimistic concurrency control from the `If-Match` header
+     * and the version field of the body. The version field is removed from the body so that it is not assigned to the entity.
+     */
+    getVersionCondition(req: CrudHttpRequest, versionColumn: string | undefined): CrudVersionCondition | undefined {
+        if (!versionColumn) {
+            return;
+        }
+        const ifMatch = EntityTagUtil.parse(req.headers['if-match'])?.map((tag) => EntityTagUtil.withoutFormat(tag));
+
+        let version: unknown;
+        if (_.isPlainObject(req.body) && versionColumn in req.body) {
+            version = req.body[versionColumn];
+            delete req.body[versionColumn];
+        }
+
+        if (!ifMatch && _.isNil(version)) {
+            return;
+        }
+        return { ifMatch, version: version ?? undefined };
+    }
+
+    /**
+     * Sends `metadata.etag` of the response, marked with the response format, as the ETag header.
+     * Answers 304 Not Modified when one of the entity tags of `If-None-Match` matches.
+     */
+    withEntityTag(context: ExecutionContext, ifNoneMatch?: string[], format: ResponseFormat = 'default'): OperatorFunction<unknown, unknown> {
+        return map((response) => {
+            const entityTag = (response as CrudResponse<unknown> | undefined)?.metadata?.etag;
+            if (!entityTag) {
+                return response;
+            }
+            const etag = EntityTagUtil.forFormat(entityTag, format);
+            context.switchToHttp().getResponse().header('ETag', etag);
+            if (ifNoneMatch && EntityTagUtil.matches(ifNoneMatch, etag)) {
+                throw new HttpException('Not Modified', HttpStatus.NOT_MODIFIED);
+            }
+            return response;
+        });
+    }
+
+    /**
+     * Sends the `httpCache` headers of a read route: Cache-Control, Vary, ETag and Last-Modified.
+     * The ETag is `metadata.etag` of the response or a hash of the response, marked with the response format,
+     * and Last-Modified is the `updateDateColumn` of a single entity.
+     * Answers 304 Not Modified when `If-None-Match` matches the ETag, or, without `If-None-Match`, when the entity was not modified since `If-Modified-Since`.
+     * A page of index has no Last-Modified: deleted rows and rows which left the filter do not change the latest `updateDateColumn` of the page.
+     */
+    withHttpCache(
+        context: ExecutionContext,
+        httpCache: HttpCacheOptions,
+        updateDateColumn: string | undefined,
+        format: ResponseFormat = 'default',
+    ): OperatorFunction<unknown, unknown> {
+        const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+        const ifNoneMatch = EntityTagUtil.parse(req.headers['if-none-match']);
+        const ifModifiedSince = Date.parse(req.headers['if-modified-since'] ?? '');
+
+        return map((response) => {
+            const res = context.switchToHttp().getResponse();
+            const { data, metadata } = (response ?? {}) as CrudResponse<unknown>;
+
+            res.header(
+                'Cache-Control',
+                _.compact([
+                    httpCache.visibility ?? 'private',
+                    `max-age=${httpCache.maxAge ?? 0}`,
+                    httpCache.staleWhileRevalidate !== undefined && `stale-while-revalidate=${httpCache.staleWhileRevalidate}`,
+                ]).join(', '),
+            );
+            if (httpCache.vary?.length) {
+                this.appendVary(res, httpCache.vary);
+            }
+
+            // timestamp는 요청마다 달라지므로 hash에서 제외
+            const etag = EntityTagUtil.forFormat(metadata?.etag ?? EntityTagUtil.fromContent({ data, metadata: _.omit(metadata, 'timestamp') }), format);
+            res.header('ETag', etag);
+
+            const lastModified = Array.isArray(data) ? undefined : this.getLastModified(data, updateDateColumn);
+            if (lastModified) {
+                res.header('Last-Modified', lastModified.toUTCString());
+            }
+
+            const notModified = ifNoneMatch
+                ? EntityTagUtil.matches(ifNoneMatch, etag)
+                : lastModified !== undefined && !Number.isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+            if (notModified) {
+                throw new HttpException('Not Modified', HttpStatus.NOT_MODIFIED);
+            }
+            return response;
+        });
+    }
+
+    /**
+     * Response format of a show or index request: the `format` query, the `Accept` header or `@CrudResponseFormat` of the controller.
+     * Sends `Vary: Accept` since the representation depends on the header.
+     */
+    negotiateResponseFormat(context: ExecutionContext): ResponseFormat {
+        const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+        const format = CrudResponseFormatter.negotiate(HttpPlatform.query(req).format, req.headers.accept, getCrudResponseFormat(context.getClass()));
+        this.appendVary(context.switchToHttp().getResponse(), ['Accept']);
+        return format;
+    }
+
+    /**
+     * Formats the response in a non-default format and sends the media type of the format as Content-Type
+     */
+    withResponseFormat(context: ExecutionContext, format: ResponseFormat, formatContext: ResponseFormatContext): OperatorFunction<unknown, unknown> {
+        return map((response) => {
+            if (format === 'default' || !_.isObject(response)) {
+                return response;
+            }
+            context.switchToHttp().getResponse().header('Content-Type', RESPONSE_FORMAT_MEDIA_TYPES[format]);
+            return CrudResponseFormatter.format(response as CrudResponse<unknown>, format, formatContext);
+        });
+    }
+
+    /**
+     * Adds the fields to the Vary header, keeping the fields that are already set
+     */
+    private appendVary(res: { getHeader(name: string): string | string[] | number | undefined; header(name: string, value: string): unknown }, fields: string[]): void {
+        const current = _.castArray(res.getHeader('Vary') ?? [])
+            .join(',')
+            .split(',')
+            .map((field) => field.trim())
+            .filter((field) => field.length > 0);
+        res.header('Vary', _.uniq([...current, ...fields]).join(', '));
+    }
+
+    /**
+     * Latest value of the `@UpdateDateColumn` among the entities of a response
+     */
+    private getLastModified(entity: unknown, updateDateColumn: string | undefined): Date | undefined {
+        if (!updateDateColumn || !_.isObject(entity)) {
+            return;
+        }
+        const value = (entity as Record<string, unknown>)[updateDateColumn];
+        if (!(_.isDate(value) || _.isString(value) || _.isNumber(value))) {
+            return;
+        }
+        const lastModified = new Date(value);
+        return Number.isNaN(lastModified.getTime()) ? undefined : lastModified;
+    }
+
+    /**
+     * Picks the relation part of a select built from sparse fieldsets, e.g. `{ author: { name: true } }`.
+     */
+    getRelationSelect<T>(select: FindManyOptions<T>['select']): FindOptionsSelect<T> | undefined {
+        if (!_.isPlainObject(select)) {
+            return;
+        }
+        const relationSelect = _.pickBy(select as Record<string, unknown>, (value) => _.isPlainObject(value));
+        return _.isEmpty(relationSelect) ? undefined : (relationSelect as FindOptionsSelect<T>);
+    }
 
 }
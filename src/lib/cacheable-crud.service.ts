@@ -1,9 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import _ from 'lodash';
 import { Repository } from 'typeorm';
+
+import { CRUD_OPTIONS_METADATA } from './constants';
 import { CrudService } from './crud.service';
-import { 
-    CrudOptions, 
+import {
+    CrudOptions,
     EntityType,
     CrudReadOneRequest,
     CrudResponse,
@@ -12,69 +17,79 @@ import {
     CrudCreateManyRequest,
     CrudUpdateOneRequest,
     CrudUpdateManyRequest,
+    CrudUpdateByFilterRequest,
     CrudUpsertRequest,
     CrudUpsertManyRequest,
     CrudDeleteOneRequest,
     CrudDeleteManyRequest,
+    CrudDeleteByFilterRequest,
     CrudRecoverRequest,
-    CrudRecoverManyRequest
+    CrudRecoverManyRequest,
 } from './interface';
 import { CrudReadManyRequest } from './request';
-import { CRUD_OPTIONS_METADATA } from './constants';
+import { CacheLayer, CacheMetrics, MultiTierCache } from './utils/multi-tier-cache';
 
-// Simple in-memory cache implementation
-class SimpleCache {
-    private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
-    
-    async get<T>(key: string): Promise<T | undefined> {
-        const entry = this.cache.get(key);
-        if (!entry) return undefined;
-        
-        if (Date.now() - entry.timestamp > entry.ttl * 1000) {
-            this.cache.delete(key);
-            return undefined;
-        }
-        
-        return entry.data;
-    }
-    
-    async set(key: string, value: any, ttl: number = 300): Promise<void> {
-        this.cache.set(key, {
-            data: value,
-            timestamp: Date.now(),
-            ttl
-        });
-    }
-    
-    clear(): void {
-        this.cache.clear();
+const DEFAULT_TTL = 300;
+
+/**
+ * Cache layers of each `cache.strategy`
+ */
+const cacheLayers = (config: NonNullable<CrudOptions['cache']>): CacheLayer[] => {
+    const ttl = config.ttl ?? DEFAULT_TTL;
+    const memory: CacheLayer = { name: 'L1_Memory', priority: 1, maxSize: 1000, ttl, strategy: 'lru', storage: 'memory' };
+    const redis: CacheLayer = { name: 'L2_Redis', priority: 2, ttl, strategy: 'ttl', storage: 'redis', redis: config.redis };
+
+    switch (config.strategy) {
+        case 'redis':
+            return [redis];
+        case 'multi-tier':
+            return [memory, redis];
+        default:
+            return [memory];
     }
-}
+};
 
 /**
  * CRUD Service with built-in caching support
+ *
+ * show and index results are cached in the layers of `cache.strategy` and tagged with
+ * the primary keys of their rows and the table (index pages only).
+ * A mutation invalidates the entries of the rows it changed and the index pages, and keeps the others.
  */
 @Injectable()
-export class CacheableCrudService<T extends EntityType> extends CrudService<T> {
-    private cache?: SimpleCache;
+export class CacheableCrudService<T extends EntityType> extends CrudService<T> implements OnModuleDestroy {
+    private cache?: MultiTierCache;
+    private cacheReady?: Promise<void>;
     private cacheConfig?: CrudOptions['cache'];
     private cacheKeyPrefix: string;
 
+    /**
+     * CrudService의 handler는 prototype이 아닌 인스턴스 속성이므로 override되기 전에 보관
+     */
+    private readonly crudHandlers = _.pick(this as CrudService<T>, [
+        'handleShow',
+        'handleIndex',
+        'handleCreate',
+        'handleUpdate',
+        'handleUpsert',
+        'handleDestroy',
+        'handleRecover',
+    ]);
+
     constructor(
         repository: Repository<T>,
-        private options?: CrudOptions
+        private options?: CrudOptions,
     ) {
         super(repository);
-        
+
         // Get cache config from options or metadata
         this.cacheConfig = this.options?.cache || this.getCacheConfigFromMetadata();
-        
+
         if (this.cacheConfig?.enabled) {
             this.initializeCache();
         }
-        
-        this.cacheKeyPrefix = this.cacheConfig?.keyPrefix || 
-                             `crud:${this.repository.metadata.tableName}`;
+
+        this.cacheKeyPrefix = this.cacheConfig?.keyPrefix || `crud:${this.repository.metadata.tableName}`;
     }
 
     /**
@@ -94,160 +109,211 @@ export class CacheableCrudService<T extends EntityType> extends CrudService<T> {
      */
     private initializeCache(): void {
         if (!this.cacheConfig) return;
-        
-        // For now, use simple in-memory cache
-        // In production, this would integrate with Redis or other cache stores
-        this.cache = new SimpleCache();
+
+        this.cache = new MultiTierCache({
+            layers: cacheLayers(this.cacheConfig),
+            defaultTtl: this.cacheConfig.ttl ?? DEFAULT_TTL,
+            invalidationBus: this.cacheConfig.invalidationBus,
+        });
+        this.cacheReady = this.cache.initialize();
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        await (await this.getCache())?.onModuleDestroy();
+    }
+
+    /**
+     * Metrics of the cache, undefined when the cache is disabled
+     */
+    async getCacheMetrics(): Promise<CacheMetrics | undefined> {
+        return (await this.getCache())?.getMetrics();
+    }
+
+    private async getCache(): Promise<MultiTierCache | undefined> {
+        await this.cacheReady;
+        return this.cache;
     }
 
     /**
      * Generate cache key for a request
      */
     private generateCacheKey(operation: string, params: any): string {
-        const paramsStr = JSON.stringify(params || {});
-        const hash = Buffer.from(paramsStr).toString('base64').slice(0, 16);
+        const hash = createHash('sha256')
+            .update(JSON.stringify(params || {}))
+            .digest('base64url');
         return `${this.cacheKeyPrefix}:${operation}:${hash}`;
     }
 
     /**
-     * Clear all cache entries for this entity
+     * Tag of the cache entries that contain the row
      */
-    private async clearCache(): Promise<void> {
-        if (!this.cache) return;
-        
-        // In a real implementation, we'd clear only relevant keys
-        // For simplicity, we'll clear all cache
-        this.cache.clear();
+    private rowTag(row: unknown): string | undefined {
+        if (!_.isObject(row)) return undefined;
+        const values = this.repository.metadata.primaryColumns.map(({ propertyName }) => (row as Record<string, unknown>)[propertyName]);
+        return values.some((value) => _.isNil(value)) ? undefined : `${this.cacheKeyPrefix}:row:${values.join(':')}`;
     }
 
     /**
-     * Override handleShow with caching - arrow function to match parent
+     * Tag of the cached index pages
      */
-    readonly handleShow = async (request: CrudReadOneRequest<T>): Promise<CrudResponse<T>> => {
-        // If no cache, delegate to parent
-        if (!this.cache) {
-            // Call the parent's handleShow by accessing it directly
-            const parentMethod = CrudService.prototype.handleShow;
-            return parentMethod.call(this, request);
+    private get listTag(): string {
+        return `${this.cacheKeyPrefix}:list`;
+    }
+
+    private rowTags(rows: unknown[]): string[] {
+        return _.uniq(_.compact(rows.map((row) => this.rowTag(row))));
+    }
+
+    /**
+     * Invalidate the entries of the rows and the index pages
+     */
+    private async invalidate(rows: unknown[]): Promise<void> {
+        const cache = await this.getCache();
+        if (!cache) return;
+
+        for (const tag of [...this.rowTags(rows), this.listTag]) {
+            await cache.invalidateByTag(tag);
         }
+    }
+
+    /**
+     * Rows changed by a mutation: its primary key params and the rows of its response
+     */
+    private affectedRows(request: { params?: unknown }, result: CrudResponse<T> | CrudArrayResponse<T>): unknown[] {
+        return [..._.castArray(request.params ?? []), ..._.castArray(result?.data ?? [])];
+    }
 
-        const cacheKey = this.generateCacheKey('show', request.params);
-        
-        // Try to get from cache
-        const cached = await this.cache.get<CrudResponse<T>>(cacheKey);
+    /**
+     * Cached read of a handler. Requests with a policy ability are not cached, since their result depends on the caller.
+     */
+    private async cached<R extends CrudResponse<T> | CrudArrayResponse<T>>(
+        key: string,
+        ability: unknown,
+        load: () => Promise<R>,
+        tags: (result: R) => string[],
+    ): Promise<R> {
+        const cache = await this.getCache();
+        if (!cache || ability) {
+            return load();
+        }
+
+        const cached = await cache.get<R>(key);
         if (cached) {
             return cached;
         }
 
-        // Get from database using parent method
-        const parentMethod = CrudService.prototype.handleShow;
-        const result = await parentMethod.call(this, request);
-        
-        // Store in cache
+        const result = await load();
         if (result) {
-            const ttl = this.cacheConfig?.ttl || 300;
-            await this.cache.set(cacheKey, result, ttl);
+            await cache.set(key, result, { ttl: this.cacheConfig?.ttl ?? DEFAULT_TTL, tags: tags(result) });
         }
-
         return result;
+    }
+
+    /**
+     * Override handleShow with caching - arrow function to match parent
+     */
+    readonly handleShow = async (request: CrudReadOneRequest<T>): Promise<CrudResponse<T>> => {
+        const cacheKey = this.generateCacheKey('show', {
+            params: request.params,
+            selectColumns: request.selectColumns,
+            excludedColumns: request.excludedColumns,
+            relations: request.relations,
+            relationSelect: request.relationSelect,
+            softDeleted: request.softDeleted,
+        });
+
+        return this.cached(
+            cacheKey,
+            request.ability,
+            () => this.crudHandlers.handleShow(request),
+            () => this.rowTags([request.params]),
+        );
     };
 
     /**
      * Override handleIndex with caching - arrow function to match parent
      */
     readonly handleIndex = async (request: CrudReadManyRequest<T>): Promise<CrudArrayResponse<T>> => {
-        // If no cache, delegate to parent
-        if (!this.cache) {
-            const parentMethod = CrudService.prototype.handleIndex;
-            return parentMethod.call(this, request);
-        }
-
         const cacheKey = this.generateCacheKey('index', {
             findOptions: request.findOptions,
-            pagination: request.pagination
+            pagination: request.pagination,
+            countStrategy: request.countStrategy,
+            selectColumns: _.sortBy(request.selectColumns.map(String)),
+            excludeColumns: _.sortBy(request.excludeColumns),
+            relationSelect: request.relationSelect,
         });
-        
-        // Try to get from cache
-        const cached = await this.cache.get<CrudArrayResponse<T>>(cacheKey);
-        if (cached) {
-            return cached;
-        }
-
-        // Get from database using parent method
-        const parentMethod = CrudService.prototype.handleIndex;
-        const result = await parentMethod.call(this, request);
-        
-        // Store in cache
-        if (result) {
-            const ttl = this.cacheConfig?.ttl || 300;
-            await this.cache.set(cacheKey, result, ttl);
-        }
 
-        return result;
+        return this.cached(
+            cacheKey,
+            undefined,
+            () => this.crudHandlers.handleIndex(request),
+            (result) => [this.listTag, ...this.rowTags(result.data)],
+        );
     };
 
     /**
-     * Override handleCreate to clear cache - arrow function to match parent
+     * Override handleCreate to invalidate index pages - arrow function to match parent
      */
-    readonly handleCreate = async (request: CrudCreateOneRequest<T> | CrudCreateManyRequest<T>): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
-        const parentMethod = CrudService.prototype.handleCreate;
-        const result = await parentMethod.call(this, request);
-        
-        // Clear cache after successful create
-        await this.clearCache();
-        
+    readonly handleCreate = async (
+        request: CrudCreateOneRequest<T> | CrudCreateManyRequest<T>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        const result = await this.crudHandlers.handleCreate(request);
+
+        // 새로운 행은 캐시된 show에 없으므로 index만 무효화
+        await this.invalidate([]);
+
         return result;
     };
 
     /**
-     * Override handleUpdate to clear cache - arrow function to match parent
+     * Override handleUpdate to invalidate the updated rows - arrow function to match parent
      */
-    readonly handleUpdate = async (request: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
-        const parentMethod = CrudService.prototype.handleUpdate;
-        const result = await parentMethod.call(this, request);
-        
-        // Clear cache after successful update
-        await this.clearCache();
-        
+    readonly handleUpdate = async (
+        request: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T> | CrudUpdateByFilterRequest<T>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        const result = await this.crudHandlers.handleUpdate(request);
+
+        await this.invalidate(this.affectedRows(request as { params?: unknown }, result));
+
         return result;
     };
 
     /**
-     * Override handleUpsert to clear cache - arrow function to match parent
+     * Override handleUpsert to invalidate the upserted rows - arrow function to match parent
      */
-    readonly handleUpsert = async (request: CrudUpsertRequest<T> | CrudUpsertManyRequest<T>): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
-        const parentMethod = CrudService.prototype.handleUpsert;
-        const result = await parentMethod.call(this, request);
-        
-        // Clear cache after successful upsert
-        await this.clearCache();
-        
+    readonly handleUpsert = async (
+        request: CrudUpsertRequest<T> | CrudUpsertManyRequest<T>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        const result = await this.crudHandlers.handleUpsert(request);
+
+        await this.invalidate(this.affectedRows(request as { params?: unknown }, result));
+
         return result;
     };
 
     /**
-     * Override handleDestroy to clear cache - arrow function to match parent
+     * Override handleDestroy to invalidate the deleted rows - arrow function to match parent
      */
-    readonly handleDestroy = async (request: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
-        const parentMethod = CrudService.prototype.handleDestroy;
-        const result = await parentMethod.call(this, request);
-        
-        // Clear cache after successful delete
-        await this.clearCache();
-        
+    readonly handleDestroy = async (
+        request: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T> | CrudDeleteByFilterRequest<T>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        const result = await this.crudHandlers.handleDestroy(request);
+
+        await this.invalidate(this.affectedRows(request as { params?: unknown }, result));
+
         return result;
     };
 
     /**
-     * Override handleRecover to clear cache - arrow function to match parent
+     * Override handleRecover to invalidate the recovered rows - arrow function to match parent
      */
-    readonly handleRecover = async (request: CrudRecoverRequest<T> | CrudRecoverManyRequest<T>): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
-        const parentMethod = CrudService.prototype.handleRecover;
-        const result = await parentMethod.call(this, request);
-        
-        // Clear cache after successful recover
-        await this.clearCache();
-        
+    readonly handleRecover = async (
+        request: CrudRecoverRequest<T> | CrudRecoverManyRequest<T>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        const result = await this.crudHandlers.handleRecover(request);
+
+        await this.invalidate(this.affectedRows(request, result));
+
         return result;
     };
-}
\ No newline at end of file
+}
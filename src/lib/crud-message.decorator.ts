@@ -0,0 +1,35 @@
+/* eslint-disable @typescript-eslint/naming-convention, @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-explicit-any */
+import { CRUD_OPTIONS_METADATA } from './constants';
+import { CrudMessageFactory } from './crud-message.factory';
+import { buildCrudOptionsFromChaining } from './decorator/chaining.decorator';
+import { buildConditionalCrudOptions } from './decorator/conditional.decorator';
+
+import type { CrudMessageControllerOptions } from './interface';
+
+type Constructor = new (...args: any[]) => any;
+
+/**
+ * Registers a message pattern of Nest microservices for each method, e.g. `{ cmd: 'user.index' }`, from the same options as `@Crud`.
+ * The payload of a message is a `CrudMessagePayload`, and the reply is the `CrudResponse` or `CrudArrayResponse` of the route.
+ * Requires `@nestjs/microservices`, and `@Controller()` on the class.
+ */
+export const CrudMessageController =
+    (options?: CrudMessageControllerOptions) =>
+        <T extends Constructor>(target: T) => {
+            // 옵션 병합 (우선순위: options > conditionalOptions > chainingOptions)
+            const finalOptions: CrudMessageControllerOptions = {
+                ...buildCrudOptionsFromChaining(target),
+                ...buildConditionalCrudOptions(target),
+                ...options,
+            } as CrudMessageControllerOptions;
+
+            if (!finalOptions.entity) {
+                throw new Error('Entity must be provided either through @CrudMessageController options or @CrudEntity decorator');
+            }
+
+            Reflect.defineMetadata(CRUD_OPTIONS_METADATA, finalOptions, target);
+
+            // message handler는 등록된 class의 method로 호출되므로, crudService는 message를 처리할 때 검증
+            new CrudMessageFactory(target, finalOptions).init();
+            return target;
+        };
@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-explicit-any */
+import { HttpException } from '@nestjs/common';
+import { PARAMTYPES_METADATA } from '@nestjs/common/constants';
+import _ from 'lodash';
+
+import { CrudRouteFactory } from './crud.route.factory';
+import { Method } from './interface';
+import { CrudExceptionFilter } from './provider/crud-exception.filter';
+import { CrudOperationRunner } from './provider/crud-operation.runner';
+
+import type { CrudRouteDefinition } from './crud.route.factory';
+import type { CrudMessageControllerOptions, CrudMessagePayload } from './interface';
+import type * as NestMicroservices from '@nestjs/microservices';
+
+/**
+ * Methods which read or write files over HTTP, and are not registered as message patterns
+ */
+const FILE_METHODS = new Set<Method>([Method.EXPORT, Method.IMPORT, Method.IMPORT_PROGRESS, Method.IMPORT_REPORT]);
+
+/**
+ * `@nestjs/microservices` is only required by applications which use `@CrudMessageController`
+ */
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const loadNestMicroservices = (): typeof NestMicroservices => require('@nestjs/microservices');
+
+/**
+ * Flattens a nested query into the bracket keys of an HTTP query, with string values as a query string would have,
+ * e.g. `{ filter: { or: [{ age_gte: 30 }] } }` into `{ 'filter[or][0][age_gte]': '30' }`
+ */
+const toQuery = (value: unknown, key: string, query: Record<string, unknown> = {}): Record<string, unknown> => {
+    if (_.isPlainObject(value) || (Array.isArray(value) && value.some((item) => _.isPlainObject(item)))) {
+        for (const [name, item] of Object.entries(value as Record<string, unknown>)) {
+            toQuery(item, key ? `${key}[${name}]` : name, query);
+        }
+    } else if (Array.isArray(value)) {
+        query[key] = value.map((item) => String(item as string));
+    } else if (value !== undefined && value !== null) {
+        query[key] = String(value as string);
+    }
+    return query;
+};
+
+/**
+ * Registers the message patterns of `@CrudMessageController`, e.g. `{ cmd: 'user.index' }`.
+ * Each message runs the generated method with the interceptors of its route, like a request of the route,
+ * and is answered with the same `CrudResponse` or `CrudArrayResponse`.
+ */
+export class CrudMessageFactory extends CrudRouteFactory {
+    private readonly exceptionFilter = new CrudExceptionFilter();
+
+    constructor(target: any, crudOptions: CrudMessageControllerOptions) {
+        super(target, crudOptions);
+    }
+
+    /**
+     * Pattern of a method, e.g. `{ cmd: 'user.index' }`
+     */
+    pattern(crudMethod: Method): { cmd: string } {
+        const prefix = (this.crudOptions as CrudMessageControllerOptions).pattern ?? _.camelCase(this.crudOptions.entity.name);
+        return { cmd: `${prefix}.${crudMethod}` };
+    }
+
+    protected enabledMethod(crudMethod: Method): boolean {
+        return !FILE_METHODS.has(crudMethod) && super.enabledMethod(crudMethod);
+    }
+
+    protected defineRoute({ crudMethod, methodName, crudInterceptors }: CrudRouteDefinition): void {
+        const microservices = loadNestMicroservices();
+        const { target, targetPrototype: prototype, crudOptions, exceptionFilter } = this;
+        const runner = new CrudOperationRunner(target, prototype[methodName], crudInterceptors);
+
+        prototype[methodName] = async function (this: any, payload?: CrudMessagePayload) {
+            const { params, query, body, headers, user } = payload ?? {};
+            try {
+                const { response } = await runner.run(this, {
+                    params: _.mapValues(params, String),
+                    query: toQuery(query, ''),
+                    body,
+                    request: { headers, user },
+                });
+                return response;
+            } catch (error) {
+                // HTTP 예외는 CrudExceptionFilter와 같은 형식의 RPC 오류로 응답
+                throw error instanceof HttpException ? new microservices.RpcException(exceptionFilter.toErrorResponse(error)) : error;
+            }
+        };
+        Reflect.defineMetadata(PARAMTYPES_METADATA, [Object], prototype, methodName);
+
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, methodName)!;
+        for (const decorator of crudOptions.routes?.[crudMethod]?.decorators ?? []) {
+            (decorator as MethodDecorator)(prototype, methodName, descriptor);
+        }
+        microservices.MessagePattern(this.pattern(crudMethod))(prototype, methodName, descriptor);
+    }
+}
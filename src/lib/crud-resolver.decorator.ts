@@ -0,0 +1,35 @@
+/* eslint-disable @typescript-eslint/naming-convention, @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-explicit-any */
+import { CRUD_OPTIONS_METADATA } from './constants';
+import { CrudResolverFactory } from './crud-resolver.factory';
+import { buildCrudOptionsFromChaining } from './decorator/chaining.decorator';
+import { buildConditionalCrudOptions } from './decorator/conditional.decorator';
+
+import type { CrudResolverOptions } from './interface';
+
+type Constructor = new (...args: any[]) => any;
+
+/**
+ * Generates a GraphQL resolver from the same options as `@Crud`: a list query with filter, sort and page inputs,
+ * a single-item query, and create, update, delete and recover mutations. Requires `@nestjs/graphql` with a code first schema.
+ */
+export const CrudResolver =
+    (options?: CrudResolverOptions) =>
+        <T extends Constructor>(target: T) => {
+            // 옵션 병합 (우선순위: options > conditionalOptions > chainingOptions)
+            const finalOptions: CrudResolverOptions = {
+                ...buildCrudOptionsFromChaining(target),
+                ...buildConditionalCrudOptions(target),
+                ...options,
+            } as CrudResolverOptions;
+
+            if (!finalOptions.entity) {
+                throw new Error('Entity must be provided either through @CrudResolver options or @CrudEntity decorator');
+            }
+
+            Reflect.defineMetadata(CRUD_OPTIONS_METADATA, finalOptions, target);
+
+            // GraphQL은 resolver class를 그대로 등록하므로 @Crud처럼 하위 class를 만들지 않고,
+            // crudService는 operation을 실행할 때 검증
+            new CrudResolverFactory(target, finalOptions).init();
+            return target;
+        };
@@ -0,0 +1,165 @@
+/* eslint-disable @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-explicit-any */
+import { BadRequestException } from '@nestjs/common';
+import _ from 'lodash';
+
+import { CRUD_POLICY } from './crud.policy';
+import { CrudRouteFactory } from './crud.route.factory';
+import { Method } from './interface';
+import { CrudOperationRunner } from './provider/crud-operation.runner';
+import { CrudGraphqlTypes, loadNestGraphql } from './utils/crud-graphql-types';
+
+import type { CrudRouteDefinition } from './crud.route.factory';
+import type { CrudArrayResponse, CrudResolverOptions, CrudResponse, PaginationCount } from './interface';
+import type { CrudOperation } from './provider/crud-operation.runner';
+import type { CrudReadManyRequest } from './request';
+import type { CrudGraphqlFilter, CrudGraphqlPage, CrudGraphqlSort } from './utils/crud-graphql-types';
+
+/**
+ * Headers which only mean something to an HTTP route: content negotiation, conditional reads and asynchronous bulk requests
+ */
+const HTTP_ONLY_HEADERS = ['accept', 'prefer', 'if-none-match', 'if-modified-since'];
+
+/**
+ * Methods which `@CrudResolver` generates
+ */
+const RESOLVER_METHODS = new Set<Method>([Method.SHOW, Method.INDEX, Method.CREATE, Method.UPDATE, Method.DESTROY, Method.RECOVER]);
+
+interface ResolverArgument {
+    name: string;
+    type: () => any;
+    nullable?: boolean;
+}
+
+/**
+ * Generates the queries and mutations of `@CrudResolver`.
+ * Each operation runs the generated method with the interceptors of its route, like a request of the route.
+ */
+export class CrudResolverFactory extends CrudRouteFactory {
+    private readonly types: CrudGraphqlTypes;
+
+    constructor(target: any, crudOptions: CrudResolverOptions) {
+        super(target, crudOptions);
+        this.types = CrudGraphqlTypes.of(this.crudOptions as CrudResolverOptions);
+    }
+
+    init(): void {
+        super.init();
+        loadNestGraphql().Resolver(() => this.types.objectType)(this.target);
+    }
+
+    protected enabledMethod(crudMethod: Method): boolean {
+        return RESOLVER_METHODS.has(crudMethod) && super.enabledMethod(crudMethod);
+    }
+
+    protected defineRoute({ crudMethod, methodName, params, crudInterceptors }: CrudRouteDefinition): void {
+        const graphql = loadNestGraphql();
+        const { name, objectType, connectionType, createInput, updateInput, filterInput, sortInput, pageInput } = this.types;
+        const pluralName = (this.crudOptions as CrudResolverOptions).pluralName ?? `${_.camelCase(name)}s`;
+        const keyArguments: ResolverArgument[] = params.map((param) => ({ name: param, type: () => graphql.ID }));
+
+        const operation = (() => {
+            switch (crudMethod) {
+                case Method.SHOW:
+                    return { name: _.camelCase(name), arguments: keyArguments };
+                case Method.INDEX:
+                    return {
+                        name: pluralName,
+                        arguments: _.compact([
+                            filterInput && { name: 'filter', type: () => filterInput, nullable: true },
+                            { name: 'sort', type: () => [sortInput], nullable: true },
+                            { name: 'page', type: () => pageInput, nullable: true },
+                        ]),
+                    };
+                case Method.CREATE:
+                    return createInput && { name: `create${name}`, arguments: [{ name: 'input', type: () => createInput }] };
+                case Method.UPDATE:
+                    return updateInput && { name: `update${name}`, arguments: [...keyArguments, { name: 'input', type: () => updateInput }] };
+                case Method.DESTROY:
+                    return { name: `delete${name}`, arguments: keyArguments };
+                case Method.RECOVER:
+                    return { name: `recover${name}`, arguments: keyArguments };
+            }
+        })();
+        // create and update are not generated without allowedParams, since an input type needs fields
+        if (!operation) {
+            return;
+        }
+
+        const handler = this.targetPrototype[methodName];
+        const runner = new CrudOperationRunner(this.target, handler, crudInterceptors);
+        const argumentNames = operation.arguments.map((argument) => argument.name);
+        const { routes, maxPageSize } = this.crudOptions;
+        const defaultPageSize = routes?.[Method.INDEX]?.numberOfTake ?? CRUD_POLICY[Method.INDEX].default.numberOfTake;
+
+        this.targetPrototype[methodName] = async function (this: any, ...values: unknown[]) {
+            const args: Record<string, any> = _.zipObject(argumentNames, values);
+            const { req } = (values[argumentNames.length] ?? {}) as { req?: CrudOperation['request'] };
+            const request = req && { headers: _.omit(req.headers, HTTP_ONLY_HEADERS), user: req.user };
+            const body = args.input && { ...args.input };
+
+            if (crudMethod !== Method.INDEX) {
+                const { response } = await runner.run(this, { params: _.mapValues(_.pick(args, params), String), body, request });
+                return (response as CrudResponse<unknown>).data;
+            }
+
+            const page: CrudGraphqlPage | undefined = args.page;
+            if (page?.last && !page.before) {
+                throw new BadRequestException('last requires before');
+            }
+            // 한 행을 더 읽어 읽은 방향으로 다음 행이 있는지 판단하므로, 그 행이 maxPageSize에 들어가도록 줄임
+            const size = Math.min(page?.first ?? page?.last ?? defaultPageSize, maxPageSize ? maxPageSize - 1 : Infinity);
+            const { response, crudRequest } = await runner.run(this, {
+                query: CrudGraphqlTypes.toQuery(args.filter as CrudGraphqlFilter | undefined, args.sort as CrudGraphqlSort[] | undefined, page, size + 1),
+                request,
+            });
+            return CrudResolverFactory.toConnection(response as CrudArrayResponse<unknown>, crudRequest as CrudReadManyRequest<unknown>, size, page);
+        };
+
+        const prototype = this.targetPrototype;
+        Reflect.defineMetadata('design:paramtypes', [...argumentNames.map(() => Object), Object], prototype, methodName);
+        for (const [index, { name: argumentName, type, nullable }] of (operation.arguments as ResolverArgument[]).entries()) {
+            graphql.Args(argumentName, { type, nullable })(prototype, methodName, index);
+        }
+        graphql.Context()(prototype, methodName, argumentNames.length);
+
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, methodName)!;
+        const customDecorators = routes?.[crudMethod]?.decorators ?? [];
+        for (const decorator of customDecorators) {
+            (decorator as MethodDecorator)(prototype, methodName, descriptor);
+        }
+        if (crudMethod === Method.SHOW) {
+            graphql.Query(() => objectType, { name: operation.name })(prototype, methodName, descriptor);
+        } else if (crudMethod === Method.INDEX) {
+            graphql.Query(() => connectionType, { name: operation.name })(prototype, methodName, descriptor);
+        } else {
+            graphql.Mutation(() => objectType, { name: operation.name })(prototype, methodName, descriptor);
+        }
+    }
+
+    /**
+     * Connection of a page of the list route, read with one more row than `size` in the direction of the page.
+     * Each edge has the token of its row, so that `after` and `before` continue from any row.
+     */
+    private static toConnection(response: CrudArrayResponse<unknown>, crudRequest: CrudReadManyRequest<unknown>, size: number, page?: CrudGraphqlPage) {
+        const { data, metadata } = response;
+        const pagination = (metadata?.pagination ?? {}) as Record<string, any>;
+        const count: PaginationCount = _.pick(pagination, ['total', 'estimated', 'capped']);
+        const backward = Boolean(page?.before);
+        const hasMore = data.length > size;
+        // 이전 페이지는 앞쪽에, 다음 페이지는 뒤쪽에 더 읽은 행이 있음
+        const nodes = backward ? data.slice(-size) : data.slice(0, size);
+        const edges = nodes.map((node) => ({ node, cursor: crudRequest.edgeCursor(node as any, count) }));
+
+        return {
+            edges,
+            nodes,
+            pageInfo: {
+                hasNextPage: backward || hasMore,
+                hasPreviousPage: backward ? hasMore : Boolean(page?.after),
+                startCursor: edges[0]?.cursor,
+                endCursor: edges.at(-1)?.cursor,
+            },
+            totalCount: pagination.total,
+        };
+    }
+}
@@ -2,17 +2,60 @@ import { HttpStatus, RequestMethod } from '@nestjs/common';
 
 import { capitalizeFirstLetter } from './capitalize-first-letter';
 import { CreateRequestInterceptor, ReadOneRequestInterceptor } from './interceptor';
+import { AggregateRequestInterceptor } from './interceptor/aggregate-request.interceptor';
 import { DeleteRequestInterceptor } from './interceptor/delete-request.interceptor';
+import { ExportRequestInterceptor } from './interceptor/export-request.interceptor';
+import { HistoryRequestInterceptor } from './interceptor/history-request.interceptor';
+import { ImportJobRequestInterceptor } from './interceptor/import-job-request.interceptor';
+import { ImportRequestInterceptor } from './interceptor/import-request.interceptor';
+import { JobRequestInterceptor } from './interceptor/job-request.interceptor';
 import { ReadManyRequestInterceptor } from './interceptor/read-many-request.interceptor';
 import { RecoverRequestInterceptor } from './interceptor/recover-request.interceptor';
 import { UpdateRequestInterceptor } from './interceptor/update-request.interceptor';
 import { UpsertRequestInterceptor } from './interceptor/upsert-request.interceptor';
 import { Method, PaginationType, Sort } from './interface';
+import { RESPONSE_FORMAT_MEDIA_TYPES } from './utils/crud-response-formatter';
+import { EXPORT_FORMAT_MEDIA_TYPES } from './utils/export-writer';
 
 import type { NestInterceptor, Type } from '@nestjs/common';
-import type { CrudOptions, FactoryOption, PrimaryKey } from './interface';
+import type { CountStrategy, CrudOptions, ExportFormat, FactoryOption, ImportFormat, PrimaryKey } from './interface';
+
+const SSE_MEDIA_TYPE = 'text/event-stream';
+
+const JOB_SCHEMA = {
+    type: 'object',
+    properties: {
+        data: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', example: '0b9e6f4e-5d43-4a8e-9d0a-3c1f0a7f2c11' },
+                entityName: { type: 'string' },
+                method: { type: 'string', enum: [Method.CREATE, Method.UPDATE, Method.UPSERT, Method.DESTROY] },
+                status: { type: 'string', enum: ['pending', 'running', 'completed', 'failed', 'cancelled'] },
+                total: { type: 'number', example: 1000 },
+                processed: { type: 'number', example: 300 },
+                results: { type: 'array', items: { type: 'object' } },
+                errors: {
+                    type: 'array',
+                    items: { type: 'object', properties: { index: { type: 'number' }, message: { type: 'string' } } },
+                },
+                error: { type: 'string', nullable: true },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+                completedAt: { type: 'string', format: 'date-time', nullable: true },
+            },
+        },
+    },
+};
 
 type CrudMethodPolicy = {
+    [Method.AGGREGATE]: MethodPolicy<Method.AGGREGATE>;
+    [Method.EXPORT]: MethodPolicy<Method.EXPORT>;
+    [Method.IMPORT]: MethodPolicy<Method.IMPORT>;
+    [Method.IMPORT_PROGRESS]: MethodPolicy<Method.IMPORT_PROGRESS>;
+    [Method.IMPORT_REPORT]: MethodPolicy<Method.IMPORT_REPORT>;
+    [Method.JOB_SHOW]: MethodPolicy<Method.JOB_SHOW>;
+    [Method.JOB_DESTROY]: MethodPolicy<Method.JOB_DESTROY>;
     [Method.SHOW]: MethodPolicy<Method.SHOW>;
     [Method.INDEX]: MethodPolicy<Method.INDEX>;
     [Method.CREATE]: MethodPolicy<Method.CREATE>;
@@ -20,6 +63,7 @@ type CrudMethodPolicy = {
     [Method.DESTROY]: MethodPolicy<Method.DESTROY>;
     [Method.UPSERT]: MethodPolicy<Method.UPSERT>;
     [Method.RECOVER]: MethodPolicy<Method.RECOVER>;
+    [Method.HISTORY]: MethodPolicy<Method.HISTORY>;
 };
 type MethodPolicy<T extends Method> = {
     method: RequestMethod; // Method (Get, Post, Patch ...)
@@ -28,46 +72,396 @@ type MethodPolicy<T extends Method> = {
     uriParameter: (crudOptions: CrudOptions, primaryKeys?: PrimaryKey[]) => { path: string; params: string[] };
     swagger: {
         operationMetadata: (tableName: string) => { summary: string; description: string };
-        responseMetadata: (opts: { type: Type<unknown>; tableName: string; paginationType?: PaginationType }) => {
-            [key in HttpStatus]?: { description: string; type?: Type<unknown>; schema?: unknown };
+        responseMetadata: (opts: { type: Type<unknown>; tableName: string; paginationType?: PaginationType; countStrategy?: CountStrategy }) => {
+            [key in HttpStatus]?: { description: string; type?: Type<unknown>; schema?: unknown; content?: unknown };
         };
     };
-    default: T extends Method.SHOW | Method.DESTROY
-        ? DefaultOptionsReadOne
-        : T extends Method.INDEX
-          ? DefaultOptionsReadMany
-          : DefaultOptions;
+    default: T extends Method.DESTROY
+        ? DefaultOptionsReadOne & DefaultOptionsBulkFilter
+        : T extends Method.SHOW | Method.AGGREGATE
+          ? DefaultOptionsReadOne
+          : T extends Method.INDEX
+            ? DefaultOptionsReadMany
+            : T extends Method.UPDATE
+              ? DefaultOptionsBulkFilter
+              : T extends Method.HISTORY
+                ? DefaultOptionsHistory
+                : T extends Method.EXPORT
+                  ? DefaultOptionsExport
+                  : T extends Method.IMPORT
+                    ? DefaultOptionsImport
+                    : DefaultOptions;
 };
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface DefaultOptions {}
 interface DefaultOptionsReadOne extends DefaultOptions {
     softDeleted: boolean;
 }
+interface DefaultOptionsBulkFilter extends DefaultOptions {
+    bulkFilter: {
+        maxRows: number;
+        sampleSize: number;
+    };
+}
+interface DefaultOptionsHistory extends DefaultOptions {
+    numberOfTake: number;
+}
+interface DefaultOptionsExport extends DefaultOptionsReadOne {
+    formats: ExportFormat[];
+    chunkSize: number;
+}
+interface DefaultOptionsImport extends DefaultOptions {
+    formats: ImportFormat[];
+    batchSize: number | 'auto';
+    maxFileSize: number;
+}
 interface DefaultOptionsReadMany extends DefaultOptionsReadOne {
     paginationType: PaginationType;
     numberOfTake: number;
     sort: Sort;
+    countStrategy: CountStrategy;
 }
 
-const metaProperties = (paginationType: PaginationType) =>
+/**
+ * Count properties of the pagination metadata by the countStrategy of the route
+ */
+const countProperties = (paginationType: PaginationType, countStrategy: CountStrategy = 'exact') => {
+    if (countStrategy === 'none') {
+        return { hasNextPage: { type: 'boolean', example: true } };
+    }
+    return {
+        total: { type: 'number', example: 100 },
+        ...(paginationType === PaginationType.OFFSET ? { pages: { type: 'number', example: 1 } } : { totalPages: { type: 'number', example: 5 } }),
+        ...(countStrategy === 'estimate' && { estimated: { type: 'boolean', example: true, description: 'total is taken from table statistics' } }),
+        ...(countStrategy.startsWith('capped:') && { capped: { type: 'boolean', example: false, description: 'total reached the cap' } }),
+    };
+};
+
+const metaProperties = (paginationType: PaginationType, countStrategy?: CountStrategy) =>
     paginationType === PaginationType.OFFSET
         ? {
               page: { type: 'number', example: 1 },
-              pages: { type: 'number', example: 1 },
-              total: { type: 'number', example: 100 },
+              ...countProperties(paginationType, countStrategy),
               offset: { type: 'number', example: 20 },
               nextCursor: { type: 'string', example: 'cursorToken' },
           }
         : {
-              total: { type: 'number', example: 100 },
-              totalPages: { type: 'number', example: 5 },
+              ...countProperties(paginationType, countStrategy),
               limit: { type: 'number', example: 20 },
               nextCursor: { type: 'string', example: 'cursorToken' },
+              prevCursor: { type: 'string', example: 'cursorToken' },
           };
+
+const linksSchema = (names: string[]) => ({
+    type: 'object',
+    properties: Object.fromEntries(names.map((name) => [name, { type: 'string', example: '/resource?page[number]=1' }])),
+});
+
+/* eslint-disable @typescript-eslint/naming-convention */
+/**
+ * Response of the show and index routes in each format, chosen by the `Accept` header or the `format` query
+ */
+const formattedContent = (opts: { type: Type<unknown>; tableName: string; schema: unknown; isArray: boolean; metadata?: unknown }) => {
+    const entity = { $ref: `#/components/schemas/${opts.type.name}` };
+    const resource = {
+        type: 'object',
+        properties: {
+            type: { type: 'string', example: opts.tableName },
+            id: { type: 'string', example: '1' },
+            attributes: entity,
+            relationships: { type: 'object', description: 'Included relations' },
+        },
+    };
+    const halLinks = { type: 'object', properties: { self: { type: 'object', properties: { href: { type: 'string' } } } } };
+
+    return {
+        [RESPONSE_FORMAT_MEDIA_TYPES.default]: { schema: opts.schema },
+        [RESPONSE_FORMAT_MEDIA_TYPES['json-api']]: {
+            schema: {
+                type: 'object',
+                properties: {
+                    data: opts.isArray ? { type: 'array', items: resource } : resource,
+                    included: { type: 'array', items: { type: 'object' }, description: 'Resources of the included relations' },
+                    meta: opts.metadata ?? { type: 'object' },
+                    links: linksSchema(opts.isArray ? ['self', 'first', 'prev', 'next', 'last'] : ['self']),
+                },
+            },
+        },
+        [RESPONSE_FORMAT_MEDIA_TYPES.hal]: {
+            schema: opts.isArray
+                ? {
+                      type: 'object',
+                      properties: {
+                          _embedded: {
+                              type: 'object',
+                              properties: { [opts.tableName]: { type: 'array', items: { allOf: [entity, { properties: { _links: halLinks } }] } } },
+                          },
+                          _links: halLinks,
+                          _meta: opts.metadata ?? { type: 'object' },
+                      },
+                  }
+                : { allOf: [entity, { properties: { _links: halLinks, _embedded: { type: 'object', description: 'Included relations' } } }] },
+        },
+        [RESPONSE_FORMAT_MEDIA_TYPES.odata]: {
+            schema: opts.isArray
+                ? {
+                      type: 'object',
+                      properties: {
+                          '@odata.context': { type: 'string', example: `$metadata#${opts.tableName}` },
+                          '@odata.count': { type: 'number', example: 100 },
+                          '@odata.nextLink': { type: 'string' },
+                          value: { type: 'array', items: entity },
+                      },
+                  }
+                : { allOf: [{ properties: { '@odata.context': { type: 'string', example: `$metadata#${opts.tableName}/$entity` } } }, entity] },
+        },
+    };
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
 /**
  * Basic Policy by method
  */
 export const CRUD_POLICY: CrudMethodPolicy = {
+    [Method.AGGREGATE]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => AggregateRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: () => ({
+            path: '/aggregate',
+            params: [],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `aggregate '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Count, sum, avg, min and max of entities in '${capitalizeFirstLetter(tableName)}' Table grouped by columns`,
+            }),
+            responseMetadata: ({ tableName }) => {
+                const values = { type: 'object', additionalProperties: { oneOf: [{ type: 'number' }, { type: 'string' }], nullable: true } };
+                return {
+                    [HttpStatus.OK]: {
+                        description: `Aggregate entities from ${capitalizeFirstLetter(tableName)} table`,
+                        schema: {
+                            properties: {
+                                data: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            group: { type: 'object', example: { status: 'active' } },
+                                            count: values,
+                                            sum: { ...values, example: { price: 120 } },
+                                            avg: values,
+                                            min: values,
+                                            max: values,
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    [HttpStatus.UNPROCESSABLE_ENTITY]: {
+                        description: 'Invalid query',
+                    },
+                };
+            },
+        },
+        default: {
+            softDeleted: false,
+        },
+    },
+    [Method.EXPORT]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => ExportRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: () => ({
+            path: '/export',
+            params: [],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `export '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Stream entities of '${capitalizeFirstLetter(tableName)}' Table as a CSV, NDJSON or XLSX file`,
+            }),
+            responseMetadata: ({ tableName }) => ({
+                [HttpStatus.OK]: {
+                    description: `Export entities from ${capitalizeFirstLetter(tableName)} table`,
+                    content: Object.fromEntries(
+                        Object.values(EXPORT_FORMAT_MEDIA_TYPES).map((mediaType) => [mediaType, { schema: { type: 'string', format: 'binary' } }]),
+                    ),
+                },
+                [HttpStatus.NOT_ACCEPTABLE]: {
+                    description: 'Unknown export format',
+                },
+                [HttpStatus.UNPROCESSABLE_ENTITY]: {
+                    description: 'Invalid query',
+                },
+            }),
+        },
+        default: {
+            softDeleted: false,
+            formats: ['csv', 'ndjson', 'xlsx'],
+            chunkSize: 1000,
+        },
+    },
+    [Method.IMPORT]: {
+        method: RequestMethod.POST,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => ImportRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: () => ({
+            path: '/import',
+            params: [],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `import to '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Validate the rows of a CSV or NDJSON file and save the valid ones to '${capitalizeFirstLetter(tableName)}' Table in the background`,
+            }),
+            responseMetadata: () => ({
+                [HttpStatus.ACCEPTED]: {
+                    description: 'Import job started',
+                    schema: {
+                        properties: {
+                            data: {
+                                type: 'object',
+                                properties: {
+                                    jobId: { type: 'string', example: 'b3d9c1d0-5d0e-4f5e-9f4a-1c2b3d4e5f60' },
+                                    status: { type: 'string', example: 'pending' },
+                                    format: { type: 'string', example: 'csv' },
+                                    total: { type: 'number', example: 100 },
+                                    accepted: { type: 'number', example: 98 },
+                                    rejected: { type: 'number', example: 2 },
+                                    links: {
+                                        type: 'object',
+                                        properties: { progress: { type: 'string' }, errors: { type: 'string' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                [HttpStatus.BAD_REQUEST]: {
+                    description: 'File is missing',
+                },
+                [HttpStatus.PAYLOAD_TOO_LARGE]: {
+                    description: 'File is larger than maxFileSize',
+                },
+                [HttpStatus.UNSUPPORTED_MEDIA_TYPE]: {
+                    description: 'Unknown import format',
+                },
+                [HttpStatus.UNPROCESSABLE_ENTITY]: {
+                    description: 'File cannot be read',
+                },
+            }),
+        },
+        default: {
+            formats: ['csv', 'ndjson'],
+            batchSize: 'auto',
+            maxFileSize: 10 * 1024 * 1024,
+        },
+    },
+    [Method.IMPORT_PROGRESS]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) =>
+            ImportJobRequestInterceptor(crudOptions, factoryOption, Method.IMPORT_PROGRESS),
+        uriParameter: () => ({
+            path: '/import/:jobId',
+            params: ['jobId'],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `progress of an import to '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Stream the progress of an import job of '${capitalizeFirstLetter(tableName)}' Table as server-sent events`,
+            }),
+            responseMetadata: () => ({
+                [HttpStatus.OK]: {
+                    description: 'Progress events until the job is completed or failed',
+                    content: { [SSE_MEDIA_TYPE]: { schema: { type: 'string' } } },
+                },
+                [HttpStatus.NOT_FOUND]: {
+                    description: 'Not found import job',
+                },
+            }),
+        },
+        default: {},
+    },
+    [Method.IMPORT_REPORT]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) =>
+            ImportJobRequestInterceptor(crudOptions, factoryOption, Method.IMPORT_REPORT),
+        uriParameter: () => ({
+            path: '/import/:jobId/errors',
+            params: ['jobId'],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `rejected rows of an import to '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Download the rejected rows of an import job of '${capitalizeFirstLetter(tableName)}' Table with their errors as a CSV file`,
+            }),
+            responseMetadata: () => ({
+                [HttpStatus.OK]: {
+                    description: 'Rejected rows with the line of the file and the errors',
+                    content: { [EXPORT_FORMAT_MEDIA_TYPES.csv]: { schema: { type: 'string', format: 'binary' } } },
+                },
+                [HttpStatus.NOT_FOUND]: {
+                    description: 'Not found import job',
+                },
+            }),
+        },
+        default: {},
+    },
+    [Method.JOB_SHOW]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => JobRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: () => ({
+            path: '/jobs/:jobId',
+            params: ['jobId'],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `job of a bulk request to '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Fetch the status, the results and the errors of a background job of '${capitalizeFirstLetter(tableName)}' Table`,
+            }),
+            responseMetadata: () => ({
+                [HttpStatus.OK]: {
+                    description: 'Job with the results and the errors of the processed items',
+                    schema: JOB_SCHEMA,
+                },
+                [HttpStatus.NOT_FOUND]: {
+                    description: 'Not found job',
+                },
+            }),
+        },
+        default: {},
+    },
+    [Method.JOB_DESTROY]: {
+        method: RequestMethod.DELETE,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => JobRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: () => ({
+            path: '/jobs/:jobId',
+            params: ['jobId'],
+        }),
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `remove a job of a bulk request to '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Remove a background job of '${capitalizeFirstLetter(tableName)}' Table, a running job stops after its current batch`,
+            }),
+            responseMetadata: () => ({
+                [HttpStatus.OK]: {
+                    description: 'Removed job, cancelled if it was not finished',
+                    schema: JOB_SCHEMA,
+                },
+                [HttpStatus.NOT_FOUND]: {
+                    description: 'Not found job',
+                },
+            }),
+        },
+        default: {},
+    },
     [Method.SHOW]: {
         method: RequestMethod.GET,
         useBody: false,
@@ -84,7 +478,10 @@ export const CRUD_POLICY: CrudMethodPolicy = {
             responseMetadata: ({ type, tableName }) => ({
                 [HttpStatus.OK]: {
                     description: `Fetch one entity from ${capitalizeFirstLetter(tableName)} table`,
-                    type,
+                    content: formattedContent({ type, tableName, schema: { $ref: `#/components/schemas/${type.name}` }, isArray: false }),
+                },
+                [HttpStatus.NOT_ACCEPTABLE]: {
+                    description: 'Unknown response format',
                 },
                 [HttpStatus.UNPROCESSABLE_ENTITY]: {
                     description: 'Invalid field',
@@ -112,28 +509,38 @@ export const CRUD_POLICY: CrudMethodPolicy = {
                 summary: `index many from '${capitalizeFirstLetter(tableName)}' Table`,
                 description: `Fetch multiple entities in '${capitalizeFirstLetter(tableName)}' Table`,
             }),
-            responseMetadata: ({ type, tableName, paginationType }) => {
+            responseMetadata: ({ type, tableName, paginationType, countStrategy }) => {
+                const metadata = paginationType && {
+                    type: 'object',
+                    properties: metaProperties(paginationType, countStrategy),
+                };
                 return {
                     [HttpStatus.OK]: {
                         description: `Fetch many entities from ${capitalizeFirstLetter(tableName)} table`,
-                        schema: {
-                            allOf: [
-                                {
-                                    properties: {
-                                        data: {
-                                            type: 'array',
-                                            items: {
-                                                $ref: `#/components/schemas/${type.name}`,
+                        content: formattedContent({
+                            type,
+                            tableName,
+                            schema: {
+                                allOf: [
+                                    {
+                                        properties: {
+                                            data: {
+                                                type: 'array',
+                                                items: {
+                                                    $ref: `#/components/schemas/${type.name}`,
+                                                },
                                             },
-                                        },
-                                        metadata: paginationType && {
-                                            type: 'object',
-                                            properties: metaProperties(paginationType),
+                                            metadata,
                                         },
                                     },
-                                },
-                            ],
-                        },
+                                ],
+                            },
+                            isArray: true,
+                            metadata,
+                        }),
+                    },
+                    [HttpStatus.NOT_ACCEPTABLE]: {
+                        description: 'Unknown response format',
                     },
                     [HttpStatus.UNPROCESSABLE_ENTITY]: {
                         description: 'Invalid query',
@@ -146,6 +553,7 @@ export const CRUD_POLICY: CrudMethodPolicy = {
             numberOfTake: 20,
             sort: Sort.DESC,
             softDeleted: false,
+            countStrategy: 'exact',
         },
     },
     [Method.CREATE]: {
@@ -227,7 +635,12 @@ export const CRUD_POLICY: CrudMethodPolicy = {
                 },
             }),
         },
-        default: {},
+        default: {
+            bulkFilter: {
+                maxRows: 1000,
+                sampleSize: 10,
+            },
+        },
     },
     [Method.DESTROY]: {
         method: RequestMethod.DELETE,
@@ -260,6 +673,10 @@ export const CRUD_POLICY: CrudMethodPolicy = {
         },
         default: {
             softDeleted: false,
+            bulkFilter: {
+                maxRows: 1000,
+                sampleSize: 10,
+            },
         },
     },
     [Method.RECOVER]: {
@@ -293,4 +710,62 @@ export const CRUD_POLICY: CrudMethodPolicy = {
         },
         default: {},
     },
+    [Method.HISTORY]: {
+        method: RequestMethod.GET,
+        useBody: false,
+        interceptor: (crudOptions: CrudOptions, factoryOption: FactoryOption) => HistoryRequestInterceptor(crudOptions, factoryOption),
+        uriParameter: (crudOptions: CrudOptions, primaryKeys?: PrimaryKey[]) => {
+            const params = primaryKeys ? primaryKeys.map(({ name }) => name) : crudOptions.routes?.[Method.SHOW]?.params ?? ['id'];
+            return {
+                path: params
+                    .map((param) => `/:${param}`)
+                    .join('')
+                    .concat('/history'),
+                params,
+            };
+        },
+        swagger: {
+            operationMetadata: (tableName: string) => ({
+                summary: `history of one from '${capitalizeFirstLetter(tableName)}' Table`,
+                description: `Fetch the audit records of one entity in '${capitalizeFirstLetter(tableName)}' Table, newest first`,
+            }),
+            responseMetadata: ({ tableName }) => ({
+                [HttpStatus.OK]: {
+                    description: `Fetch audit records of an entity from ${capitalizeFirstLetter(tableName)} table`,
+                    schema: {
+                        properties: {
+                            data: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        id: { type: 'number', example: 1 },
+                                        entityName: { type: 'string', example: tableName },
+                                        entityId: { type: 'string', example: '1' },
+                                        operation: { type: 'string', example: 'update' },
+                                        actor: { type: 'string', nullable: true, example: '42' },
+                                        changes: {
+                                            type: 'array',
+                                            items: { type: 'object', example: { field: 'name', before: 'old', after: 'new' } },
+                                        },
+                                        createdAt: { type: 'string', format: 'date-time' },
+                                    },
+                                },
+                            },
+                            metadata: {
+                                type: 'object',
+                                properties: metaProperties(PaginationType.OFFSET),
+                            },
+                        },
+                    },
+                },
+                [HttpStatus.NOT_FOUND]: {
+                    description: 'Not found entity',
+                },
+            }),
+        },
+        default: {
+            numberOfTake: 20,
+        },
+    },
 };
@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/explicit-module-boundary-types, @typescript-eslint/no-explicit-any */
-import { HttpStatus as _HttpStatus, UnprocessableEntityException } from '@nestjs/common';
+import { HttpStatus, UnprocessableEntityException } from '@nestjs/common';
 import {
     CUSTOM_ROUTE_ARGS_METADATA,
-    HTTP_CODE_METADATA as _HTTP_CODE_METADATA,
+    HTTP_CODE_METADATA,
     INTERCEPTORS_METADATA,
     METHOD_METADATA,
     PARAMTYPES_METADATA,
     PATH_METADATA,
     ROUTE_ARGS_METADATA,
 } from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
 import { DECORATORS } from '@nestjs/swagger/dist/constants';
 import { getMetadataArgsStorage, DefaultNamingStrategy } from 'typeorm';
 import { MetadataUtils } from 'typeorm/metadata-builder/MetadataUtils';
@@ -16,25 +17,36 @@ import { MetadataUtils } from 'typeorm/metadata-builder/MetadataUtils';
 import { capitalizeFirstLetter } from './capitalize-first-letter';
 import { CRUD_ROUTE_ARGS } from './constants';
 import { CRUD_POLICY } from './crud.policy';
-import { CreateRequestDto, getPropertyNamesFromMetadata } from './dto/request.dto';
+import { CreateRequestDto } from './dto/request.dto';
 import { getLifecycleHooks, LifecycleHookMetadata } from './dto/lifecycle-hooks.decorator';
 import { buildCrudOptionsFromChaining } from './decorator/chaining.decorator';
 import { buildConditionalCrudOptions } from './decorator/conditional.decorator';
-import { Method, PaginationType, PAGINATION_SWAGGER_QUERY } from './interface';
+import { ImportFileInterceptor } from './interceptor/import-file.interceptor';
+import { FilterOperator, Method, PaginationType, PAGINATION_SWAGGER_QUERY } from './interface';
 import { CrudLogger } from './provider/crud-logger';
+import { columnValueTypes, FLAG_FILTER_OPERATORS, LIST_FILTER_OPERATORS, TEXT_FILTER_OPERATORS } from './utils/column-value-type.util';
+import { RESPONSE_FORMAT_MEDIA_TYPES } from './utils/crud-response-formatter';
 
 import type {
     Column,
+    CrudAggregateRequest,
     CrudCreateRequest,
     CrudCreateManyRequest,
     CrudDeleteOneRequest,
     CrudDeleteManyRequest,
+    CrudDeleteByFilterRequest,
+    CrudExportRequest,
+    CrudHistoryRequest,
+    CrudImportJobRequest,
+    CrudImportRequest,
+    CrudJobRequest,
     CrudOptions,
     CrudReadOneRequest,
     CrudRecoverRequest,
     CrudRecoverManyRequest,
     CrudUpdateOneRequest,
     CrudUpdateManyRequest,
+    CrudUpdateByFilterRequest,
     CrudUpsertRequest,
     CrudUpsertManyRequest,
     FactoryOption,
@@ -42,7 +54,9 @@ import type {
     EntityType,
 } from './interface';
 import type { CrudReadManyRequest } from './request';
-import type { ExecutionContext, Type } from '@nestjs/common';
+import type { ColumnValueType } from './utils/column-value-type.util';
+import type { CrudHttpResponse } from './utils/http-platform';
+import type { ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
 
 type ParameterDecorators =
     | {
@@ -53,6 +67,7 @@ type ParameterDecorators =
         items?: { type: string };
         type: unknown;
         isArray?: boolean;
+        enum?: string[];
     }
     | {
         name?: any;
@@ -60,6 +75,8 @@ type ParameterDecorators =
         required: boolean;
         in: string;
         type: unknown;
+        style?: 'form' | 'deepObject';
+        explode?: boolean;
         schema: {
             [type: string]: unknown;
         };
@@ -68,6 +85,68 @@ type ParameterDecorators =
         };
     };
 
+/**
+ * OpenAPI schema of the values of a column
+ */
+const columnSchema = (type?: ColumnValueType): { type: string; format?: string } => {
+    switch (type) {
+        case 'integer':
+        case 'number':
+        case 'boolean':
+            return { type };
+        case 'date':
+            return { type: 'string', format: 'date-time' };
+        default:
+            return { type: 'string' };
+    }
+};
+
+/**
+ * OpenAPI schema of the value of a filter operator on a column
+ */
+const filterOperandSchema = (operator: FilterOperator, type?: ColumnValueType): { type: string; format?: string; description?: string } => {
+    if (FLAG_FILTER_OPERATORS.has(operator)) {
+        return { type: 'boolean' };
+    }
+    if (TEXT_FILTER_OPERATORS.has(operator)) {
+        return { type: 'string' };
+    }
+    if (LIST_FILTER_OPERATORS.has(operator)) {
+        const values = `${type === 'date' ? 'date-time' : type ?? 'string'} values`;
+        return { type: 'string', description: operator === FilterOperator.BETWEEN ? `Two ${values}, comma separated` : `Comma separated ${values}` };
+    }
+    return columnSchema(type);
+};
+
+/**
+ * OpenAPI schema of an error response of `CrudExceptionFilter`
+ */
+const errorSchema = (statusCode: number) => ({
+    type: 'object',
+    required: ['statusCode', 'message'],
+    properties: {
+        statusCode: { type: 'integer', example: statusCode },
+        message: {
+            type: 'array',
+            items: { oneOf: [{ type: 'string' }, { type: 'object', description: 'ValidationError of class-validator' }] },
+        },
+    },
+});
+
+/**
+ * Generated method of a CRUD method, and what its route needs
+ */
+export interface CrudRouteDefinition {
+    crudMethod: Method;
+    /** name of the generated method on the target, e.g. `reservedIndex` */
+    methodName: string;
+    path: string;
+    params: string[];
+    paginationType?: PaginationType;
+    /** interceptors of the method which parse the request into the argument of the generated method and shape its response */
+    crudInterceptors: Array<Type<NestInterceptor>>;
+}
+
 export class CrudRouteFactory {
     private crudLogger: CrudLogger;
     private entity: {
@@ -75,6 +154,8 @@ export class CrudRouteFactory {
         relations?: string[];
         primaryKeys?: PrimaryKey[];
         columns?: Column[];
+        versionColumn?: string;
+        updateDateColumn?: string;
     } = {
             tableName: '',
         };
@@ -252,6 +333,9 @@ export class CrudRouteFactory {
         }));
 
         this.entity.columns = entityColumns;
+        this.entity.versionColumn = (columnList.find(({ mode }) => mode === 'version') ?? columnList.find(({ mode }) => mode === 'updateDate'))
+            ?.propertyName;
+        this.entity.updateDateColumn = columnList.find(({ mode }) => mode === 'updateDate')?.propertyName;
 
         const primaryKeys = entityColumns.filter(({ isPrimary }) => isPrimary);
         if (!(primaryKeys.length === 1 && primaryKeys[0].name === 'id')) {
@@ -286,12 +370,57 @@ export class CrudRouteFactory {
 
 
 
+    protected aggregate<T>(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleAggregate(crudAggregateRequest: CrudAggregateRequest<T>) {
+            return this.crudService.handleAggregate(crudAggregateRequest);
+        };
+    }
+
+    protected export<T>(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleExport(crudExportRequest: CrudExportRequest<T>) {
+            return this.crudService.handleExport(crudExportRequest);
+        };
+    }
+
+    protected import<T>(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleImport(crudImportRequest: CrudImportRequest<T>) {
+            return this.crudService.handleImport(crudImportRequest);
+        };
+    }
+
+    protected importProgress(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleImportProgress(crudImportJobRequest: CrudImportJobRequest, response: CrudHttpResponse) {
+            return this.crudService.handleImportProgress(crudImportJobRequest, response);
+        };
+    }
+
+    protected importReport(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleImportReport(crudImportJobRequest: CrudImportJobRequest) {
+            return this.crudService.handleImportReport(crudImportJobRequest);
+        };
+    }
+
+    protected jobShow(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleJobShow(crudJobRequest: CrudJobRequest) {
+            return this.crudService.handleJobShow(crudJobRequest);
+        };
+    }
+
+    protected jobDestroy(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleJobDestroy(crudJobRequest: CrudJobRequest) {
+            return this.crudService.handleJobDestroy(crudJobRequest);
+        };
+    }
+
     protected create<T>(controllerMethodName: string): void {
         this.targetPrototype[controllerMethodName] = function handleCreate(crudCreateRequest: CrudCreateRequest<T>) {
             // Set controller instance for hooks
             if (this.crudService.setControllerInstance) {
                 this.crudService.setControllerInstance(this);
             }
+            if (crudCreateRequest.job) {
+                return this.crudService.handleJob(Method.CREATE, crudCreateRequest as CrudCreateManyRequest<T>);
+            }
             return this.crudService.handleCreate(crudCreateRequest);
         };
     }
@@ -302,22 +431,31 @@ export class CrudRouteFactory {
             if (this.crudService.setControllerInstance) {
                 this.crudService.setControllerInstance(this);
             }
+            if (crudUpsertRequest.job) {
+                return this.crudService.handleJob(Method.UPSERT, crudUpsertRequest as CrudUpsertManyRequest<T>);
+            }
             return this.crudService.handleUpsert(crudUpsertRequest);
         };
     }
 
     protected update<T>(controllerMethodName: string): void {
-        this.targetPrototype[controllerMethodName] = function handleUpdate(crudUpdateRequest: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>) {
+        this.targetPrototype[controllerMethodName] = function handleUpdate(crudUpdateRequest: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T> | CrudUpdateByFilterRequest<T>) {
             // Set controller instance for hooks
             if (this.crudService.setControllerInstance) {
                 this.crudService.setControllerInstance(this);
             }
+            if (crudUpdateRequest.job) {
+                return this.crudService.handleJob(Method.UPDATE, crudUpdateRequest as CrudUpdateManyRequest<T>);
+            }
             return this.crudService.handleUpdate(crudUpdateRequest);
         };
     }
 
     protected destroy<T>(controllerMethodName: string): void {
-        this.targetPrototype[controllerMethodName] = function handleDestroy(crudDeleteRequest: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>) {
+        this.targetPrototype[controllerMethodName] = function handleDestroy(crudDeleteRequest: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T> | CrudDeleteByFilterRequest<T>) {
+            if (crudDeleteRequest.job) {
+                return this.crudService.handleJob(Method.DESTROY, crudDeleteRequest as CrudDeleteManyRequest<T>);
+            }
             return this.crudService.handleDestroy(crudDeleteRequest);
         };
     }
@@ -328,7 +466,54 @@ export class CrudRouteFactory {
         };
     }
 
+    protected history<T>(controllerMethodName: string): void {
+        this.targetPrototype[controllerMethodName] = function handleHistory(crudHistoryRequest: CrudHistoryRequest<T>) {
+            return this.crudService.handleHistory(crudHistoryRequest);
+        };
+    }
+
     private createMethod(crudMethod: Method): void {
+        if (crudMethod === Method.AGGREGATE) {
+            // aggregate route is opt-in
+            const enableAggregate = Boolean(this.crudOptions.routes?.[Method.AGGREGATE]) || Boolean(this.crudOptions.only?.includes(Method.AGGREGATE));
+            if (!enableAggregate) {
+                return;
+            }
+        }
+
+        if (crudMethod === Method.EXPORT) {
+            // export route is opt-in
+            const enableExport = Boolean(this.crudOptions.routes?.[Method.EXPORT]) || Boolean(this.crudOptions.only?.includes(Method.EXPORT));
+            if (!enableExport) {
+                return;
+            }
+            this.validateExportColumns(this.crudOptions.routes?.[Method.EXPORT]?.columns);
+        }
+
+        if (crudMethod === Method.IMPORT || crudMethod === Method.IMPORT_PROGRESS || crudMethod === Method.IMPORT_REPORT) {
+            // import routes are opt-in, the progress and report routes come with the import route
+            const enableImport = Boolean(this.crudOptions.routes?.[Method.IMPORT]) || Boolean(this.crudOptions.only?.includes(Method.IMPORT));
+            if (!enableImport) {
+                return;
+            }
+        }
+
+        if ((crudMethod === Method.JOB_SHOW || crudMethod === Method.JOB_DESTROY) && !this.crudOptions.jobs) {
+            // job routes are generated with the jobs option
+            return;
+        }
+
+        if (crudMethod === Method.HISTORY) {
+            // history route is opt-in and reads the audit table
+            const enableHistory = Boolean(this.crudOptions.routes?.[Method.HISTORY]) || Boolean(this.crudOptions.only?.includes(Method.HISTORY));
+            if (!enableHistory) {
+                return;
+            }
+            if (!this.crudOptions.audit?.entity) {
+                throw new Error('history route requires audit.entity');
+            }
+        }
+
         if (crudMethod === Method.RECOVER) {
             const enableRecover = this.crudOptions.routes?.[Method.DESTROY]?.softDelete ?? CRUD_POLICY[Method.DESTROY].default.softDeleted;
             if (!enableRecover) {
@@ -337,19 +522,22 @@ export class CrudRouteFactory {
         }
 
         const methodName = this.writeMethodOnController(crudMethod);
-
-        const targetMethod = this.targetPrototype[methodName];
         const { path, params } = CRUD_POLICY[crudMethod].uriParameter(this.crudOptions, this.entity.primaryKeys);
-        const methodNameOnController = this.controllerMethodName(crudMethod);
         const factoryOption: FactoryOption = {
             columns: this.entity.columns,
             relations: this.entity.relations ?? [],
             primaryKeys: this.entity.primaryKeys ?? [{ name: 'id', type: 'number' }],
+            tableName: this.tableName,
+            versionColumn: this.entity.versionColumn,
+            updateDateColumn: this.entity.updateDateColumn,
             logger: this.crudLogger,
         };
 
         const needPagination = crudMethod === Method.INDEX;
         const paginationType = (() => {
+            if (crudMethod === Method.HISTORY) {
+                return PaginationType.OFFSET;
+            }
             if (!needPagination) {
                 return undefined;
             }
@@ -370,20 +558,35 @@ export class CrudRouteFactory {
         }
 
         // Add ExcludeFieldsInterceptor if there are fields to exclude
-        const hasExcludeFields = (this.crudOptions.exclude?.length ?? 0) > 0 || 
-                                 ((this.crudOptions.routes?.[crudMethod] as any)?.exclude?.length ?? 0) > 0;
-        
-        const interceptors = [
-            ...(this.crudOptions.routes?.[crudMethod]?.interceptors ?? []),
-            CRUD_POLICY[crudMethod].interceptor(this.crudOptions, factoryOption),
-        ];
+        // (the export route leaves excluded columns out of the file itself)
+        const hasExcludeFields = crudMethod !== Method.EXPORT && ((this.crudOptions.exclude?.length ?? 0) > 0 || 
+                                 ((this.crudOptions.routes?.[crudMethod] as any)?.exclude?.length ?? 0) > 0);
+
+        const crudInterceptors: Array<Type<NestInterceptor>> = [CRUD_POLICY[crudMethod].interceptor(this.crudOptions, factoryOption)];
 
         // Add ExcludeFieldsInterceptor at the end to process the final response
         if (hasExcludeFields) {
             const { ExcludeFieldsInterceptor } = require('./interceptor/exclude-fields.interceptor');
-            interceptors.push(ExcludeFieldsInterceptor);
+            crudInterceptors.push(ExcludeFieldsInterceptor);
         }
 
+        this.defineRoute({ crudMethod, methodName, path, params, paginationType, crudInterceptors });
+    }
+
+    /**
+     * Defines the generated method of a CRUD method as an HTTP route.
+     * Other transports, e.g. GraphQL, override it and run the same `crudInterceptors` on their own requests.
+     */
+    protected defineRoute({ crudMethod, methodName, path, params, paginationType, crudInterceptors }: CrudRouteDefinition): void {
+        const targetMethod = this.targetPrototype[methodName];
+        const interceptors = [
+            // the uploaded file is read into memory before any other interceptor sees the request
+            crudMethod === Method.IMPORT &&
+                ImportFileInterceptor(this.crudOptions.routes?.[Method.IMPORT]?.maxFileSize ?? CRUD_POLICY[Method.IMPORT].default.maxFileSize),
+            ...(this.crudOptions.routes?.[crudMethod]?.interceptors ?? []),
+            ...crudInterceptors,
+        ];
+
         Reflect.defineMetadata(
             INTERCEPTORS_METADATA,
             interceptors.filter(Boolean),
@@ -393,19 +596,30 @@ export class CrudRouteFactory {
         this.applySwaggerDecorator(crudMethod, params, targetMethod, paginationType);
 
         const requestArg = this.createCrudRouteArg();
-        Reflect.defineMetadata(ROUTE_ARGS_METADATA, requestArg, this.target, methodNameOnController);
-        Reflect.defineMetadata(PARAMTYPES_METADATA, [Object], this.targetPrototype, methodNameOnController);
-
-
+        if (crudMethod === Method.IMPORT_PROGRESS) {
+            // the progress is written to the response as server-sent events, so Nest must not send a response
+            Object.assign(requestArg, { [`${RouteParamtypes.RESPONSE}:1`]: { index: 1, data: undefined, pipes: [] } });
+        }
+        Reflect.defineMetadata(ROUTE_ARGS_METADATA, requestArg, this.target, methodName);
+        Reflect.defineMetadata(
+            PARAMTYPES_METADATA,
+            crudMethod === Method.IMPORT_PROGRESS ? [Object, Object] : [Object],
+            this.targetPrototype,
+            methodName,
+        );
+        if (crudMethod === Method.IMPORT) {
+            // the rows are saved by a job after the response
+            Reflect.defineMetadata(HTTP_CODE_METADATA, HttpStatus.ACCEPTED, targetMethod);
+        }
 
         const customDecorators = this.crudOptions.routes?.[crudMethod]?.decorators ?? [];
 
         if (customDecorators.length > 0) {
             for (const decorator of customDecorators) {
-                const descriptor = Reflect.getOwnPropertyDescriptor(targetMethod, methodNameOnController);
+                const descriptor = Reflect.getOwnPropertyDescriptor(targetMethod, methodName);
                 (decorator as MethodDecorator | PropertyDecorator)(
                     targetMethod,
-                    methodNameOnController,
+                    methodName,
                     descriptor ?? { value: targetMethod },
                 );
             }
@@ -427,6 +641,14 @@ export class CrudRouteFactory {
         }
     }
 
+    private validateExportColumns(columns: string[] | undefined) {
+        for (const column of columns ?? []) {
+            if (!this.entity.columns?.some(({ name }) => name === column)) {
+                throw new UnprocessableEntityException(`export column ${column} is unknown`);
+            }
+        }
+    }
+
     private applySwaggerDecorator(method: Method, params: string[], target: Record<string, unknown>, paginationType?: PaginationType) {
         if (this.crudOptions.routes?.[method]?.swagger?.hide) {
             Reflect.defineMetadata(DECORATORS.API_EXCLUDE_ENDPOINT, { disable: true }, target);
@@ -446,17 +668,22 @@ export class CrudRouteFactory {
         }
         const swaggerResponse = this.crudOptions.routes?.[method]?.swagger?.response ?? (this.crudOptions.entity as Type<EntityType>);
 
-        Reflect.defineMetadata(
-            DECORATORS.API_RESPONSE,
-            CRUD_POLICY[method].swagger.responseMetadata({
-                type: swaggerResponse,
-                tableName: this.tableName,
-                paginationType: paginationType,
-            }),
-            target,
-        );
+        const responses = CRUD_POLICY[method].swagger.responseMetadata({
+            type: swaggerResponse,
+            tableName: this.tableName,
+            paginationType: paginationType,
+            countStrategy: method === Method.INDEX ? this.crudOptions.routes?.[Method.INDEX]?.countStrategy : undefined,
+        });
+        // 오류 응답은 CrudExceptionFilter가 만드는 형식으로 문서화
+        for (const [status, response] of Object.entries(responses)) {
+            if (Number(status) >= HttpStatus.BAD_REQUEST && !response.schema && !response.content) {
+                response.schema = errorSchema(Number(status));
+            }
+        }
+        Reflect.defineMetadata(DECORATORS.API_RESPONSE, responses, target);
 
-        if (method === Method.INDEX) {
+        // show와 index의 응답 schema는 $ref로 entity를 참조
+        if (method === Method.INDEX || method === Method.SHOW) {
             const extraModels: Array<{ name: string }> = Reflect.getMetadata(DECORATORS.API_EXTRA_MODELS, target) ?? [];
             Reflect.defineMetadata(DECORATORS.API_EXTRA_MODELS, [...extraModels, swaggerResponse], target);
         }
@@ -480,25 +707,99 @@ export class CrudRouteFactory {
                     required: false,
                     description: `Query parameters for ${capitalizeFirstLetter(paginationType)} Pagination`,
                 })),
-                ...getPropertyNamesFromMetadata(this.crudOptions.entity, method).map((property) => ({
-                    name: property,
+            );
+        }
+        if (method === Method.INDEX || method === Method.EXPORT || method === Method.AGGREGATE) {
+            parameterDecorators.push(...this.queryParameterSwagger(method));
+        }
+        if (method === Method.HISTORY && paginationType) {
+            parameterDecorators.push(
+                ...['page[number]', 'page[size]'].map((name) => ({
+                    name,
+                    type: 'integer',
+                    in: 'query',
+                    required: false,
+                    description: 'Query parameters for Offset Pagination',
+                })),
+            );
+        }
+        if (method === Method.AGGREGATE) {
+            parameterDecorators.push(
+                ...['count', 'sum', 'avg', 'min', 'max'].map((aggregateFunction) => ({
+                    name: `aggregate[${aggregateFunction}]`,
                     type: 'string',
                     in: 'query',
                     required: false,
-                    description: `Query string filter by ${this.crudOptions.entity.name}.${property}`,
+                    description: `Comma separated columns to ${aggregateFunction}${aggregateFunction === 'count' ? " ('*' for rows)" : ''}`,
                 })),
+                {
+                    name: 'group[]',
+                    type: 'array',
+                    in: 'query',
+                    items: {
+                        type: 'string',
+                    },
+                    required: false,
+                    description: 'Columns to group by',
+                },
             );
         }
         if (method === Method.SHOW) {
+            parameterDecorators.push(
+                {
+                    name: 'fields',
+                    type: 'array',
+                    in: 'query',
+                    items: {
+                        type: 'string',
+                    },
+                    required: false,
+                    description: 'Pick response fields',
+                },
+                ...this.includeParameterSwagger(method),
+            );
+        }
+        if (method === Method.EXPORT) {
             parameterDecorators.push({
-                name: 'fields',
-                type: 'array',
+                name: 'format',
+                type: 'string',
                 in: 'query',
-                items: {
+                enum: this.crudOptions.routes?.[Method.EXPORT]?.formats ?? CRUD_POLICY[Method.EXPORT].default.formats,
+                required: false,
+                description: 'File format, instead of the Accept header',
+            });
+        }
+        if (method === Method.IMPORT) {
+            Reflect.defineMetadata(DECORATORS.API_CONSUMES, ['multipart/form-data'], target);
+            parameterDecorators.push(
+                {
+                    name: 'format',
                     type: 'string',
+                    in: 'query',
+                    enum: this.crudOptions.routes?.[Method.IMPORT]?.formats ?? CRUD_POLICY[Method.IMPORT].default.formats,
+                    required: false,
+                    description: 'File format, instead of the type or the extension of the file',
+                },
+                {
+                    required: true,
+                    in: 'body',
+                    type: Object,
+                    schema: {
+                        type: 'object',
+                        required: ['file'],
+                        properties: { file: { type: 'string', format: 'binary', description: 'CSV (with a header row) or NDJSON file' } },
+                    },
                 },
+            );
+        }
+        if (method === Method.SHOW || method === Method.INDEX) {
+            parameterDecorators.push({
+                name: 'format',
+                type: 'string',
+                in: 'query',
+                enum: Object.keys(RESPONSE_FORMAT_MEDIA_TYPES),
                 required: false,
-                description: 'Pick response fields',
+                description: 'Response format, instead of the Accept header',
             });
         }
         if (CRUD_POLICY[method].useBody) {
@@ -540,11 +841,95 @@ export class CrudRouteFactory {
         Reflect.defineMetadata(DECORATORS.API_PARAMETERS, parameterDecorators, target);
     }
 
-    private enabledMethod(crudMethod: Method): boolean {
-        if (!Array.isArray(this.crudOptions.only) || this.crudOptions.only.length === 0) {
+    /**
+     * `filter`, `sort` and `include` of the routes which parse the query:
+     * a deepObject parameter with a property for each allowed filter and operator, typed from the column,
+     * and comma separated lists of the fields which can be sorted or included
+     */
+    private queryParameterSwagger(method: Method.INDEX | Method.EXPORT | Method.AGGREGATE): ParameterDecorators[] {
+        const parameterDecorators: ParameterDecorators[] = [];
+        const routeOptions = this.crudOptions.routes?.[method];
+        const allowedFilters = routeOptions?.allowedFilters ?? this.crudOptions.allowedFilters ?? [];
+        if (allowedFilters.length > 0) {
+            const columnTypes = columnValueTypes(this.crudOptions.entity);
+            parameterDecorators.push({
+                name: 'filter',
+                in: 'query',
+                required: false,
+                type: Object,
+                style: 'deepObject',
+                explode: true,
+                schema: {
+                    type: 'object',
+                    properties: Object.fromEntries(
+                        allowedFilters.flatMap((field) =>
+                            Object.values(FilterOperator).map((operator) => [`${field}_${operator}`, filterOperandSchema(operator, columnTypes.get(field))]),
+                        ),
+                    ),
+                },
+                description: 'Filters as `filter[<field>_<operator>]`, grouped by `filter[or][0][...]`, `filter[and][0][...]` and `filter[not][...]`',
+            });
+        }
+
+        // index는 모든 컬럼으로, export는 파일에 쓰는 컬럼으로 정렬
+        const sortFields =
+            method === Method.INDEX
+                ? (this.entity.columns ?? []).map(({ name }) => name)
+                : method === Method.EXPORT
+                    ? (this.crudOptions.routes?.[Method.EXPORT]?.columns ?? (this.entity.columns ?? []).map(({ name }) => name)).filter(
+                        (column) => !this.crudOptions.exclude?.includes(column),
+                    )
+                    : [];
+        if (sortFields.length > 0) {
+            parameterDecorators.push({
+                name: 'sort',
+                in: 'query',
+                required: false,
+                type: 'array',
+                style: 'form',
+                explode: false,
+                schema: { type: 'array', items: { type: 'string', enum: sortFields.flatMap((field) => [field, `-${field}`]) } },
+                description: 'Comma separated fields to sort by, descending with a leading `-`',
+            });
+        }
+
+        if (method === Method.INDEX) {
+            parameterDecorators.push(...this.includeParameterSwagger(method));
+        }
+        return parameterDecorators;
+    }
+
+    /**
+     * `include` of the routes which load relations: a comma separated list of the relations which can be included
+     */
+    private includeParameterSwagger(method: Method.INDEX | Method.SHOW): ParameterDecorators[] {
+        const allowedIncludes = this.crudOptions.routes?.[method]?.allowedIncludes ?? this.crudOptions.allowedIncludes ?? [];
+        if (allowedIncludes.length === 0) {
+            return [];
+        }
+        return [
+            {
+                name: 'include',
+                in: 'query',
+                required: false,
+                type: 'array',
+                style: 'form',
+                explode: false,
+                schema: { type: 'array', items: { type: 'string', enum: allowedIncludes } },
+                description: 'Comma separated relations to include',
+            },
+        ];
+    }
+
+    protected enabledMethod(crudMethod: Method): boolean {
+        // job routes do not follow `only`, the jobs option enables them
+        if (!Array.isArray(this.crudOptions.only) || this.crudOptions.only.length === 0 || crudMethod === Method.JOB_SHOW || crudMethod === Method.JOB_DESTROY) {
             return true;
         }
-        return this.crudOptions.only.includes(crudMethod);
+        // the progress and report routes of import follow the import route
+        return this.crudOptions.only.includes(
+            crudMethod === Method.IMPORT_PROGRESS || crudMethod === Method.IMPORT_REPORT ? Method.IMPORT : crudMethod,
+        );
     }
 
     private controllerMethodName(crudMethod: Method): string {
@@ -1,8 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+
+import {
+    ConflictException,
+    ForbiddenException,
+    Logger,
+    NotFoundException,
+    PreconditionFailedException,
+    UnprocessableEntityException,
+} from '@nestjs/common';
 import { instanceToPlain } from 'class-transformer';
 import _ from 'lodash';
-import { In } from 'typeorm';
+import { And, In, LessThan, MoreThan } from 'typeorm';
+import { DriverUtils } from 'typeorm/driver/DriverUtils';
 
 import {
     createCrudArrayResponse,
@@ -11,36 +21,121 @@ import {
     isCrudUpdateManyRequest,
     isCrudUpsertManyRequest,
     isCrudDeleteManyRequest,
+    isCrudDeleteByFilterRequest,
     isCrudRecoverManyRequest,
+    isCrudUpdateByFilterRequest,
     FilterOperator,
 } from './interface';
-import { ResponseFactory } from './utils/response-factory';
+import { QueryConverter } from './provider';
+import { AuditTrail } from './utils/audit-trail';
 import { BatchProcessor } from './utils/batch-processor';
+import { EntityTagUtil } from './utils/entity-tag.util';
+import { ImportReport } from './utils/import-report';
+import { NestedWrite } from './utils/nested-write';
+import { ProgressTracker } from './utils/progress-tracker';
 import { RelationsHelper } from './utils/relations-helper';
+import { ResponseFactory } from './utils/response-factory';
+import { SmartBatchProcessor } from './utils/smart-batch-processor';
 
-import type { DeepPartial, FindOptionsWhere, Repository } from 'typeorm';
-import type { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
 import type {
+    CrudAggregateRequest,
+    CrudAggregateResponse,
+    CrudAggregateRow,
+    CrudAggregateValues,
     CrudArrayResponse,
+    CrudBulkFilter,
     CrudCreateManyRequest,
     CrudCreateOneRequest,
     CrudDeleteOneRequest,
     CrudDeleteManyRequest,
+    CrudDeleteByFilterRequest,
+    CrudEventMethod,
+    CrudExportRequest,
+    CrudHistoryRequest,
+    CrudImportJob,
+    CrudImportJobRequest,
+    CrudImportRejection,
+    CrudImportRequest,
+    CrudJob,
+    CrudJobItemError,
+    CrudJobMethod,
+    CrudJobOptions,
+    CrudJobOwner,
+    CrudJobRequest,
+    CrudRequestBase,
     CrudReadOneRequest,
     CrudRecoverRequest,
     CrudRecoverManyRequest,
     CrudResponse,
     CrudUpdateOneRequest,
     CrudUpdateManyRequest,
+    CrudUpdateByFilterRequest,
     CrudUpsertRequest,
     CrudUpsertManyRequest,
+    CrudVersionCondition,
     EntityType,
     HookContext,
     Method,
+    PaginationCount,
+    TransactionOptions,
 } from './interface';
 import type { CrudReadManyRequest } from './request';
+import type { CrudHttpResponse } from './utils/http-platform';
+import type { CrudNestedWrites } from './utils/nested-write';
+import type {
+    DeepPartial,
+    EntityManager,
+    EntityMetadata,
+    FindOptionsOrder,
+    FindOptionsSelect,
+    FindOptionsWhere,
+    QueryRunner,
+    Repository,
+    SelectQueryBuilder,
+} from 'typeorm';
+import type { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import type { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 
 const SUPPORTED_REPLICATION_TYPES = new Set(['mysql', 'mariadb', 'postgres', 'aurora-postgres', 'aurora-mysql']);
+/**
+ * Drivers whose query runner can stream the rows of a query; other drivers are read by keyset pagination
+ */
+const STREAMING_DRIVER_TYPES = new Set(['mysql', 'mariadb', 'postgres', 'cockroachdb', 'mssql', 'oracle']);
+const JOB_BATCH_SIZE = 100;
+const JOB_STALE_AFTER = 60_000;
+const EVENT_SUFFIXES: Record<CrudEventMethod, string> = {
+    create: 'created',
+    update: 'updated',
+    upsert: 'upserted',
+    destroy: 'destroyed',
+    recover: 'recovered',
+};
+
+/**
+ * Bulk request that runs as a background job
+ */
+type CrudJobBulkRequest<T> = CrudCreateManyRequest<T> | CrudUpdateManyRequest<T> | CrudUpsertManyRequest<T> | CrudDeleteManyRequest<T>;
+
+/**
+ * Rows of a nested write to a to-many relation, resolved before the entity is saved and written after it
+ */
+interface NestedWritePlan {
+    relation: RelationMetadata;
+    connect: EntityType[];
+    disconnect: EntityType[];
+    create: EntityType[];
+    update: EntityType[];
+    delete: EntityType[];
+}
+
+/**
+ * Whether a row has the primary key values of an identifier; values of path parameters and JSON bodies are compared as strings
+ */
+const matchesIdentifier = (row: EntityType, identifier: Record<string, unknown>): boolean =>
+    Object.entries(identifier).every(([key, value]) => String(row[key]) === String(value));
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
 
 export class CrudService<T extends EntityType> {
     private primaryKey: string[];
@@ -409,7 +504,15 @@ export class CrudService<T extends EntityType> {
         this.validateFullTextSearchInRequest(crudReadManyRequest);
 
         crudReadManyRequest.excludedColumns(this.columnNames);
-        const { entities, total } = await (async () => {
+        if (crudReadManyRequest.findOptions.select && !Array.isArray(crudReadManyRequest.findOptions.select)) {
+            this.selectRelationPrimaryKeys(crudReadManyRequest.findOptions.select as Record<string, unknown>, this.repository.metadata);
+        }
+        // countStrategy 'none'은 전체 행 수 대신 한 행을 더 조회해 다음 페이지 여부를 판단
+        const take = crudReadManyRequest.findOptions.take;
+        if (crudReadManyRequest.countStrategy === 'none') {
+            crudReadManyRequest.setTake(take + 1);
+        }
+        const { entities: rows, count } = await (async () => {
             // 중첩된 관계가 있는지 확인
             const hasNested = RelationsHelper.hasNestedRelations(crudReadManyRequest.findOptions.relations);
 
@@ -450,11 +553,7 @@ export class CrudService<T extends EntityType> {
 
                 if (ids.length === 0) {
                     // 결과가 없으면 빈 배열 반환
-                    const total = await this.repository.count({
-                        where: crudReadManyRequest.findOptions.where,
-                        withDeleted: crudReadManyRequest.findOptions.withDeleted,
-                    });
-                    return { entities: [], total };
+                    return { entities: [], count: await this.countIndex(crudReadManyRequest) };
                 }
 
                 // 2단계: repository.find()로 관계를 포함한 실제 데이터 로딩
@@ -474,45 +573,151 @@ export class CrudService<T extends EntityType> {
                     return indexA - indexB;
                 });
 
-                if (crudReadManyRequest.pagination.isNext) {
-                    return { entities, total: crudReadManyRequest.pagination.nextTotal() };
-                }
-
-                const total = await this.repository.count({
-                    where: crudReadManyRequest.findOptions.where,
-                    withDeleted: crudReadManyRequest.findOptions.withDeleted,
-                });
-
-                return { entities, total };
+                return { entities, count: await this.countIndex(crudReadManyRequest) };
             } else {
                 // 단순 관계는 기존 방식 사용 (repository.find)
-                const findEntities = this.repository.find({ ...crudReadManyRequest.findOptions });
-
-                if (crudReadManyRequest.pagination.isNext) {
-                    const entities = await findEntities;
-                    return { entities, total: crudReadManyRequest.pagination.nextTotal() };
-                }
-                const [entities, total] = await Promise.all([
-                    findEntities,
-                    this.repository.count({
-                        where: crudReadManyRequest.findOptions.where,
-                        withDeleted: crudReadManyRequest.findOptions.withDeleted,
-                    }),
+                const [entities, count] = await Promise.all([
+                    this.repository.find({ ...crudReadManyRequest.findOptions }),
+                    this.countIndex(crudReadManyRequest),
                 ]);
-                return { entities, total };
+                return { entities, count };
             }
         })();
 
+        const entities = rows.slice(0, take);
+        if (crudReadManyRequest.countStrategy === 'none') {
+            crudReadManyRequest.setTake(take);
+            count.hasNextPage = rows.length > take;
+        }
+
+        // Get additional metadata
+        const includedRelations = crudReadManyRequest.findOptions.relations as string[] | undefined;
+
+        return this.createPaginatedResponse(crudReadManyRequest, entities, count, includedRelations);
+    };
+
+    readonly handleHistory = async (crudHistoryRequest: CrudHistoryRequest<T>): Promise<CrudArrayResponse<EntityType>> => {
+        const { params, scope, ability, auditEntity, records } = crudHistoryRequest;
+
+        // 테넌트나 정책이 있으면 호출자가 볼 수 있는 엔티티의 기록만 응답 (soft delete된 엔티티 포함)
+        if (scope || ability) {
+            const entity = await this.repository.findOne({ where: { ...params, ...scope } as FindOptionsWhere<T>, withDeleted: true });
+            if (_.isNil(entity)) {
+                throw new NotFoundException();
+            }
+            await this.assertAbility(crudHistoryRequest, entity);
+        }
+
+        records
+            .setWhere({
+                entityName: this.repository.metadata.tableName,
+                entityId: AuditTrail.entityId(params, this.primaryKey),
+            })
+            .generate();
+
+        const [entities, total] = await this.repository.manager.getRepository(auditEntity).findAndCount(records.findOptions);
+
+        return this.createPaginatedResponse(records, entities, { total });
+    };
+
+    /**
+     * index의 행 수를 route의 countStrategy로 계산합니다.
+     * 다음 페이지 요청은 첫 페이지에서 계산해 cursor에 담은 값을 사용합니다.
+     */
+    private async countIndex(crudReadManyRequest: CrudReadManyRequest<T>): Promise<PaginationCount> {
+        const { countStrategy, pagination, findOptions } = crudReadManyRequest;
+        if (countStrategy === 'none') {
+            return {};
+        }
+        if (pagination.isNext) {
+            return pagination.nextCount();
+        }
+
+        const { where, withDeleted } = findOptions;
+        if (countStrategy === 'estimate' && _.isEmpty(where)) {
+            const estimate = await this.estimateRows();
+            if (estimate !== undefined) {
+                return { total: estimate, estimated: true };
+            }
+        }
+
+        const cap = /^capped:(\d+)$/.exec(countStrategy)?.[1];
+        if (cap) {
+            const total = await this.countRowsUpTo(where, withDeleted, Number(cap));
+            return total >= Number(cap) ? { total, capped: true } : { total };
+        }
+
+        return { total: await this.repository.count({ where, withDeleted }) };
+    }
+
+    /**
+     * 테이블 통계의 행 수 추정치. 통계를 제공하지 않는 데이터베이스는 undefined
+     */
+    private async estimateRows(): Promise<number | undefined> {
+        const { type } = this.repository.manager.connection.options;
+        const { tablePath, tableName, schema } = this.repository.metadata;
+
+        const rows: Array<{ estimate: unknown }> | undefined = await (() => {
+            switch (type) {
+                case 'postgres':
+                case 'aurora-postgres':
+                    return this.repository.query('SELECT reltuples::bigint AS estimate FROM pg_class WHERE oid = to_regclass($1)', [tablePath]);
+                case 'mysql':
+                case 'mariadb':
+                case 'aurora-mysql':
+                    return this.repository.query(
+                        'SELECT TABLE_ROWS AS estimate FROM information_schema.TABLES WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?',
+                        [schema ?? null, tableName],
+                    );
+                default:
+                    return undefined;
+            }
+        })();
+
+        // PostgreSQL은 ANALYZE 전의 테이블을 -1로 표시
+        const estimate = Number(rows?.[0]?.estimate);
+        return rows?.length && Number.isFinite(estimate) && estimate >= 0 ? estimate : undefined;
+    }
+
+    /**
+     * `SELECT COUNT(*) FROM (SELECT 1 ... LIMIT cap)`로 최대 cap개까지만 셉니다.
+     */
+    private async countRowsUpTo(where: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>, withDeleted: boolean | undefined, cap: number): Promise<number> {
+        const limited = this.repository.createQueryBuilder(this.repository.metadata.tableName).select('1').where(where).limit(cap);
+        if (withDeleted) {
+            limited.withDeleted();
+        }
+        const result: { count: unknown } | undefined = await this.repository.manager
+            .createQueryBuilder()
+            .select('COUNT(*)', 'count')
+            .from(`(${limited.getQuery()})`, 'capped')
+            .setParameters(limited.getParameters())
+            .getRawOne();
+        return Number(result?.count ?? 0);
+    }
+
+    /**
+     * pagination 요청과 조회 결과로 목록 응답을 만듭니다.
+     */
+    private createPaginatedResponse<E extends EntityType>(
+        crudReadManyRequest: CrudReadManyRequest<E>,
+        entities: E[],
+        count: PaginationCount,
+        includedRelations?: string[],
+    ): CrudArrayResponse<E> {
         // Convert traditional pagination response to unified CRUD response
-        const paginationResponse = crudReadManyRequest.toResponse(entities, total);
+        const paginationResponse = crudReadManyRequest.toResponse(entities, count);
         const { data, metadata: paginationMetadata } = paginationResponse;
 
         // Transform entities to plain objects to apply @Exclude decorators
-        const transformedData = this.transformEntityToPlain(data);
+        const transformedData = this.transformEntityToPlain(data) as E[];
 
         // Determine pagination type and create metadata
         const paginationInfo: any = {
             total: paginationMetadata.total,
+            hasNextPage: paginationMetadata.hasNextPage,
+            estimated: paginationMetadata.estimated,
+            capped: paginationMetadata.capped,
         };
 
         let paginationType: 'offset' | 'cursor';
@@ -530,11 +735,9 @@ export class CrudService<T extends EntityType> {
             paginationInfo.limit = paginationMetadata.limit;
             paginationInfo.totalPages = paginationMetadata.totalPages;
             paginationInfo.nextCursor = paginationMetadata.nextCursor;
+            paginationInfo.prevCursor = paginationMetadata.prevCursor;
         }
 
-        // Get additional metadata
-        const includedRelations = crudReadManyRequest.findOptions.relations as string[] | undefined;
-
         return createCrudArrayResponse(transformedData, {
             pagination: {
                 type: paginationType,
@@ -542,7 +745,7 @@ export class CrudService<T extends EntityType> {
             },
             includedRelations,
         });
-    };
+    }
 
     readonly handleShow = async (crudReadOneRequest: CrudReadOneRequest<T>): Promise<CrudResponse<T>> => {
         // 1. Hook context 생성
@@ -557,11 +760,22 @@ export class CrudService<T extends EntityType> {
         const processedParams = crudReadOneRequest.params;
 
         // 3. 엔티티 조회
+        const selectColumns = (crudReadOneRequest.selectColumns ?? this.columnNames).filter(
+            (columnName) => !crudReadOneRequest.excludedColumns?.includes(columnName),
+        );
+        // ETag를 만들기 위해 버전 컬럼은 항상 조회
+        const versionProperty = this.versionColumn?.propertyName;
+        const queryColumns = versionProperty ? _.union(selectColumns, [versionProperty]) : selectColumns;
+        const select = crudReadOneRequest.relationSelect
+            ? this.selectRelationPrimaryKeys(
+                Object.assign({}, crudReadOneRequest.relationSelect, _.zipObject(queryColumns, queryColumns.map(() => true))),
+                this.repository.metadata,
+            )
+            : queryColumns;
+
         // 중첩된 관계가 있어도 repository.findOne을 사용 (TypeORM이 올바르게 처리함)
         const entity = await this.repository.findOne({
-            select: (crudReadOneRequest.selectColumns ?? this.columnNames).filter(
-                (columnName) => !crudReadOneRequest.excludedColumns?.includes(columnName),
-            ),
+            select: select as FindOptionsSelect<T>,
             where: processedParams as FindOptionsWhere<T>,
             withDeleted: crudReadOneRequest.softDeleted,
             relations: crudReadOneRequest.relations,
@@ -570,24 +784,390 @@ export class CrudService<T extends EntityType> {
         if (_.isNil(entity)) {
             throw new NotFoundException();
         }
+        await this.assertAbility(crudReadOneRequest, entity);
 
         // 4. No configuration-based hooks anymore
         const processedEntity = entity;
 
+        const etag = this.getEntityTag(processedEntity);
+        if (versionProperty && !selectColumns.includes(versionProperty)) {
+            delete processedEntity[versionProperty as keyof T];
+        }
+
         // 5. Transform entity to plain object to apply @Exclude decorators
         const transformedEntity = this.transformEntityToPlain(processedEntity);
 
         return createCrudResponse(transformedEntity, {
             includedRelations: crudReadOneRequest.relations,
             excludedFields: crudReadOneRequest.excludedColumns ? [...crudReadOneRequest.excludedColumns] : undefined,
+            etag,
+        });
+    };
+
+    readonly handleAggregate = async (crudAggregateRequest: CrudAggregateRequest<T>): Promise<CrudAggregateResponse<T>> => {
+        const { aggregates, groups, where, softDeleted } = crudAggregateRequest;
+        const alias = this.repository.metadata.tableName;
+
+        // where 조건(관계 필터 포함)은 FindOptions로 적용하고, select/group by만 직접 구성
+        const queryBuilder = this.repository.createQueryBuilder(alias).setFindOptions({
+            where,
+            withDeleted: softDeleted,
         });
+
+        // 결과 컬럼 별칭은 위치 기반으로 지정하여 컬럼 이름과 충돌하지 않도록 함
+        const selections: Array<[string, string]> = [
+            ...groups.map((field, index): [string, string] => [`${alias}.${field}`, `group_${index}`]),
+            ...aggregates.map(({ function: aggregateFunction, field }, index): [string, string] => [
+                `${aggregateFunction.toUpperCase()}(${field === '*' ? '*' : `${alias}.${field}`})`,
+                `aggregate_${index}`,
+            ]),
+        ];
+        for (const [index, [selection, selectionAlias]] of selections.entries()) {
+            if (index === 0) {
+                queryBuilder.select(selection, selectionAlias);
+            } else {
+                queryBuilder.addSelect(selection, selectionAlias);
+            }
+        }
+        for (const field of groups) {
+            queryBuilder.addGroupBy(`${alias}.${field}`).addOrderBy(`${alias}.${field}`, 'ASC');
+        }
+
+        const rawRows: Array<Record<string, unknown>> = await queryBuilder.getRawMany();
+
+        const data = rawRows.map((raw) => {
+            const row: CrudAggregateRow<T> = {
+                group: _.zipObject(
+                    groups,
+                    groups.map((_field, index) => raw[`group_${index}`]),
+                ) as Partial<T>,
+            };
+            for (const [index, { function: aggregateFunction, field }] of aggregates.entries()) {
+                const value = raw[`aggregate_${index}`] as number | string | null;
+                // 드라이버에 따라 count/sum/avg가 문자열(decimal)로 반환되므로 숫자로 변환
+                const isNumeric = aggregateFunction === 'count' || aggregateFunction === 'sum' || aggregateFunction === 'avg';
+                row[aggregateFunction] = {
+                    ...row[aggregateFunction],
+                    [field]: isNumeric && value !== null ? Number(value) : value,
+                } as CrudAggregateValues<T>;
+            }
+            return row;
+        });
+
+        return createCrudArrayResponse(data);
     };
 
+    /**
+     * Rows of the export route in chunks of `chunkSize`, with only the exported columns.
+     * Rows are streamed by the driver when it supports streams and read by keyset pagination otherwise,
+     * so that an export is never held in memory at once.
+     * Postgres and CockroachDB stream with the optional `pg-query-stream` package, without it they are read by keyset pagination too.
+     */
+    readonly handleExport = (crudExportRequest: CrudExportRequest<T>): AsyncIterable<Array<Record<string, unknown>>> =>
+        STREAMING_DRIVER_TYPES.has(this.repository.metadata.connection.options.type)
+            ? this.streamExportRows(crudExportRequest)
+            : this.readExportRowsByKeyset(crudExportRequest);
+
+    private async *streamExportRows(crudExportRequest: CrudExportRequest<T>): AsyncGenerator<Array<Record<string, unknown>>> {
+        // 스트림이 끝나기 전에 응답이 중단되어도 연결이 반환되도록 query runner를 직접 관리
+        const queryRunner = this.repository.manager.connection.createQueryRunner('slave');
+        try {
+            // 응답이 시작된 뒤에는 오류를 응답할 수 없으므로 스트림을 열지 못하면 keyset pagination으로 읽음
+            const stream = await this.exportQuery(crudExportRequest, crudExportRequest.where, queryRunner)
+                .stream()
+                .catch(() => undefined);
+            if (!stream) {
+                yield* this.readExportRowsByKeyset(crudExportRequest);
+                return;
+            }
+            let chunk: Array<Record<string, unknown>> = [];
+            for await (const raw of stream) {
+                chunk.push(this.hydrateExportRow(raw as Record<string, unknown>, crudExportRequest.columns));
+                if (chunk.length >= crudExportRequest.chunkSize) {
+                    yield chunk;
+                    chunk = [];
+                }
+            }
+            if (chunk.length > 0) {
+                yield chunk;
+            }
+        } finally {
+            await queryRunner.release();
+        }
+    }
+
+    private async *readExportRowsByKeyset(crudExportRequest: CrudExportRequest<T>): AsyncGenerator<Array<Record<string, unknown>>> {
+        const { columns, where, order, chunkSize } = crudExportRequest;
+        const queryConverter = new QueryConverter<T>();
+        const orderColumns = order.map(([column]) => column);
+        let cursor: Record<string, unknown> | undefined;
+        let rawRows: Array<Record<string, unknown>>;
+        do {
+            const chunkWhere = cursor ? queryConverter.andWhere(where ?? {}, queryConverter.createKeysetWhere(cursor, order)) : where;
+            rawRows = await this.exportQuery(crudExportRequest, chunkWhere).limit(chunkSize).getRawMany();
+            if (rawRows.length === 0) {
+                return;
+            }
+            const rows = rawRows.map((raw) => this.hydrateExportRow(raw, _.union(columns, orderColumns)));
+            cursor = _.pick(rows.at(-1), orderColumns);
+            yield rows.map((row) => _.pick(row, columns));
+        } while (rawRows.length === chunkSize);
+    }
+
+    /**
+     * Raw query of the exported and sorted columns, in the order of the request
+     */
+    private exportQuery(
+        { columns, order, softDeleted }: CrudExportRequest<T>,
+        where: CrudExportRequest<T>['where'],
+        queryRunner?: QueryRunner,
+    ): SelectQueryBuilder<T> {
+        return this.repository.createQueryBuilder(this.repository.metadata.tableName, queryRunner).setFindOptions({
+            select: _.union(
+                columns,
+                order.map(([column]) => column),
+            ) as unknown as FindOptionsSelect<T>,
+            where,
+            order: Object.fromEntries(order) as FindOptionsOrder<T>,
+            withDeleted: softDeleted,
+        });
+    }
+
+    /**
+     * Entity values of the columns of a raw row, converted by the driver as it does for entities
+     */
+    private hydrateExportRow(raw: Record<string, unknown>, columns: string[]): Record<string, unknown> {
+        const { driver } = this.repository.manager.connection;
+        const alias = this.repository.metadata.tableName;
+        return Object.fromEntries(
+            columns.map((propertyPath) => {
+                const column = this.repository.metadata.findColumnWithPropertyPath(propertyPath);
+                if (!column) {
+                    return [propertyPath, undefined];
+                }
+                return [propertyPath, driver.prepareHydratedValue(raw[DriverUtils.buildAlias(driver, undefined, alias, column.databaseName)], column)];
+            }),
+        );
+    }
+
+    /**
+     * Starts a job saving the validated rows of an import file and responds with it at once.
+     * The job counts a step per row and a last step for the summary, so it completes only after every batch is saved.
+     */
+    readonly handleImport = (crudImportRequest: CrudImportRequest<T>): CrudResponse<CrudImportJob> => {
+        const { body, rejected, fileName, format, owner } = crudImportRequest;
+        const jobId = randomUUID();
+        const total = body.length + rejected.length;
+        ProgressTracker.createJob(jobId, body.length + 1, {
+            type: 'import',
+            entity: this.repository.metadata.targetName,
+            fileName,
+            format,
+            total,
+            accepted: body.length,
+            rejected: rejected.length,
+            owner,
+        });
+        ImportReport.create(jobId, rejected);
+
+        void this.runImport(jobId, crudImportRequest);
+
+        return createCrudResponse<CrudImportJob>({ jobId, status: 'pending', format, total, accepted: body.length, rejected: rejected.length });
+    };
+
+    private async runImport(jobId: string, { body, lines, upsertKeys, batchSize, scope }: CrudImportRequest<T>): Promise<void> {
+        try {
+            const processor = new SmartBatchProcessor<T>(this.repository);
+            let saved = 0;
+            const result = await processor.createBatchWithProgress(
+                body as Array<Partial<T>>,
+                (progress) => {
+                    ProgressTracker.updateProgress(
+                        jobId,
+                        {
+                            name: `batch ${progress.currentBatch}/${progress.totalBatches}`,
+                            description: `${progress.processedItems} rows saved`,
+                        },
+                        progress.processedItems - saved,
+                    );
+                    saved = progress.processedItems;
+                },
+                { batchSize, upsertKeys, upsertScope: scope },
+            );
+
+            // 실패한 배치의 행은 오류 리포트에 추가
+            const lineOf = new Map<unknown, number>(body.map((item, index) => [item, lines[index]]));
+            const failed: CrudImportRejection[] = result.errors.flatMap(({ error, affectedItems }) =>
+                affectedItems.map((item) => ({ line: lineOf.get(item) ?? 0, row: { ...item }, errors: [error.message] })),
+            );
+            ImportReport.add(jobId, failed);
+
+            ProgressTracker.updateProgress(
+                jobId,
+                {
+                    name: 'summary',
+                    description: `${result.successCount} rows saved, ${failed.length} rows failed`,
+                    data: { saved: result.successCount, failed: failed.length, rejected: ImportReport.get(jobId)?.length ?? 0 },
+                },
+                failed.length + 1,
+            );
+        } catch (error) {
+            ProgressTracker.addError(jobId, { message: 'Import failed', error: error as Error, fatal: true });
+        }
+    }
+
+    /**
+     * Streams the progress of an import job as server-sent events until it is completed or failed
+     */
+    readonly handleImportProgress = ({ jobId }: CrudImportJobRequest, response: CrudHttpResponse): void => {
+        ProgressTracker.streamProgress(jobId, response);
+    };
+
+    readonly handleImportReport = ({ jobId }: CrudImportJobRequest): CrudImportRejection[] => ImportReport.get(jobId) ?? [];
+
+    /**
+     * Saves the items of a bulk request in a background job and responds with the pending job at once.
+     * Each batch of `batchSize` items is saved in a transaction; the items of a failed batch are retried one by one,
+     * so that the job keeps the results of the saved items and an error for each failed item.
+     */
+    readonly handleJob = async (method: CrudJobMethod, crudJobBulkRequest: CrudJobBulkRequest<T>): Promise<CrudResponse<CrudJob>> => {
+        const jobs = crudJobBulkRequest.job;
+        if (!jobs) {
+            throw new UnprocessableEntityException('Request is not a job');
+        }
+        const items: unknown[] = 'body' in crudJobBulkRequest ? crudJobBulkRequest.body : crudJobBulkRequest.params;
+        const now = new Date();
+        const job: CrudJob = {
+            id: randomUUID(),
+            entityName: this.repository.metadata.targetName,
+            owner: jobs.owner,
+            method,
+            status: 'pending',
+            total: items.length,
+            processed: 0,
+            results: [],
+            errors: [],
+            error: null,
+            createdAt: now,
+            updatedAt: now,
+            completedAt: null,
+        };
+        await jobs.store.create(job);
+
+        void this.runJob(job, items, { ...crudJobBulkRequest, job: undefined }, jobs);
+
+        return createCrudResponse(job);
+    };
+
+    private async runJob(job: CrudJob, items: unknown[], crudJobBulkRequest: CrudJobBulkRequest<T>, jobs: CrudJobOptions): Promise<void> {
+        const { store, batchSize = JOB_BATCH_SIZE, staleAfter = JOB_STALE_AFTER } = jobs;
+        // 배치가 오래 걸려도 작업이 중단된 것으로 보이지 않도록 주기적으로 갱신
+        const heartbeat = setInterval(() => {
+            store.update(job.id, { updatedAt: new Date() }).catch((error: unknown) => Logger.warn(`job ${job.id}: ${errorMessage(error)}`, 'CrudService'));
+        }, staleAfter / 3);
+        heartbeat.unref?.();
+
+        const results: unknown[] = [];
+        const errors: CrudJobItemError[] = [];
+        try {
+            await store.update(job.id, { status: 'running', updatedAt: new Date() });
+            for (let start = 0; start < items.length; start += batchSize) {
+                // 삭제된 작업은 현재 배치까지만 실행
+                if (!(await store.get(job.id))) {
+                    return;
+                }
+                const batch = items.slice(start, start + batchSize);
+                try {
+                    results.push(...(await this.runJobBatch(job.method, crudJobBulkRequest, batch)));
+                } catch {
+                    for (const [offset, item] of batch.entries()) {
+                        try {
+                            results.push(...(await this.runJobBatch(job.method, crudJobBulkRequest, [item])));
+                        } catch (error) {
+                            errors.push({ index: start + offset, message: errorMessage(error) });
+                        }
+                    }
+                }
+                await store.update(job.id, { processed: start + batch.length, results, errors, updatedAt: new Date() });
+            }
+            await store.update(job.id, { status: 'completed', completedAt: new Date(), updatedAt: new Date() });
+        } catch (error) {
+            await store
+                .update(job.id, { status: 'failed', error: errorMessage(error), completedAt: new Date(), updatedAt: new Date() })
+                .catch((updateError: unknown) => Logger.warn(`job ${job.id}: ${errorMessage(updateError)}`, 'CrudService'));
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    /**
+     * Saves the items of one batch of a job in a transaction
+     * @returns responses of the saved items
+     */
+    private async runJobBatch(method: CrudJobMethod, crudJobBulkRequest: CrudJobBulkRequest<T>, items: unknown[]): Promise<unknown[]> {
+        const request = { ...crudJobBulkRequest, transaction: crudJobBulkRequest.transaction ?? {} };
+        const response = await (() => {
+            switch (method) {
+                case 'create':
+                    return this.handleCreate({ ...(request as CrudCreateManyRequest<T>), body: items as CrudCreateManyRequest<T>['body'] });
+                case 'update':
+                    return this.handleUpdate({ ...(request as CrudUpdateManyRequest<T>), body: items as CrudUpdateManyRequest<T>['body'] });
+                case 'upsert':
+                    return this.handleUpsert({ ...(request as CrudUpsertManyRequest<T>), body: items as CrudUpsertManyRequest<T>['body'] });
+                default:
+                    return this.handleDestroy({ ...(request as CrudDeleteManyRequest<T>), params: items as CrudDeleteManyRequest<T>['params'] });
+            }
+        })();
+        return _.castArray(response.data);
+    }
+
+    readonly handleJobShow = async ({ jobId, jobs, owner }: CrudJobRequest): Promise<CrudResponse<CrudJob>> =>
+        createCrudResponse(await this.readJob(jobId, jobs, owner));
+
+    /**
+     * Removes a job. A job that is still running stops after its current batch and is answered as cancelled.
+     */
+    readonly handleJobDestroy = async ({ jobId, jobs, owner }: CrudJobRequest): Promise<CrudResponse<CrudJob>> => {
+        const job = await this.readJob(jobId, jobs, owner);
+        await jobs.store.delete(jobId);
+        const unfinished = job.status === 'pending' || job.status === 'running';
+        return createCrudResponse(unfinished ? { ...job, status: 'cancelled' } : job);
+    };
+
+    /**
+     * Job of the entity started by the same caller. A pending or running job which was not updated for `staleAfter` is marked as failed,
+     * because the instance running it restarted or stopped.
+     */
+    private async readJob(jobId: string, { store, staleAfter = JOB_STALE_AFTER }: CrudJobOptions, owner: CrudJobOwner): Promise<CrudJob> {
+        const job = await store.get(jobId);
+        // 다른 tenant나 사용자의 job은 존재하지 않는 것처럼 응답
+        if (job?.entityName !== this.repository.metadata.targetName || !_.isEqual(job.owner, owner)) {
+            throw new NotFoundException(`Job ${jobId} is not found`);
+        }
+        const unfinished = job.status === 'pending' || job.status === 'running';
+        if (!unfinished || Date.now() - new Date(job.updatedAt).getTime() <= staleAfter) {
+            return job;
+        }
+        const now = new Date();
+        const changes = { status: 'failed' as const, error: 'Job was interrupted before it finished', completedAt: now, updatedAt: now };
+        await store.update(jobId, changes);
+        return { ...job, ...changes };
+    }
+
     readonly handleCreate = async (
         crudCreateRequest: CrudCreateOneRequest<T> | CrudCreateManyRequest<T>,
-    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> =>
+        this.transactional(this.nestedWriteTransaction(crudCreateRequest.transaction, _.castArray(crudCreateRequest.body)), (manager) =>
+            this.executeCreate(crudCreateRequest, manager),
+        );
+
+    private async executeCreate(
+        crudCreateRequest: CrudCreateOneRequest<T> | CrudCreateManyRequest<T>,
+        manager: EntityManager,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const repository = this.getRepository(manager);
         const isMany = isCrudCreateManyRequest<T>(crudCreateRequest);
-        const bodyArray = isMany ? crudCreateRequest.body : [crudCreateRequest.body];
+        const { bodies: bodyArray, nestedWrites } = this.splitNestedWrites(isMany ? crudCreateRequest.body : [crudCreateRequest.body]);
 
         // assignBefore 훅 실행
         const processedBodyArray = await Promise.all(
@@ -597,6 +1177,7 @@ export class CrudService<T extends EntityType> {
                     params: {},
                     controller: this.controllerInstance,
                     request: crudCreateRequest.request,
+                    manager,
                 };
                 let processedBody = body;
                 if (crudCreateRequest.hooks?.assignBefore) {
@@ -608,7 +1189,7 @@ export class CrudService<T extends EntityType> {
 
         // 엔티티 생성 및 부모 참조 설정
         const entities = processedBodyArray.map((body, index) => {
-            const entity = this.repository.create(body);
+            const entity = repository.create(body);
             // CREATE 후 nested entities에 부모 참조 설정
             this.setParentReferencesAfterCreate(entity);
             return entity;
@@ -621,6 +1202,7 @@ export class CrudService<T extends EntityType> {
                 params: {},
                 controller: this.controllerInstance,
                 request: crudCreateRequest.request,
+                manager,
             };
             if (crudCreateRequest.hooks?.assignAfter) {
                 entities[i] = await crudCreateRequest.hooks.assignAfter(entities[i], processedBodyArray[i], context);
@@ -639,6 +1221,7 @@ export class CrudService<T extends EntityType> {
                 params: {},
                 controller: this.controllerInstance,
                 request: crudCreateRequest.request,
+                manager,
             };
             if (crudCreateRequest.hooks?.saveBefore) {
                 entities[i] = await crudCreateRequest.hooks.saveBefore(entities[i], context);
@@ -649,6 +1232,12 @@ export class CrudService<T extends EntityType> {
         for (const entity of entities) {
             this.setParentReferencesAfterCreate(entity);
         }
+        await this.assertAbility(crudCreateRequest, entities);
+
+        const nestedWritePlans: NestedWritePlan[][] = [];
+        for (const [index, entity] of entities.entries()) {
+            nestedWritePlans.push(await this.prepareNestedWrites(entity, nestedWrites[index], manager, crudCreateRequest.scope));
+        }
 
         // Process in batches for large datasets
         const saveEntities = async (entitiesToSave: T[]) => {
@@ -657,17 +1246,28 @@ export class CrudService<T extends EntityType> {
                 const batchSize = BatchProcessor.getOptimalBatchSize(entitiesToSave.length);
                 return BatchProcessor.processBatches(
                     entitiesToSave,
-                    (batch) => this.repository.save(batch, crudCreateRequest.saveOptions),
+                    (batch) => repository.save(batch, crudCreateRequest.saveOptions),
                     batchSize,
                 );
             } else {
                 // Regular save for small operations
-                return this.repository.save(entitiesToSave, crudCreateRequest.saveOptions);
+                return repository.save(entitiesToSave, crudCreateRequest.saveOptions);
             }
         };
 
         return saveEntities(entities)
             .then(async (result) => {
+                for (const [index, entity] of result.entries()) {
+                    result[index] = await this.applyNestedWrites(entity, nestedWrites[index], nestedWritePlans[index], manager);
+                }
+
+                await this.recordChanges(
+                    crudCreateRequest,
+                    'create',
+                    result.map((after) => ({ after })),
+                    manager,
+                );
+
                 // saveAfter 훅 실행
                 for (let i = 0; i < result.length; i++) {
                     const context: HookContext<T> = {
@@ -675,6 +1275,7 @@ export class CrudService<T extends EntityType> {
                         params: {},
                         controller: this.controllerInstance,
                         request: crudCreateRequest.request,
+                        manager,
                     };
                     if (crudCreateRequest.hooks?.saveAfter) {
                         result[i] = await crudCreateRequest.hooks.saveAfter(result[i], context);
@@ -691,16 +1292,26 @@ export class CrudService<T extends EntityType> {
                 return ResponseFactory.createResponse(processedResult, { excludedFields });
             })
             .catch(this.throwConflictException);
-    };
+    }
 
     readonly handleUpsert = async (
         crudUpsertRequest: CrudUpsertRequest<T> | CrudUpsertManyRequest<T>,
-    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> =>
+        this.transactional(this.nestedWriteTransaction(crudUpsertRequest.transaction, _.castArray(crudUpsertRequest.body)), (manager) =>
+            this.executeUpsert(crudUpsertRequest, manager),
+        );
+
+    private async executeUpsert(
+        crudUpsertRequest: CrudUpsertRequest<T> | CrudUpsertManyRequest<T>,
+        manager: EntityManager,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const repository = this.getRepository(manager);
         const isMany = isCrudUpsertManyRequest<T>(crudUpsertRequest);
 
         if (isMany) {
             // Bulk upsert handling
-            const upsertPromises = crudUpsertRequest.body.map(async (item) => {
+            const { bodies, nestedWrites } = this.splitNestedWrites(crudUpsertRequest.body);
+            const upsertPromises = bodies.map(async (item, index) => {
                 // Try to find existing entity based on primary key if present
                 let entity: T | null = null;
                 let params: Partial<Record<keyof T, unknown>> = {};
@@ -708,11 +1319,13 @@ export class CrudService<T extends EntityType> {
                 // Check if item has primary key
                 if (this.primaryKey.length > 0 && this.primaryKey[0] in item) {
                     params = { [this.primaryKey[0]]: (item as any)[this.primaryKey[0]] } as Partial<Record<keyof T, unknown>>;
-                    entity = await this.findOne(params as unknown as FindOptionsWhere<T>, true);
+                    entity = await this.findOne({ ...crudUpsertRequest.scope, ...params } as unknown as FindOptionsWhere<T>, true, repository);
                 }
+                await (entity ? this.assertAbility(crudUpsertRequest, entity) : this.assertPrimaryKeyAvailable(params, repository));
+                const before = entity ? this.snapshot(crudUpsertRequest, entity) : undefined;
 
                 const isNew = entity === null;
-                let upsertEntity = entity ?? this.repository.create(item as unknown as DeepPartial<T>);
+                let upsertEntity = entity ?? repository.create(item as unknown as DeepPartial<T>);
 
                 if ('deletedAt' in upsertEntity && upsertEntity.deletedAt != null) {
                     throw new ConflictException('One or more entities have been deleted');
@@ -724,6 +1337,7 @@ export class CrudService<T extends EntityType> {
                     currentEntity: entity ?? undefined,
                     controller: this.controllerInstance,
                     request: crudUpsertRequest.request,
+                    manager,
                 };
 
                 // Execute hooks
@@ -746,16 +1360,31 @@ export class CrudService<T extends EntityType> {
                 if (crudUpsertRequest.hooks?.saveBefore) {
                     upsertEntity = await crudUpsertRequest.hooks.saveBefore(upsertEntity, context);
                 }
+                if (isNew) {
+                    await this.assertAbility(crudUpsertRequest, upsertEntity);
+                }
+                const nestedWritePlans = await this.prepareNestedWrites(upsertEntity, nestedWrites[index], manager, crudUpsertRequest.scope);
 
-                return { entity: upsertEntity, isNew };
+                return { entity: upsertEntity, isNew, before, nestedWritePlans };
             });
 
             const upsertData = await Promise.all(upsertPromises);
             const entitiesToSave = upsertData.map((d) => d.entity);
 
-            return this.repository
+            return repository
                 .save(entitiesToSave, crudUpsertRequest.saveOptions)
                 .then(async (savedEntities) => {
+                    for (const [index, entity] of savedEntities.entries()) {
+                        savedEntities[index] = await this.applyNestedWrites(entity, nestedWrites[index], upsertData[index].nestedWritePlans, manager);
+                    }
+
+                    await this.recordChanges(
+                        crudUpsertRequest,
+                        'upsert',
+                        savedEntities.map((after, index) => ({ before: upsertData[index].before, after })),
+                        manager,
+                    );
+
                     // Execute saveAfter hook for each entity
                     const processedEntities = await Promise.all(
                         savedEntities.map(async (entity, index) => {
@@ -764,6 +1393,7 @@ export class CrudService<T extends EntityType> {
                                 params: {},
                                 controller: this.controllerInstance,
                                 request: crudUpsertRequest.request,
+                                manager,
                             };
                             let afterSaveEntity = entity;
                             if (crudUpsertRequest.hooks?.saveAfter) {
@@ -786,9 +1416,12 @@ export class CrudService<T extends EntityType> {
                 .catch(this.throwConflictException);
         } else {
             // Single upsert (existing logic)
-            return this.findOne(crudUpsertRequest.params as unknown as FindOptionsWhere<T>, true).then(async (entity: T | null) => {
+            return this.findOne(crudUpsertRequest.params as unknown as FindOptionsWhere<T>, true, repository).then(async (entity: T | null) => {
                 const isNew = entity === null;
-                let upsertEntity = entity ?? this.repository.create(crudUpsertRequest.params as unknown as DeepPartial<T>);
+                const expectedVersion = this.assertVersion(entity, crudUpsertRequest.versionCondition);
+                await (entity ? this.assertAbility(crudUpsertRequest, entity) : this.assertPrimaryKeyAvailable(crudUpsertRequest.params, repository));
+                const before = entity ? this.snapshot(crudUpsertRequest, entity) : undefined;
+                let upsertEntity = entity ?? repository.create(crudUpsertRequest.params as unknown as DeepPartial<T>);
 
                 if ('deletedAt' in upsertEntity && upsertEntity.deletedAt != null) {
                     throw new ConflictException('it has been deleted');
@@ -799,10 +1432,15 @@ export class CrudService<T extends EntityType> {
                     params: crudUpsertRequest.params,
                     currentEntity: entity ?? undefined,
                     request: crudUpsertRequest.request,
+                    manager,
                 };
 
                 // assignBefore 훅 실행
-                let processedBody = crudUpsertRequest.body;
+                const {
+                    bodies: [upsertBody],
+                    nestedWrites: [nestedWrites],
+                } = this.splitNestedWrites([crudUpsertRequest.body]);
+                let processedBody = upsertBody;
                 if (crudUpsertRequest.hooks?.assignBefore) {
                     processedBody = (await crudUpsertRequest.hooks.assignBefore(processedBody, context)) as DeepPartial<T>;
                 }
@@ -822,16 +1460,25 @@ export class CrudService<T extends EntityType> {
                 if (crudUpsertRequest.hooks?.saveBefore) {
                     upsertEntity = await crudUpsertRequest.hooks.saveBefore(upsertEntity, context);
                 }
+                if (isNew) {
+                    await this.assertAbility(crudUpsertRequest, upsertEntity);
+                }
+                const nestedWritePlans = await this.prepareNestedWrites(upsertEntity, nestedWrites, manager, crudUpsertRequest.scope);
+                await this.claimVersion(upsertEntity, expectedVersion, repository, this.columnValues(upsertEntity));
 
-                return this.repository
+                return repository
                     .save(upsertEntity, crudUpsertRequest.saveOptions)
-                    .then(async (savedEntity) => {
+                    .then(async (saved) => {
+                        const savedEntity = await this.applyNestedWrites(saved, nestedWrites, nestedWritePlans, manager);
+                        await this.recordChanges(crudUpsertRequest, 'upsert', [{ before, after: savedEntity }], manager);
+
                         // saveAfter 훅 실행
                         let finalEntity = savedEntity;
                         if (crudUpsertRequest.hooks?.saveAfter) {
                             finalEntity = await crudUpsertRequest.hooks.saveAfter(savedEntity, context);
                         }
 
+                        const etag = this.getEntityTag(finalEntity);
                         const processedEntity = this.excludeEntity(finalEntity, crudUpsertRequest.exclude);
 
                         // Transform entity to plain object to apply @Exclude decorators
@@ -841,31 +1488,56 @@ export class CrudService<T extends EntityType> {
                         return createCrudResponse(transformedEntity, {
                             isNew,
                             excludedFields,
+                            etag,
                         });
                     })
                     .catch(this.throwConflictException);
             });
         }
-    };
+    }
 
     readonly handleUpdate = async (
-        crudUpdateRequest: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>,
+        crudUpdateRequest: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T> | CrudUpdateByFilterRequest<T>,
     ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+        if (isCrudUpdateByFilterRequest<T>(crudUpdateRequest)) {
+            // 필터에 일치하는 행의 기본 키를 조회한 뒤 bulk update로 처리
+            const { filter, body, exclude, ...updateRequest } = crudUpdateRequest;
+            return this.handleBulkFilter(filter, exclude, (paramsList) =>
+                this.handleUpdate({
+                    ...updateRequest,
+                    body: paramsList.map((params) => ({ ...body, ...params })) as unknown as CrudUpdateManyRequest<T>['body'],
+                    exclude,
+                }),
+            );
+        }
+
+        return this.transactional(this.nestedWriteTransaction(crudUpdateRequest.transaction, _.castArray(crudUpdateRequest.body)), (manager) =>
+            this.executeUpdate(crudUpdateRequest, manager),
+        );
+    };
+
+    private async executeUpdate(
+        crudUpdateRequest: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>,
+        manager: EntityManager,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const repository = this.getRepository(manager);
         const isMany = isCrudUpdateManyRequest<T>(crudUpdateRequest);
 
         if (isMany) {
             // Bulk update handling - Optimized to avoid N+1 queries
             const primaryKeyName = this.primaryKey[0];
 
+            const { bodies, nestedWrites } = this.splitNestedWrites(crudUpdateRequest.body);
+
             // 1. Collect all IDs
-            const ids = crudUpdateRequest.body.map((item) => item.id || item[primaryKeyName]);
+            const ids = bodies.map((item) => item.id || item[primaryKeyName]);
 
             // 2. orphanedRowAction이 작동하려면 OneToMany 관계를 먼저 로드해야 함
             const relationsToLoad = this.getOneToManyRelationNames();
 
             // 3. Fetch all entities with a single query using In operator (with relations for orphan detection)
-            const entities = await this.repository.find({
-                where: { [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
+            const entities = await repository.find({
+                where: { ...crudUpdateRequest.scope, [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
                 relations: relationsToLoad,
             });
 
@@ -880,10 +1552,13 @@ export class CrudService<T extends EntityType> {
             if (missingIds.length > 0) {
                 throw new NotFoundException(`Entities not found: ${missingIds.join(', ')}`);
             }
+            await this.assertAbility(crudUpdateRequest, entities);
+            const snapshots = new Map(entities.map((entity) => [entity[primaryKeyName], this.snapshot(crudUpdateRequest, entity)]));
 
             // 6. Process updates with hooks
+            const nestedWritePlans: NestedWritePlan[][] = [];
             const entitiesToUpdate = await Promise.all(
-                crudUpdateRequest.body.map(async (item) => {
+                bodies.map(async (item, index) => {
                     const { id, ...updateData } = item;
                     const entityId = id || item[primaryKeyName];
                     const entity = entityMap.get(entityId)!;
@@ -895,6 +1570,7 @@ export class CrudService<T extends EntityType> {
                         currentEntity: entity,
                         controller: this.controllerInstance,
                         request: crudUpdateRequest.request,
+                        manager,
                     };
 
                     // OneToMany 배열을 수동으로 교체 (기존 배열 객체 유지)
@@ -906,21 +1582,40 @@ export class CrudService<T extends EntityType> {
                     // OneToMany 관계의 nested entities에 부모 ID를 설정 (assign 후)
                     this.setParentReferencesOnEntity(entity);
 
-                    // Execute hooks
+                    // Execute hooks (단건 update와 같은 순서)
                     let processedEntity = entity;
-                    // No configuration-based hooks
-                    // No configuration-based hooks
+                    if (crudUpdateRequest.hooks?.assignBefore) {
+                        processedEntity = (await crudUpdateRequest.hooks.assignBefore(processedEntity, context)) as T;
+                    }
+                    if (crudUpdateRequest.hooks?.assignAfter) {
+                        processedEntity = await crudUpdateRequest.hooks.assignAfter(processedEntity, updateData as DeepPartial<T>, context);
+                    }
+                    if (crudUpdateRequest.hooks?.saveBefore) {
+                        processedEntity = await crudUpdateRequest.hooks.saveBefore(processedEntity, context);
+                    }
 
                     // save 직전 최종 FK 설정
                     this.setParentReferencesOnEntity(processedEntity);
+                    nestedWritePlans[index] = await this.prepareNestedWrites(processedEntity, nestedWrites[index], manager, crudUpdateRequest.scope);
 
                     return processedEntity;
                 }),
             );
 
-            return this.repository
+            return repository
                 .save(entitiesToUpdate, crudUpdateRequest.saveOptions)
                 .then(async (updatedEntities) => {
+                    for (const [index, entity] of updatedEntities.entries()) {
+                        updatedEntities[index] = (await this.applyNestedWrites(entity, nestedWrites[index], nestedWritePlans[index], manager)) as typeof entity;
+                    }
+
+                    await this.recordChanges(
+                        crudUpdateRequest,
+                        'update',
+                        updatedEntities.map((after, index) => ({ before: snapshots.get(ids[index]), after })),
+                        manager,
+                    );
+
                     // Execute saveAfter hook for each entity
                     const processedEntities = await Promise.all(
                         updatedEntities.map(async (entity, index) => {
@@ -929,8 +1624,12 @@ export class CrudService<T extends EntityType> {
                                 params: { [this.primaryKey[0]]: crudUpdateRequest.body[index].id },
                                 controller: this.controllerInstance,
                                 request: crudUpdateRequest.request,
+                                manager,
                             };
-                            const afterSaveEntity = entity;
+                            let afterSaveEntity: T = entity;
+                            if (crudUpdateRequest.hooks?.saveAfter) {
+                                afterSaveEntity = await crudUpdateRequest.hooks.saveAfter(entity, context);
+                            }
                             return this.excludeEntity(afterSaveEntity, crudUpdateRequest.exclude);
                         }),
                     );
@@ -947,7 +1646,7 @@ export class CrudService<T extends EntityType> {
             // orphanedRowAction이 작동하려면 OneToMany 관계를 먼저 로드해야 함
             const relationsToLoad = this.getOneToManyRelationNames();
 
-            return this.repository
+            return repository
                 .findOne({
                     where: crudUpdateRequest.params as unknown as FindOptionsWhere<T>,
                     relations: relationsToLoad,
@@ -956,6 +1655,9 @@ export class CrudService<T extends EntityType> {
                     if (!entity) {
                         throw new NotFoundException();
                     }
+                    const expectedVersion = this.assertVersion(entity, crudUpdateRequest.versionCondition);
+                    await this.assertAbility(crudUpdateRequest, entity);
+                    const before = this.snapshot(crudUpdateRequest, entity);
 
                     const context: HookContext<T> = {
                         operation: 'update' as Method,
@@ -963,14 +1665,20 @@ export class CrudService<T extends EntityType> {
                         currentEntity: entity,
                         controller: this.controllerInstance,
                         request: crudUpdateRequest.request,
+                        manager,
                     };
 
+                    const {
+                        bodies: [updateBody],
+                        nestedWrites: [nestedWrites],
+                    } = this.splitNestedWrites([crudUpdateRequest.body]);
+
                     // 🚀 UPDATE 개선: OneToMany 배열을 수동으로 교체하여 orphan 감지 가능하게 함
                     // 1. OneToMany 배열 교체 (기존 배열 객체 유지, body에서 제거)
-                    this.replaceOneToManyArrays(entity, crudUpdateRequest.body);
+                    this.replaceOneToManyArrays(entity, updateBody);
 
                     // 2. 나머지 필드를 entity에 할당
-                    _.assign(entity, crudUpdateRequest.body);
+                    _.assign(entity, updateBody);
 
                     // 3. OneToMany 관계의 nested entities에 부모 ID를 설정
                     this.setParentReferencesOnEntity(entity);
@@ -983,7 +1691,7 @@ export class CrudService<T extends EntityType> {
 
                     // assignAfter 훅 실행
                     if (crudUpdateRequest.hooks?.assignAfter) {
-                        processedEntity = await crudUpdateRequest.hooks.assignAfter(processedEntity, crudUpdateRequest.body, context);
+                        processedEntity = await crudUpdateRequest.hooks.assignAfter(processedEntity, updateBody, context);
                     }
 
                     // 훅 실행 후 다시 FK 설정 (훅에서 배열이 교체되었을 수 있음)
@@ -996,36 +1704,56 @@ export class CrudService<T extends EntityType> {
 
                     // save 직전 최종 FK 설정 (saveBefore 훅에서 배열이 교체되었을 수 있음)
                     this.setParentReferencesOnEntity(processedEntity);
+                    const nestedWritePlans = await this.prepareNestedWrites(processedEntity, nestedWrites, manager, crudUpdateRequest.scope);
+                    await this.claimVersion(processedEntity, expectedVersion, repository, this.columnValues(processedEntity));
 
-                    return this.repository
+                    return repository
                         .save(processedEntity, crudUpdateRequest.saveOptions)
-                        .then(async (updatedEntity) => {
+                        .then(async (saved) => {
+                            const updatedEntity = await this.applyNestedWrites(saved, nestedWrites, nestedWritePlans, manager);
+                            await this.recordChanges(crudUpdateRequest, 'update', [{ before, after: updatedEntity }], manager);
+
                             // saveAfter 훅 실행
                             let finalEntity = updatedEntity;
                             if (crudUpdateRequest.hooks?.saveAfter) {
                                 finalEntity = await crudUpdateRequest.hooks.saveAfter(updatedEntity, context);
                             }
 
+                            const etag = this.getEntityTag(finalEntity);
                             const processedEntity = this.excludeEntity(finalEntity, crudUpdateRequest.exclude);
 
                             // Transform entity to plain object to apply @Exclude decorators
                             const transformedEntity = this.transformEntityToPlain(processedEntity);
                             const excludedFields = crudUpdateRequest.exclude.size > 0 ? [...crudUpdateRequest.exclude] : undefined;
 
-                            return createCrudResponse(transformedEntity, { excludedFields });
+                            return createCrudResponse(transformedEntity, { excludedFields, etag });
                         })
                         .catch(this.throwConflictException);
                 });
         }
-    };
+    }
 
     readonly handleDestroy = async (
-        crudDeleteRequest: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>,
+        crudDeleteRequest: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T> | CrudDeleteByFilterRequest<T>,
     ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
         if (this.primaryKey.length === 0) {
             throw new ConflictException('cannot found primary key from entity');
         }
 
+        if (isCrudDeleteByFilterRequest<T>(crudDeleteRequest)) {
+            // 필터에 일치하는 행의 기본 키를 조회한 뒤 bulk delete로 처리
+            const { filter, exclude, ...deleteRequest } = crudDeleteRequest;
+            return this.handleBulkFilter(filter, exclude, (params) => this.handleDestroy({ ...deleteRequest, params, exclude }));
+        }
+
+        return this.transactional(crudDeleteRequest.transaction, (manager) => this.executeDestroy(crudDeleteRequest, manager));
+    };
+
+    private async executeDestroy(
+        crudDeleteRequest: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>,
+        manager: EntityManager,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const repository = this.getRepository(manager);
         const isMany = isCrudDeleteManyRequest<T>(crudDeleteRequest);
 
         if (isMany) {
@@ -1036,8 +1764,8 @@ export class CrudService<T extends EntityType> {
             const ids = crudDeleteRequest.params.map((params) => params[primaryKeyName]);
 
             // 2. Fetch all entities with a single query using In operator
-            const entities = await this.repository.find({
-                where: { [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
+            const entities = await repository.find({
+                where: { ...crudDeleteRequest.scope, [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
             });
 
             // 3. Create a map for fast lookup
@@ -1051,6 +1779,8 @@ export class CrudService<T extends EntityType> {
             if (missingIds.length > 0) {
                 throw new NotFoundException(`Entities not found: ${missingIds.join(', ')}`);
             }
+            await this.assertAbility(crudDeleteRequest, entities);
+            const snapshots = new Map(entities.map((entity) => [entity[primaryKeyName], this.snapshot(crudDeleteRequest, entity)]));
 
             // 5. Process deletes with hooks
             const entitiesToDelete = await Promise.all(
@@ -1064,6 +1794,7 @@ export class CrudService<T extends EntityType> {
                         currentEntity: entity,
                         controller: this.controllerInstance,
                         request: crudDeleteRequest.request,
+                        manager,
                     };
 
                     // Execute destroyBefore hook
@@ -1078,8 +1809,17 @@ export class CrudService<T extends EntityType> {
 
             // Perform bulk delete
             const deletedEntities = await (crudDeleteRequest.softDeleted
-                ? this.repository.softRemove(entitiesToDelete, crudDeleteRequest.saveOptions)
-                : this.repository.remove(entitiesToDelete, crudDeleteRequest.saveOptions));
+                ? repository.softRemove(entitiesToDelete, crudDeleteRequest.saveOptions)
+                : repository.remove(entitiesToDelete, crudDeleteRequest.saveOptions));
+            await this.recordChanges(
+                crudDeleteRequest,
+                'destroy',
+                deletedEntities.map((entity, index) => ({
+                    before: snapshots.get(ids[index]),
+                    after: crudDeleteRequest.softDeleted ? entity : undefined,
+                })),
+                manager,
+            );
 
             // Execute destroyAfter hook for each entity
             const processedEntities = await Promise.all(
@@ -1089,6 +1829,7 @@ export class CrudService<T extends EntityType> {
                         params: crudDeleteRequest.params[index],
                         controller: this.controllerInstance,
                         request: crudDeleteRequest.request,
+                        manager,
                     };
                     let afterDestroyEntity = entity;
                     if (crudDeleteRequest.hooks?.destroyAfter) {
@@ -1108,10 +1849,13 @@ export class CrudService<T extends EntityType> {
             });
         } else {
             // Single delete (existing logic)
-            return this.findOne(crudDeleteRequest.params as unknown as FindOptionsWhere<T>, false).then(async (entity: T | null) => {
+            return this.findOne(crudDeleteRequest.params as unknown as FindOptionsWhere<T>, false, repository).then(async (entity: T | null) => {
                 if (!entity) {
                     throw new NotFoundException();
                 }
+                const expectedVersion = this.assertVersion(entity, crudDeleteRequest.versionCondition);
+                await this.assertAbility(crudDeleteRequest, entity);
+                const before = this.snapshot(crudDeleteRequest, entity);
 
                 const context: HookContext<T> = {
                     operation: 'destroy' as Method,
@@ -1119,6 +1863,7 @@ export class CrudService<T extends EntityType> {
                     currentEntity: entity,
                     controller: this.controllerInstance,
                     request: crudDeleteRequest.request,
+                    manager,
                 };
 
                 // 🚀 destroyBefore 훅 실행 - entity를 받아서 entity를 반환
@@ -1126,10 +1871,17 @@ export class CrudService<T extends EntityType> {
                 if (crudDeleteRequest.hooks?.destroyBefore) {
                     processedEntity = await crudDeleteRequest.hooks.destroyBefore(entity, context);
                 }
+                await this.claimVersion(processedEntity, expectedVersion, repository);
 
                 const deletedEntity = await (crudDeleteRequest.softDeleted
-                    ? this.repository.softRemove(processedEntity, crudDeleteRequest.saveOptions)
-                    : this.repository.remove(processedEntity, crudDeleteRequest.saveOptions));
+                    ? repository.softRemove(processedEntity, crudDeleteRequest.saveOptions)
+                    : repository.remove(processedEntity, crudDeleteRequest.saveOptions));
+                await this.recordChanges(
+                    crudDeleteRequest,
+                    'destroy',
+                    [{ before, after: crudDeleteRequest.softDeleted ? deletedEntity : undefined }],
+                    manager,
+                );
 
                 // 🚀 destroyAfter 훅 실행 - 삭제 후 처리
                 let finalEntity = deletedEntity;
@@ -1149,11 +1901,18 @@ export class CrudService<T extends EntityType> {
                 });
             });
         }
-    };
+    }
 
     readonly handleRecover = async (
         crudRecoverRequest: CrudRecoverRequest<T> | CrudRecoverManyRequest<T>,
-    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> => {
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> =>
+        this.transactional(crudRecoverRequest.transaction, (manager) => this.executeRecover(crudRecoverRequest, manager));
+
+    private async executeRecover(
+        crudRecoverRequest: CrudRecoverRequest<T> | CrudRecoverManyRequest<T>,
+        manager: EntityManager,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const repository = this.getRepository(manager);
         const isMany = isCrudRecoverManyRequest<T>(crudRecoverRequest);
 
         if (isMany) {
@@ -1164,8 +1923,8 @@ export class CrudService<T extends EntityType> {
             const ids = crudRecoverRequest.params.map((params) => params[primaryKeyName]);
 
             // 2. Fetch all entities with a single query using In operator (with deleted records)
-            const entities = await this.repository.find({
-                where: { [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
+            const entities = await repository.find({
+                where: { ...crudRecoverRequest.scope, [primaryKeyName]: In(ids) } as FindOptionsWhere<T>,
                 withDeleted: true,
             });
 
@@ -1180,6 +1939,8 @@ export class CrudService<T extends EntityType> {
             if (missingIds.length > 0) {
                 throw new NotFoundException(`Entities not found: ${missingIds.join(', ')}`);
             }
+            await this.assertAbility(crudRecoverRequest, entities);
+            const snapshots = new Map(entities.map((entity) => [entity[primaryKeyName], this.snapshot(crudRecoverRequest, entity)]));
 
             // 5. Process recovers with hooks
             const recoverData = await Promise.all(
@@ -1193,6 +1954,7 @@ export class CrudService<T extends EntityType> {
                         currentEntity: entity,
                         controller: this.controllerInstance,
                         request: crudRecoverRequest.request,
+                        manager,
                     };
 
                     const wasSoftDeleted = 'deletedAt' in entity && entity.deletedAt != null;
@@ -1210,7 +1972,13 @@ export class CrudService<T extends EntityType> {
             const entitiesToRecover = recoverData.map((d) => d.entity);
 
             // Perform bulk recover
-            await this.repository.recover(entitiesToRecover, crudRecoverRequest.saveOptions).catch(this.throwConflictException);
+            await repository.recover(entitiesToRecover, crudRecoverRequest.saveOptions).catch(this.throwConflictException);
+            await this.recordChanges(
+                crudRecoverRequest,
+                'recover',
+                entitiesToRecover.map((after, index) => ({ before: snapshots.get(ids[index]), after })),
+                manager,
+            );
 
             // Execute recoverAfter hook for each entity
             const processedEntities = await Promise.all(
@@ -1220,6 +1988,7 @@ export class CrudService<T extends EntityType> {
                         params: crudRecoverRequest.params[index],
                         controller: this.controllerInstance,
                         request: crudRecoverRequest.request,
+                        manager,
                     };
                     let afterRecoverEntity = entity;
                     if (crudRecoverRequest.hooks?.recoverAfter) {
@@ -1239,10 +2008,12 @@ export class CrudService<T extends EntityType> {
             });
         } else {
             // Single recover (existing logic)
-            return this.findOne(crudRecoverRequest.params as unknown as FindOptionsWhere<T>, true).then(async (entity: T | null) => {
+            return this.findOne(crudRecoverRequest.params as unknown as FindOptionsWhere<T>, true, repository).then(async (entity: T | null) => {
                 if (!entity) {
                     throw new NotFoundException();
                 }
+                await this.assertAbility(crudRecoverRequest, entity);
+                const before = this.snapshot(crudRecoverRequest, entity);
 
                 const context: HookContext<T> = {
                     operation: 'recover' as Method,
@@ -1250,6 +2021,7 @@ export class CrudService<T extends EntityType> {
                     currentEntity: entity,
                     controller: this.controllerInstance,
                     request: crudRecoverRequest.request,
+                    manager,
                 };
 
                 const wasSoftDeleted = 'deletedAt' in entity && entity.deletedAt != null;
@@ -1260,9 +2032,10 @@ export class CrudService<T extends EntityType> {
                     processedEntity = await crudRecoverRequest.hooks.recoverBefore(entity, context);
                 }
 
-                const recoveredEntity = await this.repository
+                const recoveredEntity = await repository
                     .recover(processedEntity, crudRecoverRequest.saveOptions)
                     .catch(this.throwConflictException);
+                await this.recordChanges(crudRecoverRequest, 'recover', [{ before, after: recoveredEntity }], manager);
 
                 // 🚀 recoverAfter 훅 실행 - 복구 후 처리
                 let finalEntity = recoveredEntity;
@@ -1282,11 +2055,12 @@ export class CrudService<T extends EntityType> {
                 });
             });
         }
-    };
+    }
 
-    private async findOne(where: FindOptionsWhere<T>, withDeleted: boolean): Promise<T | null> {
-        if (!this.usableQueryRunner) {
-            return this.repository.findOne({ where, withDeleted });
+    private async findOne(where: FindOptionsWhere<T>, withDeleted: boolean, repository = this.repository): Promise<T | null> {
+        // 트랜잭션 안에서는 트랜잭션의 커넥션으로 조회
+        if (!this.usableQueryRunner || repository !== this.repository) {
+            return repository.findOne({ where, withDeleted });
         }
         const queryBuilder = this.repository.createQueryBuilder().where(where);
         if (withDeleted) {
@@ -1310,10 +2084,495 @@ export class CrudService<T extends EntityType> {
         return entity;
     }
 
+    /**
+     * 라우트에 transaction 옵션이 있으면 저장과 모든 훅을 하나의 트랜잭션에서 실행합니다.
+     * 훅에서 예외가 발생하면 전체가 롤백됩니다.
+     */
+    private async transactional<R>(transaction: TransactionOptions | undefined, work: (manager: EntityManager) => Promise<R>): Promise<R> {
+        if (!transaction) {
+            return work(this.repository.manager);
+        }
+        return transaction.isolation
+            ? this.repository.manager.transaction(transaction.isolation, work)
+            : this.repository.manager.transaction(work);
+    }
+
+    private getRepository(manager: EntityManager): Repository<T> {
+        return manager === this.repository.manager ? this.repository : manager.withRepository(this.repository);
+    }
+
+    /**
+     * 낙관적 동시성 제어에 사용하는 버전 컬럼 (@VersionColumn, 없으면 @UpdateDateColumn)
+     */
+    private get versionColumn(): ColumnMetadata | undefined {
+        return this.repository.metadata.versionColumn ?? this.repository.metadata.updateDateColumn;
+    }
+
+    private getEntityTag(entity: T): string | undefined {
+        return this.versionColumn && EntityTagUtil.create(this.versionColumn.getEntityValue(entity));
+    }
+
+    /**
+     * 라우트 정책의 ability를 엔티티마다 확인 (예: `can(user, 'update', entity)`), 거부되면 403
+     */
+    private async assertAbility(crudRequest: CrudRequestBase, entities: T | T[]): Promise<void> {
+        const { ability } = crudRequest;
+        if (!ability) {
+            return;
+        }
+        const allowed = await Promise.all(_.castArray(entities).map((entity) => ability(entity)));
+        if (allowed.includes(false)) {
+            throw new ForbiddenException('Not allowed to access this entity');
+        }
+    }
+
+    /**
+     * audit 또는 events 옵션이 있으면 변경 전 컬럼 값을 남겨둡니다.
+     */
+    private snapshot(crudRequest: CrudRequestBase, entity: T): Record<string, unknown> | undefined {
+        return crudRequest.audit || crudRequest.events ? AuditTrail.snapshot(entity, this.columnNames) : undefined;
+    }
+
+    /**
+     * 변경 전후 컬럼 값의 차이를 감사 기록과 outbox 이벤트로 남깁니다. 변경된 컬럼이 없는 엔티티는 기록하지 않습니다.
+     * 생성은 변경 전 값이, 삭제(soft delete 제외)는 변경 후 값이 없습니다.
+     */
+    private async recordChanges(
+        crudRequest: CrudRequestBase,
+        operation: CrudEventMethod,
+        mutations: Array<{ before?: Record<string, unknown>; after?: T }>,
+        manager: EntityManager,
+    ): Promise<void> {
+        const { audit, events, request } = crudRequest;
+        const publish = events && (events.methods?.includes(operation) ?? true) ? events : undefined;
+        if (!audit && !publish) {
+            return;
+        }
+        const entityName = this.repository.metadata.tableName;
+        for (const { before, after } of mutations) {
+            const afterSnapshot = after && AuditTrail.snapshot(after, this.columnNames);
+            const entityId = AuditTrail.entityId({ ...afterSnapshot, ...before }, this.primaryKey);
+
+            const auditChanges = audit ? AuditTrail.diff(before, afterSnapshot, audit.exclude) : [];
+            if (audit && auditChanges.length > 0) {
+                await AuditTrail.write(
+                    audit,
+                    {
+                        entityName,
+                        entityId,
+                        operation,
+                        actor: AuditTrail.actor(request, audit.actor),
+                        changes: auditChanges,
+                        createdAt: new Date(),
+                    },
+                    manager,
+                );
+            }
+
+            const eventChanges = publish ? AuditTrail.diff(before, afterSnapshot, publish.exclude) : [];
+            if (publish && eventChanges.length > 0) {
+                // 같은 EntityManager로 기록하므로 route의 트랜잭션이 롤백되면 이벤트도 남지 않음
+                await manager.getRepository(publish.outbox).save({
+                    name: `${publish.name ?? _.lowerFirst(this.repository.metadata.targetName)}.${EVENT_SUFFIXES[operation]}`,
+                    entityName,
+                    entityId,
+                    method: operation,
+                    changes: eventChanges,
+                    data: _.omit(afterSnapshot ?? before, publish.exclude ?? []),
+                });
+            }
+        }
+    }
+
+    /**
+     * Splits the nested writes of the relations from each body
+     */
+    private splitNestedWrites<B>(bodies: B[]): { bodies: B[]; nestedWrites: CrudNestedWrites[] } {
+        const relations = this.repository.metadata.relations.map(({ propertyName }) => propertyName);
+        const items = bodies.map((body) => NestedWrite.split(body, relations));
+        return { bodies: items.map(({ body }) => body), nestedWrites: items.map(({ nestedWrites }) => nestedWrites) };
+    }
+
+    /**
+     * Nested writes save several tables, so a request with them always runs in a transaction
+     */
+    private nestedWriteTransaction(transaction: TransactionOptions | undefined, bodies: unknown[]): TransactionOptions | undefined {
+        if (transaction) {
+            return transaction;
+        }
+        return this.splitNestedWrites(bodies).nestedWrites.some((nestedWrites) => !_.isEmpty(nestedWrites)) ? {} : undefined;
+    }
+
+    /**
+     * Resolves the rows of nested writes before the entity is saved.
+     * To-one relations are assigned to the entity so that their foreign keys are saved with it,
+     * the writes to to-many relations are returned for `applyNestedWrites`.
+     * The conditions of the scope apply to the columns the related entity has too:
+     * rows to connect must satisfy them, and created or updated rows are saved with them.
+     * Only the rows related to the entity can be updated or deleted.
+     */
+    private async prepareNestedWrites(
+        entity: T,
+        nestedWrites: CrudNestedWrites,
+        manager: EntityManager,
+        scope?: Partial<Record<keyof T, unknown>>,
+    ): Promise<NestedWritePlan[]> {
+        const plans: NestedWritePlan[] = [];
+        const record = entity as Record<string, unknown>;
+        const persisted = this.repository.metadata.hasAllPrimaryKeys(entity);
+
+        for (const [propertyName, nestedWrite] of Object.entries(nestedWrites)) {
+            const relation = this.repository.metadata.findRelationWithPropertyPath(propertyName);
+            if (!relation) {
+                continue;
+            }
+            const target = relation.inverseEntityMetadata.target;
+            const primaryKeys = relation.inverseEntityMetadata.primaryColumns.map(({ propertyName: primaryKey }) => primaryKey);
+            const relationQuery = () => manager.createQueryBuilder().relation(this.repository.target, propertyName).of(entity);
+            const relatedScope = _.pickBy(scope, (_value, key) => Boolean(relation.inverseEntityMetadata.findColumnWithPropertyPath(key)));
+
+            if (relation.isManyToOne || relation.isOneToOneOwner) {
+                if (nestedWrite.delete !== undefined) {
+                    throw new UnprocessableEntityException(`delete of ${propertyName} needs a to-many relation`);
+                }
+                // update는 현재 연결된 행만 수정하므로 연결을 바꾸는 연산과 함께 쓸 수 없음
+                if (
+                    nestedWrite.update !== undefined &&
+                    (nestedWrite.connect !== undefined || nestedWrite.create !== undefined || nestedWrite.disconnect)
+                ) {
+                    throw new UnprocessableEntityException(
+                        `update of ${propertyName} cannot be combined with connect, create or disconnect`,
+                    );
+                }
+                if (nestedWrite.disconnect) {
+                    record[propertyName] = null;
+                }
+                if (nestedWrite.connect !== undefined) {
+                    [record[propertyName]] = await this.findNestedRows(
+                        relation,
+                        _.castArray(nestedWrite.connect).slice(0, 1),
+                        manager,
+                        relatedScope,
+                    );
+                }
+                if (nestedWrite.create !== undefined) {
+                    record[propertyName] = await manager
+                        .save(target, Object.assign(manager.create(target, nestedWrite.create as DeepPartial<EntityType>) as EntityType, relatedScope))
+                        .catch(this.throwConflictException);
+                }
+                if (nestedWrite.update !== undefined) {
+                    const current = persisted ? await relationQuery().loadOne() : undefined;
+                    if (!current) {
+                        throw new UnprocessableEntityException(`${propertyName} has no row to update`);
+                    }
+                    const updated = manager.merge(target, current, _.omit(nestedWrite.update as EntityType, primaryKeys));
+                    record[propertyName] = await manager
+                        .save(target, this.scopeNestedRow(relation, updated, nestedWrite.update, relatedScope))
+                        .catch(this.throwConflictException);
+                }
+                continue;
+            }
+
+            if (!relation.isOneToMany && !relation.isManyToMany) {
+                throw new UnprocessableEntityException(`Nested writes to ${propertyName} are not supported`);
+            }
+            const linked: EntityType[] = persisted ? await relationQuery().loadMany() : [];
+            const connect =
+                nestedWrite.connect === undefined ? [] : await this.findNestedRows(relation, nestedWrite.connect, manager, relatedScope);
+            plans.push({
+                relation,
+                // 이미 연결된 행은 다시 연결하지 않음
+                connect: _.uniq(connect).filter((row) => !linked.some((linkedRow) => matchesIdentifier(linkedRow, _.pick(row, primaryKeys)))),
+                // 연결되지 않은 행의 연결 해제는 무시
+                disconnect: _.castArray(nestedWrite.disconnect ?? []).flatMap((value) =>
+                    linked.filter((row) => matchesIdentifier(row, this.nestedRowIdentifier(relation, value))),
+                ),
+                create: _.castArray(nestedWrite.create ?? []).map((row) =>
+                    Object.assign(manager.create(target, row as DeepPartial<EntityType>) as EntityType, relatedScope),
+                ),
+                update: this.linkedNestedRows(relation, linked, nestedWrite.update).map(([row, value]) =>
+                    this.scopeNestedRow(relation, manager.merge(target, row, _.omit(value as EntityType, primaryKeys)), value, relatedScope),
+                ),
+                delete: this.linkedNestedRows(relation, linked, nestedWrite.delete).map(([row]) => row),
+            });
+        }
+        return plans;
+    }
+
+    /**
+     * Writes the to-many relations of nested writes after the entity is saved,
+     * and reloads the written relations for the response
+     */
+    private async applyNestedWrites(entity: T, nestedWrites: CrudNestedWrites, plans: NestedWritePlan[], manager: EntityManager): Promise<T> {
+        const relations = Object.keys(nestedWrites);
+        if (relations.length === 0) {
+            return entity;
+        }
+        const primaryKey = this.repository.metadata.getEntityIdMap(entity);
+
+        for (const { relation, connect, disconnect, create, update, delete: remove } of plans) {
+            const target = relation.inverseEntityMetadata.target;
+            const relationQuery = manager.createQueryBuilder().relation(this.repository.target, relation.propertyName).of(entity);
+
+            if (disconnect.length > 0) {
+                await relationQuery.remove(disconnect);
+            }
+            if (connect.length > 0) {
+                await relationQuery.add(connect);
+            }
+            if (create.length > 0) {
+                if (relation.isOneToMany) {
+                    for (const row of create) {
+                        row[relation.inverseSidePropertyPath] = primaryKey;
+                    }
+                }
+                const created = await manager.save(target, create);
+                if (relation.isManyToMany) {
+                    await relationQuery.add(created);
+                }
+            }
+            if (update.length > 0) {
+                await manager.save(target, update);
+            }
+            if (remove.length > 0) {
+                if (relation.isManyToMany) {
+                    await relationQuery.remove(remove);
+                }
+                await manager.remove(target, remove);
+            }
+        }
+
+        const reloaded = await manager.findOne(this.repository.target, { where: primaryKey as FindOptionsWhere<T>, relations });
+        return reloaded ? Object.assign(entity, _.pick(reloaded, relations)) : entity;
+    }
+
+    /**
+     * Existing rows of the related entity within the scope, in the order of the values
+     */
+    private async findNestedRows(
+        relation: RelationMetadata,
+        values: unknown,
+        manager: EntityManager,
+        scope: Record<string, unknown>,
+    ): Promise<EntityType[]> {
+        const identifiers = _.castArray(values).map((value) => this.nestedRowIdentifier(relation, value));
+        if (identifiers.length === 0) {
+            return [];
+        }
+        const rows = await manager.find(relation.inverseEntityMetadata.target, {
+            where: identifiers.map((identifier) => ({ ...identifier, ...scope })) as Array<FindOptionsWhere<EntityType>>,
+        });
+        const missing = identifiers.filter((identifier) => !rows.some((row) => matchesIdentifier(row, identifier)));
+        if (missing.length > 0) {
+            throw new UnprocessableEntityException(
+                `${relation.propertyName} ${missing.map((identifier) => Object.values(identifier).join(':')).join(', ')} not found`,
+            );
+        }
+        return identifiers.map((identifier) => rows.find((row) => matchesIdentifier(row, identifier))!);
+    }
+
+    /**
+     * Assigns the scope to a row of a nested update, whose value must not change a column of the scope (422)
+     */
+    private scopeNestedRow(relation: RelationMetadata, row: EntityType, value: unknown, scope: Record<string, unknown>): EntityType {
+        const changed = Object.keys(scope).filter((key) => _.has(value, key) && !_.isEqual((value as Record<string, unknown>)[key], scope[key]));
+        if (changed.length > 0) {
+            throw new UnprocessableEntityException(`${changed.join(', ')} of ${relation.propertyName} cannot be changed`);
+        }
+        return Object.assign(row, scope);
+    }
+
+    /**
+     * Linked rows of a to-many relation for the values of a nested update or delete, with each value
+     */
+    private linkedNestedRows(relation: RelationMetadata, linked: EntityType[], values: unknown): Array<[EntityType, unknown]> {
+        return _.castArray(values ?? []).map((value) => {
+            const identifier = this.nestedRowIdentifier(relation, value);
+            const row = linked.find((linkedRow) => matchesIdentifier(linkedRow, identifier));
+            if (!row) {
+                throw new UnprocessableEntityException(`${relation.propertyName} ${Object.values(identifier).join(':')} is not related`);
+            }
+            return [row, value];
+        });
+    }
+
+    /**
+     * Primary key of a related row, from its id or from an object with its primary key
+     */
+    private nestedRowIdentifier(relation: RelationMetadata, value: unknown): Record<string, unknown> {
+        const primaryKeys = relation.inverseEntityMetadata.primaryColumns.map(({ propertyName }) => propertyName);
+        if (!_.isObject(value)) {
+            if (primaryKeys.length !== 1) {
+                throw new UnprocessableEntityException(`Rows of ${relation.propertyName} need objects of their primary keys`);
+            }
+            return { [primaryKeys[0]]: value };
+        }
+        const identifier = _.pick(value as Record<string, unknown>, primaryKeys);
+        if (primaryKeys.some((primaryKey) => _.isNil(identifier[primaryKey]))) {
+            throw new UnprocessableEntityException(`Rows of ${relation.propertyName} need their primary key`);
+        }
+        return identifier;
+    }
+
+    /**
+     * An upsert which found no entity must not insert the primary key of a row outside of the scope of the request (409)
+     */
+    private async assertPrimaryKeyAvailable(params: Partial<Record<keyof T, unknown>>, repository: Repository<T>): Promise<void> {
+        const primaryKeys = _.pick(params, this.primaryKey);
+        if (Object.keys(primaryKeys).length !== this.primaryKey.length) {
+            return;
+        }
+        if (await repository.exists({ where: primaryKeys as FindOptionsWhere<T>, withDeleted: true })) {
+            throw new ConflictException('An entity with the same primary key already exists');
+        }
+    }
+
+    /**
+     * 저장된 엔티티의 버전이 요청에서 기대한 버전과 다르면 요청을 거부합니다.
+     * If-Match 헤더가 일치하지 않으면 412, body의 버전 필드가 다르면 409를 반환합니다.
+     * @returns version of the stored entity when the request is conditional, to be claimed by `claimVersion` before it is written
+     */
+    private assertVersion(entity: T | null, versionCondition?: CrudVersionCondition): unknown {
+        if (!versionCondition) {
+            return undefined;
+        }
+        const etag = entity ? this.getEntityTag(entity) : undefined;
+
+        // 저장된 엔티티가 없으면 If-Match는 항상 실패
+        if (versionCondition.ifMatch && !(etag && EntityTagUtil.matchesStrongly(versionCondition.ifMatch, etag))) {
+            throw new PreconditionFailedException('The entity has been modified since it was read');
+        }
+
+        if (entity && this.versionColumn && versionCondition.version !== undefined) {
+            const storedVersion: unknown = this.versionColumn.getEntityValue(entity);
+            // @UpdateDateColumn의 버전은 ISO 문자열이나 timestamp로 전달됨
+            const version = (storedVersion instanceof Date ? new Date(versionCondition.version as string | number) : versionCondition.version) as string | number | Date;
+            if (EntityTagUtil.create(version) !== etag) {
+                throw new ConflictException('The entity has been modified since it was read');
+            }
+        }
+        return entity && this.versionColumn?.getEntityValue(entity);
+    }
+
+    /**
+     * Writes the columns of a conditional request only if the row still has the version which was checked:
+     * `UPDATE … WHERE pk = :id AND version = :expected`. When another request saved the row in between, no row is affected (412).
+     * The new version is set on the entity, so that the following save only writes its relations.
+     */
+    private async claimVersion(entity: T, expectedVersion: unknown, repository: Repository<T>, values: Record<string, unknown> = {}): Promise<void> {
+        const { versionColumn } = this;
+        if (!versionColumn || expectedVersion === null || expectedVersion === undefined) {
+            return;
+        }
+        const { metadata } = repository;
+        const idMap = metadata.getEntityIdMap(entity) as FindOptionsWhere<T>;
+        // @UpdateDateColumn은 드라이버마다 저장 정밀도가 달라 밀리초 단위로 비교
+        const versionWhere =
+            expectedVersion instanceof Date
+                ? And(MoreThan(new Date(expectedVersion.getTime() - 1)), LessThan(new Date(expectedVersion.getTime() + 1)))
+                : expectedVersion;
+
+        const { affected } = await repository
+            .createQueryBuilder()
+            .update()
+            .set(values as QueryDeepPartialEntity<T>)
+            .where(_.set({ ...idMap }, versionColumn.propertyPath, versionWhere))
+            .execute();
+        if (affected === 0) {
+            throw new PreconditionFailedException('The entity has been modified since it was read');
+        }
+
+        const stored = await repository.findOne({ where: idMap, withDeleted: true });
+        for (const column of _.compact([metadata.versionColumn, metadata.updateDateColumn])) {
+            column.setEntityValue(entity, stored ? column.getEntityValue(stored) : undefined);
+        }
+    }
+
+    /**
+     * Values of the columns of the entity written by `claimVersion`. Generated, version and date columns are left to the database,
+     * and relations which are not loaded are left unchanged.
+     */
+    private columnValues(entity: T): Record<string, unknown> {
+        const values: Record<string, unknown> = {};
+        for (const column of this.repository.metadata.columns) {
+            const managed = column.isVersion || column.isCreateDate || column.isUpdateDate || column.isDeleteDate;
+            if (column.isPrimary || column.isGenerated || column.isVirtual || managed || !column.isUpdate) {
+                continue;
+            }
+            const value: unknown = column.getEntityValue(entity);
+            if (value !== undefined) {
+                _.set(values, column.propertyPath, value);
+            }
+        }
+        return values;
+    }
+
+    /**
+     * 필터 기반 bulk 요청의 대상 행을 조회합니다.
+     * maxRows보다 많은 행이 일치하면 요청을 거부하고, dryRun이면 일치하는 행 수와 샘플만 반환합니다.
+     */
+    private async handleBulkFilter(
+        filter: CrudBulkFilter<T>,
+        exclude: Set<string>,
+        execute: (params: Array<Partial<Record<keyof T, unknown>>>) => Promise<CrudResponse<T> | CrudArrayResponse<T>>,
+    ): Promise<CrudResponse<T> | CrudArrayResponse<T>> {
+        const order = _.zipObject(
+            this.primaryKey,
+            this.primaryKey.map(() => 'ASC'),
+        ) as FindOptionsOrder<T>;
+
+        if (filter.dryRun) {
+            const [sample, total] = await this.repository.findAndCount({ where: filter.where, take: filter.sampleSize, order });
+            this.assertBulkFilterRows(total, filter.maxRows);
+
+            const excludedFields = exclude.size > 0 ? [...exclude] : undefined;
+            return createCrudArrayResponse(
+                this.transformEntityToPlain(sample.map((entity) => this.excludeEntity(entity, exclude))) as T[],
+                { affectedCount: total, dryRun: true, excludedFields },
+            );
+        }
+
+        // maxRows + 1개까지만 조회하여 초과 여부를 확인
+        const entities = await this.repository.find({
+            where: filter.where,
+            select: this.primaryKey as Array<keyof T>,
+            take: filter.maxRows + 1,
+            order,
+        });
+        this.assertBulkFilterRows(entities.length, filter.maxRows);
+
+        return execute(entities.map((entity) => _.pick(entity, this.primaryKey) as Partial<Record<keyof T, unknown>>));
+    }
+
+    private assertBulkFilterRows(matchedRows: number, maxRows: number): void {
+        if (matchedRows > maxRows) {
+            throw new UnprocessableEntityException(`Filter matches more than ${maxRows} rows`);
+        }
+    }
+
+    /**
+     * 관계 필드를 선택(sparse fieldsets)한 경우 관계 엔티티의 기본 키를 함께 선택합니다.
+     * TypeORM은 객체 형태 select에 기본 키를 자동으로 추가하지 않습니다.
+     */
+    private selectRelationPrimaryKeys(select: Record<string, unknown>, metadata: EntityMetadata): Record<string, unknown> {
+        for (const [propertyName, value] of Object.entries(select)) {
+            const relation = metadata.findRelationWithPropertyPath(propertyName);
+            if (!relation || !_.isPlainObject(value)) {
+                continue;
+            }
+            const relationSelect = value as Record<string, unknown>;
+            for (const primaryColumn of relation.inverseEntityMetadata.primaryColumns) {
+                relationSelect[primaryColumn.propertyName] = true;
+            }
+            this.selectRelationPrimaryKeys(relationSelect, relation.inverseEntityMetadata);
+        }
+        return select;
+    }
+
     /**
      * entity를 plain object로 변환하여 @Exclude 데코레이터를 적용합니다.
      */
-    private transformEntityToPlain(entity: T | T[]): any {
+    private transformEntityToPlain(entity: EntityType | EntityType[]): any {
         return instanceToPlain(entity);
     }
 
@@ -12,7 +12,8 @@ const CRUD_RESPONSE_FORMAT_METADATA = 'crud:responseFormat';
 const CRUD_AUTO_INCLUDE_METADATA = 'crud:autoInclude';
 
 /**
- * 역할 기반 필터링을 설정하는 데코레이터
+ * 라우트를 호출할 수 있는 역할을 설정하는 데코레이터
+ * 호출자의 역할(`user.roles` 또는 `policy.roles`)에 하나라도 포함되지 않으면 403을 응답
  */
 export const CrudRoles = (roles: string[]) => <T extends Constructor>(target: T) => {
     Reflect.defineMetadata(CRUD_ROLES_METADATA, roles, target);
@@ -20,6 +21,13 @@ export const CrudRoles = (roles: string[]) => <T extends Constructor>(target: T)
     return target;
 };
 
+/**
+ * @CrudRoles로 설정된 역할을 반환 (@Crud 위/아래 어느 쪽에 선언해도 조회됨)
+ */
+export function getCrudRoles(target: Constructor): string[] | undefined {
+    return Reflect.getMetadata(CRUD_ROLES_METADATA, target);
+}
+
 /**
  * 캐시 설정을 하는 데코레이터
  */
@@ -63,6 +71,13 @@ export const CrudResponseFormat = (format: ResponseFormat) => <T extends Constru
     return target;
 };
 
+/**
+ * @CrudResponseFormat으로 설정된 기본 응답 포맷을 반환 (Accept 헤더나 format 쿼리가 없을 때 사용)
+ */
+export function getCrudResponseFormat(target: Constructor): ResponseFormat | undefined {
+    return Reflect.getMetadata(CRUD_RESPONSE_FORMAT_METADATA, target);
+}
+
 /**
  * 자동 관계 포함을 설정하는 데코레이터
  */
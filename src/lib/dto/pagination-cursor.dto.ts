@@ -1,21 +1,34 @@
+import { Expose } from 'class-transformer';
+import { IsIn, IsOptional } from 'class-validator';
+
 import { AbstractPaginationRequest } from '../abstract';
 import { PaginationType } from '../interface';
 
-import type { CursorPaginationResponse } from '../interface';
+import type { CursorPaginationResponse, PaginationCount } from '../interface';
 
 export class PaginationCursorDto extends AbstractPaginationRequest {
     type: PaginationType.CURSOR = PaginationType.CURSOR;
 
+    /**
+     * `before` reads the rows preceding the cursor (page[before]), otherwise the rows following it
+     */
+    @Expose({ name: 'direction' })
+    @IsIn(['after', 'before'])
+    @IsOptional()
+    direction?: 'after' | 'before';
+
     nextTotal(): number {
         return this.total;
     }
 
-    metadata<T>(take: number, _dataLength: number, total: number, nextCursor: string): CursorPaginationResponse<T>['metadata'] {
+    metadata<T>(take: number, _dataLength: number, count: PaginationCount, nextCursor: string, prevCursor: string): CursorPaginationResponse<T>['metadata'] {
+        const { total } = count;
         return {
+            ...count,
             limit: take,
-            total,
-            totalPages: total ? Math.ceil(total / take) : 1,
-            nextCursor: this.makeQuery(total, nextCursor),
+            totalPages: total === undefined ? undefined : total ? Math.ceil(total / take) : 1,
+            nextCursor: this.makeQuery(count, nextCursor),
+            prevCursor: this.makeQuery(count, prevCursor),
         };
     }
 }
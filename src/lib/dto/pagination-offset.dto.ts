@@ -4,6 +4,8 @@ import { IsNumber, IsOptional } from 'class-validator';
 import { AbstractPaginationRequest } from '../abstract';
 import { OffsetPaginationResponse, PaginationType } from '../interface';
 
+import type { PaginationCount } from '../interface';
+
 export class PaginationOffsetDto extends AbstractPaginationRequest {
     type: PaginationType.OFFSET = PaginationType.OFFSET;
 
@@ -25,13 +27,14 @@ export class PaginationOffsetDto extends AbstractPaginationRequest {
         return this.total;
     }
 
-    metadata<T>(take: number, dataLength: number, total: number, nextCursor: string): OffsetPaginationResponse<T>['metadata'] {
+    metadata<T>(take: number, dataLength: number, count: PaginationCount, nextCursor: string): OffsetPaginationResponse<T>['metadata'] {
+        const { total } = count;
         return {
+            ...count,
             page: this.offset ? Math.floor(this.offset / take) + 1 : 1,
-            pages: total ? Math.ceil(total / take) : 1,
+            pages: total === undefined ? undefined : total ? Math.ceil(total / take) : 1,
             offset: (this.offset ?? 0) + dataLength,
-            total,
-            nextCursor: this.makeQuery(total, nextCursor),
+            nextCursor: this.makeQuery(count, nextCursor),
         };
     }
 }
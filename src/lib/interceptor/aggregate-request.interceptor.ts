@@ -0,0 +1,65 @@
+import { mixin } from '@nestjs/common';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { CRUD_POLICY } from '../crud.policy';
+import { Method } from '../interface';
+import { QueryConverter, QueryParser } from '../provider';
+import { HttpPlatform } from '../utils/http-platform';
+
+import type { CrudAggregateRequest, CrudOptions, FactoryOption, QueryParserOptions } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+const method = Method.AGGREGATE;
+export function AggregateRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
+            const aggregateOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, hidden } = await this.authorize(context, crudOptions, method);
+
+            // Only columns of the entity which are not hidden from the caller can be grouped or aggregated
+            const columns = new Set((factoryOption.columns ?? []).map(({ name }) => name).filter((name) => !hidden?.includes(name)));
+
+            // Priority: route-specific allowedFilters > global CrudOptions allowedFilters > undefined (block all filters)
+            const query = HttpPlatform.query(req);
+            const queryParserOptions: QueryParserOptions = this.narrowQueryOptions(
+                query,
+                {
+                    allowedFilters: aggregateOptions.allowedFilters ?? crudOptions.allowedFilters,
+                    allowedGroups: aggregateOptions.allowedGroups?.filter((column) => columns.has(column)),
+                    allowedAggregates: aggregateOptions.allowedAggregates?.filter((column) => columns.has(column)),
+                },
+                hidden,
+            );
+
+            const queryParser = new QueryParser(queryParserOptions);
+            const queryConverter = new QueryConverter();
+            const parsedQuery = queryParser.parse(query);
+            const findOptions = queryConverter.convertToFindOptions(parsedQuery);
+
+            const crudAggregateRequest: CrudAggregateRequest<typeof crudOptions.entity> = {
+                // 집계 항목이 없으면 그룹별 행 수를 반환
+                aggregates: parsedQuery.aggregates ?? [{ function: 'count', field: '*' }],
+                groups: parsedQuery.groups ?? [],
+                where: this.scopeWhere(findOptions.where, scope),
+                softDeleted: aggregateOptions.softDelete ?? CRUD_POLICY[method].default.softDeleted,
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, crudAggregateRequest);
+            req[CRUD_ROUTE_ARGS] = crudAggregateRequest;
+
+            return next.handle();
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
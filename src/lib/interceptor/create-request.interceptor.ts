@@ -2,17 +2,18 @@
 import { mixin, UnprocessableEntityException } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
+import _ from 'lodash';
 
 import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS } from '../constants';
 import { Method } from '../interface';
 
+import type { CrudCreateRequest, CrudOptions, EntityType, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
 import type { ClassConstructor } from 'class-transformer';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
 import type { DeepPartial } from 'typeorm';
-import type { CrudCreateRequest, CrudOptions, EntityType, FactoryOption } from '../interface';
 
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface NestedBaseEntityArray extends Array<NestedBaseEntityArray | DeepPartial<EntityType>> {}
@@ -26,15 +27,26 @@ export function CreateRequestInterceptor(crudOptions: CrudOptions, factoryOption
         }
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
-            const req = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest>();
             const createOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, writable, hidden } = await this.authorize(context, crudOptions, method);
 
             if (Object.keys(req.params ?? {}).length > 0) {
                 Object.assign(req.body, req.params);
             }
 
+            // Nested writes of relations are checked on their own, allowedParams does not apply to them
+            const { body: writeBody, nestedWrites } = await this.takeNestedWrites(
+                req.body,
+                crudOptions.entity,
+                factoryOption.relations,
+                createOptions.allowedNestedWrites ?? crudOptions.allowedNestedWrites,
+                writable,
+            );
+            req.body = writeBody;
+
             // Filter body parameters based on allowedParams
-            const allowedParams = createOptions.allowedParams ?? crudOptions.allowedParams;
+            const allowedParams = this.narrowAllowedParams(createOptions.allowedParams ?? crudOptions.allowedParams, writable);
             if (allowedParams && req.body && typeof req.body === 'object' && !Array.isArray(req.body)) {
                 req.body = this.filterAllowedParams(req.body, allowedParams);
             } else if (Array.isArray(req.body)) {
@@ -45,20 +57,34 @@ export function CreateRequestInterceptor(crudOptions: CrudOptions, factoryOption
             }
 
             const body = await this.validateBody(req.body, createOptions);
+            this.restoreNestedWrites(body, nestedWrites);
+
+            // Tenant and row-level conditions of the caller always win over client-supplied values
+            if (scope) {
+                for (const item of _.flattenDeep(_.castArray(body)) as Array<DeepPartial<EntityType>>) {
+                    Object.assign(item, scope);
+                }
+            }
 
             const crudCreateRequest: CrudCreateRequest<typeof crudOptions.entity> = {
                 body,
-                exclude: new Set(createOptions.exclude ?? []),
+                exclude: new Set(this.excludeHidden(createOptions.exclude, hidden)),
                 saveOptions: {
                     listeners: createOptions.listeners,
                 },
                 hooks: createOptions.hooks,
+                transaction: this.getTransaction(createOptions.transaction),
+                scope,
+                ability,
+                audit: crudOptions.audit,
+                events: crudOptions.events,
+                job: Array.isArray(body) ? this.getJob(req, crudOptions, method, scope) : undefined,
                 request: req,
             };
 
             this.crudLogger.logRequest(req, crudCreateRequest);
             (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudCreateRequest;
-            return next.handle();
+            return next.handle().pipe(this.withJob(context));
         }
 
         filterAllowedParams(body: any, allowedParams: string[]): any {
@@ -1,7 +1,7 @@
 import { CUSTOM_REQUEST_OPTIONS } from '../constants';
 
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor } from '@nestjs/common';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
 
 export interface CustomReadOneRequestOptions {
@@ -20,7 +20,7 @@ export interface CustomDeleteRequestOptions {
 
 export class CustomRequestInterceptor implements NestInterceptor {
     async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
-        const req = context.switchToHttp().getRequest<Request>();
+        const req = context.switchToHttp().getRequest<CrudHttpRequest>();
         (req as unknown as Record<string, unknown>)[CUSTOM_REQUEST_OPTIONS] = await this.overrideOptions(req);
         return next.handle();
     }
@@ -40,7 +40,7 @@ export class CustomRequestInterceptor implements NestInterceptor {
      * }
      */
     protected async overrideOptions(
-        _req: Request,
+        _req: CrudHttpRequest,
     ): Promise<
         | CustomReadOneRequestOptions
         | CustomReadManyRequestOptions
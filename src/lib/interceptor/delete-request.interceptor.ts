@@ -5,12 +5,13 @@ import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS, CUSTOM_REQUEST_OPTIONS } from '../constants';
 import { CRUD_POLICY } from '../crud.policy';
 import { Method } from '../interface';
+import { HttpPlatform } from '../utils/http-platform';
 
+import type { CustomDeleteRequestOptions } from './custom-request.interceptor';
+import type { CrudDeleteOneRequest, CrudDeleteManyRequest, CrudDeleteByFilterRequest, CrudOptions, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
-import type { CrudDeleteOneRequest, CrudDeleteManyRequest, CrudOptions, FactoryOption } from '../interface';
-import type { CustomDeleteRequestOptions } from './custom-request.interceptor';
 
 const method = Method.DESTROY;
 export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
@@ -21,8 +22,9 @@ export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const req: Record<string, any> = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
             const deleteOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, hidden } = await this.authorize(context, crudOptions, method);
             const customDeleteRequestOptions: CustomDeleteRequestOptions = req[CUSTOM_REQUEST_OPTIONS];
 
             const softDeleted = _.isBoolean(customDeleteRequestOptions?.softDeleted)
@@ -31,10 +33,39 @@ export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption
 
             // Check for bulk delete (either body.ids array, query.ids, or ID is "bulk")
             const isBulkDelete = (req.body?.ids && Array.isArray(req.body.ids)) || req.params?.id === 'bulk';
-            const queryIds = req.query?.ids;
+            const query = HttpPlatform.query(req);
+            const queryIds = query.ids;
             const hasQueryIds = queryIds && (typeof queryIds === 'string' || Array.isArray(queryIds));
+            // Filter-based bulk delete: DELETE /bulk?filter[...] without ids
+            const isFilterBulkDelete =
+                Boolean(deleteOptions.bulkFilter) && req.params?.id === 'bulk' && !Array.isArray(req.body?.ids) && !hasQueryIds;
             
-            if (isBulkDelete || hasQueryIds) {
+            if (isFilterBulkDelete) {
+                const filter = this.getBulkFilter<typeof crudOptions.entity>(
+                    query,
+                    deleteOptions.allowedFilters ?? crudOptions.allowedFilters,
+                    typeof deleteOptions.bulkFilter === 'object' ? deleteOptions.bulkFilter : {},
+                    CRUD_POLICY[method].default.bulkFilter,
+                    hidden,
+                );
+                const crudDeleteByFilterRequest: CrudDeleteByFilterRequest<typeof crudOptions.entity> = {
+                    filter: { ...filter, where: this.scopeWhere(filter.where, scope) },
+                    softDeleted,
+                    exclude: new Set(this.excludeHidden(deleteOptions.exclude, hidden)),
+                    saveOptions: {
+                        listeners: deleteOptions.listeners,
+                    },
+                    hooks: deleteOptions.hooks,
+                    transaction: this.getTransaction(deleteOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
+                    request: req,
+                };
+
+                this.crudLogger.logRequest(req, crudDeleteByFilterRequest);
+                req[CRUD_ROUTE_ARGS] = crudDeleteByFilterRequest;
+            } else if (isBulkDelete || hasQueryIds) {
                 // Bulk delete handling
                 let ids: any[] = [];
                 
@@ -49,11 +80,18 @@ export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 
                 const crudDeleteManyRequest: CrudDeleteManyRequest<typeof crudOptions.entity> = {
                     params: paramsArray,
+                    scope,
                     softDeleted,
-                    exclude: new Set(deleteOptions.exclude ?? []),
+                    exclude: new Set(this.excludeHidden(deleteOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: deleteOptions.listeners,
                     },
+                    hooks: deleteOptions.hooks,
+                    transaction: this.getTransaction(deleteOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
+                    job: this.getJob(req as CrudHttpRequest, crudOptions, method, scope),
                     request: req,
                 };
                 
@@ -63,12 +101,18 @@ export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 // Single delete handling (existing logic)
                 const params = await this.checkParams(crudOptions.entity, req.params, factoryOption.columns);
                 const crudDeleteOneRequest: CrudDeleteOneRequest<typeof crudOptions.entity> = {
-                    params,
+                    params: { ...params, ...scope },
                     softDeleted,
-                    exclude: new Set(deleteOptions.exclude ?? []),
+                    exclude: new Set(this.excludeHidden(deleteOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: deleteOptions.listeners,
                     },
+                    hooks: deleteOptions.hooks,
+                    transaction: this.getTransaction(deleteOptions.transaction),
+                    versionCondition: this.getVersionCondition(req as CrudHttpRequest, factoryOption.versionColumn),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
                     request: req,
                 };
 
@@ -76,7 +120,7 @@ export function DeleteRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 req[CRUD_ROUTE_ARGS] = crudDeleteOneRequest;
             }
 
-            return next.handle();
+            return next.handle().pipe(this.withJob(context));
         }
     }
 
@@ -0,0 +1,104 @@
+import { Readable } from 'stream';
+
+import { mixin, StreamableFile } from '@nestjs/common';
+import { map } from 'rxjs/operators';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { CRUD_POLICY } from '../crud.policy';
+import { Method } from '../interface';
+import { QueryConverter, QueryParser } from '../provider';
+import { EXPORT_FORMAT_MEDIA_TYPES, ExportWriter } from '../utils/export-writer';
+import { HttpPlatform } from '../utils/http-platform';
+
+import type { CrudExportRequest, CrudOptions, FactoryOption, QueryParserOptions } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+const method = Method.EXPORT;
+export function ExportRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
+            const exportOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, hidden } = await this.authorize(context, crudOptions, method);
+
+            const query = HttpPlatform.query(req);
+            const format = ExportWriter.negotiate(query.format, req.headers?.accept, exportOptions.formats ?? CRUD_POLICY[method].default.formats);
+
+            // Excluded and hidden columns are never written to the file
+            const excluded = new Set([...(crudOptions.exclude ?? []), ...(this.excludeHidden(exportOptions.exclude, hidden) ?? [])]);
+            const columns = (exportOptions.columns ?? (factoryOption.columns ?? []).map(({ name }) => name)).filter((column) => !excluded.has(column));
+
+            // Priority: route-specific allowedFilters > global CrudOptions allowedFilters > undefined (block all filters)
+            const queryParserOptions: QueryParserOptions = this.narrowQueryOptions(
+                query,
+                {
+                    allowedFilters: exportOptions.allowedFilters ?? crudOptions.allowedFilters,
+                    allowedSorts: columns,
+                },
+                hidden,
+            );
+
+            const queryParser = new QueryParser(queryParserOptions);
+            const queryConverter = new QueryConverter();
+            const parsedQuery = queryParser.parse(query);
+            const findOptions = queryConverter.convertToFindOptions(parsedQuery);
+
+            // Primary keys follow the sorts so that the order is total and rows can be read by keyset
+            const order = Object.entries(findOptions.order ?? {}).map(([column, direction]): [string, 'ASC' | 'DESC'] => [
+                column,
+                String(direction as string).toUpperCase() === 'DESC' ? 'DESC' : 'ASC',
+            ]);
+            const tiebreakerDirection = order.at(-1)?.[1] ?? 'ASC';
+            for (const { name } of factoryOption.primaryKeys) {
+                if (!order.some(([column]) => column === name)) {
+                    order.push([name, tiebreakerDirection]);
+                }
+            }
+
+            const crudExportRequest: CrudExportRequest<typeof crudOptions.entity> = {
+                columns,
+                where: this.scopeWhere(findOptions.where, scope),
+                order,
+                softDeleted: exportOptions.softDelete ?? CRUD_POLICY[method].default.softDeleted,
+                chunkSize: exportOptions.chunkSize ?? CRUD_POLICY[method].default.chunkSize,
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, crudExportRequest);
+            req[CRUD_ROUTE_ARGS] = crudExportRequest;
+
+            const labels = exportOptions.labels ?? {};
+            const tableName = factoryOption.tableName ?? crudOptions.entity.name;
+            const filename = exportOptions.filename ?? tableName;
+            return next.handle().pipe(
+                map(
+                    (rows) =>
+                        new StreamableFile(
+                            Readable.from(
+                                ExportWriter.write(
+                                    format,
+                                    columns.map((name) => ({ name, label: labels[name] ?? name })),
+                                    rows as AsyncIterable<Array<Record<string, unknown>>>,
+                                    tableName,
+                                ),
+                            ),
+                            {
+                                type: EXPORT_FORMAT_MEDIA_TYPES[format],
+                                disposition: `attachment; filename="${filename}.${format}"`,
+                            },
+                        ),
+                ),
+            );
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
@@ -0,0 +1,77 @@
+import { mixin } from '@nestjs/common';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS, CUSTOM_REQUEST_OPTIONS } from '../constants';
+import { CRUD_POLICY } from '../crud.policy';
+import { Method, PaginationType, Sort } from '../interface';
+import { PaginationHelper, QueryParser } from '../provider';
+import { CrudReadManyRequest } from '../request';
+import { HttpPlatform } from '../utils/http-platform';
+
+import type { CrudHistoryRequest, CrudOptions, EntityType, FactoryOption, PageOperation } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+const method = Method.HISTORY;
+export function HistoryRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
+            const query = HttpPlatform.query(req);
+            const historyOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability } = await this.authorize(context, crudOptions, method);
+
+            const params = await this.checkParams(crudOptions.entity, req[CUSTOM_REQUEST_OPTIONS]?.params ?? req.params, factoryOption.columns);
+
+            const numberOfTake = historyOptions.numberOfTake ?? CRUD_POLICY[method].default.numberOfTake;
+            const { page } = new QueryParser({
+                resourceType: factoryOption.tableName,
+                maxPageSize: crudOptions.maxPageSize,
+                defaultPageSize: numberOfTake,
+            }).parse(query);
+            const pagination = PaginationHelper.getPaginationRequest(PaginationType.OFFSET, this.toOffsetQuery(page) ?? query);
+
+            const records = new CrudReadManyRequest<EntityType>()
+                .setPaginationKeys(['id'])
+                .setPagination(pagination)
+                .setSort(Sort.DESC)
+                .setTake((pagination.type === PaginationType.OFFSET ? pagination.limit : undefined) ?? numberOfTake)
+                .setDeserialize(({ pagination }) => PaginationHelper.deserialize(pagination.where));
+
+            const crudHistoryRequest: CrudHistoryRequest<typeof crudOptions.entity> = {
+                params,
+                scope,
+                auditEntity: crudOptions.audit!.entity!,
+                records,
+                ability,
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, crudHistoryRequest);
+            req[CRUD_ROUTE_ARGS] = crudHistoryRequest;
+
+            return next.handle();
+        }
+
+        /**
+         * page[number]/page[size] 또는 page[offset]/page[limit]를 offset pagination 쿼리로 변환
+         */
+        private toOffsetQuery(page: PageOperation | undefined): Record<string, unknown> | undefined {
+            if (page?.type === 'number') {
+                return { offset: ((page.number ?? 1) - 1) * (page.size ?? 0), limit: page.size };
+            }
+            if (page?.type === 'offset') {
+                return { offset: page.offset, limit: page.limit };
+            }
+            return undefined;
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
@@ -0,0 +1,62 @@
+import { mixin, PayloadTooLargeException } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+
+import { HttpPlatform } from '../utils/http-platform';
+
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+/**
+ * File part of `request.file()` of `@fastify/multipart`
+ */
+interface MultipartFile {
+    fieldname: string;
+    filename: string;
+    mimetype: string;
+    toBuffer(): Promise<Buffer>;
+}
+
+interface FastifyMultipartRequest {
+    isMultipart?(): boolean;
+    file?: unknown;
+}
+
+/**
+ * Interceptor which reads the multipart field `file` of the import route into memory, as `request.file`.
+ * Express requests are read by `FileInterceptor` of `@nestjs/platform-express`,
+ * Fastify requests by `request.file()` of `@fastify/multipart`, which the application registers.
+ */
+export function ImportFileInterceptor(maxFileSize: number): Type<NestInterceptor> {
+    class MixinInterceptor implements NestInterceptor {
+        private readonly expressFileInterceptor = new (FileInterceptor('file', { limits: { fileSize: maxFileSize } }))();
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            const req = context.switchToHttp().getRequest<FastifyMultipartRequest>();
+            if (!HttpPlatform.isFastify(req)) {
+                return this.expressFileInterceptor.intercept(context, next);
+            }
+
+            // Like multer, a request that is not multipart is left without a file
+            if (typeof req.file !== 'function' || !req.isMultipart?.()) {
+                req.file = undefined;
+                return next.handle();
+            }
+            const part = (await req.file({ limits: { fileSize: maxFileSize } })) as MultipartFile | undefined;
+            if (part?.fieldname !== 'file') {
+                req.file = undefined;
+                return next.handle();
+            }
+            try {
+                req.file = { originalname: part.filename, mimetype: part.mimetype, buffer: await part.toBuffer() };
+            } catch (error) {
+                if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+                    throw new PayloadTooLargeException('File too large');
+                }
+                throw error;
+            }
+            return next.handle();
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
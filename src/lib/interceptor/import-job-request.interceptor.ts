@@ -0,0 +1,73 @@
+import { Readable } from 'stream';
+
+import { mixin, NotFoundException, StreamableFile } from '@nestjs/common';
+import _ from 'lodash';
+import { map } from 'rxjs/operators';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { Method } from '../interface';
+import { EXPORT_FORMAT_MEDIA_TYPES } from '../utils/export-writer';
+import { ImportReport } from '../utils/import-report';
+import { ProgressTracker } from '../utils/progress-tracker';
+
+import type { CrudImportJobRequest, CrudImportRejection, CrudOptions, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+/**
+ * Interceptor of the progress and report routes of an import job
+ */
+export function ImportJobRequestInterceptor(
+    crudOptions: CrudOptions,
+    factoryOption: FactoryOption,
+    method: Method.IMPORT_PROGRESS | Method.IMPORT_REPORT,
+): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
+            // The routes of a job follow the policy of the import route
+            const { scope } = await this.authorize(context, crudOptions, Method.IMPORT);
+
+            // Only the import jobs of the entity of the controller started by the same caller are served
+            const jobId = String(req.params?.jobId);
+            const job = ProgressTracker.getJob(jobId);
+            if (
+                job?.metadata.type !== 'import' ||
+                job.metadata.entity !== crudOptions.entity.name ||
+                !_.isEqual(job.metadata.owner, this.getJobOwner(req, crudOptions.jobs, scope))
+            ) {
+                throw new NotFoundException(`Import job ${jobId} is not found`);
+            }
+
+            const crudImportJobRequest: CrudImportJobRequest = {
+                jobId,
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, crudImportJobRequest);
+            req[CRUD_ROUTE_ARGS] = crudImportJobRequest;
+
+            if (method === Method.IMPORT_PROGRESS) {
+                return next.handle();
+            }
+            return next.handle().pipe(
+                map(
+                    (rejections) =>
+                        new StreamableFile(Readable.from(ImportReport.toCsv(rejections as CrudImportRejection[])), {
+                            type: EXPORT_FORMAT_MEDIA_TYPES.csv,
+                            disposition: `attachment; filename="${jobId}-errors.csv"`,
+                        }),
+                ),
+            );
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
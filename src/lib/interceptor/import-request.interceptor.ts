@@ -0,0 +1,123 @@
+import { BadRequestException, mixin } from '@nestjs/common';
+import _ from 'lodash';
+import { map } from 'rxjs/operators';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { CRUD_POLICY } from '../crud.policy';
+import { generateDynamicValidationMetadata, validateWithDynamicMetadata } from '../dto/dynamic-validation-generator';
+import { Method } from '../interface';
+import { HttpPlatform } from '../utils/http-platform';
+import { ImportParser } from '../utils/import-parser';
+
+import type {
+    CrudImportJob,
+    CrudImportRejection,
+    CrudImportRequest,
+    CrudOptions,
+    CrudResponse,
+    EntityType,
+    FactoryOption,
+} from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { ClassConstructor } from 'class-transformer';
+import type { ValidationError } from 'class-validator';
+import type { Observable } from 'rxjs';
+import type { DeepPartial } from 'typeorm';
+
+/**
+ * File of the multipart field `file`, read into memory by `ImportFileInterceptor`
+ */
+interface ImportFile {
+    originalname: string;
+    mimetype: string;
+    buffer: Buffer;
+}
+
+const constraintsOf = (error: ValidationError): string[] => [
+    ...Object.values(error.constraints ?? {}),
+    ...(error.children ?? []).flatMap((child) => constraintsOf(child)),
+];
+
+/**
+ * Messages of a row that failed validation (`validateWithDynamicMetadata` throws the ValidationError list)
+ */
+const validationMessages = (error: unknown): string[] =>
+    Array.isArray(error) ? error.flatMap((validationError: ValidationError) => constraintsOf(validationError)) : [error instanceof Error ? error.message : 'Invalid row'];
+
+const method = Method.IMPORT;
+export function ImportRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
+            const importOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, writable } = await this.authorize(context, crudOptions, method);
+
+            const file = req.file as ImportFile | undefined;
+            if (!file) {
+                throw new BadRequestException('file is required');
+            }
+            const format = ImportParser.negotiate(HttpPlatform.query(req).format, file, importOptions.formats ?? CRUD_POLICY[method].default.formats);
+
+            // Rows are validated like the body of create
+            const allowedParams = this.narrowAllowedParams(importOptions.allowedParams ?? crudOptions.allowedParams, writable);
+            const skipMissingProperties = importOptions.skipMissingProperties ?? crudOptions.skipMissingProperties ?? false;
+            const entity = crudOptions.entity as ClassConstructor<EntityType>;
+            const metadata = generateDynamicValidationMetadata(crudOptions.entity, allowedParams, Method.CREATE);
+
+            const body: Array<DeepPartial<EntityType>> = [];
+            const lines: number[] = [];
+            const rejected: CrudImportRejection[] = [];
+            for (const { line, row, error } of ImportParser.parse(file.buffer, format)) {
+                if (!row) {
+                    rejected.push({ line, row: {}, errors: [error ?? 'Row cannot be read'] });
+                    continue;
+                }
+                const values = allowedParams ? _.pick(row, allowedParams) : row;
+                try {
+                    const validated = await validateWithDynamicMetadata(format === 'csv' ? ImportParser.coerce(values, entity) : values, metadata, entity, {
+                        skipMissingProperties,
+                    });
+                    // Tenant and row-level conditions of the caller always win over the values of the file
+                    body.push(scope ? Object.assign(validated, scope) : validated);
+                    lines.push(line);
+                } catch (validationError) {
+                    rejected.push({ line, row, errors: validationMessages(validationError) });
+                }
+            }
+
+            const crudImportRequest: CrudImportRequest<typeof crudOptions.entity> = {
+                body,
+                lines,
+                rejected,
+                fileName: file.originalname,
+                format,
+                upsertKeys: importOptions.upsertKeys,
+                batchSize: importOptions.batchSize ?? CRUD_POLICY[method].default.batchSize,
+                scope,
+                owner: this.getJobOwner(req, crudOptions.jobs, scope),
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, _.omit(crudImportRequest, 'body'));
+            req[CRUD_ROUTE_ARGS] = crudImportRequest;
+
+            const jobPath = HttpPlatform.requestPath(req);
+            return next.handle().pipe(
+                map((response) => {
+                    const { data, metadata: responseMetadata } = response as CrudResponse<CrudImportJob>;
+                    const links = { progress: `${jobPath}/${data.jobId}`, errors: `${jobPath}/${data.jobId}/errors` };
+                    return { data: { ...data, links }, metadata: responseMetadata };
+                }),
+            );
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
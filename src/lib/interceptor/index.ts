@@ -1,6 +1,13 @@
+export * from './aggregate-request.interceptor';
 export * from './create-request.interceptor';
 export * from './custom-request.interceptor';
 export * from './delete-request.interceptor';
+export * from './export-request.interceptor';
+export * from './history-request.interceptor';
+export * from './import-file.interceptor';
+export * from './import-job-request.interceptor';
+export * from './import-request.interceptor';
+export * from './job-request.interceptor';
 export * from './read-many-request.interceptor';
 export * from './read-one-request.interceptor';
 export * from './recover-request.interceptor';
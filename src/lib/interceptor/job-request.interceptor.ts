@@ -0,0 +1,47 @@
+import { mixin, NotFoundException } from '@nestjs/common';
+
+import { RequestAbstractInterceptor } from '../abstract';
+import { CRUD_ROUTE_ARGS } from '../constants';
+
+import type { CrudJobRequest, CrudOptions, FactoryOption, Method } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
+import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
+import type { Observable } from 'rxjs';
+
+/**
+ * Interceptor of the routes of the background jobs of bulk requests
+ */
+export function JobRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
+    class MixinInterceptor extends RequestAbstractInterceptor implements NestInterceptor {
+        constructor() {
+            super(factoryOption.logger);
+        }
+
+        async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
+            const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+            const jobs = crudOptions.jobs;
+            const jobId = String(req.params?.jobId);
+
+            // Only the jobs of the entity of the controller are served
+            const job = await jobs?.store.get(jobId);
+            if (!jobs || !job || job.entityName !== crudOptions.entity.name) {
+                throw new NotFoundException(`Job ${jobId} is not found`);
+            }
+            // The caller must be allowed to run the mutation of the job
+            const { scope } = await this.authorize(context, crudOptions, job.method as Method);
+
+            const crudJobRequest: CrudJobRequest = {
+                jobId,
+                jobs,
+                owner: this.getJobOwner(req, jobs, scope),
+                request: req,
+            };
+
+            this.crudLogger.logRequest(req, crudJobRequest);
+            (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudJobRequest;
+            return next.handle();
+        }
+    }
+
+    return mixin(MixinInterceptor);
+}
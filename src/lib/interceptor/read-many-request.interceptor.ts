@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { mixin } from '@nestjs/common';
+import { BadRequestException, mixin } from '@nestjs/common';
 import _ from 'lodash';
-import { LessThan, MoreThan } from 'typeorm';
+import { identity } from 'rxjs';
 
 import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS, CUSTOM_REQUEST_OPTIONS } from '../constants';
@@ -9,11 +9,12 @@ import { CRUD_POLICY } from '../crud.policy';
 import { Method, Sort, PaginationType } from '../interface';
 import { PaginationHelper, QueryParser, QueryConverter } from '../provider';
 import { CrudReadManyRequest } from '../request';
+import { HttpPlatform } from '../utils/http-platform';
 
 import type { CustomReadManyRequestOptions } from './custom-request.interceptor';
 import type { CrudOptions, FactoryOption, EntityType as _EntityType, QueryParserOptions } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
 import type { FindOptionsWhere } from 'typeorm';
 
@@ -25,13 +26,15 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
         }
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
-            const req: Record<string, any> = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
             const readManyOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, hidden } = await this.authorize(context, crudOptions, method);
+            const responseFormat = this.negotiateResponseFormat(context);
 
             const customReadManyRequestOptions: CustomReadManyRequestOptions = req[CUSTOM_REQUEST_OPTIONS];
             const paginationType = (readManyOptions.paginationType ?? CRUD_POLICY[method].default.paginationType) as PaginationType;
 
-            const requestQuery = req.query;
+            const requestQuery = HttpPlatform.query(req);
             if (Object.keys(req.params ?? {}).length > 0) {
                 Object.assign(requestQuery, req.params);
             }
@@ -41,14 +44,23 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             const allowedFilters = readManyOptions.allowedFilters ?? crudOptions.allowedFilters;
             // Priority: route-specific allowedIncludes > global CrudOptions allowedIncludes > undefined (block all includes)
             const allowedIncludes = readManyOptions.allowedIncludes ?? crudOptions.allowedIncludes;
-
-            const queryParserOptions: QueryParserOptions = {
-                allowedFilters,
-                allowedSorts: factoryOption.columns?.map((col) => col.name),
-                allowedIncludes,
-                maxPageSize: crudOptions.maxPageSize, // undefined면 무제한
-                defaultPageSize: readManyOptions.numberOfTake ?? CRUD_POLICY[method].default.numberOfTake,
-            };
+            // Priority: route-specific allowedFields > global CrudOptions allowedFields > undefined (block all fieldsets)
+            const allowedFields = readManyOptions.allowedFields ?? crudOptions.allowedFields;
+
+            // Fields hidden from the caller cannot be filtered or sorted by
+            const queryParserOptions: QueryParserOptions = this.narrowQueryOptions(
+                requestQuery,
+                {
+                    allowedFilters,
+                    allowedSorts: factoryOption.columns?.map((col) => col.name),
+                    allowedIncludes,
+                    allowedFields,
+                    resourceType: factoryOption.tableName,
+                    maxPageSize: crudOptions.maxPageSize, // undefined면 무제한
+                    defaultPageSize: readManyOptions.numberOfTake ?? CRUD_POLICY[method].default.numberOfTake,
+                },
+                hidden,
+            );
 
             const queryParser = new QueryParser(queryParserOptions);
             const queryConverter = new QueryConverter();
@@ -59,33 +71,22 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             // Convert to TypeORM FindOptions
             const findOptions = queryConverter.convertToFindOptions(parsedQuery);
 
-            // Handle cursor pagination
-            const legacyQuery = (() => {
-                if (parsedQuery.page?.type === 'cursor') {
-                    const pagination = PaginationHelper.getPaginationRequest(paginationType, requestQuery);
-                    if (PaginationHelper.isNextPage(pagination)) {
-                        const isQueryValid = pagination.setQuery(pagination.query);
-                        if (isQueryValid) {
-                            return {};
-                        }
-                    }
-                    pagination.setWhere(PaginationHelper.serialize({}));
-                    return {};
-                }
-                return {};
-            })();
-
             // Handle pagination - prefer new page params over legacy
             const pagination = parsedQuery.page
                 ? this.convertPageOperationToPagination(parsedQuery.page, paginationType)
                 : PaginationHelper.getPaginationRequest(paginationType, requestQuery);
+            // Continue from the token of the previous page (page[after], page[before], page[cursor] or nextCursor)
+            pagination.setCursorOptions(crudOptions.pagination?.cursor);
+            if (PaginationHelper.isNextPage(pagination)) {
+                pagination.setQuery(pagination.query);
+            }
 
             const withDeleted = _.isBoolean(customReadManyRequestOptions?.softDeleted)
                 ? customReadManyRequestOptions.softDeleted
                 : crudOptions.routes?.[method]?.softDelete ?? CRUD_POLICY[method].default.softDeleted;
 
-            // Merge where conditions (legacy + new filters)
-            const mergedWhere = { ...legacyQuery, ...findOptions.where };
+            // Tenant and row-level conditions of the caller are applied last so that filters cannot widen them
+            const scopedWhere = this.scopeWhere(findOptions.where ?? {}, scope);
 
             // Handle relations - prefer new includes over legacy
             const relations =
@@ -107,12 +108,24 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
                 (pagination.type === 'cursor' ? readManyOptions.numberOfTake : pagination.limit ?? readManyOptions.numberOfTake) ??
                 CRUD_POLICY[method].default.numberOfTake;
 
+            // Sparse fieldset of the resource: primary keys, pagination keys and sort keys are always selected for cursor pagination
+            const rootFields = parsedQuery.fields?.find(({ relation }) => !relation)?.fields;
+            const selectColumns = rootFields && [
+                ...rootFields,
+                ...factoryOption.primaryKeys.map(({ name }) => name),
+                ...paginationKeys,
+                ...Object.keys(findOptions.order ?? {}),
+            ];
+
             const crudReadManyRequest: CrudReadManyRequest<typeof crudOptions.entity> = new CrudReadManyRequest<typeof crudOptions.entity>()
                 .setPaginationKeys(paginationKeys)
-                .setExcludeColumn(readManyOptions.exclude)
+                .setSelectColumn(selectColumns)
+                .setRelationSelect(this.getRelationSelect(findOptions.select))
+                .setExcludeColumn(this.excludeHidden(readManyOptions.exclude, hidden))
                 .setPagination(pagination)
                 .setWithDeleted(withDeleted)
-                .setWhere(mergedWhere)
+                .setCountStrategy(readManyOptions.countStrategy ?? CRUD_POLICY[method].default.countStrategy)
+                .setWhere(scopedWhere)
                 .setTake(numberOfTake);
 
             // parsedQuery에 sorts가 있으면 findOptions.order를 직접 사용, 없으면 setSort 사용
@@ -123,6 +136,7 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             }
 
             crudReadManyRequest
+                .setTiebreaker(factoryOption.primaryKeys.map(({ name }) => name))
                 .setRelations(relations)
                 .setDeserialize(this.deserialize)
                 .generate();
@@ -133,7 +147,18 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             this.crudLogger.logRequest(req, crudReadManyRequest.toString());
             req[CRUD_ROUTE_ARGS] = crudReadManyRequest;
 
-            return next.handle();
+            return next.handle().pipe(
+                readManyOptions.httpCache
+                    ? this.withHttpCache(context, readManyOptions.httpCache, factoryOption.updateDateColumn, responseFormat)
+                    : identity,
+                this.withResponseFormat(context, responseFormat, {
+                    resourceType: factoryOption.tableName ?? crudOptions.entity.name,
+                    primaryKeys: factoryOption.primaryKeys.map(({ name }) => name),
+                    relations,
+                    url: req.originalUrl ?? req.url,
+                    pageSize: numberOfTake,
+                }),
+            );
         }
 
 
@@ -146,19 +171,19 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             return [];
         }
 
-        deserialize<T>({ pagination, findOptions, sort }: CrudReadManyRequest<T>): FindOptionsWhere<T> {
+        deserialize<T>({ pagination, orderEntries }: CrudReadManyRequest<T>): FindOptionsWhere<T> | Array<FindOptionsWhere<T>> {
             if (pagination.type === PaginationType.OFFSET) {
                 return PaginationHelper.deserialize(pagination.where);
             }
-            const query: Record<string, unknown> = PaginationHelper.deserialize(pagination.where);
-            const lastObject: Record<string, unknown> = PaginationHelper.deserialize(pagination.nextCursor);
-
-            const operator = (key: keyof T) => ((findOptions.order?.[key] ?? sort) === Sort.DESC ? LessThan : MoreThan);
-
-            for (const [key, value] of Object.entries(lastObject)) {
-                query[key] = operator(key as keyof T)(value);
+            const cursor = PaginationHelper.deserializeKeyset(pagination.nextCursor);
+            if (_.isEmpty(cursor)) {
+                return {};
+            }
+            // cursor는 같은 정렬의 이전 페이지에서 만들어진 것이어야 함
+            if (!_.isEqual(Object.keys(cursor).sort(), orderEntries.map(([path]) => path).sort())) {
+                throw new BadRequestException('Cursor does not match the sort');
             }
-            return query as FindOptionsWhere<T>;
+            return new QueryConverter<T>().createKeysetWhere(cursor, orderEntries);
         }
 
         private convertPageOperationToPagination(page: any, paginationType: PaginationType) {
@@ -166,7 +191,8 @@ export function ReadManyRequestInterceptor(crudOptions: CrudOptions, factoryOpti
             switch (page.type) {
                 case 'cursor': {
                     return PaginationHelper.getPaginationRequest(PaginationType.CURSOR, {
-                        cursor: page.cursor,
+                        nextCursor: page.cursor,
+                        direction: page.direction,
                         limit: page.size,
                     });
                 }
@@ -8,13 +8,15 @@ import { CRUD_ROUTE_ARGS, CUSTOM_REQUEST_OPTIONS } from '../constants';
 import { CRUD_POLICY } from '../crud.policy';
 import { RequestFieldsDto } from '../dto/request-fields.dto';
 import { Method } from '../interface';
-import { QueryParser } from '../provider';
+import { QueryConverter, QueryParser } from '../provider';
+import { EntityTagUtil } from '../utils/entity-tag.util';
+import { HttpPlatform } from '../utils/http-platform';
 
 import type { CustomReadOneRequestOptions } from './custom-request.interceptor';
 import type { CrudOptions, FactoryOption, CrudReadOneRequest, QueryParserOptions } from '../interface';
 import type { IncludeOperation } from '../interface/query-parser.interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
-import type { Request } from 'express';
 import type QueryString from 'qs';
 import type { Observable } from 'rxjs';
 
@@ -27,11 +29,14 @@ export function ReadOneRequestInterceptor(crudOptions: CrudOptions, factoryOptio
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const req: Record<string, any> = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
             const readOneOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, hidden } = await this.authorize(context, crudOptions, method);
+            const responseFormat = this.negotiateResponseFormat(context);
             const customReadOneRequestOptions: CustomReadOneRequestOptions = req[CUSTOM_REQUEST_OPTIONS];
 
-            const fieldsByRequest = this.checkFields(req.query?.fields);
+            const query = HttpPlatform.query(req);
+            const fieldsByRequest = this.checkFields(query.fields as QueryString.ParsedQs[string]);
 
             const softDeleted = _.isBoolean(customReadOneRequestOptions?.softDeleted)
                 ? customReadOneRequestOptions.softDeleted
@@ -40,31 +45,52 @@ export function ReadOneRequestInterceptor(crudOptions: CrudOptions, factoryOptio
             // Parse include parameters with allowedIncludes filtering
             // Priority: route-specific allowedIncludes > global CrudOptions allowedIncludes > undefined (block all includes)
             const allowedIncludes = readOneOptions.allowedIncludes ?? crudOptions.allowedIncludes;
+            // Priority: route-specific allowedFields > global CrudOptions allowedFields > undefined (block all fieldsets)
+            const allowedFields = readOneOptions.allowedFields ?? crudOptions.allowedFields;
 
             const queryParserOptions: QueryParserOptions = {
                 allowedIncludes,
+                allowedFields,
+                resourceType: factoryOption.tableName,
             };
 
             const queryParser = new QueryParser(queryParserOptions);
-            const parsedQuery = queryParser.parse(req.query);
+            const queryConverter = new QueryConverter();
+            const parsedQuery = queryParser.parse(query);
+            const findOptions = queryConverter.convertToFindOptions(parsedQuery);
 
             // Convert includes to string array for relations
             const includeRelations = this.convertIncludes(parsedQuery.includes);
 
             const params = await this.checkParams(crudOptions.entity, req.params, factoryOption.columns);
             const crudReadOneRequest: CrudReadOneRequest<typeof crudOptions.entity> = {
-                params,
-                selectColumns: this.getFields(customReadOneRequestOptions?.fields, fieldsByRequest),
-                excludedColumns: readOneOptions.exclude,
+                params: { ...params, ...scope },
+                selectColumns: this.getSparseFields(
+                    this.getFields(customReadOneRequestOptions?.fields, fieldsByRequest),
+                    parsedQuery.fields?.find(({ relation }) => !relation)?.fields,
+                ),
+                relationSelect: this.getRelationSelect(findOptions.select),
+                excludedColumns: this.excludeHidden(readOneOptions.exclude, hidden),
                 softDeleted,
                 relations: [...new Set([...includeRelations, ...this.getRelations(customReadOneRequestOptions)])],
+                ability,
                 request: req,
             };
 
             this.crudLogger.logRequest(req, crudReadOneRequest);
             req[CRUD_ROUTE_ARGS] = crudReadOneRequest;
 
-            return next.handle();
+            return next.handle().pipe(
+                readOneOptions.httpCache
+                    ? this.withHttpCache(context, readOneOptions.httpCache, factoryOption.updateDateColumn, responseFormat)
+                    : this.withEntityTag(context, EntityTagUtil.parse(req.headers?.['if-none-match']), responseFormat),
+                this.withResponseFormat(context, responseFormat, {
+                    resourceType: factoryOption.tableName ?? crudOptions.entity.name,
+                    primaryKeys: factoryOption.primaryKeys.map(({ name }) => name),
+                    relations: crudReadOneRequest.relations ?? [],
+                    url: req.originalUrl ?? req.url,
+                }),
+            );
         }
 
         getFields(interceptorFields?: string[], requestFields?: string[]): string[] | undefined {
@@ -77,6 +103,21 @@ export function ReadOneRequestInterceptor(crudOptions: CrudOptions, factoryOptio
             return _.intersection(interceptorFields, requestFields);
         }
 
+        /**
+         * Narrows the selected columns with the sparse fieldset of the resource. Primary keys are always selected.
+         */
+        getSparseFields(fields: string[] | undefined, sparseFields: string[] | undefined): string[] | undefined {
+            if (!sparseFields) {
+                return fields;
+            }
+            const columns = (factoryOption.columns ?? []).map(({ name }) => name);
+            const requested = _.intersection(fields ?? columns, sparseFields);
+            return _.union(
+                factoryOption.primaryKeys.map(({ name }) => name),
+                requested,
+            );
+        }
+
         checkFields(fields?: string | QueryString.ParsedQs | string[] | QueryString.ParsedQs[]): string[] | undefined {
             if (!fields || (Array.isArray(fields) && fields.length === 0)) {
                 return;
@@ -4,10 +4,10 @@ import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS, CUSTOM_REQUEST_OPTIONS } from '../constants';
 import { Method } from '../interface';
 
+import type { CrudOptions, CrudRecoverRequest, CrudRecoverManyRequest, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
-import type { CrudOptions, CrudRecoverRequest, CrudRecoverManyRequest, FactoryOption } from '../interface';
 
 const method = Method.RECOVER;
 export function RecoverRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
@@ -18,8 +18,9 @@ export function RecoverRequestInterceptor(crudOptions: CrudOptions, factoryOptio
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const req: Record<string, any> = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest & Record<string, any>>();
             const recoverOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, hidden } = await this.authorize(context, crudOptions, method);
 
             const customRequestOption = req[CUSTOM_REQUEST_OPTIONS];
             
@@ -33,10 +34,15 @@ export function RecoverRequestInterceptor(crudOptions: CrudOptions, factoryOptio
                 
                 const crudRecoverManyRequest: CrudRecoverManyRequest<typeof crudOptions.entity> = {
                     params: paramsArray,
-                    exclude: new Set(recoverOptions.exclude ?? []),
+                    scope,
+                    exclude: new Set(this.excludeHidden(recoverOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: recoverOptions.listeners,
                     },
+                    transaction: this.getTransaction(recoverOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
                     request: req,
                 };
                 
@@ -46,11 +52,15 @@ export function RecoverRequestInterceptor(crudOptions: CrudOptions, factoryOptio
                 // Single recover handling (existing logic)
                 const params = await this.checkParams(crudOptions.entity, customRequestOption?.params ?? req.params, factoryOption.columns);
                 const crudRecoverRequest: CrudRecoverRequest<typeof crudOptions.entity> = {
-                    params,
-                    exclude: new Set(recoverOptions.exclude ?? []),
+                    params: { ...params, ...scope },
+                    exclude: new Set(this.excludeHidden(recoverOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: recoverOptions.listeners,
                     },
+                    transaction: this.getTransaction(recoverOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
                     request: req,
                 };
 
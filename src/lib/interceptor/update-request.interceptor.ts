@@ -6,13 +6,15 @@ import _ from 'lodash';
 
 import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS } from '../constants';
+import { CRUD_POLICY } from '../crud.policy';
 import { Method } from '../interface';
+import { HttpPlatform } from '../utils/http-platform';
 
+import type { CrudOptions, CrudUpdateOneRequest, CrudUpdateManyRequest, CrudUpdateByFilterRequest, EntityType, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
 import type { ClassConstructor } from 'class-transformer';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
-import type { CrudOptions, CrudUpdateOneRequest, CrudUpdateManyRequest, EntityType, FactoryOption } from '../interface';
 
 const method = Method.UPDATE;
 export function UpdateRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
@@ -22,16 +24,61 @@ export function UpdateRequestInterceptor(crudOptions: CrudOptions, factoryOption
         }
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
-            const req = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest>();
             const updatedOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, writable, hidden } = await this.authorize(context, crudOptions, method);
 
             // Check if body is array for bulk update or if the ID is "bulk"
             const isBulkUpdate = Array.isArray(req.body) || req.params?.id === 'bulk';
+            // Filter-based bulk update: PATCH /bulk?filter[...] with a single object body
+            const isFilterBulkUpdate = Boolean(updatedOptions.bulkFilter) && req.params?.id === 'bulk' && !Array.isArray(req.body);
             
+            // Nested writes of relations are checked on their own, allowedParams does not apply to them
+            const { body: writeBody, nestedWrites } = await this.takeNestedWrites(
+                req.body,
+                crudOptions.entity,
+                factoryOption.relations,
+                updatedOptions.allowedNestedWrites ?? crudOptions.allowedNestedWrites,
+                writable,
+            );
+            req.body = writeBody;
+
             // Filter body parameters based on allowedParams
-            const allowedParams = updatedOptions.allowedParams ?? crudOptions.allowedParams;
+            const allowedParams = this.narrowAllowedParams(updatedOptions.allowedParams ?? crudOptions.allowedParams, writable);
             
-            if (isBulkUpdate) {
+            if (isFilterBulkUpdate) {
+                if (allowedParams && req.body && typeof req.body === 'object') {
+                    req.body = this.filterAllowedParams(req.body, allowedParams);
+                }
+
+                const body = Object.assign(await this.validateBody(req.body ?? {}, updatedOptions), scope);
+                this.restoreNestedWrites(body, nestedWrites);
+
+                const filter = this.getBulkFilter<typeof crudOptions.entity>(
+                    HttpPlatform.query(req),
+                    updatedOptions.allowedFilters ?? crudOptions.allowedFilters,
+                    typeof updatedOptions.bulkFilter === 'object' ? updatedOptions.bulkFilter : {},
+                    CRUD_POLICY[method].default.bulkFilter,
+                    hidden,
+                );
+                const crudUpdateByFilterRequest: CrudUpdateByFilterRequest<typeof crudOptions.entity> = {
+                    filter: { ...filter, where: this.scopeWhere(filter.where, scope) },
+                    body,
+                    exclude: new Set(this.excludeHidden(updatedOptions.exclude, hidden)),
+                    saveOptions: {
+                        listeners: updatedOptions.listeners,
+                    },
+                    hooks: updatedOptions.hooks,
+                    transaction: this.getTransaction(updatedOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
+                    request: req,
+                };
+
+                this.crudLogger.logRequest(req, crudUpdateByFilterRequest);
+                (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudUpdateByFilterRequest;
+            } else if (isBulkUpdate) {
                 // Bulk update handling
                 // Ensure body is an array for bulk operations
                 if (!Array.isArray(req.body)) {
@@ -55,16 +102,23 @@ export function UpdateRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 }
                 
                 const validatedBodies = await Promise.all(
-                    req.body.map((item: any) => this.validateBulkUpdateItem(item, updatedOptions))
+                    req.body.map(async (item: any) => Object.assign(await this.validateBulkUpdateItem(item, updatedOptions), scope))
                 );
+                this.restoreNestedWrites(validatedBodies, nestedWrites);
                 
                 const crudUpdateManyRequest: CrudUpdateManyRequest<typeof crudOptions.entity> = {
                     body: validatedBodies,
-                    exclude: new Set(updatedOptions.exclude ?? []),
+                    scope,
+                    exclude: new Set(this.excludeHidden(updatedOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: updatedOptions.listeners,
                     },
                     hooks: updatedOptions.hooks,
+                    transaction: this.getTransaction(updatedOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
+                    job: this.getJob(req, crudOptions, method, scope),
                     request: req,
                 };
                 
@@ -72,21 +126,30 @@ export function UpdateRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudUpdateManyRequest;
             } else {
                 // Single update handling (existing logic)
+                const versionCondition = this.getVersionCondition(req, factoryOption.versionColumn);
+
                 if (allowedParams && req.body && typeof req.body === 'object') {
                     req.body = this.filterAllowedParams(req.body, allowedParams);
                 }
 
-                const body = await this.validateBody(req.body ?? {}, updatedOptions);
+                const body = Object.assign(await this.validateBody(req.body ?? {}, updatedOptions), scope);
+                this.restoreNestedWrites(body, nestedWrites);
 
                 const params = await this.checkParams(crudOptions.entity, req.params, factoryOption.columns);
                 const crudUpdateOneRequest: CrudUpdateOneRequest<typeof crudOptions.entity> = {
-                    params,
+                    params: { ...params, ...scope },
                     body,
-                    exclude: new Set(updatedOptions.exclude ?? []),
+                    exclude: new Set(this.excludeHidden(updatedOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: updatedOptions.listeners,
                     },
                     hooks: updatedOptions.hooks,
+                    transaction: this.getTransaction(updatedOptions.transaction),
+                    scope,
+                    versionCondition,
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
                     request: req,
                 };
 
@@ -94,7 +157,7 @@ export function UpdateRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudUpdateOneRequest;
             }
 
-            return next.handle();
+            return next.handle().pipe(this.withEntityTag(context), this.withJob(context));
         }
 
         filterAllowedParams(body: any, allowedParams: string[]): any {
@@ -8,11 +8,11 @@ import { RequestAbstractInterceptor } from '../abstract';
 import { CRUD_ROUTE_ARGS } from '../constants';
 import { Method } from '../interface';
 
+import type { CrudOptions, CrudUpsertRequest, CrudUpsertManyRequest, EntityType, FactoryOption } from '../interface';
+import type { CrudHttpRequest } from '../utils/http-platform';
 import type { CallHandler, ExecutionContext, NestInterceptor, Type } from '@nestjs/common';
 import type { ClassConstructor } from 'class-transformer';
-import type { Request } from 'express';
 import type { Observable } from 'rxjs';
-import type { CrudOptions, CrudUpsertRequest, CrudUpsertManyRequest, EntityType, FactoryOption } from '../interface';
 
 const method = Method.UPSERT;
 export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption: FactoryOption): Type<NestInterceptor> {
@@ -22,14 +22,25 @@ export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption
         }
 
         async intercept(context: ExecutionContext, next: CallHandler<unknown>): Promise<Observable<unknown>> {
-            const req = context.switchToHttp().getRequest<Request>();
+            const req = context.switchToHttp().getRequest<CrudHttpRequest>();
             const upsertOptions = crudOptions.routes?.[method] ?? {};
+            const { scope, ability, writable, hidden } = await this.authorize(context, crudOptions, method);
 
             // Check if body is array for bulk upsert or if the ID is "bulk"
             const isBulkUpsert = Array.isArray(req.body) || req.params?.id === 'bulk';
             
+            // Nested writes of relations are checked on their own, allowedParams does not apply to them
+            const { body: writeBody, nestedWrites } = await this.takeNestedWrites(
+                req.body,
+                crudOptions.entity,
+                factoryOption.relations,
+                upsertOptions.allowedNestedWrites ?? crudOptions.allowedNestedWrites,
+                writable,
+            );
+            req.body = writeBody;
+
             // Filter body parameters based on allowedParams
-            const allowedParams = upsertOptions.allowedParams ?? crudOptions.allowedParams;
+            const allowedParams = this.narrowAllowedParams(upsertOptions.allowedParams ?? crudOptions.allowedParams, writable);
             
             if (isBulkUpsert) {
                 // Bulk upsert handling
@@ -45,16 +56,23 @@ export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 }
                 
                 const validatedBodies = await Promise.all(
-                    req.body.map((item: any) => this.validateBody(item, upsertOptions))
+                    req.body.map(async (item: any) => Object.assign(await this.validateBody(item, upsertOptions), scope))
                 );
+                this.restoreNestedWrites(validatedBodies, nestedWrites);
                 
                 const crudUpsertManyRequest: CrudUpsertManyRequest<typeof crudOptions.entity> = {
                     body: validatedBodies,
-                    exclude: new Set(upsertOptions.exclude ?? []),
+                    scope,
+                    exclude: new Set(this.excludeHidden(upsertOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: upsertOptions.listeners,
                     },
                     hooks: upsertOptions.hooks,
+                    transaction: this.getTransaction(upsertOptions.transaction),
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
+                    job: this.getJob(req, crudOptions, method, scope),
                     request: req,
                 };
                 
@@ -69,6 +87,8 @@ export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption
                     new ConflictException('Invalid params'),
                 );
 
+                const versionCondition = this.getVersionCondition(req, factoryOption.versionColumn);
+
                 const primaryKeySet = new Set((factoryOption.primaryKeys ?? []).map((primaryKey) => primaryKey.name));
                 for (const [key, value] of Object.entries(req.params)) {
                     if (primaryKeySet.has(key)) {
@@ -85,16 +105,23 @@ export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption
                     req.body = this.filterAllowedParams(req.body, allowedParams);
                 }
 
-                const body = await this.validateBody(req.body ?? {}, upsertOptions);
+                const body = Object.assign(await this.validateBody(req.body ?? {}, upsertOptions), scope);
+                this.restoreNestedWrites(body, nestedWrites);
 
                 const crudUpsertRequest: CrudUpsertRequest<typeof crudOptions.entity> = {
-                    params,
+                    params: { ...params, ...scope },
                     body,
-                    exclude: new Set(upsertOptions.exclude ?? []),
+                    exclude: new Set(this.excludeHidden(upsertOptions.exclude, hidden)),
                     saveOptions: {
                         listeners: upsertOptions.listeners,
                     },
                     hooks: upsertOptions.hooks,
+                    transaction: this.getTransaction(upsertOptions.transaction),
+                    scope,
+                    versionCondition,
+                    ability,
+                    audit: crudOptions.audit,
+                    events: crudOptions.events,
                     request: req,
                 };
 
@@ -102,7 +129,7 @@ export function UpsertRequestInterceptor(crudOptions: CrudOptions, factoryOption
                 (req as unknown as Record<string, unknown>)[CRUD_ROUTE_ARGS] = crudUpsertRequest;
             }
 
-            return next.handle();
+            return next.handle().pipe(this.withEntityTag(context), this.withJob(context));
         }
 
         filterAllowedParams(body: any, allowedParams: string[]): any {
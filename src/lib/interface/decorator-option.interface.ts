@@ -1,7 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CountStrategy, EntityType, Method, PaginationType, Sort } from '.';
+import type { CacheInvalidationTransport } from '../utils/cache-invalidation-bus';
+import type { RedisConnectionOptions } from '../utils/multi-tier-cache';
 import type { NestInterceptor, Type } from '@nestjs/common';
-import type { ColumnType, DeepPartial } from 'typeorm';
-import type { EntityType, Method, PaginationType, Sort } from '.';
+import type { ColumnType, DeepPartial, EntityManager, EntityTarget } from 'typeorm';
+import type { IsolationLevel } from 'typeorm/driver/types/IsolationLevel';
 
 interface RouteBaseOption {
     /**
@@ -44,6 +47,399 @@ export interface SaveOptions {
     listeners?: boolean;
 }
 
+/**
+ * HTTP caching of a read route: Cache-Control, Vary, ETag and Last-Modified headers, and 304 Not Modified
+ * for `If-None-Match` / `If-Modified-Since`
+ */
+export interface HttpCacheOptions {
+    /**
+     * `max-age` of Cache-Control in seconds
+     * @default 0
+     */
+    maxAge?: number;
+    /**
+     * `private` responses are cached by browsers only, `public` responses by CDNs and proxies as well
+     * @default 'private'
+     */
+    visibility?: 'private' | 'public';
+    /**
+     * `stale-while-revalidate` of Cache-Control in seconds
+     */
+    staleWhileRevalidate?: number;
+    /**
+     * Request headers that change the response, sent as the Vary header.
+     * The query string is part of the cached URL, so `filter`, `sort`, `page`, `fields` and `include` need no Vary.
+     * @example ['Authorization', 'Accept-Language']
+     */
+    vary?: string[];
+}
+
+/**
+ * File format of the export route
+ */
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+/**
+ * File format of the import route
+ */
+export type ImportFormat = 'csv' | 'ndjson';
+
+/**
+ * Filter-based bulk request on the `bulk` path, e.g. `PATCH /orders/bulk?filter[status_eq]=expired`.
+ */
+export interface BulkFilterOptions {
+    /**
+     * Requests whose filters match more rows than this are rejected, so a missing filter cannot wipe a table.
+     * @default 1000
+     */
+    maxRows?: number;
+    /**
+     * Number of matching rows returned by `dryRun=true`.
+     * @default 10
+     */
+    sampleSize?: number;
+}
+
+/**
+ * Runs the route, including the save and every lifecycle hook, in one database transaction.
+ * The `EntityManager` of the transaction is available as `HookContext.manager`.
+ */
+export interface TransactionOptions {
+    /**
+     * Isolation level of the transaction. Uses the database default when not specified.
+     */
+    isolation?: IsolationLevel;
+}
+
+/**
+ * Row-level tenant scoping of every generated route.
+ * The tenant of the request is added to the conditions of reads and writes and forced onto the bodies of writes,
+ * so a client-supplied value of the tenant column never takes effect.
+ */
+export interface TenantOptions {
+    /**
+     * Column of the entity holding the tenant
+     */
+    column: string;
+    /**
+     * Resolves the tenant of the request
+     * - `{ header: 'x-tenant-id' }` reads a request header
+     * - `{ user: 'tenantId' }` reads a property path of `req.user`, e.g. a claim of the JWT verified by an auth guard
+     * - a function receiving the request, which may return a promise
+     *
+     * Requests whose tenant cannot be resolved are rejected with 403 Forbidden.
+     */
+    resolver: { header: string } | { user: string } | ((request: any) => unknown);
+}
+
+/**
+ * Field rules of the caller for a route
+ */
+export interface PolicyFieldRules {
+    /**
+     * Fields the caller may write. Narrows `allowedParams` of `create`, `update` and `upsert`.
+     */
+    writable?: string[];
+    /**
+     * Fields hidden from the caller. Added to `exclude` of the responses.
+     */
+    hidden?: string[];
+}
+
+/**
+ * Authorization policy of the generated routes, enforced together with `@CrudRoles`.
+ * Denials are answered with 403 Forbidden, or 401 Unauthorized when roles are required and there is no caller.
+ */
+export interface CrudPolicyOptions {
+    /**
+     * Resolves the caller of the request
+     * @default (request) => request.user
+     */
+    user?: (request: any) => unknown;
+    /**
+     * Resolves the roles of the caller which are checked against `@CrudRoles`
+     * @default (user) => user.roles
+     */
+    roles?: (user: any) => string[] | undefined;
+    /**
+     * Ability check of the caller, e.g. `can(user, 'update', entity)`.
+     * It is called without an entity before the route runs, and again with each entity the route reads by id or writes.
+     */
+    can?: (user: any, method: `${Method}`, entity?: any) => boolean | Promise<boolean>;
+    /**
+     * Row-level conditions of the caller, e.g. `(user) => ({ ownerId: user.id })`.
+     * Like the tenant, they are added to the conditions of every query and forced onto the bodies of writes.
+     */
+    conditions?: (user: any, method: `${Method}`) => Record<string, unknown> | undefined | Promise<Record<string, unknown> | undefined>;
+    /**
+     * Field rules of the caller
+     */
+    fields?: (user: any, method: `${Method}`) => PolicyFieldRules | undefined;
+}
+
+/**
+ * Before and after values of a field changed by a mutation
+ */
+export interface AuditFieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * Audit record of a mutation of one entity
+ */
+export interface AuditRecord {
+    /**
+     * Table name of the entity
+     */
+    entityName: string;
+    /**
+     * Primary key of the entity. Composite keys are written as a JSON array of the key values.
+     */
+    entityId: string;
+    operation: `${Method}`;
+    /**
+     * Caller of the request, or null when there is none
+     */
+    actor: string | null;
+    changes: AuditFieldChange[];
+    createdAt: Date;
+}
+
+/**
+ * Audit trail of `create`, `update`, `upsert`, `destroy` and `recover`.
+ * Each changed entity is recorded with the caller, the operation, its primary key and the before/after values of the changed columns.
+ * Mutations that change nothing are not recorded.
+ */
+export interface AuditOptions {
+    /**
+     * Audit table: `CrudAuditLog` or an entity extending it.
+     * Records are written with the `EntityManager` of the route, so they are rolled back together with a route that sets `transaction`.
+     * Required by the `history` route.
+     */
+    entity?: EntityTarget<EntityType>;
+    /**
+     * Custom sink of the records, called after the audit table is written
+     */
+    callback?: (record: AuditRecord, manager: EntityManager) => void | Promise<void>;
+    /**
+     * Resolves the caller of the request
+     * @default (request) => request.user?.id
+     */
+    actor?: (request: any) => unknown;
+    /**
+     * Columns that are never recorded
+     * @example ['password']
+     */
+    exclude?: string[];
+}
+
+/**
+ * Mutations that publish domain events
+ */
+export type CrudEventMethod = `${Method.CREATE | Method.UPDATE | Method.UPSERT | Method.DESTROY | Method.RECOVER}`;
+
+/**
+ * Domain event of a mutation of one entity, e.g. `user.created`
+ */
+export interface CrudEvent<T = EntityType, M extends CrudEventMethod = CrudEventMethod> {
+    /**
+     * Id of the event in the outbox
+     */
+    id: number;
+    /**
+     * `<name>.<created|updated|upserted|destroyed|recovered>`
+     */
+    name: string;
+    entityName: string;
+    entityId: string;
+    method: M;
+    /**
+     * Changed fields with their before/after values
+     */
+    changes: AuditFieldChange[];
+    /**
+     * Column values of the entity after the mutation, or before it when the entity was hard deleted
+     */
+    data: Partial<T>;
+    occurredAt: Date;
+}
+
+/**
+ * Destination of the events pushed by `CrudEventDispatcher`
+ */
+export interface CrudEventTransport {
+    publish(event: CrudEvent): void | Promise<void>;
+}
+
+/**
+ * Domain events of `create`, `update`, `upsert`, `destroy` and `recover`.
+ * Events are written to the outbox table with the `EntityManager` of the route, in the same transaction as the save
+ * when the route sets `transaction`, and pushed to the transports by `CrudEventDispatcher` once committed.
+ * Mutations that change nothing publish no event.
+ */
+export interface CrudEventOptions {
+    /**
+     * Outbox table: `CrudOutboxEvent` or an entity extending it
+     */
+    outbox: EntityTarget<EntityType>;
+    /**
+     * Prefix of the event names
+     * @default entity class name in lower camel case, e.g. `user` for `User`
+     */
+    name?: string;
+    /**
+     * Mutations that publish events
+     * @default all mutations
+     */
+    methods?: CrudEventMethod[];
+    /**
+     * Columns that are never published
+     * @example ['password']
+     */
+    exclude?: string[];
+}
+
+/**
+ * Bulk mutations that can run as a background job
+ */
+export type CrudJobMethod = `${Method.CREATE | Method.UPDATE | Method.UPSERT | Method.DESTROY}`;
+
+export type CrudJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Item of a job that could not be saved
+ */
+export interface CrudJobItemError {
+    /**
+     * Index of the item in the body (or in the ids of a bulk delete)
+     */
+    index: number;
+    message: string;
+}
+
+/**
+ * Caller who started a job. Only a caller with the same scope and user can read or remove the job.
+ */
+export interface CrudJobOwner {
+    /**
+     * Tenant and row-level conditions of the caller
+     */
+    scope: Record<string, unknown> | null;
+    user: string | null;
+}
+
+/**
+ * Background job of a bulk request which preferred an asynchronous response
+ */
+export interface CrudJob {
+    id: string;
+    /**
+     * Class name of the entity
+     */
+    entityName: string;
+    owner: CrudJobOwner;
+    method: CrudJobMethod;
+    status: CrudJobStatus;
+    total: number;
+    /**
+     * Items handled so far, saved or failed
+     */
+    processed: number;
+    /**
+     * Responses of the saved items so far
+     */
+    results: unknown[];
+    errors: CrudJobItemError[];
+    /**
+     * Why the job failed as a whole, e.g. when it was interrupted by a restart
+     */
+    error: string | null;
+    createdAt: Date;
+    /**
+     * Written by the running instance at least every third of `staleAfter`
+     */
+    updatedAt: Date;
+    completedAt: Date | null;
+}
+
+/**
+ * Storage of the jobs, shared by the instances that serve the job routes
+ */
+export interface CrudJobStore {
+    create(job: CrudJob): Promise<void>;
+    get(id: string): Promise<CrudJob | undefined>;
+    /**
+     * Changes a job. Changes of a job that no longer exists are ignored.
+     */
+    update(id: string, changes: Partial<Omit<CrudJob, 'id'>>): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Background jobs of bulk `create`, `update`, `upsert` and `destroy`.
+ * A bulk request with the `Prefer: respond-async` header responds `202 Accepted` with the job at once,
+ * and the items are saved in batches afterwards. Each batch is saved in a transaction; the items of a failed batch
+ * are retried one by one so that the errors are reported per item.
+ */
+export interface CrudJobOptions {
+    /**
+     * `MemoryJobStore`, or `TypeOrmJobStore` to keep the jobs across restarts and instances
+     */
+    store: CrudJobStore;
+    /**
+     * Mutations that can run as a job
+     * @default all of them
+     */
+    methods?: CrudJobMethod[];
+    /**
+     * Items saved in one transaction
+     * @default 100
+     */
+    batchSize?: number;
+    /**
+     * Milliseconds after which a pending or running job that is no longer updated, e.g. because its instance restarted,
+     * is marked as failed
+     * @default 60000
+     */
+    staleAfter?: number;
+    /**
+     * Identifies the user who starts a job or an import, only that user can read or remove it
+     * @default (request) => request.user?.id
+     */
+    user?: (request: any) => unknown;
+}
+
+/**
+ * Operation of a nested write to a relation
+ * - `connect`, `disconnect`: links or unlinks existing rows by primary key
+ * - `create`, `update`: saves related rows, validated with the rules of the related entity
+ * - `delete`: deletes related rows of a to-many relation
+ */
+export type CrudNestedWriteOperation = 'connect' | 'disconnect' | 'create' | 'update' | 'delete';
+
+/**
+ * Nested write to a relation in a create, update or upsert body.
+ * To-many relations take arrays, to-one relations take one value and `disconnect: true`.
+ *
+ * @example
+ * { tags: { connect: [1, 2], disconnect: [3] }, items: { create: [{ name: 'a' }], update: [{ id: 4, name: 'b' }], delete: [5] } }
+ */
+export interface CrudNestedWrite {
+    connect?: unknown;
+    disconnect?: unknown;
+    create?: unknown;
+    update?: unknown;
+    delete?: unknown;
+}
+
+/**
+ * Nested write operations allowed for each relation
+ * @example { tags: ['connect', 'disconnect'], items: ['create', 'update', 'delete'] }
+ */
+export type CrudNestedWriteOptions = Record<string, CrudNestedWriteOperation[]>;
+
 export interface PrimaryKey {
     name: string;
     type?: ColumnType;
@@ -86,6 +482,14 @@ export interface CrudOptions {
      */
     allowedParams?: string[];
 
+    /**
+     * Relations that can be written with nested `connect`, `disconnect`, `create`, `update` and `delete` operations,
+     * with the operations allowed for each. If not specified, no nested writes are accepted.
+     * Only applies to CREATE, UPDATE, and UPSERT operations.
+     * @example { tags: ['connect', 'disconnect'], items: ['create', 'update', 'delete'] }
+     */
+    allowedNestedWrites?: CrudNestedWriteOptions;
+
     /**
      * Array of relation names that are allowed to be included via include query parameter.
      * If not specified, no relations can be included (all includes are blocked).
@@ -93,6 +497,14 @@ export interface CrudOptions {
      */
     allowedIncludes?: string[];
 
+    /**
+     * Array of field names that are allowed to be selected via fields query parameter (sparse fieldsets).
+     * Fields of relations are written as `relation.field`.
+     * If not specified, no fieldsets can be requested (all fieldsets are ignored).
+     * @example ['name', 'email', 'department.name']
+     */
+    allowedFields?: string[];
+
     /**
      * Array of field names to exclude from all responses.
      * This applies globally to all routes unless overridden at the route level.
@@ -107,7 +519,18 @@ export interface CrudOptions {
         enabled: boolean;
         ttl?: number;  // Time to live in seconds
         keyPrefix?: string;
-        strategy?: 'memory' | 'redis' | 'multi-tier';
+        strategy?: 'memory' | 'redis' | 'multi-tier';  // multi-tier: in-memory layer in front of Redis
+        /**
+         * Redis connection of the `redis` and `multi-tier` strategies.
+         * Without `client`, an ioredis client is created from `url` or the REDIS_HOST and REDIS_PORT environment variables.
+         * @example { client: new Redis(process.env.REDIS_URL) }
+         */
+        redis?: RedisConnectionOptions;
+        /**
+         * Broadcasts invalidations to the other instances, so that their in-memory layer does not go stale
+         * @example new RedisInvalidationTransport(redis, redis.duplicate())
+         */
+        invalidationBus?: CacheInvalidationTransport;
     };
 
     /**
@@ -129,6 +552,37 @@ export interface CrudOptions {
      */
     maxPageSize?: number;
 
+    /**
+     * Scopes every route to the tenant of the request
+     * @example { column: 'tenantId', resolver: { header: 'x-tenant-id' } }
+     */
+    tenant?: TenantOptions;
+
+    /**
+     * Authorization policy of the routes: ability checks, row-level conditions and field rules of the caller
+     * @example { can: (user, method, entity) => method === 'index' || entity?.ownerId === user.id }
+     */
+    policy?: CrudPolicyOptions;
+
+    /**
+     * Records who changed what for every mutation of the routes
+     * @example { entity: CrudAuditLog, actor: (request) => request.user?.email }
+     */
+    audit?: AuditOptions;
+
+    /**
+     * Publishes domain events of the mutations of the routes through a transactional outbox
+     * @example { outbox: CrudOutboxEvent, name: 'user' }
+     */
+    events?: CrudEventOptions;
+
+    /**
+     * Runs bulk mutations requested with `Prefer: respond-async` as background jobs,
+     * and generates `GET /jobs/:jobId` and `DELETE /jobs/:jobId`
+     * @example { store: new TypeOrmJobStore(dataSource) }
+     */
+    jobs?: CrudJobOptions;
+
     /**
      * Configures each CRUD method
      */
@@ -163,6 +617,20 @@ export interface CrudOptions {
              * @example ['department', 'posts', 'posts.comments']
              */
             allowedIncludes?: string[];
+            /**
+             * Array of field names that are allowed to be selected via fields query parameter.
+             * If not specified, uses the global allowedFields from CrudOptions.
+             * If both are not specified, no fieldsets can be requested.
+             * @example ['name', 'email', 'department.name']
+             */
+            allowedFields?: string[];
+            /**
+             * HTTP caching headers and conditional GET.
+             * The ETag is the version (`@VersionColumn` or `@UpdateDateColumn`) of the entity, or a hash of the response,
+             * marked with the response format so that every representation has its own ETag.
+             * @example { maxAge: 60, visibility: 'public', staleWhileRevalidate: 30 }
+             */
+            httpCache?: HttpCacheOptions;
         } & RouteBaseOption & {
             hooks?: LifecycleHooks;
         };
@@ -192,6 +660,21 @@ export interface CrudOptions {
              * If not set, the keys will be taken from the entity's primary keys.
              */
             paginationKeys?: string[];
+            /**
+             * How `total` of the response is computed. `COUNT(*)` can dominate the latency of large tables.
+             * - `exact`: `COUNT(*)` of the matching rows
+             * - `estimate`: table statistics (PostgreSQL `reltuples`, MySQL `information_schema`) when the request has no filter, `exact` otherwise
+             * - `none`: no count; `hasNextPage` is returned instead, by fetching one extra row
+             * - `capped:N`: counts at most N rows, e.g. `capped:10000`
+             * @default 'exact'
+             */
+            countStrategy?: CountStrategy;
+            /**
+             * HTTP caching headers and conditional GET.
+             * The ETag is a hash of the response marked with the response format.
+             * @example { maxAge: 10, vary: ['Authorization'] }
+             */
+            httpCache?: HttpCacheOptions;
             /**
              * Array of column names that are allowed to be filtered.
              * If not specified, uses the global allowedFilters from CrudOptions.
@@ -206,6 +689,13 @@ export interface CrudOptions {
              * @example ['department', 'posts', 'posts.comments']
              */
             allowedIncludes?: string[];
+            /**
+             * Array of field names that are allowed to be selected via fields query parameter.
+             * If not specified, uses the global allowedFields from CrudOptions.
+             * If both are not specified, no fieldsets can be requested.
+             * @example ['name', 'email', 'department.name']
+             */
+            allowedFields?: string[];
         } & Omit<RouteBaseOption, 'response'>;
 
         [Method.CREATE]?: {
@@ -225,6 +715,13 @@ export interface CrudOptions {
              */
             allowedParams?: string[];
 
+            /**
+             * Relations that can be written with nested operations.
+             * If not specified, uses the global allowedNestedWrites from CrudOptions.
+             * @example { tags: ['connect', 'disconnect'] }
+             */
+            allowedNestedWrites?: CrudNestedWriteOptions;
+
             /**
              * Skip validation of properties that do not exist in the validating object.
              * If not specified, uses the global skipMissingProperties from CrudOptions.
@@ -234,6 +731,11 @@ export interface CrudOptions {
         } & RouteBaseOption &
             SaveOptions & {
                 hooks?: LifecycleHooks;
+                /**
+                 * If set, the save and all lifecycle hooks run in one transaction and are rolled back when a hook throws.
+                 * @default false
+                 */
+                transaction?: boolean | TransactionOptions;
             };
         [Method.UPDATE]?: {
             /**
@@ -260,15 +762,41 @@ export interface CrudOptions {
              */
             allowedParams?: string[];
 
+            /**
+             * Relations that can be written with nested operations.
+             * If not specified, uses the global allowedNestedWrites from CrudOptions.
+             * @example { tags: ['connect', 'disconnect'] }
+             */
+            allowedNestedWrites?: CrudNestedWriteOptions;
+
             /**
              * Skip validation of properties that do not exist in the validating object.
              * If not specified, uses the global skipMissingProperties from CrudOptions.
              * @default true for UPDATE operations
              */
             skipMissingProperties?: boolean;
+            /**
+             * Enables filter-based bulk requests on the `bulk` path (e.g. `PATCH /bulk?filter[status_eq]=expired`).
+             * Filters follow allowedFilters and at least one filter is required.
+             * `dryRun=true` returns the number of matching rows and a sample without changing them.
+             * @default false
+             */
+            bulkFilter?: boolean | BulkFilterOptions;
+            /**
+             * Array of column names that are allowed to be filtered in filter-based bulk requests.
+             * If not specified, uses the global allowedFilters from CrudOptions.
+             * If both are not specified, no columns can be filtered.
+             * @example ['status', 'createdAt']
+             */
+            allowedFilters?: string[];
         } & RouteBaseOption &
             SaveOptions & {
                 hooks?: LifecycleHooks;
+                /**
+                 * If set, the save and all lifecycle hooks run in one transaction and are rolled back when a hook throws.
+                 * @default false
+                 */
+                transaction?: boolean | TransactionOptions;
             };
         [Method.DESTROY]?: {
             /**
@@ -286,9 +814,28 @@ export interface CrudOptions {
              * @default false
              */
             softDelete?: boolean;
+            /**
+             * Enables filter-based bulk requests on the `bulk` path (e.g. `DELETE /bulk?filter[status_eq]=expired`).
+             * Filters follow allowedFilters and at least one filter is required.
+             * `dryRun=true` returns the number of matching rows and a sample without changing them.
+             * @default false
+             */
+            bulkFilter?: boolean | BulkFilterOptions;
+            /**
+             * Array of column names that are allowed to be filtered in filter-based bulk requests.
+             * If not specified, uses the global allowedFilters from CrudOptions.
+             * If both are not specified, no columns can be filtered.
+             * @example ['status', 'createdAt']
+             */
+            allowedFilters?: string[];
         } & RouteBaseOption &
             SaveOptions & {
                 hooks?: LifecycleHooks;
+                /**
+                 * If set, the save and all lifecycle hooks run in one transaction and are rolled back when a hook throws.
+                 * @default false
+                 */
+                transaction?: boolean | TransactionOptions;
             };
         [Method.UPSERT]?: {
             /**
@@ -315,6 +862,13 @@ export interface CrudOptions {
              */
             allowedParams?: string[];
 
+            /**
+             * Relations that can be written with nested operations.
+             * If not specified, uses the global allowedNestedWrites from CrudOptions.
+             * @example { tags: ['connect', 'disconnect'] }
+             */
+            allowedNestedWrites?: CrudNestedWriteOptions;
+
             /**
              * Skip validation of properties that do not exist in the validating object.
              * If not specified, uses the global skipMissingProperties from CrudOptions.
@@ -324,6 +878,11 @@ export interface CrudOptions {
         } & RouteBaseOption &
             SaveOptions & {
                 hooks?: LifecycleHooks;
+                /**
+                 * If set, the save and all lifecycle hooks run in one transaction and are rolled back when a hook throws.
+                 * @default false
+                 */
+                transaction?: boolean | TransactionOptions;
             };
         [Method.RECOVER]?: {
             /**
@@ -339,10 +898,161 @@ export interface CrudOptions {
         } & RouteBaseOption &
             SaveOptions & {
                 hooks?: LifecycleHooks;
+                /**
+                 * If set, the save and all lifecycle hooks run in one transaction and are rolled back when a hook throws.
+                 * @default false
+                 */
+                transaction?: boolean | TransactionOptions;
             };
+        /**
+         * Opt-in route `GET /aggregate`. It is generated only when configured here or listed in `only`.
+         */
+        [Method.AGGREGATE]?: {
+            /**
+             * Array of column names that are allowed to be filtered.
+             * If not specified, uses the global allowedFilters from CrudOptions.
+             * If both are not specified, no columns can be filtered.
+             * @example ['status', 'createdAt']
+             */
+            allowedFilters?: string[];
+            /**
+             * Array of column names that are allowed in group[] query parameter.
+             * If not specified, no columns can be grouped.
+             * @example ['status', 'category']
+             */
+            allowedGroups?: string[];
+            /**
+             * Array of column names that are allowed in aggregate[count|sum|avg|min|max] query parameter.
+             * `aggregate[count]=*` is always allowed.
+             * If not specified, only the row count can be aggregated.
+             * @example ['price', 'quantity']
+             */
+            allowedAggregates?: string[];
+            /**
+             * If set to true, soft-deleted entity could be included in the result.
+             * @default false
+             */
+            softDelete?: boolean;
+        } & Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Opt-in route `GET /export` streaming the entities matched by the filters and sorts of the index route as a file.
+         * The format is picked by the `format` query or the `Accept` header (`text/csv`, `application/x-ndjson`, XLSX).
+         * It is generated only when configured here or listed in `only`.
+         */
+        [Method.EXPORT]?: {
+            /**
+             * Array of column names that are allowed to be filtered.
+             * If not specified, uses the global allowedFilters from CrudOptions.
+             * If both are not specified, no columns can be filtered.
+             * @example ['status', 'createdAt']
+             */
+            allowedFilters?: string[];
+            /**
+             * Columns of the file, in order. Excluded and hidden columns are left out.
+             * If not specified, all columns of the entity are exported.
+             * @example ['id', 'name', 'createdAt']
+             */
+            columns?: string[];
+            /**
+             * Header labels of the columns. Columns without a label use the column name.
+             * NDJSON keys are always the column names.
+             * @example { createdAt: 'Created At' }
+             */
+            labels?: Record<string, string>;
+            /**
+             * Formats which can be requested. The first one is used when the request asks for none.
+             * @default ['csv', 'ndjson', 'xlsx']
+             */
+            formats?: ExportFormat[];
+            /**
+             * Number of rows read from the database at a time
+             * @default 1000
+             */
+            chunkSize?: number;
+            /**
+             * File name of the export without the extension
+             * @default table name of the entity
+             */
+            filename?: string;
+            /**
+             * If set to true, soft-deleted entity could be included in the result.
+             * @default false
+             */
+            softDelete?: boolean;
+        } & RouteBaseOption;
+        /**
+         * Opt-in route `POST /import` taking a CSV or NDJSON file in the multipart field `file`.
+         * Each row is validated like the body of create, and the valid rows are saved in batches by a background job.
+         * It responds `202 Accepted` with the job, whose progress is streamed from `GET /import/:jobId` (Server-Sent Events)
+         * and whose rejected rows are downloaded as CSV from `GET /import/:jobId/errors`.
+         * It is generated only when configured here or listed in `only`.
+         */
+        [Method.IMPORT]?: {
+            /**
+             * Array of column names that can be imported.
+             * If not specified, uses the global allowedParams from CrudOptions.
+             */
+            allowedParams?: string[];
+            /**
+             * Formats which can be uploaded. The format is picked by the `format` query, then by the type or extension of the file.
+             * @default ['csv', 'ndjson']
+             */
+            formats?: ImportFormat[];
+            /**
+             * Columns identifying an existing entity. A row matching an entity by these columns updates it, other rows are inserted.
+             * If not specified, every row is inserted.
+             * @example ['sku']
+             */
+            upsertKeys?: string[];
+            /**
+             * Number of rows saved at a time by `SmartBatchProcessor`
+             * @default 'auto'
+             */
+            batchSize?: number | 'auto';
+            /**
+             * Largest file which can be uploaded, in bytes
+             * @default 10485760 (10MB)
+             */
+            maxFileSize?: number;
+            /**
+             * If set to true, missing properties are not validated.
+             * @default false
+             */
+            skipMissingProperties?: boolean;
+        } & Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Route `GET /import/:jobId` streaming the progress of an import job. It is generated with the import route.
+         */
+        [Method.IMPORT_PROGRESS]?: Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Route `GET /import/:jobId/errors` downloading the rejected rows of an import job as CSV. It is generated with the import route.
+         */
+        [Method.IMPORT_REPORT]?: Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Route `GET /jobs/:jobId` showing the status, the partial results and the errors of a job.
+         * It is generated with the `jobs` option.
+         */
+        [Method.JOB_SHOW]?: Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Route `DELETE /jobs/:jobId` removing a job, which stops it after the current batch when it is still running.
+         * It is generated with the `jobs` option.
+         */
+        [Method.JOB_DESTROY]?: Omit<RouteBaseOption, 'exclude'>;
+        /**
+         * Opt-in route `GET /:id/history` listing the audit records of an entity, newest first, with offset pagination.
+         * It is generated only when configured here or listed in `only`, and requires `audit.entity`.
+         */
+        [Method.HISTORY]?: {
+            /**
+             * Default number of records per page
+             * @default 20
+             */
+            numberOfTake?: number;
+        } & Omit<RouteBaseOption, 'exclude'>;
     };
     /**
-     * An array of methods to generate routes for. If not specified, all routes will be generated.
+     * An array of methods to generate routes for. If not specified, all routes will be generated
+     * except the opt-in `aggregate`, `export`, `import` and `history` routes.
      */
     only?: Array<Method | `${Method}`>;
 
@@ -352,6 +1062,63 @@ export interface CrudOptions {
     pagination?: import('./pagination.interface').PaginationOptions;
 }
 
+/**
+ * Options of `@CrudResolver`, which generates GraphQL queries and mutations instead of routes.
+ * `show`, `index`, `create`, `update`, `destroy` and `recover` are generated, following `only` and `routes` like `@Crud`.
+ */
+export interface CrudResolverOptions extends CrudOptions {
+    /**
+     * Name of the object type, and the base of the names of the operations and input types
+     * @default name of the entity class
+     * @example 'User' generates `user`, `users`, `createUser`, `updateUser`, `deleteUser`, `recoverUser`, `UserFilterInput`, ...
+     */
+    name?: string;
+
+    /**
+     * Name of the list query
+     * @default `name` in camelCase with a trailing 's', e.g. `users`
+     */
+    pluralName?: string;
+}
+
+/**
+ * Options of `@CrudMessageController`, which registers message patterns of Nest microservices instead of routes.
+ * The methods follow `only` and `routes` like `@Crud`, except the file methods `export` and `import`.
+ */
+export interface CrudMessageControllerOptions extends CrudOptions {
+    /**
+     * Prefix of the `cmd` of the message patterns
+     * @default name of the entity class in camelCase
+     * @example 'user' registers `{ cmd: 'user.index' }`, `{ cmd: 'user.show' }`, `{ cmd: 'user.create' }`, ...
+     */
+    pattern?: string;
+}
+
+/**
+ * Data of a message to a pattern of `@CrudMessageController`: the parts of the HTTP request of the route
+ */
+export interface CrudMessagePayload {
+    /**
+     * Path parameters of the route
+     * @example { id: 1 }
+     */
+    params?: Record<string, unknown>;
+    /**
+     * Query of the route, with bracket keys or nested objects
+     * @example { 'filter[age_gte]': 30, sort: '-age' } or { filter: { age_gte: 30 }, sort: '-age' }
+     */
+    query?: Record<string, unknown>;
+    body?: unknown;
+    /**
+     * Headers of the route, e.g. `If-Match` or `Prefer: respond-async` of a bulk request
+     */
+    headers?: Record<string, unknown>;
+    /**
+     * Caller, as `request.user` of the route
+     */
+    user?: unknown;
+}
+
 /**
  * Lifecycle hook context information
  */
@@ -376,6 +1143,11 @@ export interface HookContext<T = any> {
      * Additional information from request object
      */
     request?: any;
+    /**
+     * EntityManager running the operation.
+     * When the route sets `transaction`, it is the manager of the transaction shared by the save and every hook.
+     */
+    manager?: EntityManager;
 }
 
 /**
@@ -12,4 +12,7 @@ export interface FactoryOption {
     columns?: Column[];
     relations: string[];
     primaryKeys: Array<Omit<Column, 'isPrimary'>>;
+    tableName?: string;
+    versionColumn?: string; // @VersionColumn, or @UpdateDateColumn when the entity has no version column
+    updateDateColumn?: string; // @UpdateDateColumn, the Last-Modified of responses
 }
@@ -1,4 +1,11 @@
 export enum Method {
+    AGGREGATE = 'aggregate', // registered before SHOW so that `/aggregate` is not taken as `/:id`
+    EXPORT = 'export', // registered before SHOW so that `/export` is not taken as `/:id`
+    IMPORT = 'import',
+    IMPORT_PROGRESS = 'importProgress', // registered before SHOW so that `/import/:jobId` is not taken as `/:id/:id`
+    IMPORT_REPORT = 'importReport',
+    JOB_SHOW = 'jobShow', // registered before SHOW and DESTROY so that `/jobs/:jobId` is not taken as `/:id/:id`
+    JOB_DESTROY = 'jobDestroy',
     SHOW = 'show',
     INDEX = 'index',
     CREATE = 'create',
@@ -6,6 +13,7 @@ export enum Method {
     DESTROY = 'destroy',
     UPSERT = 'upsert',
     RECOVER = 'recover',
+    HISTORY = 'history',
 }
 
 
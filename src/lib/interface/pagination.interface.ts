@@ -16,29 +16,62 @@ export const PAGINATION_SWAGGER_QUERY: Record<PaginationType, Array<{ name: stri
     [PaginationType.CURSOR]: [{ name: 'nextCursor', type: 'string' }],
 };
 
+/**
+ * How the total of an index response is computed
+ * - `exact`: `COUNT(*)` of the matching rows
+ * - `estimate`: table statistics (PostgreSQL `reltuples`, MySQL `information_schema`) for unfiltered requests, `exact` otherwise
+ * - `none`: no count; one extra row is fetched to tell whether there is a next page (`hasNextPage`)
+ * - `capped:N`: counts at most N rows
+ */
+export type CountStrategy = 'exact' | 'estimate' | 'none' | `capped:${number}`;
+
+/**
+ * Count of the rows of an index request, by `CountStrategy`
+ */
+export interface PaginationCount {
+    /**
+     * Total data count, absent with `none`
+     */
+    total?: number;
+    /**
+     * Whether another page follows, only with `none`
+     */
+    hasNextPage?: boolean;
+    /**
+     * `total` is an estimate from table statistics
+     */
+    estimated?: boolean;
+    /**
+     * `total` reached the cap of `capped:N`, so there are at least that many rows
+     */
+    capped?: boolean;
+}
+
 export interface CursorPaginationResponse<T> extends PaginationAbstractResponse<T> {
-    metadata: {
+    metadata: PaginationCount & {
         limit: number;
-        total: number;
-        totalPages: number;
+        totalPages?: number;
+        /**
+         * cursor token of the last row, for page[after]
+         */
         nextCursor: string;
+        /**
+         * cursor token of the first row, for page[before]
+         */
+        prevCursor: string;
     };
 }
 
 export interface OffsetPaginationResponse<T> extends PaginationAbstractResponse<T> {
-    metadata: {
+    metadata: PaginationCount & {
         /**
          * Current page number
          */
         page: number;
         /**
-         * Total page count
-         */
-        pages: number;
-        /**
-         * Total data count
+         * Total page count, absent with countStrategy `none`
          */
-        total: number;
+        pages?: number;
         /**
          * Maximum number of data on a page
          */
@@ -54,8 +87,33 @@ export type PaginationRequest = PaginationCursorDto | PaginationOffsetDto;
 
 export type PaginationResponse<T> = CursorPaginationResponse<T> | OffsetPaginationResponse<T>;
 
+export interface CursorTokenOptions {
+    /**
+     * Secret of the HMAC-SHA256 signature of the `nextCursor` tokens.
+     * With an array, the first secret signs and every secret is accepted, so that secrets can be rotated.
+     */
+    secret: string | string[];
+    /**
+     * Lifetime of a token in seconds. Expired tokens are rejected with 400.
+     * @default undefined (no expiry)
+     */
+    expiresIn?: number;
+    /**
+     * Encrypt the payload (AES-256-GCM) so that clients cannot read the cursor values
+     * @default false
+     */
+    encrypt?: boolean;
+}
+
 export interface PaginationOptions {
     type?: PaginationType;
     maxLimit?: number;
     defaultLimit?: number;
+    /**
+     * Sign the `nextCursor` tokens so that clients cannot edit them. Tampered tokens are rejected with 400.
+     * Without it, tokens are plain base64 JSON.
+     *
+     * @example { secret: process.env.CURSOR_SECRET, expiresIn: 3600, encrypt: true }
+     */
+    cursor?: CursorTokenOptions;
 }
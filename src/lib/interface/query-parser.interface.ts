@@ -49,19 +49,63 @@ export interface IncludeOperation {
     nested?: IncludeOperation[]; // for nested includes like "author.comments"
 }
 
+/**
+ * Sparse fieldset of the resource (`fields[users]=id,name`) or of an included relation (`fields[author]=name`)
+ */
+export interface FieldsOperation {
+    relation?: string; // undefined for the resource itself, "author.department" for nested relations
+    fields: string[];
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Aggregate of a column (`aggregate[sum]=price`). `count` also accepts `*` for the number of rows.
+ */
+export interface AggregateOperation {
+    function: AggregateFunction;
+    field: string;
+}
+
 export interface PageOperation {
     type: 'number' | 'offset' | 'cursor';
     number?: number; // for page[number]
     size?: number; // for page[size]
     offset?: number; // for page[offset]
     limit?: number; // for page[limit]
-    cursor?: string; // for page[cursor]
+    cursor?: string; // for page[cursor], page[after] and page[before]
+    direction?: 'after' | 'before'; // 'before' for page[before], rows preceding the cursor
+}
+
+export type FilterGroupType = 'and' | 'or' | 'not';
+
+/**
+ * Boolean group of filter conditions.
+ * - `and`: every condition must match
+ * - `or`: at least one condition must match
+ * - `not`: the conjunction of the conditions must not match
+ *
+ * @example filter[or][0][status_eq]=active&filter[or][1][ownerId_eq]=1
+ */
+export interface FilterGroup {
+    type: FilterGroupType;
+    conditions: FilterCondition[];
+}
+
+export type FilterCondition = FilterOperation | FilterGroup;
+
+export function isFilterGroup(condition: FilterCondition): condition is FilterGroup {
+    return 'conditions' in condition && Array.isArray(condition.conditions);
 }
 
 export interface ParsedQuery {
     filters: FilterOperation[];
+    filterGroups?: FilterGroup[]; // AND'ed with filters
     sorts: SortOperation[];
     includes: IncludeOperation[];
+    fields?: FieldsOperation[];
+    aggregates?: AggregateOperation[];
+    groups?: string[];
     page?: PageOperation;
 }
 
@@ -69,6 +113,10 @@ export interface QueryParserOptions {
     allowedFilters?: string[];
     allowedSorts?: string[];
     allowedIncludes?: string[];
+    allowedFields?: string[]; // "name" for the resource, "author.name" for relations
+    resourceType?: string; // key of the resource itself in fields[...], e.g. the table name
+    allowedAggregates?: string[]; // columns allowed in aggregate[...]; count(*) is always allowed
+    allowedGroups?: string[]; // columns allowed in group[]
     maxPageSize?: number;
     defaultPageSize?: number;
 }
@@ -1,11 +1,44 @@
-import type { DeepPartial } from 'typeorm';
-import type { SaveOptions, LifecycleHooks } from '.';
+import type {
+    SaveOptions,
+    LifecycleHooks,
+    AggregateOperation,
+    TransactionOptions,
+    AuditOptions,
+    CrudEventOptions,
+    CrudJobOptions,
+    CrudJobOwner,
+    EntityType,
+    ImportFormat,
+} from '.';
+import type { CrudReadManyRequest } from '../request';
+import type { DeepPartial, EntityTarget, FindOptionsSelect, FindOptionsWhere } from 'typeorm';
 
 export type CrudRequestId<T> = keyof T | Array<keyof T>;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export interface CrudRequestBase {
     request?: any; // Express Request object or similar
+    ability?: (entity: unknown) => boolean | Promise<boolean>; // policy check of the caller against an entity (403 when denied)
+    audit?: AuditOptions; // audit trail of the mutations of the request
+    events?: CrudEventOptions; // domain events of the mutations of the request
+    job?: CrudRequestJob; // runs a bulk request as a background job (Prefer: respond-async)
+}
+
+/**
+ * Job options of a bulk request which runs as a background job
+ */
+export interface CrudRequestJob extends CrudJobOptions {
+    owner: CrudJobOwner; // caller the job belongs to
+}
+
+/**
+ * Outcome of the policy of a route for the caller of the request
+ */
+export interface CrudAuthorization {
+    scope?: Record<string, unknown>; // tenant and row-level conditions, added to queries and forced onto written bodies
+    ability?: (entity: unknown) => boolean | Promise<boolean>;
+    writable?: string[];
+    hidden?: string[];
 }
 
 export interface CrudReadRequestBase extends CrudRequestBase {
@@ -13,18 +46,85 @@ export interface CrudReadRequestBase extends CrudRequestBase {
     relations: string[];
 }
 
+/**
+ * Expected version of the stored entity for optimistic concurrency control
+ */
+export interface CrudVersionCondition {
+    ifMatch?: string[]; // entity tags of the If-Match header (412 when none matches)
+    version?: unknown; // version field of the request body (409 when it differs)
+}
+
 export interface CrudReadOneRequest<T> extends CrudReadRequestBase {
     selectColumns?: string[];
+    relationSelect?: FindOptionsSelect<T>; // select of included relations from sparse fieldsets
     excludedColumns?: string[];
     params: Partial<Record<keyof T, unknown>>;
     hooks?: LifecycleHooks<T>;
 }
 
+export interface CrudAggregateRequest<T> extends CrudRequestBase {
+    aggregates: AggregateOperation[];
+    groups: string[];
+    where?: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>;
+    softDeleted: boolean;
+}
+
+export interface CrudExportRequest<T> extends CrudRequestBase {
+    columns: string[];
+    where?: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>;
+    order: Array<[string, 'ASC' | 'DESC']>; // sorts followed by the primary keys, so that rows can be read by keyset
+    softDeleted: boolean;
+    chunkSize: number;
+}
+
+/**
+ * Row of an import file which was not saved, with the reasons
+ */
+export interface CrudImportRejection {
+    line: number; // line of the row in the file
+    row: Record<string, unknown>;
+    errors: string[];
+}
+
+export interface CrudImportRequest<T> extends CrudRequestBase {
+    body: Array<DeepPartial<T>>; // validated rows
+    lines: number[]; // line of each row of the body in the file
+    rejected: CrudImportRejection[];
+    fileName: string;
+    format: ImportFormat;
+    upsertKeys?: string[];
+    batchSize?: number | 'auto';
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
+    owner: CrudJobOwner; // caller who starts the import, the only one who can read its progress and report
+}
+
+export interface CrudImportJobRequest extends CrudRequestBase {
+    jobId: string;
+}
+
+export interface CrudJobRequest extends CrudRequestBase {
+    jobId: string;
+    jobs: CrudJobOptions;
+    owner: CrudJobOwner; // caller of the request, who must be the owner of the job
+}
+
+/**
+ * Filter of a filter-based bulk request. Matching rows are resolved to primary keys before they are changed.
+ */
+export interface CrudBulkFilter<T> {
+    where: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>;
+    maxRows: number;
+    sampleSize: number;
+    dryRun: boolean;
+}
+
 export interface CrudCreateOneRequest<T> extends CrudRequestBase {
     body: DeepPartial<T>;
     exclude: Set<string>;
     saveOptions?: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export interface CrudCreateManyRequest<T> extends CrudRequestBase {
@@ -32,6 +132,8 @@ export interface CrudCreateManyRequest<T> extends CrudRequestBase {
     exclude: Set<string>;
     saveOptions?: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export function isCrudCreateManyRequest<T>(x: CrudCreateOneRequest<T> | CrudCreateManyRequest<T>): x is CrudCreateManyRequest<T> {
@@ -43,11 +145,13 @@ export type CrudCreateRequest<T> = CrudCreateOneRequest<T> | CrudCreateManyReque
 export interface CrudUpsertRequest<T> extends CrudCreateOneRequest<T> {
     params: Partial<Record<keyof T, unknown>>;
     saveOptions: SaveOptions;
+    versionCondition?: CrudVersionCondition;
 }
 
 export interface CrudUpdateOneRequest<T> extends CrudCreateOneRequest<T> {
     params: Partial<Record<keyof T, unknown>>;
     saveOptions: SaveOptions;
+    versionCondition?: CrudVersionCondition;
 }
 
 export interface CrudUpdateManyRequest<T> extends CrudRequestBase {
@@ -55,19 +159,38 @@ export interface CrudUpdateManyRequest<T> extends CrudRequestBase {
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export function isCrudUpdateManyRequest<T>(x: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>): x is CrudUpdateManyRequest<T> {
     return Array.isArray(x.body);
 }
 
-export type CrudUpdateRequest<T> = CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T>;
+export interface CrudUpdateByFilterRequest<T> extends CrudRequestBase {
+    filter: CrudBulkFilter<T>;
+    body: DeepPartial<T>;
+    exclude: Set<string>;
+    saveOptions: SaveOptions;
+    hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+}
+
+export function isCrudUpdateByFilterRequest<T>(
+    x: CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T> | CrudUpdateByFilterRequest<T>,
+): x is CrudUpdateByFilterRequest<T> {
+    return 'filter' in x;
+}
+
+export type CrudUpdateRequest<T> = CrudUpdateOneRequest<T> | CrudUpdateManyRequest<T> | CrudUpdateByFilterRequest<T>;
 
 export interface CrudUpsertManyRequest<T> extends CrudRequestBase {
     body: Array<DeepPartial<T>>;
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export function isCrudUpsertManyRequest<T>(x: CrudUpsertRequest<T> | CrudUpsertManyRequest<T>): x is CrudUpsertManyRequest<T> {
@@ -80,6 +203,8 @@ export interface CrudDeleteOneRequest<T> extends CrudRequestBase {
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    versionCondition?: CrudVersionCondition;
 }
 
 export interface CrudDeleteManyRequest<T> extends CrudRequestBase {
@@ -88,19 +213,37 @@ export interface CrudDeleteManyRequest<T> extends CrudRequestBase {
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export function isCrudDeleteManyRequest<T>(x: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>): x is CrudDeleteManyRequest<T> {
     return Array.isArray(x.params);
 }
 
-export type CrudDeleteRequest<T> = CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T>;
+export interface CrudDeleteByFilterRequest<T> extends CrudRequestBase {
+    filter: CrudBulkFilter<T>;
+    softDeleted: boolean;
+    exclude: Set<string>;
+    saveOptions: SaveOptions;
+    hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+}
+
+export function isCrudDeleteByFilterRequest<T>(
+    x: CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T> | CrudDeleteByFilterRequest<T>,
+): x is CrudDeleteByFilterRequest<T> {
+    return 'filter' in x;
+}
+
+export type CrudDeleteRequest<T> = CrudDeleteOneRequest<T> | CrudDeleteManyRequest<T> | CrudDeleteByFilterRequest<T>;
 
 export interface CrudRecoverRequest<T> extends CrudRequestBase {
     params: Partial<Record<keyof T, unknown>>;
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
 }
 
 export interface CrudRecoverManyRequest<T> extends CrudRequestBase {
@@ -108,12 +251,24 @@ export interface CrudRecoverManyRequest<T> extends CrudRequestBase {
     exclude: Set<string>;
     saveOptions: SaveOptions;
     hooks?: LifecycleHooks<T>;
+    transaction?: TransactionOptions;
+    scope?: Partial<Record<keyof T, unknown>>; // conditions every row must satisfy, e.g. the tenant of the request
 }
 
 export function isCrudRecoverManyRequest<T>(x: CrudRecoverRequest<T> | CrudRecoverManyRequest<T>): x is CrudRecoverManyRequest<T> {
     return Array.isArray(x.params);
 }
 
+/**
+ * Audit records of one entity. The conditions of the records are added by the service.
+ */
+export interface CrudHistoryRequest<T> extends CrudRequestBase {
+    params: Partial<Record<keyof T, unknown>>;
+    scope?: Partial<Record<keyof T, unknown>>; // when set, the entity must be visible to the caller
+    auditEntity: EntityTarget<EntityType>;
+    records: CrudReadManyRequest<EntityType>;
+}
+
 // ========================================
 // NEW: AllowedParams-based utility types
 // ========================================
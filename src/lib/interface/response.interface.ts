@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { instanceToPlain } from 'class-transformer';
 
+import type { ImportFormat } from './decorator-option.interface';
+import type { AggregateFunction } from './query-parser.interface';
+
 export interface CrudResponse<T> {
   data: T;
   metadata?: CrudResponseMetadata;
@@ -20,21 +23,56 @@ export interface CrudResponseMetadata {
   excludedFields?: string[];
   pagination?: PaginationMetadata; // for index operations
   upsertInfo?: Array<{ isNew: boolean }>; // for bulk upsert operations
+  dryRun?: boolean; // for filter-based bulk operations; affectedCount is the number of matching rows
+  etag?: string; // entity tag of the version column, also sent as the ETag header
 }
 
 export interface PaginationMetadata {
   type: 'offset' | 'cursor';
-  total: number;
+  total?: number; // absent with countStrategy 'none'
+  hasNextPage?: boolean; // countStrategy 'none'
+  estimated?: boolean; // countStrategy 'estimate': total is taken from table statistics
+  capped?: boolean; // countStrategy 'capped:N': total reached the cap
   limit?: number;
   offset?: number;
   page?: number;
   pages?: number;
   totalPages?: number;
   nextCursor?: string;
+  prevCursor?: string; // cursor pagination: token of the first row, for page[before]
 }
 
 export type CrudMethodResponse<T> = CrudResponse<T> | CrudArrayResponse<T>;
 
+/**
+ * Aggregated values of one group, keyed by column name (`*` for the row count)
+ */
+export type CrudAggregateValues<T> = Partial<Record<Extract<keyof T, string> | '*', number | string | null>>;
+
+/**
+ * One row of the aggregate route, e.g. `{ group: { status: 'active' }, count: { '*': 3 }, sum: { price: 120 } }`
+ */
+export type CrudAggregateRow<T> = {
+  group: Partial<T>;
+} & {
+  [F in AggregateFunction]?: CrudAggregateValues<T>;
+};
+
+export type CrudAggregateResponse<T> = CrudArrayResponse<CrudAggregateRow<T>>;
+
+/**
+ * Job started by the import route. Its progress is streamed from `links.progress` and the rejected rows are downloaded from `links.errors`.
+ */
+export interface CrudImportJob {
+  jobId: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  format: ImportFormat;
+  total: number; // rows of the file
+  accepted: number; // rows which passed validation and are saved by the job
+  rejected: number; // rows which failed parsing or validation
+  links?: { progress: string; errors: string };
+}
+
 // Extract pagination info from query parameters
 function extractPaginationFromQuery(query: any): {
   paginationType?: 'offset' | 'cursor';
@@ -230,6 +268,7 @@ export function createPaginatedResponse<T>(
     pages?: number;
     totalPages?: number;
     nextCursor?: string;
+    prevCursor?: string;
   },
   options?: Partial<Omit<CrudResponseMetadata, 'pagination'>>
 ): CrudArrayResponse<T> {
@@ -269,6 +308,7 @@ export function convertPaginationToCrudResponse<T>(
     paginationInfo.limit = metadata.limit;
     paginationInfo.totalPages = metadata.totalPages;
     paginationInfo.nextCursor = metadata.nextCursor;
+    paginationInfo.prevCursor = metadata.prevCursor;
   }
 
   return createPaginatedResponse(data, paginationType, paginationInfo);
@@ -5,7 +5,8 @@ import {
   HttpException,
   HttpStatus,
 } from '@nestjs/common';
-import { Response } from 'express';
+
+import { HttpPlatform } from '../utils/http-platform';
 
 /**
  * CRUD Exception Filter
@@ -33,7 +34,16 @@ import { Response } from 'express';
 export class CrudExceptionFilter implements ExceptionFilter {
   catch(exception: HttpException, host: ArgumentsHost) {
     const ctx = host.switchToHttp();
-    const response = ctx.getResponse<Response>();
+    const response = ctx.getResponse<unknown>();
+
+    // Express의 json과 Fastify의 send 중 플랫폼에 맞는 방법으로 응답
+    HttpPlatform.sendJson(response, exception.getStatus(), this.toErrorResponse(exception));
+  }
+
+  /**
+   * 예외를 통일된 응답 형식으로 변환 (`@CrudMessageController`의 RPC 오류도 같은 형식을 사용)
+   */
+  toErrorResponse(exception: HttpException): { message: string[]; statusCode: number } {
     const status = exception.getStatus();
 
     // 기존 예외 응답 가져오기
@@ -63,12 +73,10 @@ export class CrudExceptionFilter implements ExceptionFilter {
     }
 
     // 통일된 응답 형식으로 변환
-    const errorResponse = {
+    return {
       message,
       statusCode: status,
     };
-
-    response.status(status).json(errorResponse);
   }
 
   /**
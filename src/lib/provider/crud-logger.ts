@@ -1,6 +1,6 @@
 import { Logger } from '@nestjs/common';
 
-import type { Request } from 'express';
+import type { CrudHttpRequest } from '../utils/http-platform';
 
 export class CrudLogger {
     constructor(private readonly enabled: boolean = false) {}
@@ -12,7 +12,7 @@ export class CrudLogger {
         Logger.debug(message, ['CRUD', context].filter(Boolean).join(' '));
     }
 
-    logRequest(req: Request | Record<string, unknown>, routeArg: unknown): void {
+    logRequest(req: CrudHttpRequest | Record<string, unknown>, routeArg: unknown): void {
         this.log(routeArg, `${req.method} ${req.url}`);
     }
 }
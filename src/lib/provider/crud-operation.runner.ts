@@ -0,0 +1,103 @@
+import { Reflector } from '@nestjs/core';
+import _ from 'lodash';
+import { defer, lastValueFrom, mergeAll } from 'rxjs';
+
+import { ExecutionContextHostMock } from './execution-context-host.mock';
+import { CRUD_ROUTE_ARGS } from '../constants';
+import { CrudService } from '../crud.service';
+import { ExcludeFieldsInterceptor } from '../interceptor/exclude-fields.interceptor';
+
+import type { CallHandler, NestInterceptor, Type } from '@nestjs/common';
+
+/**
+ * Request of a CRUD method received by another transport than an HTTP route, e.g. a GraphQL query
+ */
+export interface CrudOperation {
+    /** path parameters of the route, e.g. `{ id: '1' }` */
+    params?: Record<string, unknown>;
+    /** query of the route with bracket keys, e.g. `{ 'filter[name_eq]': 'Alice', 'page[size]': '10' }` */
+    query?: Record<string, unknown>;
+    body?: unknown;
+    /** request of the transport, whose headers and user are passed to the interceptors */
+    request?: { headers?: Record<string, unknown>; user?: unknown };
+}
+
+export interface CrudOperationResult {
+    /** response of the generated method after the interceptors, e.g. a `CrudResponse` */
+    response: unknown;
+    /** argument of the generated method which the interceptors made, e.g. the `CrudReadManyRequest` of an index operation */
+    crudRequest: unknown;
+    /** status code which the interceptors set, e.g. 202 Accepted of a job */
+    statusCode: number;
+}
+
+/**
+ * Response of the interceptors, which set its status and headers as they would on an HTTP response
+ */
+const operationResponse = () => {
+    const headers: Record<string, string> = {};
+    const response = {
+        statusCode: 200,
+        status(statusCode: number) {
+            response.statusCode = statusCode;
+            return response;
+        },
+        header(name: string, value: string) {
+            headers[name.toLowerCase()] = value;
+            return response;
+        },
+        getHeader(name: string): string | undefined {
+            return headers[name.toLowerCase()];
+        },
+    };
+    return response;
+};
+
+/**
+ * Runs a generated method with the interceptors of its route, without an HTTP request.
+ * The interceptors parse, validate and authorize the operation as they do a request of the route,
+ * so that the method, its hooks and its response are the same whichever transport received the operation.
+ */
+export class CrudOperationRunner {
+    private instances?: NestInterceptor[];
+
+    constructor(
+        private readonly target: Type<unknown>,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        private readonly handler: Function,
+        private readonly interceptors: Array<Type<NestInterceptor>>,
+    ) {}
+
+    async run(instance: { crudService?: unknown }, operation: CrudOperation): Promise<CrudOperationResult> {
+        if (!(instance.crudService instanceof CrudService)) {
+            throw new TypeError(`${this.target.name} should include member crudService, which is instance of CrudService`);
+        }
+
+        const req: Record<string | symbol, unknown> = {
+            params: operation.params ?? {},
+            query: operation.query ?? {},
+            body: operation.body,
+            headers: _.mapKeys(operation.request?.headers ?? {}, (_value, name) => name.toLowerCase()),
+            user: operation.request?.user,
+        };
+        const res = operationResponse();
+        const context = new ExecutionContextHostMock([req, res], this.target, this.handler);
+
+        const handler: CallHandler = {
+            handle: () => defer(async () => this.handler.call(instance, req[CRUD_ROUTE_ARGS])),
+        };
+        const chain = this.interceptorInstances().reduceRight<CallHandler>(
+            (next, interceptor) => ({ handle: () => defer(async () => interceptor.intercept(context, next)).pipe(mergeAll()) }),
+            handler,
+        );
+        const response = await lastValueFrom(chain.handle(), { defaultValue: undefined });
+        return { response, crudRequest: req[CRUD_ROUTE_ARGS], statusCode: res.statusCode };
+    }
+
+    private interceptorInstances(): NestInterceptor[] {
+        this.instances ??= this.interceptors.map((interceptor) =>
+            interceptor === ExcludeFieldsInterceptor ? new ExcludeFieldsInterceptor(new Reflector()) : new interceptor(),
+        );
+        return this.instances;
+    }
+}
@@ -5,3 +5,4 @@ export * from './query-parser';
 export * from './typeorm-query-builder.helper';
 export * from './crud-logger';
 export * from './crud-exception.filter';
+export * from './crud-operation.runner';
@@ -1,6 +1,7 @@
 import { UnprocessableEntityException } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { validateSync } from 'class-validator';
+import _ from 'lodash';
 
 import { PaginationCursorDto, PaginationOffsetDto } from '../dto';
 import { PaginationType } from '../interface';
@@ -10,6 +11,7 @@ import type { PaginationRequest } from '../interface';
 import type { FindOptionsWhere } from 'typeorm';
 
 const encoding = 'base64';
+const DATE_TAG = '$date';
 
 export class PaginationHelper {
     static serialize<T>(entity: FindOptionsWhere<T> | Array<FindOptionsWhere<T>> | Record<string, unknown>): string {
@@ -27,6 +29,30 @@ export class PaginationHelper {
         }
     }
 
+    /**
+     * Cursor of a row for keyset pagination: the values of the sort columns (dotted paths for relations).
+     * Dates are tagged so that they are compared as dates again when the cursor is read.
+     */
+    static serializeKeyset(entity: Record<string, unknown> | undefined, paths: string[]): string {
+        if (!entity) {
+            return PaginationHelper.serialize({});
+        }
+        const values = paths.map((path) => {
+            const value: unknown = _.get(entity, path);
+            return value instanceof Date ? { [DATE_TAG]: value.toISOString() } : value;
+        });
+        return PaginationHelper.serialize(_.zipObject(paths, values));
+    }
+
+    static deserializeKeyset(cursor?: string): Record<string, unknown> {
+        const values: Record<string, unknown> = PaginationHelper.deserialize(cursor);
+        return _.mapValues(values, (value) =>
+            _.isPlainObject(value) && typeof (value as Record<string, unknown>)[DATE_TAG] === 'string'
+                ? new Date((value as Record<string, string>)[DATE_TAG])
+                : value,
+        );
+    }
+
     static getPaginationRequest(paginationType: PaginationType, query: Record<string, unknown>): PaginationRequest {
         const plain = query ?? {};
         const transformed =
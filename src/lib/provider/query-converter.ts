@@ -1,10 +1,39 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Between, In, Like, ILike, MoreThan, MoreThanOrEqual, LessThan, LessThanOrEqual, Not, IsNull, Equal, Raw } from 'typeorm';
-
-import { FilterOperator } from '../interface/query-parser.interface';
+import { UnprocessableEntityException } from '@nestjs/common';
+import _ from 'lodash';
+import { And, Between, In, Like, ILike, MoreThan, MoreThanOrEqual, LessThan, LessThanOrEqual, Not, IsNull, Equal, Raw, FindOperator } from 'typeorm';
+
+import { FilterOperator, isFilterGroup } from '../interface/query-parser.interface';
+
+import type {
+    FieldsOperation,
+    FilterCondition,
+    FilterGroup,
+    FilterOperation,
+    SortOperation,
+    IncludeOperation,
+    PageOperation,
+    ParsedQuery,
+} from '../interface/query-parser.interface';
+import type { FindManyOptions, FindOptionsWhere, FindOptionsOrder, FindOptionsRelations, FindOptionsSelect, DataSource, Repository } from 'typeorm';
+
+/**
+ * Upper bound of OR branches produced when filter groups are expanded into a where-array.
+ */
+const MAX_WHERE_BRANCHES = 64;
+
+/**
+ * One condition of a conjunction: `fieldPath` is the dotted path used in FindOptionsWhere.
+ */
+interface WhereTerm {
+    fieldPath: string;
+    condition: any;
+}
 
-import type { FilterOperation, SortOperation, IncludeOperation, PageOperation, ParsedQuery } from '../interface/query-parser.interface';
-import type { FindManyOptions, FindOptionsWhere, FindOptionsOrder, FindOptionsRelations, DataSource, Repository } from 'typeorm';
+/**
+ * Filters in disjunctive normal form: OR of conjunctions (AND of terms).
+ */
+type WhereDisjunction = WhereTerm[][];
 
 export class QueryConverter<T = any> {
     private dataSource?: DataSource;
@@ -24,9 +53,9 @@ export class QueryConverter<T = any> {
     convertToFindOptions(parsedQuery: ParsedQuery): FindManyOptions<T> {
         const options: FindManyOptions<T> = {};
 
-        // Convert filters to where clause
-        if (parsedQuery.filters.length > 0) {
-            options.where = this.convertFiltersToWhere(parsedQuery.filters);
+        // Convert filters (and boolean filter groups) to where clause
+        if (parsedQuery.filters.length > 0 || (parsedQuery.filterGroups?.length ?? 0) > 0) {
+            options.where = this.convertFiltersToWhere(parsedQuery.filters, parsedQuery.filterGroups);
         }
 
         // Convert sorts to order clause
@@ -39,6 +68,11 @@ export class QueryConverter<T = any> {
             options.relations = this.convertIncludesToRelations(parsedQuery.includes);
         }
 
+        // Convert sparse fieldsets to select
+        if (parsedQuery.fields && parsedQuery.fields.length > 0) {
+            options.select = this.convertFieldsToSelect(parsedQuery.fields);
+        }
+
         // Convert page to take/skip
         if (parsedQuery.page) {
             const pagination = this.convertPageToPagination(parsedQuery.page);
@@ -48,16 +82,113 @@ export class QueryConverter<T = any> {
         return options;
     }
 
-    private convertFiltersToWhere(filters: FilterOperation[]): FindOptionsWhere<T> {
-        const where: any = {};
+    /**
+     * Filters and filter groups are AND'ed together and expanded into disjunctive normal form.
+     * A single conjunction becomes a where object, several become a TypeORM where-array (OR).
+     */
+    private convertFiltersToWhere(filters: FilterOperation[], filterGroups: FilterGroup[] = []): FindOptionsWhere<T> | Array<FindOptionsWhere<T>> {
+        const disjunction = this.convertConditionToDisjunction({ type: 'and', conditions: [...filters, ...filterGroups] });
+        const whereList = disjunction.map((conjunction) => this.convertConjunctionToWhere(conjunction));
+
+        return whereList.length === 1 ? whereList[0] : whereList;
+    }
 
-        for (const filter of filters) {
-            const fieldPath = filter.relation ? `${filter.field}.${filter.relation}` : filter.field;
-            const whereCondition = this.convertFilterToCondition(filter);
+    private convertConditionToDisjunction(condition: FilterCondition): WhereDisjunction {
+        if (!isFilterGroup(condition)) {
+            return this.convertFilterToDisjunction(condition);
+        }
+
+        const children = condition.conditions.map((child) => this.convertConditionToDisjunction(child));
 
-            if (whereCondition !== undefined) {
-                this.setNestedProperty(where, fieldPath, whereCondition);
+        switch (condition.type) {
+            case 'or': {
+                // Branches made only of ignored filters are treated as absent instead of always-true
+                const branches: WhereDisjunction = [];
+                for (const child of children) {
+                    branches.push(...child.filter((conjunction) => conjunction.length > 0));
+                }
+                return branches.length > 0 ? this.limitBranches(branches) : [[]];
             }
+
+            case 'not':
+                return this.negateDisjunction(this.andDisjunctions(children));
+
+            default:
+                return this.andDisjunctions(children);
+        }
+    }
+
+    private convertFilterToDisjunction(filter: FilterOperation): WhereDisjunction {
+        const fieldPath = filter.relation ? `${filter.field}.${filter.relation}` : filter.field;
+        const whereCondition = this.convertFilterToCondition(filter);
+
+        if (whereCondition === undefined) {
+            // Ignored filter behaves as an always-true condition
+            return [[]];
+        }
+
+        // Array conditions (e.g. BLANK) mean "any of", which is an OR over the same field
+        const conditions: any[] = Array.isArray(whereCondition) ? whereCondition : [whereCondition];
+        return conditions.map((item) => [{ fieldPath, condition: item }]);
+    }
+
+    private andDisjunctions(disjunctions: WhereDisjunction[]): WhereDisjunction {
+        return disjunctions.reduce<WhereDisjunction>(
+            (accumulated, disjunction) =>
+                this.limitBranches(
+                    accumulated.reduce<WhereDisjunction>(
+                        (product, left) => [...product, ...disjunction.map((right) => [...left, ...right])],
+                        [],
+                    ),
+                ),
+            [[]],
+        );
+    }
+
+    /**
+     * NOT (A1 AND A2) OR (B1) => (NOT A1 OR NOT A2) AND (NOT B1)
+     */
+    private negateDisjunction(disjunction: WhereDisjunction): WhereDisjunction {
+        const conjunctions = disjunction.filter((conjunction) => conjunction.length > 0);
+        if (conjunctions.length === 0) {
+            return [[]];
+        }
+
+        return this.andDisjunctions(
+            conjunctions.map((conjunction) =>
+                conjunction.map(({ fieldPath, condition }) => [{ fieldPath, condition: this.negateCondition(condition) }]),
+            ),
+        );
+    }
+
+    private negateCondition(condition: any): any {
+        if (condition instanceof FindOperator) {
+            if (condition.type === 'not' && condition.child) {
+                return condition.child;
+            }
+            return Not(condition);
+        }
+        return Not(Equal(condition));
+    }
+
+    private limitBranches(disjunction: WhereDisjunction): WhereDisjunction {
+        if (disjunction.length > MAX_WHERE_BRANCHES) {
+            throw new UnprocessableEntityException(`Filter groups expand to more than ${MAX_WHERE_BRANCHES} conditions`);
+        }
+        return disjunction;
+    }
+
+    private convertConjunctionToWhere(conjunction: WhereTerm[]): FindOptionsWhere<T> {
+        const where: any = {};
+        const conditionsByPath = new Map<string, any[]>();
+
+        for (const { fieldPath, condition } of conjunction) {
+            conditionsByPath.set(fieldPath, [...(conditionsByPath.get(fieldPath) ?? []), condition]);
+        }
+
+        for (const [fieldPath, conditions] of conditionsByPath) {
+            // Several conditions on the same column are combined with And() instead of overwriting each other
+            this.setNestedProperty(where, fieldPath, conditions.length === 1 ? conditions[0] : And(...conditions));
         }
 
         return where;
@@ -156,6 +287,28 @@ export class QueryConverter<T = any> {
         return order;
     }
 
+    /**
+     * Sparse fieldsets become a nested select, e.g. `{ id: true, name: true, author: { name: true } }`.
+     */
+    private convertFieldsToSelect(fieldsOperations: FieldsOperation[]): FindOptionsSelect<T> {
+        const select: any = {};
+
+        for (const { relation, fields } of fieldsOperations) {
+            let target = select;
+            for (const part of relation ? relation.split('.') : []) {
+                if (typeof target[part] !== 'object') {
+                    target[part] = {};
+                }
+                target = target[part];
+            }
+            for (const field of fields) {
+                target[field] = true;
+            }
+        }
+
+        return select;
+    }
+
     private convertIncludesToRelations(includes: IncludeOperation[]): FindOptionsRelations<T> {
         const relations: any = {};
 
@@ -249,11 +402,54 @@ export class QueryConverter<T = any> {
 
     // Helper method to create cursor-based where conditions
     createCursorWhere(cursorValue: string, cursorField: string, direction: 'ASC' | 'DESC' = 'ASC'): FindOptionsWhere<T> {
-        const where: any = {};
+        const [where] = this.createKeysetWhere({ [cursorField]: cursorValue }, [[cursorField, direction]]);
+        return where;
+    }
 
-        where[cursorField] = direction === 'ASC' ? MoreThan(cursorValue) : LessThan(cursorValue);
+    /**
+     * Keyset predicate of the rows after the row whose sort values are `cursor`, as a where-array (OR).
+     * `(a ASC, b DESC, id ASC) > (x, y, z)` expands to `a > x OR (a = x AND b < y) OR (a = x AND b = y AND id > z)`.
+     */
+    createKeysetWhere(cursor: Record<string, unknown>, order: Array<[string, 'ASC' | 'DESC']>): Array<FindOptionsWhere<T>> {
+        return order.map(([fieldPath, direction], index) =>
+            this.convertConjunctionToWhere([
+                ...order.slice(0, index).map(([equalPath]) => ({ fieldPath: equalPath, condition: Equal(cursor[equalPath]) })),
+                { fieldPath, condition: direction === 'ASC' ? MoreThan(cursor[fieldPath]) : LessThan(cursor[fieldPath]) },
+            ]),
+        );
+    }
 
-        return where;
+    /**
+     * AND of two wheres. Where-arrays (OR) are expanded, and conditions on the same column are combined with And().
+     */
+    andWhere(
+        left: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>,
+        right: FindOptionsWhere<T> | Array<FindOptionsWhere<T>>,
+    ): FindOptionsWhere<T> | Array<FindOptionsWhere<T>> {
+        const leftList = Array.isArray(left) ? left : [left];
+        const rightList = Array.isArray(right) ? right : [right];
+        const whereList = _.flatMap(leftList, (leftWhere) => rightList.map((rightWhere) => this.mergeConditions(leftWhere, rightWhere)));
+        if (whereList.length > MAX_WHERE_BRANCHES) {
+            throw new UnprocessableEntityException(`Conditions expand to more than ${MAX_WHERE_BRANCHES} branches`);
+        }
+
+        return whereList.length === 1 ? whereList[0] : whereList;
+    }
+
+    private mergeConditions(left: any, right: any): any {
+        const merged = { ...left };
+        for (const [key, condition] of Object.entries(right ?? {})) {
+            const current = merged[key];
+            if (current === undefined) {
+                merged[key] = condition;
+            } else if (_.isPlainObject(current) && _.isPlainObject(condition)) {
+                merged[key] = this.mergeConditions(current, condition);
+            } else {
+                const toOperator = (value: any) => (value instanceof FindOperator ? value : Equal(value));
+                merged[key] = And(toOperator(current), toOperator(condition));
+            }
+        }
+        return merged;
     }
 
     /**
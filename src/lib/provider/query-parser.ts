@@ -1,6 +1,12 @@
 import { FilterOperator } from '../interface/query-parser.interface';
 
 import type {
+    AggregateFunction,
+    AggregateOperation,
+    FieldsOperation,
+    FilterCondition,
+    FilterGroup,
+    FilterGroupType,
     FilterOperation,
     SortOperation,
     IncludeOperation,
@@ -9,36 +15,165 @@ import type {
     QueryParserOptions,
 } from '../interface/query-parser.interface';
 
+const FILTER_GROUP_TYPES = new Set<string>(['and', 'or', 'not']);
+const AGGREGATE_FUNCTIONS = new Set<string>(['count', 'sum', 'avg', 'min', 'max']);
+
+/**
+ * Conjunction collected while walking `filter[...]` keys.
+ * Group keys are `and` / `or` / `not`; `and` and `or` hold indexed branches.
+ */
+interface FilterDraft {
+    leaves: FilterOperation[];
+    groups: Map<string, FilterGroupDraft>;
+}
+
+interface FilterGroupDraft {
+    type: FilterGroupType;
+    branches: Map<string, FilterDraft>;
+}
+
 export class QueryParser {
     constructor(private readonly options: QueryParserOptions = {}) {}
 
     parse(query: Record<string, unknown>): ParsedQuery {
+        const { filters, filterGroups } = this.parseFilters(query);
+
         return {
-            filters: this.parseFilters(query),
+            filters,
+            ...(filterGroups.length > 0 && { filterGroups }),
             sorts: this.parseSorts(query),
             includes: this.parseIncludes(query),
+            ...this.parseFields(query),
+            ...this.parseAggregates(query),
             page: this.parsePage(query),
         };
     }
 
-    private parseFilters(query: Record<string, unknown>): FilterOperation[] {
-        const filters: FilterOperation[] = [];
+    private parseFilters(query: Record<string, unknown>): { filters: FilterOperation[]; filterGroups: FilterGroup[] } {
+        const root = this.createFilterDraft();
 
         for (const [key, value] of Object.entries(query)) {
             if (key.startsWith('filter[') && key.endsWith(']')) {
-                const filterKey = key.slice(7, -1); // remove 'filter[' and ']'
-                const filterOperation = this.parseFilterKey(filterKey, value);
-
-                if (filterOperation) {
-                    filters.push(filterOperation);
+                const segments = this.splitBracketSegments(key.slice(6)); // remove 'filter'
+                if (segments) {
+                    this.addFilterSegments(root, segments, value);
                 }
             }
         }
 
-        return filters;
+        const filterGroups: FilterGroup[] = [];
+        for (const groupDraft of root.groups.values()) {
+            const group = this.buildFilterGroup(groupDraft);
+            if (group) {
+                filterGroups.push(group);
+            }
+        }
+
+        return { filters: root.leaves, filterGroups };
+    }
+
+    /**
+     * Split `[or][0][status_eq]` into `['or', '0', 'status_eq']`.
+     * Returns null when the key is not a sequence of brackets.
+     */
+    private splitBracketSegments(key: string): string[] | null {
+        const segments: string[] = [];
+        const pattern = /\[([^[\]]*)]/y;
+        let consumed = 0;
+
+        while (consumed < key.length) {
+            pattern.lastIndex = consumed;
+            const match = pattern.exec(key);
+            if (!match) {
+                return null;
+            }
+            segments.push(match[1]);
+            consumed = pattern.lastIndex;
+        }
+
+        return consumed === key.length && segments.length > 0 ? segments : null;
+    }
+
+    private addFilterSegments(draft: FilterDraft, segments: string[], value: unknown): void {
+        const [head, ...rest] = segments;
+
+        if (rest.length === 0) {
+            const filterOperation = this.parseFilterKey(head, value);
+            if (filterOperation) {
+                draft.leaves.push(filterOperation);
+            }
+            return;
+        }
+
+        if (!FILTER_GROUP_TYPES.has(head)) {
+            return;
+        }
+
+        const type = head as FilterGroupType;
+        const groupDraft = draft.groups.get(type) ?? { type, branches: new Map<string, FilterDraft>() };
+        draft.groups.set(type, groupDraft);
+
+        // `not` negates a single conjunction, `and` / `or` require an index per branch
+        const branchKey = type === 'not' ? '0' : rest[0];
+        const branchSegments = type === 'not' ? rest : rest.slice(1);
+        if (!/^\d+$/.test(branchKey) || branchSegments.length === 0) {
+            return;
+        }
+
+        const branch = groupDraft.branches.get(branchKey) ?? this.createFilterDraft();
+        groupDraft.branches.set(branchKey, branch);
+
+        this.addFilterSegments(branch, branchSegments, value);
+    }
+
+    private buildFilterGroup(groupDraft: FilterGroupDraft): FilterGroup | null {
+        const branchKeys = [...groupDraft.branches.keys()].sort((a, b) => Number(a) - Number(b));
+        const conditions: FilterCondition[] = [];
+
+        for (const branchKey of branchKeys) {
+            const branchConditions = this.buildFilterConditions(groupDraft.branches.get(branchKey)!);
+            if (branchConditions.length === 0) {
+                // every filter of this branch was rejected by allowedFilters
+                continue;
+            }
+            if (groupDraft.type === 'or' && branchConditions.length > 1) {
+                conditions.push({ type: 'and', conditions: branchConditions });
+            } else {
+                conditions.push(...branchConditions);
+            }
+        }
+
+        if (conditions.length === 0) {
+            return null;
+        }
+
+        return { type: groupDraft.type, conditions };
+    }
+
+    private buildFilterConditions(draft: FilterDraft): FilterCondition[] {
+        const conditions: FilterCondition[] = [...draft.leaves];
+
+        for (const groupDraft of draft.groups.values()) {
+            const group = this.buildFilterGroup(groupDraft);
+            if (group) {
+                conditions.push(group);
+            }
+        }
+
+        return conditions;
+    }
+
+    private createFilterDraft(): FilterDraft {
+        return { leaves: [], groups: new Map() };
     }
 
     private parseFilterKey(filterKey: string, value: unknown): FilterOperation | null {
+        // Operators with an underscore (not_in, not_null) are matched before the last underscore
+        const compoundOperator = [FilterOperator.NOT_IN, FilterOperator.NOT_NULL].find((operator) => filterKey.endsWith(`_${operator}`));
+        if (compoundOperator) {
+            return this.createFilterOperation(filterKey.slice(0, -compoundOperator.length - 1), compoundOperator, value);
+        }
+
         // Find the last underscore to separate field from operator
         const lastUnderscoreIndex = filterKey.lastIndexOf('_');
 
@@ -230,13 +365,87 @@ export class QueryParser {
         return include;
     }
 
+    private parseFields(query: Record<string, unknown>): { fields?: FieldsOperation[] } {
+        const fieldsOperations: FieldsOperation[] = [];
+
+        for (const [key, value] of Object.entries(query)) {
+            if (!key.startsWith('fields[') || !key.endsWith(']')) {
+                continue;
+            }
+
+            const type = key.slice(7, -1); // remove 'fields[' and ']'
+            const relation = type === this.options.resourceType ? undefined : type;
+
+            // Check if each field is allowed
+            const fields = this.splitList(value).filter((field) =>
+                this.options.allowedFields?.includes(relation ? `${relation}.${field}` : field),
+            );
+
+            if (fields.length > 0) {
+                fieldsOperations.push({ relation, fields: [...new Set(fields)] });
+            }
+        }
+
+        return fieldsOperations.length > 0 ? { fields: fieldsOperations } : {};
+    }
+
+    private parseAggregates(query: Record<string, unknown>): { aggregates?: AggregateOperation[]; groups?: string[] } {
+        const aggregates: AggregateOperation[] = [];
+
+        for (const [key, value] of Object.entries(query)) {
+            if (!key.startsWith('aggregate[') || !key.endsWith(']')) {
+                continue;
+            }
+
+            const aggregateFunction = key.slice(10, -1); // remove 'aggregate[' and ']'
+            if (!AGGREGATE_FUNCTIONS.has(aggregateFunction)) {
+                continue;
+            }
+
+            for (const field of this.splitList(value)) {
+                const isRowCount = aggregateFunction === 'count' && field === '*';
+                if (!isRowCount && !this.options.allowedAggregates?.includes(field)) {
+                    continue;
+                }
+                if (!aggregates.some((aggregate) => aggregate.function === aggregateFunction && aggregate.field === field)) {
+                    aggregates.push({ function: aggregateFunction as AggregateFunction, field });
+                }
+            }
+        }
+
+        // group[]=status&group[]=ownerId or group=status,ownerId
+        const groups = [...new Set(this.splitList(query['group[]'] ?? query.group))].filter((field) =>
+            this.options.allowedGroups?.includes(field),
+        );
+
+        return {
+            ...(aggregates.length > 0 && { aggregates }),
+            ...(groups.length > 0 && { groups }),
+        };
+    }
+
+    /**
+     * Split a comma separated (or repeated) query value into trimmed items.
+     */
+    private splitList(value: unknown): string[] {
+        if (value === undefined || value === null) {
+            return [];
+        }
+        // eslint-disable-next-line @typescript-eslint/no-base-to-string
+        return (Array.isArray(value) ? value.join(',') : String(value))
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean);
+    }
+
     private parsePage(query: Record<string, unknown>): PageOperation | undefined {
         // Check for different page parameter formats
         const pageNumber = query['page[number]'];
         const pageSize = query['page[size]'];
         const pageOffset = query['page[offset]'];
         const pageLimit = query['page[limit]'];
-        const pageCursor = query['page[cursor]'];
+        const pageBefore = query['page[before]'];
+        const [direction, pageCursor] = pageBefore ? (['before', pageBefore] as const) : (['after', query['page[after]'] ?? query['page[cursor]']] as const);
 
         // Priority: cursor > offset > number
         if (pageCursor) {
@@ -244,6 +453,7 @@ export class QueryParser {
                 type: 'cursor',
                 // eslint-disable-next-line @typescript-eslint/no-base-to-string
                 cursor: String(pageCursor),
+                direction,
                 size: pageSize ? this.parsePageNumber(pageSize) : this.options.defaultPageSize,
             };
         }
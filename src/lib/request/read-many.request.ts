@@ -1,13 +1,29 @@
 import _ from 'lodash';
 
 import { CRUD_POLICY } from '../crud.policy';
-import { Method, PaginationType } from '../interface';
-import { PaginationHelper } from '../provider';
+import { Method, PaginationType, Sort } from '../interface';
+import { PaginationHelper, QueryConverter } from '../provider';
 
-import type { PaginationRequest, PaginationResponse, Sort } from '../interface';
+import type { CountStrategy, PaginationCount, PaginationRequest, PaginationResponse } from '../interface';
 import type { FindManyOptions, FindOptionsOrder, FindOptionsSelect, FindOptionsWhere } from 'typeorm';
 
 type Where<T> = FindOptionsWhere<T> | Array<FindOptionsWhere<T>>;
+type OrderEntry = [path: string, direction: 'ASC' | 'DESC'];
+
+/**
+ * `{ author: { name: 'ASC' }, id: 'DESC' }` => `[['author.name', 'ASC'], ['id', 'DESC']]`
+ */
+function flattenOrder(order: Record<string, unknown>, prefix = ''): OrderEntry[] {
+    return _.flatMap(Object.entries(order), ([key, value]): OrderEntry[] => {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (_.isPlainObject(value) && !('direction' in (value as Record<string, unknown>))) {
+            return flattenOrder(value as Record<string, unknown>, path);
+        }
+        const direction = _.isPlainObject(value) ? (value as Record<string, unknown>).direction : value;
+        return [[path, String(direction).toUpperCase() === 'DESC' || direction === -1 ? 'DESC' : 'ASC']];
+    });
+}
+
 export class CrudReadManyRequest<T> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public request?: any; // Express Request object or similar
@@ -26,6 +42,8 @@ export class CrudReadManyRequest<T> {
     private _deserialize: (crudReadManyRequest: CrudReadManyRequest<T>) => Where<T>;
     private _selectColumnSet: Set<string | number> = new Set();
     private _excludeColumnSet: Set<string> = new Set();
+    private _relationSelect: FindOptionsSelect<T> | undefined;
+    private _countStrategy: CountStrategy = 'exact';
 
     get paginationKeys(): string[] {
         return this._paginationKeys;
@@ -47,8 +65,44 @@ export class CrudReadManyRequest<T> {
         return this._sort;
     }
 
+    get countStrategy(): CountStrategy {
+        return this._countStrategy;
+    }
+
+    /**
+     * Columns of the sparse fieldset, empty when every column is selected
+     */
+    get selectColumns(): Array<string | number> {
+        return [...this._selectColumnSet];
+    }
+
+    /**
+     * Columns left out of the rows: the excluded columns of the route and the columns hidden by the policy
+     */
+    get excludeColumns(): string[] {
+        return [...this._excludeColumnSet];
+    }
+
+    get relationSelect(): FindOptionsSelect<T> | undefined {
+        return this._relationSelect;
+    }
+
+    /**
+     * Sort columns in order of precedence, as dotted paths
+     */
+    get orderEntries(): OrderEntry[] {
+        return flattenOrder(this._findOptions.order as Record<string, unknown>);
+    }
+
+    /**
+     * Whether the rows preceding the cursor are requested (page[before])
+     */
+    get isBackward(): boolean {
+        return this.pagination.type === PaginationType.CURSOR && this.pagination.direction === 'before';
+    }
+
     excludedColumns(columns: string[]): this {
-        this._findOptions.select = columns.filter((column) => {
+        const selectColumns = columns.filter((column) => {
             if (this._excludeColumnSet.has(column)) {
                 return false;
             }
@@ -56,7 +110,19 @@ export class CrudReadManyRequest<T> {
                 return true;
             }
             return this._selectColumnSet.has(column);
-        }) as unknown as FindOptionsSelect<T>;
+        });
+
+        if (!this._relationSelect) {
+            this._findOptions.select = selectColumns as unknown as FindOptionsSelect<T>;
+            return this;
+        }
+
+        // 관계 필드를 선택하는 경우 TypeORM의 객체 형태 select를 사용
+        const select: Record<string, unknown> = { ...this._relationSelect };
+        for (const column of selectColumns) {
+            select[column] = true;
+        }
+        this._findOptions.select = select as FindOptionsSelect<T>;
         return this;
     }
 
@@ -70,6 +136,11 @@ export class CrudReadManyRequest<T> {
         return this;
     }
 
+    setCountStrategy(countStrategy: CountStrategy): this {
+        this._countStrategy = countStrategy;
+        return this;
+    }
+
     setWithDeleted(withDeleted: boolean): this {
         this._findOptions.withDeleted = withDeleted;
         return this;
@@ -85,6 +156,14 @@ export class CrudReadManyRequest<T> {
         return this;
     }
 
+    setRelationSelect(select: FindOptionsSelect<T> | undefined): this {
+        if (!select || Object.keys(select).length === 0) {
+            return this;
+        }
+        this._relationSelect = select;
+        return this;
+    }
+
     setExcludeColumn(columns: string[] | undefined): this {
         if (!columns || columns.length === 0) {
             return this;
@@ -116,6 +195,21 @@ export class CrudReadManyRequest<T> {
         return this;
     }
 
+    /**
+     * Append the keys missing from the order (the primary keys) so that rows with equal sort values keep a stable order,
+     * in the direction of the last sort column
+     */
+    setTiebreaker(keys: string[]): this {
+        const entries = this.orderEntries;
+        const direction = entries.at(-1)?.[1] ?? this._sort ?? Sort.ASC;
+        const missingKeys = keys.filter((key) => !entries.some(([path]) => path === key));
+        this._findOptions.order = missingKeys.reduce(
+            (order, key) => ({ ...order, [key]: direction }),
+            this._findOptions.order as Record<string, unknown>,
+        ) as FindOptionsOrder<T>;
+        return this;
+    }
+
     setRelations(relations: string[] | undefined): this {
         this._findOptions.relations = relations;
         return this;
@@ -130,38 +224,72 @@ export class CrudReadManyRequest<T> {
         if (this.pagination.type === PaginationType.OFFSET && Number.isFinite(this.pagination.offset)) {
             // 기존 where 조건과 pagination where 조건을 병합
             const paginationWhere = this._deserialize(this);
-            this._findOptions.where = { ...this._findOptions.where, ...paginationWhere };
+            this._findOptions.where = this.mergeWhere(paginationWhere);
             this._findOptions.skip = this.pagination.offset;
         }
 
+        if (this.isBackward) {
+            // 이전 페이지는 역순으로 조회한 뒤 toResponse에서 다시 뒤집음
+            this._findOptions.order = this.orderEntries.reduce(
+                (order, [path, direction]) => _.set(order, path, direction === 'ASC' ? 'DESC' : 'ASC'),
+                {} as Record<string, unknown>,
+            ) as FindOptionsOrder<T>;
+        }
+
         if (this.pagination.type === PaginationType.CURSOR && this.pagination.nextCursor) {
             // 기존 where 조건과 pagination where 조건을 병합
             const paginationWhere = this._deserialize(this);
-            this._findOptions.where = { ...this._findOptions.where, ...paginationWhere };
+            this._findOptions.where = this.mergeWhere(paginationWhere);
         }
 
         return this;
     }
 
+    /**
+     * pagination 조건을 where에 AND로 병합합니다. where-array(OR)인 경우 각 조건에 모두 적용합니다.
+     */
+    private mergeWhere(paginationWhere: Where<T>): Where<T> {
+        if (_.isEmpty(paginationWhere)) {
+            return this._findOptions.where;
+        }
+        return new QueryConverter<T>().andWhere(this._findOptions.where, paginationWhere);
+    }
+
     toString(): string {
         return JSON.stringify(_.omit(this, ['_deserialize', 'request']));
     }
 
-    toResponse(data: T[], total: number): PaginationResponse<T> {
+    toResponse(data: T[], count: PaginationCount): PaginationResponse<T> {
         const take = this.findOptions.take;
         const dataLength = data.length;
-        const orderKeys = Object.keys(this._findOptions.order);
-        const nextCursor = PaginationHelper.serialize(_.pick(data.at(-1), orderKeys) as FindOptionsWhere<T>);
 
         if (this.pagination.type === PaginationType.OFFSET) {
+            const nextCursor = PaginationHelper.serializeKeyset(data.at(-1) as Record<string, unknown>, this.orderPaths());
             return {
                 data,
-                metadata: this.pagination.metadata(take, dataLength, total, nextCursor),
+                metadata: this.pagination.metadata(take, dataLength, count, nextCursor),
             };
         }
+
+        const rows = this.isBackward ? [...data].reverse() : data;
+        // 빈 페이지는 요청한 cursor를 그대로 돌려주어 같은 위치에서 이어갈 수 있게 함
+        const cursorOf = (row: T | undefined) =>
+            row ? PaginationHelper.serializeKeyset(row as Record<string, unknown>, this.orderPaths()) : this.pagination.nextCursor ?? PaginationHelper.serialize({});
         return {
-            data,
-            metadata: this.pagination.metadata(take, dataLength, total, nextCursor),
+            data: rows,
+            metadata: this.pagination.metadata(take, dataLength, count, cursorOf(rows.at(-1)), cursorOf(rows[0])),
         };
     }
+
+    /**
+     * Token of the position of a row of the page, as `nextCursor` is of the last row.
+     * `page[after]` of the token reads the rows following the row, `page[before]` the rows preceding it.
+     */
+    edgeCursor(row: T, count: PaginationCount): string {
+        return this.pagination.makeQuery(count, PaginationHelper.serializeKeyset(row as Record<string, unknown>, this.orderPaths()));
+    }
+
+    private orderPaths(): string[] {
+        return this.orderEntries.map(([path]) => path);
+    }
 }
@@ -0,0 +1,62 @@
+import _ from 'lodash';
+
+import { ChangeDetector } from './change-detector';
+
+import type { AuditFieldChange, AuditOptions, AuditRecord, EntityType } from '../interface';
+import type { EntityManager } from 'typeorm';
+
+/**
+ * Builds and writes the records of the `audit` option
+ */
+export class AuditTrail {
+    /**
+     * Column values of an entity taken before it is changed.
+     * Dates are kept as ISO strings so that they can be compared and stored as JSON.
+     */
+    static snapshot(entity: EntityType, columns: string[]): Record<string, unknown> {
+        const values = _.pick(entity, columns) as Record<string, unknown>;
+        return _.mapValues(values, (value) => (value instanceof Date ? value.toISOString() : _.cloneDeep(value)));
+    }
+
+    /**
+     * Field-level changes between two snapshots. A missing snapshot stands for an entity that does not exist.
+     */
+    static diff(
+        before: Record<string, unknown> | undefined,
+        after: Record<string, unknown> | undefined,
+        exclude: string[] = [],
+    ): AuditFieldChange[] {
+        const fields = _.difference(_.union(Object.keys(before ?? {}), Object.keys(after ?? {})), exclude);
+        const valuesOf = (snapshot: Record<string, unknown> | undefined) =>
+            _.zipObject(
+                fields,
+                fields.map((field) => snapshot?.[field] ?? null),
+            );
+
+        const { changes } = ChangeDetector.detectChanges(valuesOf(before), valuesOf(after), { deepComparison: true });
+        return changes.map(({ fieldName, originalValue, newValue }) => ({ field: fieldName, before: originalValue, after: newValue }));
+    }
+
+    /**
+     * Primary key of a snapshot. Composite keys are written as a JSON array of the key values.
+     */
+    static entityId(snapshot: Record<string, unknown>, primaryKeys: string[]): string {
+        const values = primaryKeys.map((key) => String(snapshot[key]));
+        return values.length === 1 ? values[0] : JSON.stringify(values);
+    }
+
+    static actor(request: { user?: { id?: unknown } } | undefined, resolver: AuditOptions['actor']): string | null {
+        const actor = resolver ? resolver(request) : request?.user?.id;
+        return _.isNil(actor) ? null : String(actor);
+    }
+
+    static async write(options: AuditOptions, record: AuditRecord, manager: EntityManager): Promise<void> {
+        if (options.entity) {
+            const repository = manager.getRepository(options.entity);
+            await repository.save(repository.create(record));
+        }
+        if (options.callback) {
+            await options.callback(record, manager);
+        }
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * Invalidation of a `MultiTierCache`, broadcast to the other instances sharing the cache
+ */
+export interface CacheInvalidationMessage {
+    /**
+     * Id of the cache instance that published the message. Instances ignore their own messages.
+     */
+    origin: string;
+    type: 'delete' | 'tag' | 'pattern';
+    /**
+     * key, tag or pattern to invalidate
+     */
+    value: string;
+}
+
+export type CacheInvalidationHandler = (message: CacheInvalidationMessage) => void | Promise<void>;
+
+/**
+ * Channel of the invalidation messages between the instances
+ */
+export interface CacheInvalidationTransport {
+    publish(message: CacheInvalidationMessage): Promise<void>;
+    /**
+     * Receive the messages of every instance, including this one
+     * @returns a function that stops the subscription
+     */
+    subscribe(handler: CacheInvalidationHandler): Promise<() => void>;
+}
+
+/**
+ * Redis 명령 중 pub/sub transport가 사용하는 부분 (ioredis 호환)
+ */
+export interface RedisPubSubLike {
+    publish(channel: string, message: string): Promise<number>;
+    subscribe(channel: string): Promise<unknown>;
+    on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+    removeListener(event: 'message', listener: (channel: string, message: string) => void): unknown;
+}
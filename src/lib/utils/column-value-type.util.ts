@@ -0,0 +1,109 @@
+import { getMetadataArgsStorage } from 'typeorm';
+import { MetadataUtils } from 'typeorm/metadata-builder/MetadataUtils';
+
+import { FilterOperator } from '../interface';
+
+import type { EntityType } from '../interface';
+import type { ColumnMetadataArgs } from 'typeorm/metadata-args/ColumnMetadataArgs';
+
+/**
+ * Type of the values of a column, as a schema (OpenAPI or GraphQL) describes them
+ */
+export type ColumnValueType = 'integer' | 'number' | 'boolean' | 'date' | 'string';
+
+const INT_COLUMN_TYPES = new Set(['int', 'integer', 'int2', 'int4', 'smallint', 'mediumint', 'tinyint']);
+const FLOAT_COLUMN_TYPES = new Set(['float', 'float4', 'float8', 'double', 'double precision', 'real', 'decimal', 'dec', 'numeric']);
+const BOOLEAN_COLUMN_TYPES = new Set(['boolean', 'bool']);
+const DATE_COLUMN_TYPES = new Set(['date', 'datetime', 'datetime2', 'timestamp', 'timestamptz', 'timestamp with time zone', 'timestamp without time zone']);
+const STRING_COLUMN_TYPES = new Set([
+    'varchar',
+    'character varying',
+    'nvarchar',
+    'char',
+    'character',
+    'nchar',
+    'text',
+    'tinytext',
+    'mediumtext',
+    'longtext',
+    'citext',
+    'uuid',
+    'enum',
+    'simple-enum',
+    'bigint',
+    'int8',
+    'time',
+]);
+
+/**
+ * Operators whose value is a list (comma separated in the query), operators whose value is a flag,
+ * and operators whose value is a text pattern whatever the type of the column
+ */
+export const LIST_FILTER_OPERATORS = new Set<FilterOperator>([FilterOperator.IN, FilterOperator.NOT_IN, FilterOperator.BETWEEN]);
+export const FLAG_FILTER_OPERATORS = new Set<FilterOperator>([FilterOperator.NULL, FilterOperator.NOT_NULL, FilterOperator.PRESENT, FilterOperator.BLANK]);
+export const TEXT_FILTER_OPERATORS = new Set<FilterOperator>([
+    FilterOperator.LIKE,
+    FilterOperator.ILIKE,
+    FilterOperator.START,
+    FilterOperator.END,
+    FilterOperator.CONTAINS,
+    FilterOperator.FTS,
+]);
+
+/**
+ * Type of a column, by its column type or the type of its property.
+ * Columns of other types, e.g. json, have no type.
+ */
+export const columnValueType = ({ propertyName, mode, options }: ColumnMetadataArgs, prototype: Record<string, unknown>): ColumnValueType | undefined => {
+    if (mode === 'createDate' || mode === 'updateDate' || mode === 'deleteDate') {
+        return 'date';
+    }
+    if (typeof options.type === 'string') {
+        const columnType = options.type.toLowerCase();
+        if (INT_COLUMN_TYPES.has(columnType)) {
+            return 'integer';
+        }
+        if (FLOAT_COLUMN_TYPES.has(columnType)) {
+            return 'number';
+        }
+        if (BOOLEAN_COLUMN_TYPES.has(columnType)) {
+            return 'boolean';
+        }
+        if (DATE_COLUMN_TYPES.has(columnType)) {
+            return 'date';
+        }
+        return STRING_COLUMN_TYPES.has(columnType) ? 'string' : undefined;
+    }
+
+    const propertyType = typeof options.type === 'function' ? options.type : Reflect.getMetadata('design:type', prototype, propertyName);
+    switch (propertyType) {
+        case Number:
+            // 생성되는 키와 버전은 정수
+            return options.primary || mode === 'version' ? 'integer' : 'number';
+        case String:
+            return 'string';
+        case Boolean:
+            return 'boolean';
+        case Date:
+            return 'date';
+        default:
+            return;
+    }
+};
+
+/**
+ * Types of the columns of an entity and its parent classes, by property name
+ */
+export const columnValueTypes = (entity: EntityType): Map<string, ColumnValueType> => {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+    const inheritanceTree = MetadataUtils.getInheritanceTree(entity as Function);
+    const types = new Map<string, ColumnValueType>();
+    for (const column of getMetadataArgsStorage().columns) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const type = inheritanceTree.includes(column.target as Function) ? columnValueType(column, entity.prototype) : undefined;
+        if (type) {
+            types.set(column.propertyName, type);
+        }
+    }
+    return types;
+};
@@ -0,0 +1,32 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import type { AuditFieldChange, AuditRecord } from '../interface';
+
+/**
+ * Default audit table of the `audit` option.
+ * Register it with TypeORM, or extend it to use another table name.
+ */
+@Entity('crud_audit_log')
+@Index(['entityName', 'entityId'])
+export class CrudAuditLog implements AuditRecord {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    entityName!: string;
+
+    @Column()
+    entityId!: string;
+
+    @Column({ type: 'varchar' })
+    operation!: AuditRecord['operation'];
+
+    @Column({ type: 'varchar', nullable: true })
+    actor!: string | null;
+
+    @Column({ type: 'simple-json' })
+    changes!: AuditFieldChange[];
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
@@ -0,0 +1,108 @@
+import { Logger } from '@nestjs/common';
+import { IsNull, LessThan } from 'typeorm';
+
+import { CrudOutboxEvent } from './crud-outbox-event';
+
+import type { CrudEvent, CrudEventTransport } from '../interface';
+import type { DataSource, EntityManager, EntityTarget } from 'typeorm';
+
+export interface CrudEventDispatcherOptions {
+    /**
+     * Transports the events are pushed to, in order
+     */
+    transports: CrudEventTransport[];
+    /**
+     * Outbox table, the same entity as `events.outbox` of the routes
+     * @default CrudOutboxEvent
+     */
+    outbox?: EntityTarget<CrudOutboxEvent>;
+    /**
+     * Maximum number of events pushed by one dispatch
+     * @default 100
+     */
+    batchSize?: number;
+    /**
+     * Events failing this many times are left in the outbox and no longer retried
+     * @default 5
+     */
+    maxAttempts?: number;
+}
+
+/**
+ * Pushes the committed events of the outbox to the transports, oldest first.
+ * Delivery is at-least-once: an event is marked as dispatched only after every transport accepted it,
+ * and a failing event stops the batch so that later events are not delivered ahead of it.
+ *
+ * @example
+ * const dispatcher = new CrudEventDispatcher(dataSource, { transports: [new EventEmitterTransport(emitter)] });
+ * dispatcher.start(1000);
+ */
+export class CrudEventDispatcher {
+    private readonly logger = new Logger(CrudEventDispatcher.name);
+    private queue: Promise<unknown> = Promise.resolve();
+    private timer?: ReturnType<typeof setInterval>;
+
+    constructor(
+        private readonly connection: DataSource | EntityManager,
+        private readonly options: CrudEventDispatcherOptions,
+    ) {}
+
+    /**
+     * Dispatches pending events every `interval` milliseconds until `stop` is called
+     */
+    start(interval = 1000): void {
+        this.stop();
+        this.timer = setInterval(() => {
+            this.dispatch().catch((error: Error) => this.logger.error(error.message));
+        }, interval);
+        this.timer.unref?.();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Pushes one batch of pending events. Calls are serialized so that an event is never pushed twice at once.
+     * @returns number of dispatched events
+     */
+    dispatch(): Promise<number> {
+        const run = this.queue.then(async () => this.dispatchPending());
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async dispatchPending(): Promise<number> {
+        const { transports, outbox = CrudOutboxEvent, batchSize = 100, maxAttempts = 5 } = this.options;
+        const repository = this.connection.getRepository(outbox);
+        const events = await repository.find({
+            where: { dispatchedAt: IsNull(), attempts: LessThan(maxAttempts) },
+            order: { id: 'ASC' },
+            take: batchSize,
+        });
+
+        let dispatched = 0;
+        for (const event of events) {
+            try {
+                for (const transport of transports) {
+                    await transport.publish(CrudEventDispatcher.toEvent(event));
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                this.logger.warn(`event ${event.id} (${event.name}) failed: ${message}`);
+                await repository.update(event.id, { attempts: event.attempts + 1, lastError: message });
+                break;
+            }
+            await repository.update(event.id, { attempts: event.attempts + 1, dispatchedAt: new Date(), lastError: null });
+            dispatched++;
+        }
+        return dispatched;
+    }
+
+    private static toEvent({ id, name, entityName, entityId, method, changes, data, occurredAt }: CrudOutboxEvent): CrudEvent {
+        return { id, name, entityName, entityId, method, changes, data, occurredAt };
+    }
+}
@@ -0,0 +1,294 @@
+import _ from 'lodash';
+import { getMetadataArgsStorage } from 'typeorm';
+import { MetadataUtils } from 'typeorm/metadata-builder/MetadataUtils';
+
+import { columnValueType, FLAG_FILTER_OPERATORS, LIST_FILTER_OPERATORS, TEXT_FILTER_OPERATORS } from './column-value-type.util';
+import { FilterOperator, Method } from '../interface';
+
+import type { ColumnValueType } from './column-value-type.util';
+import type { CrudResolverOptions } from '../interface';
+import type * as NestGraphql from '@nestjs/graphql';
+
+/**
+ * Type of a field, as the type function of `@Field` takes it
+ */
+type GraphqlType = NestGraphql.ReturnTypeFuncValue;
+
+// eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+type GraphqlClass = Function;
+
+export interface CrudGraphqlFilter {
+    and?: CrudGraphqlFilter[];
+    or?: CrudGraphqlFilter[];
+    not?: CrudGraphqlFilter;
+    [field: string]: unknown;
+}
+
+export interface CrudGraphqlSort {
+    field: string;
+    direction?: 'ASC' | 'DESC';
+}
+
+export interface CrudGraphqlPage {
+    first?: number;
+    after?: string;
+    last?: number;
+    before?: string;
+}
+
+interface SharedTypes {
+    pageInfo: GraphqlClass;
+    pageInput: GraphqlClass;
+    sortDirection: Record<string, string>;
+}
+
+/**
+ * `@nestjs/graphql` is only required by applications which use `@CrudResolver`
+ */
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+export const loadNestGraphql = (): typeof NestGraphql => require('@nestjs/graphql');
+
+let sharedTypes: SharedTypes | undefined;
+const typesByName = new Map<string, CrudGraphqlTypes>();
+
+/**
+ * Defines a class with fields, as a GraphQL object type or input type
+ */
+const defineClass = (
+    name: string,
+    fields: Record<string, { type: () => GraphqlType; nullable?: boolean | 'items' | 'itemsAndList' }>,
+    decorator: (name: string) => ClassDecorator,
+): GraphqlClass => {
+    const graphql = loadNestGraphql();
+    const type = { [name]: class {} }[name];
+    for (const [field, { type: typeFn, nullable }] of Object.entries(fields)) {
+        graphql.Field(typeFn, { nullable })(type.prototype, field);
+    }
+    decorator(name)(type);
+    return type;
+};
+
+/**
+ * GraphQL types of an entity, derived from its TypeORM columns and the `@CrudResolver` options:
+ * the object type, its connection, the inputs of the mutations, and the filter and sort inputs of the list query.
+ */
+export class CrudGraphqlTypes {
+    readonly name: string;
+    readonly objectType: GraphqlClass;
+    readonly connectionType: GraphqlClass;
+    readonly createInput?: GraphqlClass;
+    readonly updateInput?: GraphqlClass;
+    readonly filterInput?: GraphqlClass;
+    readonly sortInput: GraphqlClass;
+    readonly pageInput: GraphqlClass;
+
+    private constructor(options: CrudResolverOptions) {
+        const graphql = loadNestGraphql();
+        const shared = CrudGraphqlTypes.sharedTypes();
+        this.name = options.name ?? options.entity.name;
+        this.pageInput = shared.pageInput;
+
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const inheritanceTree = MetadataUtils.getInheritanceTree(options.entity as Function);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const columns = getMetadataArgsStorage().columns.filter(({ target }) => inheritanceTree.includes(target as Function));
+        const fieldTypes = new Map<string, GraphqlType>();
+        for (const column of columns) {
+            const type = CrudGraphqlTypes.scalarOf(columnValueType(column, options.entity.prototype));
+            if (type && !options.exclude?.includes(column.propertyName)) {
+                fieldTypes.set(column.propertyName, type);
+            }
+        }
+        const primaryKeys = new Set(columns.filter(({ options }) => options.primary).map(({ propertyName }) => propertyName));
+
+        this.objectType = defineClass(
+            this.name,
+            _.fromPairs([...fieldTypes].map(([field, type]) => [field, { type: () => type, nullable: !primaryKeys.has(field) }])),
+            (name) => graphql.ObjectType(name),
+        );
+
+        const edgeType = defineClass(
+            `${this.name}Edge`,
+            { node: { type: () => this.objectType }, cursor: { type: () => String } },
+            (name) => graphql.ObjectType(name),
+        );
+        this.connectionType = defineClass(
+            `${this.name}Connection`,
+            {
+                edges: { type: () => [edgeType] },
+                nodes: { type: () => [this.objectType] },
+                pageInfo: { type: () => shared.pageInfo },
+                totalCount: { type: () => graphql.Int, nullable: true },
+            },
+            (name) => graphql.ObjectType(name),
+        );
+
+        // 입력 필드는 모두 선택으로 두고, 필수 여부는 route와 같은 class-validator 검증에 맡김
+        const inputOf = (name: string, params: string[] | undefined): GraphqlClass | undefined => {
+            const fields = (params ?? []).filter((param) => fieldTypes.has(param));
+            if (fields.length === 0) {
+                return;
+            }
+            return defineClass(
+                name,
+                _.fromPairs(fields.map((field) => [field, { type: () => fieldTypes.get(field)!, nullable: true }])),
+                (name) => graphql.InputType(name),
+            );
+        };
+        this.createInput = inputOf(`Create${this.name}Input`, options.routes?.[Method.CREATE]?.allowedParams ?? options.allowedParams);
+        this.updateInput = inputOf(`Update${this.name}Input`, options.routes?.[Method.UPDATE]?.allowedParams ?? options.allowedParams);
+
+        // relation filters (`author.name`) are not generated
+        const filterFields = (options.routes?.[Method.INDEX]?.allowedFilters ?? options.allowedFilters ?? []).filter((field) => fieldTypes.has(field));
+        if (filterFields.length > 0) {
+            const filterInput: GraphqlClass = defineClass(
+                `${this.name}FilterInput`,
+                {
+                    ..._.fromPairs(
+                        filterFields.flatMap((field) =>
+                            Object.values(FilterOperator).map((operator) => [
+                                `${field}_${operator}`,
+                                { type: () => CrudGraphqlTypes.operandOf(operator, fieldTypes.get(field)!), nullable: true },
+                            ]),
+                        ),
+                    ),
+                    and: { type: () => [filterInput], nullable: true },
+                    or: { type: () => [filterInput], nullable: true },
+                    not: { type: () => filterInput, nullable: true },
+                },
+                (name) => graphql.InputType(name),
+            );
+            this.filterInput = filterInput;
+        }
+
+        const sortField = _.fromPairs([...fieldTypes.keys()].map((field) => [field, field]));
+        graphql.registerEnumType(sortField, { name: `${this.name}SortField` });
+        this.sortInput = defineClass(
+            `${this.name}SortInput`,
+            { field: { type: () => sortField }, direction: { type: () => shared.sortDirection, nullable: true } },
+            (name) => graphql.InputType(name),
+        );
+    }
+
+    /**
+     * Types of the options, created once for each name since GraphQL type names are unique in a schema
+     */
+    static of(options: CrudResolverOptions): CrudGraphqlTypes {
+        const name = options.name ?? options.entity.name;
+        if (!typesByName.has(name)) {
+            typesByName.set(name, new CrudGraphqlTypes(options));
+        }
+        return typesByName.get(name)!;
+    }
+
+    /**
+     * Query of the list route for the arguments of the list query, e.g. `{ 'filter[age_gte]': '30', sort: '-age', 'page[size]': '10' }`
+     */
+    static toQuery(filter: CrudGraphqlFilter | undefined, sort: CrudGraphqlSort[] | undefined, page: CrudGraphqlPage | undefined, size: number): Record<string, string> {
+        const query: Record<string, string> = {};
+        const addFilter = (prefix: string, conditions: CrudGraphqlFilter): void => {
+            for (const [key, value] of Object.entries(conditions)) {
+                if (_.isNil(value)) {
+                    continue;
+                }
+                if (key === 'and' || key === 'or') {
+                    for (const [index, branch] of (value as CrudGraphqlFilter[]).entries()) {
+                        addFilter(`${prefix}[${key}][${index}]`, branch);
+                    }
+                } else if (key === 'not') {
+                    addFilter(`${prefix}[not]`, value as CrudGraphqlFilter);
+                } else {
+                    query[`${prefix}[${key}]`] = _.castArray(value)
+                        .map((item) => (item instanceof Date ? item.toISOString() : String(item)))
+                        .join(',');
+                }
+            }
+        };
+        if (filter) {
+            addFilter('filter', filter);
+        }
+
+        if (sort?.length) {
+            query.sort = sort.map(({ field, direction }) => (direction === 'DESC' ? `-${field}` : field)).join(',');
+        }
+
+        query['page[size]'] = String(size);
+        if (page?.after) {
+            query['page[after]'] = page.after;
+        }
+        if (page?.before) {
+            query['page[before]'] = page.before;
+        }
+        return query;
+    }
+
+    /**
+     * Page info, page input and sort direction, which every resolver shares
+     */
+    private static sharedTypes(): SharedTypes {
+        if (sharedTypes) {
+            return sharedTypes;
+        }
+        const graphql = loadNestGraphql();
+        const sortDirection = { ASC: 'ASC', DESC: 'DESC' };
+        graphql.registerEnumType(sortDirection, { name: 'CrudSortDirection' });
+        sharedTypes = {
+            sortDirection,
+            pageInfo: defineClass(
+                'CrudPageInfo',
+                {
+                    hasNextPage: { type: () => Boolean },
+                    hasPreviousPage: { type: () => Boolean },
+                    startCursor: { type: () => String, nullable: true },
+                    endCursor: { type: () => String, nullable: true },
+                },
+                (name) => graphql.ObjectType(name),
+            ),
+            pageInput: defineClass(
+                'CrudPageInput',
+                {
+                    first: { type: () => graphql.Int, nullable: true },
+                    after: { type: () => String, nullable: true },
+                    last: { type: () => graphql.Int, nullable: true },
+                    before: { type: () => String, nullable: true },
+                },
+                (name) => graphql.InputType(name),
+            ),
+        };
+        return sharedTypes;
+    }
+
+    /**
+     * Scalar of a column type. Columns of other types, e.g. json, are left out of the schema.
+     */
+    private static scalarOf(type: ColumnValueType | undefined): GraphqlType | undefined {
+        const graphql = loadNestGraphql();
+        switch (type) {
+            case 'integer':
+                return graphql.Int;
+            case 'number':
+                return graphql.Float;
+            case 'boolean':
+                return Boolean;
+            case 'date':
+                return Date;
+            case 'string':
+                return String;
+            default:
+                return;
+        }
+    }
+
+    /**
+     * Type of the value of an operator on a field
+     */
+    private static operandOf(operator: FilterOperator, fieldType: GraphqlType): GraphqlType {
+        if (FLAG_FILTER_OPERATORS.has(operator)) {
+            return Boolean;
+        }
+        if (TEXT_FILTER_OPERATORS.has(operator)) {
+            return String;
+        }
+        return LIST_FILTER_OPERATORS.has(operator) ? [fieldType] : fieldType;
+    }
+}
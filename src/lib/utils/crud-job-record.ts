@@ -0,0 +1,50 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+
+import type { CrudJob, CrudJobItemError, CrudJobMethod, CrudJobOwner, CrudJobStatus } from '../interface';
+
+/**
+ * Default job table of `TypeOrmJobStore`.
+ * Register it with TypeORM, or extend it to use another table name.
+ */
+@Entity('crud_job')
+@Index(['entityName', 'status'])
+export class CrudJobRecord implements CrudJob {
+    @PrimaryColumn()
+    id!: string;
+
+    @Column()
+    entityName!: string;
+
+    @Column({ type: 'simple-json' })
+    owner!: CrudJobOwner;
+
+    @Column({ type: 'varchar' })
+    method!: CrudJobMethod;
+
+    @Column({ type: 'varchar' })
+    status!: CrudJobStatus;
+
+    @Column()
+    total!: number;
+
+    @Column({ default: 0 })
+    processed!: number;
+
+    @Column({ type: 'simple-json' })
+    results!: unknown[];
+
+    @Column({ type: 'simple-json' })
+    errors!: CrudJobItemError[];
+
+    @Column({ type: 'text', nullable: true })
+    error!: string | null;
+
+    @Column({ type: Date })
+    createdAt!: Date;
+
+    @Column({ type: Date })
+    updatedAt!: Date;
+
+    @Column({ type: Date, nullable: true })
+    completedAt!: Date | null;
+}
@@ -0,0 +1,47 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import type { AuditFieldChange, CrudEvent, CrudEventMethod } from '../interface';
+
+/**
+ * Default outbox table of the `events` option.
+ * Register it with TypeORM, or extend it to use another table name.
+ */
+@Entity('crud_outbox_event')
+@Index(['dispatchedAt', 'id'])
+export class CrudOutboxEvent implements CrudEvent {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    name!: string;
+
+    @Column()
+    entityName!: string;
+
+    @Column()
+    entityId!: string;
+
+    @Column({ type: 'varchar' })
+    method!: CrudEventMethod;
+
+    @Column({ type: 'simple-json' })
+    changes!: AuditFieldChange[];
+
+    @Column({ type: 'simple-json' })
+    data!: Record<string, unknown>;
+
+    @CreateDateColumn()
+    occurredAt!: Date;
+
+    /**
+     * When the event was pushed to every transport, null while it is pending
+     */
+    @Column({ type: Date, nullable: true })
+    dispatchedAt!: Date | null;
+
+    @Column({ default: 0 })
+    attempts!: number;
+
+    @Column({ type: 'text', nullable: true })
+    lastError!: string | null;
+}
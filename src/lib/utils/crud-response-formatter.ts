@@ -0,0 +1,280 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { NotAcceptableException } from '@nestjs/common';
+import _ from 'lodash';
+
+import { ResponseTransformer } from './response-transformer';
+
+import type { JsonApiData, RelationshipConfig } from './response-transformer';
+import type { ResponseFormat } from '../decorator/conditional.decorator';
+import type { CrudArrayResponse, CrudResponse, PaginationMetadata } from '../interface';
+
+/**
+ * Media type of each response format, sent as the Content-Type of the response
+ */
+export const RESPONSE_FORMAT_MEDIA_TYPES: Record<ResponseFormat, string> = {
+    default: 'application/json',
+    'json-api': 'application/vnd.api+json',
+    hal: 'application/hal+json',
+    odata: 'application/json;odata.metadata=minimal',
+};
+
+const RESPONSE_FORMATS = Object.keys(RESPONSE_FORMAT_MEDIA_TYPES) as ResponseFormat[];
+
+/**
+ * Formats requested by the `Accept` header. Other media types (`application/json`, `*\/*`) keep the format of the controller.
+ */
+const ACCEPTED_MEDIA_TYPES: Array<[ResponseFormat, RegExp]> = [
+    ['json-api', /application\/vnd\.api\+json/i],
+    ['hal', /application\/hal\+json/i],
+    ['odata', /odata/i],
+];
+
+/**
+ * Query parameters of the pagination, replaced in the pagination links
+ */
+const PAGINATION_PARAMS = ['page[number]', 'page[size]', 'page[offset]', 'page[limit]', 'page[after]', 'page[before]', 'page[cursor]', 'offset', 'limit', 'nextCursor'];
+
+/**
+ * Base of the relative request urls, only used to parse them
+ */
+const URL_BASE = 'http://localhost';
+
+export interface ResponseFormatContext {
+    /**
+     * JSON:API type, HAL collection and OData entity set of the resource (the table name)
+     */
+    resourceType: string;
+    primaryKeys: string[];
+    /**
+     * Relations requested by `include`, sideloaded to `included` (JSON:API) and `_embedded` (HAL)
+     */
+    relations: string[];
+    /**
+     * Path and query of the request, from which the links are built
+     */
+    url: string;
+    /**
+     * Number of rows of an index page
+     */
+    pageSize?: number;
+}
+
+export type PaginationLinks = Partial<Record<'self' | 'first' | 'prev' | 'next' | 'last', string>>;
+
+/**
+ * Nested relations of each relation, e.g. `['author', 'author.company', 'tags']` → `{ author: ['company'], tags: [] }`
+ */
+const relationTree = (relations: string[]): Record<string, string[]> => {
+    const tree: Record<string, string[]> = {};
+    for (const relation of relations) {
+        const [name, ...nested] = relation.split('.');
+        tree[name] ??= [];
+        if (nested.length > 0) {
+            tree[name].push(nested.join('.'));
+        }
+    }
+    return tree;
+};
+
+/**
+ * JSON:API type of a related resource: the path of the relation from the resource, as in `fields[author.company]`
+ */
+const relationPath = (parentPath: string, name: string): string => (parentPath ? `${parentPath}.${name}` : name);
+
+const relationshipConfig = (names: string[], parentPath: string): Record<string, RelationshipConfig> | undefined =>
+    names.length > 0 ? Object.fromEntries(names.map((name) => [name, { type: relationPath(parentPath, name) }])) : undefined;
+
+const relatedItems = (items: unknown[], name: string): Array<Record<string, unknown>> =>
+    items.flatMap((item) => _.castArray((item as Record<string, unknown> | undefined)?.[name] ?? [])).filter((related): related is Record<string, unknown> => _.isObject(related));
+
+/**
+ * Move the requested relations of an entity to `_embedded` (HAL)
+ */
+const embedRelations = (item: unknown, relations: string[]): unknown => {
+    if (!_.isObject(item)) {
+        return item;
+    }
+    const tree = relationTree(relations);
+    const names = Object.keys(tree).filter((name) => name in item);
+    if (names.length === 0) {
+        return item;
+    }
+    const embedded = Object.fromEntries(
+        names.map((name) => {
+            const related = (item as Record<string, unknown>)[name];
+            return [name, Array.isArray(related) ? related.map((one) => embedRelations(one, tree[name])) : embedRelations(related, tree[name])];
+        }),
+    );
+    return { ..._.omit(item, names), _embedded: embedded };
+};
+
+const pathAndQuery = (url: URL): string => `${url.pathname}${url.search}`;
+
+/**
+ * Formats the responses of the show and index routes with `ResponseTransformer` (JSON:API, HAL and OData)
+ */
+export class CrudResponseFormatter {
+    /**
+     * Format of a request: the `format` query, then the `Accept` header, then the default format of the controller
+     * @throws NotAcceptableException when the `format` query is not a known format
+     */
+    static negotiate(format: unknown, accept: string | undefined, defaultFormat: ResponseFormat = 'default'): ResponseFormat {
+        if (format !== undefined) {
+            if (typeof format === 'string' && (RESPONSE_FORMATS as string[]).includes(format)) {
+                return format as ResponseFormat;
+            }
+            throw new NotAcceptableException(`format must be one of ${RESPONSE_FORMATS.join(', ')}`);
+        }
+        const accepted = ACCEPTED_MEDIA_TYPES.find(([, pattern]) => pattern.test(accept ?? ''));
+        return accepted?.[0] ?? defaultFormat;
+    }
+
+    static format(response: CrudResponse<unknown> | CrudArrayResponse<unknown>, format: ResponseFormat, context: ResponseFormatContext): unknown {
+        switch (format) {
+            case 'json-api': {
+                return CrudResponseFormatter.toJsonApi(response, context);
+            }
+            case 'hal': {
+                return CrudResponseFormatter.toHal(response, context);
+            }
+            case 'odata': {
+                return CrudResponseFormatter.toOData(response, context);
+            }
+            default: {
+                return response;
+            }
+        }
+    }
+
+    /**
+     * Links of an index page, built from its pagination metadata.
+     * Offset pages link to `page[number]`, cursor pages to `page[after]` (next) and `page[before]` (prev) with the cursors of the page.
+     */
+    static paginationLinks(url: string, pagination: PaginationMetadata | undefined, dataLength: number, pageSize?: number): PaginationLinks {
+        const self = new URL(url, URL_BASE);
+        const links: PaginationLinks = { self: pathAndQuery(self) };
+        if (!pagination) {
+            return links;
+        }
+
+        const size = pagination.limit ?? pageSize;
+        const link = (params: Record<string, string | number | undefined>): string => {
+            const target = new URL(self.href);
+            for (const param of PAGINATION_PARAMS) {
+                target.searchParams.delete(param);
+            }
+            for (const [param, value] of Object.entries({ ...params, 'page[size]': size })) {
+                if (value !== undefined) {
+                    target.searchParams.set(param, String(value));
+                }
+            }
+            return pathAndQuery(target);
+        };
+        // total을 모르면 페이지가 가득 찼을 때 다음 페이지가 있는 것으로 간주
+        const isFull = pagination.hasNextPage ?? (size === undefined || dataLength >= size);
+
+        if (pagination.type === 'offset') {
+            const page = pagination.page ?? 1;
+            const pages = pagination.pages;
+            return {
+                ...links,
+                first: link({ 'page[number]': 1 }),
+                prev: page > 1 ? link({ 'page[number]': page - 1 }) : undefined,
+                next: (pages === undefined ? isFull : page < pages) ? link({ 'page[number]': page + 1 }) : undefined,
+                last: pages === undefined ? undefined : link({ 'page[number]': pages }),
+            };
+        }
+
+        // page[before]로 읽은 페이지는 다음 페이지가 항상 있고, 이전 페이지는 가득 찼을 때만 있음
+        const backward = self.searchParams.has('page[before]');
+        const continued = backward || ['page[after]', 'page[cursor]', 'nextCursor'].some((param) => self.searchParams.has(param));
+        return {
+            ...links,
+            first: link({}),
+            prev: (backward ? isFull : continued) ? link({ 'page[before]': pagination.prevCursor }) : undefined,
+            next: backward || isFull ? link({ 'page[after]': pagination.nextCursor }) : undefined,
+        };
+    }
+
+    /**
+     * JSON:API document: the requested relations become `relationships` and their resources are sideloaded to `included`
+     */
+    private static toJsonApi({ data, metadata }: CrudResponse<unknown> | CrudArrayResponse<unknown>, context: ResponseFormatContext): unknown {
+        const included = new Map<string, JsonApiData<unknown>>();
+        CrudResponseFormatter.sideload(_.castArray(data), context.relations, '', included);
+
+        const names = Object.keys(relationTree(context.relations));
+        const document = ResponseTransformer.toJsonApi(data, {
+            type: context.resourceType,
+            id: (item) => context.primaryKeys.map((key) => item[key]).join(','),
+            relationships: relationshipConfig(names, ''),
+            excludeFromAttributes: [...context.primaryKeys, ...names],
+            meta: metadata,
+            included: included.size > 0 ? [...included.values()] : undefined,
+        });
+
+        const links = Array.isArray(data)
+            ? CrudResponseFormatter.paginationLinks(context.url, metadata?.pagination, data.length, context.pageSize)
+            : { self: pathAndQuery(new URL(context.url, URL_BASE)) };
+        return { ...document, links: _.omitBy(links, _.isUndefined) };
+    }
+
+    private static sideload(items: unknown[], relations: string[], parentPath: string, included: Map<string, JsonApiData<unknown>>): void {
+        for (const [name, nested] of Object.entries(relationTree(relations))) {
+            const type = relationPath(parentPath, name);
+            const nestedNames = Object.keys(relationTree(nested));
+            const related = relatedItems(items, name);
+
+            for (const item of related) {
+                const resource = ResponseTransformer.toJsonApi(item, {
+                    type,
+                    relationships: relationshipConfig(nestedNames, type),
+                    excludeFromAttributes: ['id', '_id', 'uuid', ...nestedNames],
+                }).data as JsonApiData<unknown>;
+                const key = `${type}:${resource.id}`;
+                if (!included.has(key)) {
+                    included.set(key, resource);
+                }
+            }
+            CrudResponseFormatter.sideload(related, nested, type, included);
+        }
+    }
+
+    /**
+     * HAL document: the requested relations are moved to `_embedded`, and an index page embeds its entities with their `self` links
+     */
+    private static toHal({ data, metadata }: CrudResponse<unknown> | CrudArrayResponse<unknown>, context: ResponseFormatContext): unknown {
+        const url = new URL(context.url, URL_BASE);
+        if (!Array.isArray(data)) {
+            return ResponseTransformer.toHal(embedRelations(data, context.relations), { selfLink: pathAndQuery(url) });
+        }
+
+        const collectionPath = url.pathname.replace(/\/$/, '');
+        const items = data.map((item: Record<string, unknown>) =>
+            ResponseTransformer.toHal(embedRelations(item, context.relations), {
+                selfLink: `${collectionPath}/${context.primaryKeys.map((key) => item[key]).join('/')}`,
+            }),
+        );
+        const links = CrudResponseFormatter.paginationLinks(context.url, metadata?.pagination, data.length, context.pageSize);
+        return {
+            ...ResponseTransformer.toHal(items, { collectionName: context.resourceType, meta: metadata }),
+            _links: _.mapValues(_.omitBy(links, _.isUndefined), (href) => ({ href })),
+        };
+    }
+
+    /**
+     * OData document: an index page is the `value` of the entity set with `@odata.count` and `@odata.nextLink`
+     */
+    private static toOData({ data, metadata }: CrudResponse<unknown> | CrudArrayResponse<unknown>, context: ResponseFormatContext): unknown {
+        if (!Array.isArray(data)) {
+            return ResponseTransformer.toOData(data, { context: `$metadata#${context.resourceType}/$entity` });
+        }
+
+        const links = CrudResponseFormatter.paginationLinks(context.url, metadata?.pagination, data.length, context.pageSize);
+        return ResponseTransformer.toOData(data, {
+            context: `$metadata#${context.resourceType}`,
+            count: metadata?.pagination?.total,
+            nextLink: links.next,
+        });
+    }
+}
@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { BadRequestException } from '@nestjs/common';
+
+import type { CursorTokenOptions } from '../interface';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+interface CursorTokenPayload<T> {
+    data: T;
+    exp?: number;
+}
+
+/**
+ * Signed (and optionally encrypted) tokens of the `pagination.cursor` option.
+ * A token is `<body>.<signature>` in base64url, where the signature is the HMAC-SHA256 of the body
+ * and the body is the JSON payload, or its AES-256-GCM ciphertext when `encrypt` is set.
+ */
+export class CursorToken {
+    /**
+     * Sign a payload with the first secret
+     */
+    static sign(data: unknown, options: CursorTokenOptions): string {
+        const [secret] = CursorToken.secrets(options);
+        const payload: CursorTokenPayload<unknown> = { data };
+        if (options.expiresIn) {
+            payload.exp = Math.floor(Date.now() / 1000) + options.expiresIn;
+        }
+
+        const json = Buffer.from(JSON.stringify(payload));
+        const body = options.encrypt ? CursorToken.encrypt(json, secret) : json;
+        return `${body.toString('base64url')}.${CursorToken.signature(body, secret).toString('base64url')}`;
+    }
+
+    /**
+     * Verify a token signed with any of the secrets and return its payload
+     * @throws BadRequestException when the token is malformed, tampered with or expired
+     */
+    static verify<T>(token: string, options: CursorTokenOptions): T {
+        const [encodedBody, encodedSignature, ...rest] = token.split('.');
+        if (!encodedBody || !encodedSignature || rest.length > 0) {
+            throw new BadRequestException('Invalid cursor');
+        }
+        const body = Buffer.from(encodedBody, 'base64url');
+        const signature = Buffer.from(encodedSignature, 'base64url');
+
+        const secret = CursorToken.secrets(options).find((candidate) => {
+            const expected = CursorToken.signature(body, candidate);
+            return expected.length === signature.length && timingSafeEqual(expected, signature);
+        });
+        if (secret === undefined) {
+            throw new BadRequestException('Invalid cursor');
+        }
+
+        const payload = CursorToken.parse<T>(options.encrypt ? CursorToken.decrypt(body, secret) : body);
+        if (payload.exp !== undefined && payload.exp * 1000 <= Date.now()) {
+            throw new BadRequestException('Cursor has expired');
+        }
+        return payload.data;
+    }
+
+    private static secrets({ secret }: CursorTokenOptions): string[] {
+        const secrets = Array.isArray(secret) ? secret : [secret];
+        if (secrets.length === 0 || secrets.some((value) => !value)) {
+            throw new Error('pagination.cursor.secret must not be empty');
+        }
+        return secrets;
+    }
+
+    private static signature(body: Buffer, secret: string): Buffer {
+        return createHmac('sha256', secret).update(body).digest();
+    }
+
+    /**
+     * 서명과 다른 키를 쓰도록 secret의 해시를 암호화 키로 사용
+     */
+    private static encryptionKey(secret: string): Buffer {
+        return createHash('sha256').update(`cursor:${secret}`).digest();
+    }
+
+    private static encrypt(plain: Buffer, secret: string): Buffer {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', CursorToken.encryptionKey(secret), iv);
+        const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+    }
+
+    private static decrypt(body: Buffer, secret: string): Buffer {
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', CursorToken.encryptionKey(secret), body.subarray(0, IV_LENGTH));
+            decipher.setAuthTag(body.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+            return Buffer.concat([decipher.update(body.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+        } catch {
+            throw new BadRequestException('Invalid cursor');
+        }
+    }
+
+    private static parse<T>(json: Buffer): CursorTokenPayload<T> {
+        try {
+            return JSON.parse(json.toString());
+        } catch {
+            throw new BadRequestException('Invalid cursor');
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+
+/**
+ * Utility for entity tags (ETag) built from the version of an entity
+ * (`@VersionColumn`, or `@UpdateDateColumn` when the entity has no version column), or from the content of a response
+ */
+export class EntityTagUtil {
+    /**
+     * Create a strong entity tag from a version value, e.g. `3` → `"3"`.
+     * Dates are represented by their timestamp.
+     */
+    static create(version: string | number | Date | null | undefined): string | undefined {
+        if (version === null || version === undefined) {
+            return undefined;
+        }
+        return `"${version instanceof Date ? version.getTime() : String(version)}"`;
+    }
+
+    /**
+     * Create a weak entity tag from the serialized content of a response, e.g. `W/"3q2-7w"`
+     */
+    static fromContent(content: unknown): string {
+        return `W/"${createHash('sha1').update(JSON.stringify(content)).digest('base64url')}"`;
+    }
+
+    /**
+     * Entity tag of the representation of a response in a format, e.g. `"3"` → `"3;hal"`.
+     * Representations must not share a strong entity tag; the default format keeps the tag as it is.
+     */
+    static forFormat(entityTag: string, format: string): string {
+        return format === 'default' ? entityTag : entityTag.replace(/"$/, `;${format}"`);
+    }
+
+    /**
+     * Entity tag without the format of its representation, so that `If-Match` accepts the tag of any format
+     */
+    static withoutFormat(tag: string): string {
+        return tag.replace(/;[\w-]+"$/, '"');
+    }
+
+    /**
+     * Parse the list of entity tags of an `If-Match` / `If-None-Match` header
+     */
+    static parse(header: unknown): string[] | undefined {
+        if (typeof header !== 'string') {
+            return undefined;
+        }
+        const tags = header
+            .split(',')
+            .map((tag) => tag.trim())
+            .filter((tag) => tag.length > 0);
+        return tags.length > 0 ? tags : undefined;
+    }
+
+    /**
+     * Check whether one of the tags matches the entity tag by weak comparison (`If-None-Match`). `*` matches any entity tag.
+     * Weak tags (`W/"3"`) are compared by their opaque value.
+     */
+    static matches(tags: string[], entityTag: string): boolean {
+        return tags.some((tag) => tag === '*' || EntityTagUtil.opaqueTag(tag) === EntityTagUtil.opaqueTag(entityTag));
+    }
+
+    /**
+     * Check whether one of the tags matches the entity tag by strong comparison (`If-Match`). `*` matches any entity tag.
+     * Weak tags never match.
+     */
+    static matchesStrongly(tags: string[], entityTag: string): boolean {
+        return tags.some((tag) => tag === '*' || (!EntityTagUtil.isWeak(tag) && !EntityTagUtil.isWeak(entityTag) && tag === entityTag));
+    }
+
+    private static isWeak(tag: string): boolean {
+        return tag.startsWith('W/');
+    }
+
+    private static opaqueTag(tag: string): string {
+        return tag.replace(/^W\//, '');
+    }
+}
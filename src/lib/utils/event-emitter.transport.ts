@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events';
+
+import type { CrudEvent, CrudEventMethod, CrudEventTransport, EntityType } from '../interface';
+
+/**
+ * In-process transport emitting each event under its name, e.g. `user.created`.
+ * Any emitter with `emit`, such as `EventEmitter2` of `@nestjs/event-emitter`, can be used.
+ */
+export class EventEmitterTransport implements CrudEventTransport {
+    constructor(public readonly emitter: Pick<EventEmitter, 'emit'> = new EventEmitter()) {}
+
+    publish(event: CrudEvent): void {
+        this.emitter.emit(event.name, event);
+    }
+
+    /**
+     * Typed subscription when the emitter is a Node.js `EventEmitter`
+     * @example transport.on<User, 'create'>('user.created', (event) => event.data.email)
+     */
+    on<T = EntityType, M extends CrudEventMethod = CrudEventMethod>(name: string, listener: (event: CrudEvent<T, M>) => void): this {
+        if (!(this.emitter instanceof EventEmitter)) {
+            throw new TypeError('on() requires a Node.js EventEmitter');
+        }
+        this.emitter.on(name, listener);
+        return this;
+    }
+}
@@ -0,0 +1,116 @@
+import { NotAcceptableException } from '@nestjs/common';
+
+import { XlsxWriter } from './xlsx-writer';
+
+import type { ExportFormat } from '../interface';
+
+/**
+ * Media type of each export format, sent as the Content-Type of the file
+ */
+export const EXPORT_FORMAT_MEDIA_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Formats requested by the `Accept` header
+ */
+const ACCEPTED_MEDIA_TYPES: Array<[ExportFormat, RegExp]> = [
+    ['csv', /text\/csv/i],
+    ['ndjson', /ndjson/i],
+    ['xlsx', /spreadsheetml\.sheet/i],
+];
+
+export interface ExportColumn {
+    name: string;
+    label: string;
+}
+
+/**
+ * Byte order mark, so that spreadsheets read the CSV as UTF-8
+ */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Leading characters of a formula. Such strings are prefixed with `'` so that spreadsheets do not evaluate them (CSV injection).
+ */
+const FORMULA_PREFIX = /^[\t\r+=@-]/;
+
+const text = (value: unknown): string =>
+    value instanceof Date ? value.toISOString() : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+/**
+ * Field of a CSV record (RFC 4180): quoted when it contains a comma, a quote or a line break
+ */
+const csvField = (value: unknown): string => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    const field = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : text(value);
+    return /[\n\r",]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+const csvRecord = (values: unknown[]): string => `${values.map((value) => csvField(value)).join(',')}\r\n`;
+
+/**
+ * Writes the rows of the export route as CSV, NDJSON or XLSX while they are read
+ */
+export class ExportWriter {
+    /**
+     * Format of a request: the `format` query, then the `Accept` header, then the first allowed format
+     * @throws NotAcceptableException when the `format` query is not one of the allowed formats
+     */
+    static negotiate(format: unknown, accept: string | undefined, formats: ExportFormat[]): ExportFormat {
+        if (format !== undefined) {
+            if (typeof format === 'string' && (formats as string[]).includes(format)) {
+                return format as ExportFormat;
+            }
+            throw new NotAcceptableException(`format must be one of ${formats.join(', ')}`);
+        }
+        const accepted = ACCEPTED_MEDIA_TYPES.find(([acceptedFormat, pattern]) => formats.includes(acceptedFormat) && pattern.test(accept ?? ''));
+        return accepted?.[0] ?? formats[0];
+    }
+
+    static write(
+        format: ExportFormat,
+        columns: ExportColumn[],
+        chunks: AsyncIterable<Array<Record<string, unknown>>>,
+        sheetName: string,
+    ): AsyncGenerator<Buffer | string> {
+        switch (format) {
+            case 'ndjson': {
+                return ExportWriter.ndjson(columns, chunks);
+            }
+            case 'xlsx': {
+                return XlsxWriter.write(
+                    columns.map(({ label }) => label),
+                    ExportWriter.values(columns, chunks),
+                    sheetName,
+                );
+            }
+            default: {
+                return ExportWriter.csv(columns, chunks);
+            }
+        }
+    }
+
+    private static async *csv(columns: ExportColumn[], chunks: AsyncIterable<Array<Record<string, unknown>>>): AsyncGenerator<string> {
+        yield UTF8_BOM + csvRecord(columns.map(({ label }) => label));
+        for await (const values of ExportWriter.values(columns, chunks)) {
+            yield values.map((record) => csvRecord(record)).join('');
+        }
+    }
+
+    private static async *ndjson(columns: ExportColumn[], chunks: AsyncIterable<Array<Record<string, unknown>>>): AsyncGenerator<string> {
+        for await (const rows of chunks) {
+            yield rows.map((row) => `${JSON.stringify(Object.fromEntries(columns.map(({ name }) => [name, row[name] ?? null])))}\n`).join('');
+        }
+    }
+
+    private static async *values(columns: ExportColumn[], chunks: AsyncIterable<Array<Record<string, unknown>>>): AsyncGenerator<unknown[][]> {
+        for await (const rows of chunks) {
+            yield rows.map((row) => columns.map(({ name }) => row[name]));
+        }
+    }
+}
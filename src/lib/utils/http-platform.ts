@@ -0,0 +1,116 @@
+import _ from 'lodash';
+
+import type { IncomingHttpHeaders, ServerResponse } from 'http';
+
+/**
+ * Whether a query value is an object or a list of objects, e.g. `filter[or]` parsed by `qs`.
+ * Lists of values, e.g. repeated `filter[id_in]`, are kept.
+ */
+const isNested = (value: unknown): boolean => _.isPlainObject(value) || (Array.isArray(value) && value.some((item) => _.isPlainObject(item)));
+
+/**
+ * Members of an Express request or a Fastify request that the generated routes read
+ */
+export interface CrudHttpRequest {
+    method?: string;
+    headers: IncomingHttpHeaders;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    body?: any;
+    query?: unknown;
+    params: Record<string, string>;
+    url: string;
+    originalUrl?: string;
+    /** Express */
+    route?: { path?: string };
+    /** Express */
+    path?: string;
+    /** Fastify */
+    routeOptions?: { url?: string };
+    /**
+     * Caller of the request, set by an authentication guard
+     */
+    user?: unknown;
+}
+
+/**
+ * An Express response, or a Fastify reply which keeps the Node.js response in `raw`
+ */
+export type CrudHttpResponse = ServerResponse | { raw: ServerResponse; hijack(): unknown };
+
+/**
+ * Platform-neutral access to the requests and responses of `@nestjs/platform-express` and `@nestjs/platform-fastify`
+ */
+export class HttpPlatform {
+    /**
+     * Whether a request or a reply is of Fastify, which wraps the Node.js request and response in `raw`
+     */
+    static isFastify(target: unknown): boolean {
+        return _.isObject(target) && 'raw' in target;
+    }
+
+    /**
+     * Query of a request with flat bracket keys, e.g. `{ 'filter[or][0][name_eq]': 'Bob' }`.
+     * The default query parsers of Express 5 and Fastify keep the brackets in the keys;
+     * the nested objects of an extended parser such as `qs` are flattened back to them.
+     */
+    static query(req: CrudHttpRequest): Record<string, unknown> {
+        const query = (req.query ?? {}) as Record<string, unknown>;
+        if (!Object.values(query).some((value) => isNested(value))) {
+            return query;
+        }
+        const flattened: Record<string, unknown> = {};
+        const flatten = (key: string, value: unknown): void => {
+            if (!isNested(value)) {
+                flattened[key] = value;
+                return;
+            }
+            for (const [property, nested] of Object.entries(value as Record<string, unknown>)) {
+                flatten(`${key}[${property}]`, nested);
+            }
+        };
+        for (const [key, value] of Object.entries(query)) {
+            flatten(key, value);
+        }
+        return flattened;
+    }
+
+    /**
+     * Path of the route of a request, e.g. `/users/:id`
+     */
+    static routePath(req: CrudHttpRequest): string {
+        return req.route?.path ?? req.routeOptions?.url ?? req.path ?? String(req.url).split('?')[0];
+    }
+
+    /**
+     * Path of a request as it was received, without the query string
+     */
+    static requestPath(req: CrudHttpRequest): string {
+        return String(req.originalUrl ?? req.url).split('?')[0];
+    }
+
+    /**
+     * Sends a JSON body with a status code, by `json` of Express or `send` of Fastify
+     */
+    static sendJson(response: unknown, status: number, body: unknown): void {
+        const reply = response as { status(code: number): { json?(body: unknown): unknown; send(body: unknown): unknown } };
+        const sender = reply.status(status);
+        if (typeof sender.json === 'function') {
+            sender.json(body);
+            return;
+        }
+        sender.send(body);
+    }
+
+    /**
+     * Node.js response to write by hand, e.g. a stream of server-sent events.
+     * A Fastify reply is hijacked, so that Fastify leaves the response to the caller.
+     */
+    static rawResponse(response: CrudHttpResponse): ServerResponse {
+        if (HttpPlatform.isFastify(response)) {
+            const reply = response as Exclude<CrudHttpResponse, ServerResponse>;
+            reply.hijack();
+            return reply.raw;
+        }
+        return response as ServerResponse;
+    }
+}
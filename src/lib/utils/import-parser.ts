@@ -0,0 +1,173 @@
+import { UnprocessableEntityException, UnsupportedMediaTypeException } from '@nestjs/common';
+
+import type { ImportFormat } from '../interface';
+import type { ClassConstructor } from 'class-transformer';
+
+/**
+ * Row of an import file. Rows which cannot be read carry the `error` instead.
+ */
+export interface ImportRow {
+    line: number;
+    row?: Record<string, unknown>;
+    error?: string;
+}
+
+/**
+ * File types and extensions of each import format
+ */
+const FORMAT_PATTERNS: Array<[ImportFormat, RegExp, RegExp]> = [
+    ['csv', /text\/csv|application\/csv/i, /\.csv$/i],
+    ['ndjson', /ndjson|jsonl|jsonlines/i, /\.(?:ndjson|jsonl)$/i],
+];
+
+const stripByteOrderMark = (text: string): string => (text.codePointAt(0) === 0xFE_FF ? text.slice(1) : text);
+
+/**
+ * Object of a CSV record keyed by the header. Empty values are left out, so that they are absent like missing JSON keys.
+ */
+const recordToRow = (header: string[], values: string[]): Record<string, unknown> =>
+    Object.fromEntries(header.map((name, index): [string, unknown] => [name, values[index] === '' ? undefined : values[index]]).filter(([, value]) => value !== undefined));
+
+/**
+ * Converts a CSV value to the type of the entity property (`design:type`), so that it validates like a JSON body
+ */
+const coerceValue = (value: unknown, type: unknown): unknown => {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    if (type === Number) {
+        const number = Number(value);
+        return value.trim() !== '' && Number.isFinite(number) ? number : value;
+    }
+    if (type === Boolean) {
+        if (/^(?:true|1)$/i.test(value)) {
+            return true;
+        }
+        return /^(?:false|0)$/i.test(value) ? false : value;
+    }
+    if (type === Date) {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+};
+
+/**
+ * Reads the rows of CSV (RFC 4180, with a header row) and NDJSON uploads of the import route
+ */
+export class ImportParser {
+    /**
+     * Format of an upload: the `format` query, then the type of the file, then its extension
+     * @throws UnsupportedMediaTypeException when the format is unknown or not allowed
+     */
+    static negotiate(format: unknown, file: { mimetype?: string; originalname?: string }, formats: ImportFormat[]): ImportFormat {
+        const requested =
+            format === undefined
+                ? FORMAT_PATTERNS.find(([, type, extension]) => type.test(file.mimetype ?? '') || extension.test(file.originalname ?? ''))?.[0]
+                : format;
+        if (typeof requested === 'string' && (formats as string[]).includes(requested)) {
+            return requested as ImportFormat;
+        }
+        throw new UnsupportedMediaTypeException(`file must be one of ${formats.join(', ')}`);
+    }
+
+    static parse(content: Buffer, format: ImportFormat): ImportRow[] {
+        const text = stripByteOrderMark(content.toString('utf8'));
+        return format === 'ndjson' ? ImportParser.parseNdjson(text) : ImportParser.parseCsv(text);
+    }
+
+    /**
+     * Values of a row converted to the types of the entity properties. Only CSV rows need it; NDJSON keeps its JSON types.
+     */
+    static coerce(row: Record<string, unknown>, entity: ClassConstructor<unknown>): Record<string, unknown> {
+        return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, coerceValue(value, Reflect.getMetadata('design:type', entity.prototype, key))]));
+    }
+
+    private static parseNdjson(text: string): ImportRow[] {
+        const rows: ImportRow[] = [];
+        for (const [index, line] of text.split(/\r?\n/).entries()) {
+            if (line.trim() === '') {
+                continue;
+            }
+            try {
+                const row: unknown = JSON.parse(line);
+                rows.push(
+                    row !== null && typeof row === 'object' && !Array.isArray(row)
+                        ? { line: index + 1, row: row as Record<string, unknown> }
+                        : { line: index + 1, error: 'Row must be a JSON object' },
+                );
+            } catch {
+                rows.push({ line: index + 1, error: 'Row is not valid JSON' });
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * @throws UnprocessableEntityException when a quoted value is not closed
+     */
+    private static parseCsv(text: string): ImportRow[] {
+        const records: Array<{ line: number; values: string[] }> = [];
+        let values: string[] = [];
+        let value = '';
+        let quoted = false;
+        let line = 1;
+        let recordLine = 1;
+
+        const endRecord = () => {
+            values.push(value);
+            // 빈 줄은 건너뜀
+            if (values.length > 1 || values[0] !== '') {
+                records.push({ line: recordLine, values });
+            }
+            values = [];
+            value = '';
+        };
+
+        for (let index = 0; index < text.length; index++) {
+            const character = text[index];
+            if (quoted) {
+                if (character === '"' && text[index + 1] === '"') {
+                    value += '"';
+                    index++;
+                } else if (character === '"') {
+                    quoted = false;
+                } else {
+                    if (character === '\n') {
+                        line++;
+                    }
+                    value += character;
+                }
+            } else if (character === '"' && value === '') {
+                quoted = true;
+            } else if (character === ',') {
+                values.push(value);
+                value = '';
+            } else if (character === '\n' || character === '\r') {
+                if (character === '\r' && text[index + 1] === '\n') {
+                    index++;
+                }
+                endRecord();
+                line++;
+                recordLine = line;
+            } else {
+                value += character;
+            }
+        }
+        if (quoted) {
+            throw new UnprocessableEntityException(`Quoted value starting on line ${recordLine} is not closed`);
+        }
+        endRecord();
+
+        const [header, ...rows] = records;
+        if (!header) {
+            return [];
+        }
+        const names = header.values.map((name) => name.trim());
+        return rows.map(({ line: rowLine, values: rowValues }) =>
+            rowValues.length === names.length
+                ? { line: rowLine, row: recordToRow(names, rowValues) }
+                : { line: rowLine, error: `Row has ${rowValues.length} values but the header has ${names.length}` },
+        );
+    }
+}
@@ -0,0 +1,55 @@
+import { ExportWriter } from './export-writer';
+
+import type { CrudImportRejection } from '../interface';
+
+/**
+ * Reports are kept as long as `ProgressTracker.cleanup` keeps jobs by default
+ */
+const REPORT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Rejected rows of the import jobs, kept in memory next to the jobs of `ProgressTracker`
+ */
+export class ImportReport {
+    private static reports = new Map<string, { createdAt: number; rejections: CrudImportRejection[] }>();
+
+    static create(jobId: string, rejections: CrudImportRejection[]): void {
+        ImportReport.cleanup();
+        ImportReport.reports.set(jobId, { createdAt: Date.now(), rejections: [...rejections] });
+    }
+
+    static add(jobId: string, rejections: CrudImportRejection[]): void {
+        ImportReport.reports.get(jobId)?.rejections.push(...rejections);
+    }
+
+    static get(jobId: string): CrudImportRejection[] | undefined {
+        return ImportReport.reports.get(jobId)?.rejections;
+    }
+
+    static cleanup(maxAge = REPORT_MAX_AGE): number {
+        const now = Date.now();
+        let cleanedCount = 0;
+        for (const [jobId, { createdAt }] of ImportReport.reports.entries()) {
+            if (now - createdAt > maxAge) {
+                ImportReport.reports.delete(jobId);
+                cleanedCount++;
+            }
+        }
+        return cleanedCount;
+    }
+
+    /**
+     * CSV of the rejections ordered by line: `line`, `errors` (joined by `; `) and the values of the row
+     */
+    static toCsv(rejections: CrudImportRejection[]): AsyncGenerator<Buffer | string> {
+        const sorted = [...rejections].sort((left, right) => left.line - right.line);
+        const names = [...new Set(sorted.flatMap(({ row }) => Object.keys(row)))];
+        const columns = ['line', 'errors', ...names].map((name) => ({ name, label: name }));
+        const rows = sorted.map(({ line, errors, row }) => ({ ...row, line, errors: errors.join('; ') }));
+        return ExportWriter.write('csv', columns, ImportReport.chunksOf(rows), 'errors');
+    }
+
+    private static async *chunksOf(rows: Array<Record<string, unknown>>): AsyncGenerator<Array<Record<string, unknown>>> {
+        yield rows;
+    }
+}
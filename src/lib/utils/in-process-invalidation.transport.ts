@@ -0,0 +1,21 @@
+import type { CacheInvalidationHandler, CacheInvalidationMessage, CacheInvalidationTransport } from './cache-invalidation-bus';
+
+/**
+ * Transport between the caches of one process, e.g. to run several instances in tests
+ */
+export class InProcessInvalidationTransport implements CacheInvalidationTransport {
+    private readonly handlers = new Set<CacheInvalidationHandler>();
+
+    async publish(message: CacheInvalidationMessage): Promise<void> {
+        for (const handler of [...this.handlers]) {
+            await handler(message);
+        }
+    }
+
+    async subscribe(handler: CacheInvalidationHandler): Promise<() => void> {
+        this.handlers.add(handler);
+        return () => {
+            this.handlers.delete(handler);
+        };
+    }
+}
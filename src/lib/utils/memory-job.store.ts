@@ -0,0 +1,30 @@
+import _ from 'lodash';
+
+import type { CrudJob, CrudJobStore } from '../interface';
+
+/**
+ * Job store of one process. Jobs are lost on restart, so use `TypeOrmJobStore` to serve them from several instances.
+ */
+export class MemoryJobStore implements CrudJobStore {
+    private readonly jobs = new Map<string, CrudJob>();
+
+    async create(job: CrudJob): Promise<void> {
+        this.jobs.set(job.id, _.cloneDeep(job));
+    }
+
+    async get(id: string): Promise<CrudJob | undefined> {
+        const job = this.jobs.get(id);
+        return job && _.cloneDeep(job);
+    }
+
+    async update(id: string, changes: Partial<Omit<CrudJob, 'id'>>): Promise<void> {
+        const job = this.jobs.get(id);
+        if (job) {
+            Object.assign(job, _.cloneDeep(changes));
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        this.jobs.delete(id);
+    }
+}
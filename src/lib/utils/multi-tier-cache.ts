@@ -1,5 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { randomUUID } from 'crypto';
+
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+
+import type { CacheInvalidationMessage, CacheInvalidationTransport } from './cache-invalidation-bus';
 // Redis는 선택적 의존성으로 처리
 type Redis = any;
 declare const RedisConstructor: any;
@@ -11,6 +15,35 @@ export interface CacheLayer {
     ttl: number;
     strategy: CacheStrategy;
     storage: CacheStorage;
+    redis?: RedisConnectionOptions;
+}
+
+/**
+ * Redis 명령 중 캐시 레이어가 사용하는 부분 (ioredis 호환)
+ */
+export interface RedisClientLike {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+    del(...keys: string[]): Promise<number>;
+    keys(pattern: string): Promise<string[]>;
+    sadd(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    expire(key: string, seconds: number): Promise<number>;
+    flushdb(): Promise<unknown>;
+    quit(): Promise<unknown>;
+    info?(section: string): Promise<string>;
+}
+
+export interface RedisConnectionOptions {
+    /**
+     * 이미 생성된 ioredis 호환 client (공유 연결이나 테스트용 mock)
+     */
+    client?: RedisClientLike;
+    /**
+     * client가 없을 때 연결할 주소. 없으면 REDIS_HOST, REDIS_PORT 환경 변수를 사용
+     * @example 'redis://localhost:6379/0'
+     */
+    url?: string;
 }
 
 export type CacheStrategy = 'lru' | 'lfu' | 'fifo' | 'ttl' | 'adaptive';
@@ -41,6 +74,10 @@ export interface CacheOptions {
     encryption?: boolean;
     metrics?: boolean;
     invalidation?: InvalidationStrategy;
+    /**
+     * 다른 인스턴스와 무효화를 주고받는 채널. 받은 무효화는 메모리 레이어에 적용
+     */
+    invalidationBus?: CacheInvalidationTransport;
 }
 
 export interface InvalidationStrategy {
@@ -71,6 +108,8 @@ export interface CacheMetrics {
     overallHitRate: number;
     layers: CacheStats[];
     performance: PerformanceMetrics;
+    broadcastsSent: number;
+    broadcastsReceived: number;
 }
 
 export interface PerformanceMetrics {
@@ -91,6 +130,8 @@ export class MultiTierCache implements OnModuleDestroy {
     private layers: Map<string, CacheLayerInstance> = new Map();
     private metrics: CacheMetrics;
     private isInitialized = false;
+    private readonly instanceId = randomUUID();
+    private unsubscribe?: () => void;
 
     constructor(private readonly options: CacheOptions = {}) {
         this.initializeMetrics();
@@ -133,6 +174,10 @@ export class MultiTierCache implements OnModuleDestroy {
             this.layers.set(layerConfig.name, layer);
         }
 
+        if (this.options.invalidationBus) {
+            this.unsubscribe = await this.options.invalidationBus.subscribe((message) => this.receiveInvalidation(message));
+        }
+
         this.isInitialized = true;
         this.logger.log(`다층 캐시 시스템 초기화 완료: ${this.layers.size}개 레이어`);
     }
@@ -233,6 +278,7 @@ export class MultiTierCache implements OnModuleDestroy {
 
             const promises = layersToDelete.map(layer => layer.delete(key));
             await Promise.allSettled(promises);
+            await this.broadcastInvalidation('delete', key);
 
             this.updatePerformanceMetrics('delete', startTime);
             
@@ -250,6 +296,7 @@ export class MultiTierCache implements OnModuleDestroy {
         
         const promises = this.getSortedLayers().map(layer => layer.invalidateByTag(tag));
         await Promise.allSettled(promises);
+        await this.broadcastInvalidation('tag', tag);
     }
 
     /**
@@ -260,6 +307,7 @@ export class MultiTierCache implements OnModuleDestroy {
         
         const promises = this.getSortedLayers().map(layer => layer.invalidateByPattern(pattern));
         await Promise.allSettled(promises);
+        await this.broadcastInvalidation('pattern', pattern);
     }
 
     /**
@@ -335,12 +383,49 @@ export class MultiTierCache implements OnModuleDestroy {
      * 모듈 종료 시 정리
      */
     async onModuleDestroy(): Promise<void> {
+        this.unsubscribe?.();
         for (const layer of this.layers.values()) {
             await layer.close();
         }
         this.logger.log('다층 캐시 시스템 종료');
     }
 
+    /**
+     * 무효화를 다른 인스턴스에 전파. 전파에 실패해도 이 인스턴스의 무효화는 유지
+     */
+    private async broadcastInvalidation(type: CacheInvalidationMessage['type'], value: string): Promise<void> {
+        if (!this.options.invalidationBus) return;
+
+        try {
+            await this.options.invalidationBus.publish({ origin: this.instanceId, type, value });
+            this.metrics.broadcastsSent++;
+        } catch (error) {
+            this.logger.warn(`무효화 전파 실패: ${type} ${value}`, (error as Error).message);
+        }
+    }
+
+    /**
+     * 다른 인스턴스의 무효화를 메모리 레이어에 적용
+     * 공유 저장소(Redis 등)는 무효화한 인스턴스가 이미 반영했으므로 제외
+     */
+    private async receiveInvalidation({ origin, type, value }: CacheInvalidationMessage): Promise<void> {
+        if (origin === this.instanceId) return;
+        this.metrics.broadcastsReceived++;
+
+        const memoryLayers = this.getSortedLayers().filter(layer => layer.config.storage === 'memory');
+        const promises = memoryLayers.map(layer => {
+            switch (type) {
+                case 'delete':
+                    return layer.delete(value);
+                case 'tag':
+                    return layer.invalidateByTag(value);
+                case 'pattern':
+                    return layer.invalidateByPattern(value);
+            }
+        });
+        await Promise.allSettled(promises);
+    }
+
     /**
      * 캐시 레이어 생성
      */
@@ -415,7 +500,9 @@ export class MultiTierCache implements OnModuleDestroy {
                 maxGetTime: 0,
                 maxSetTime: 0,
                 maxDeleteTime: 0
-            }
+            },
+            broadcastsSent: 0,
+            broadcastsReceived: 0
         };
     }
 
@@ -674,26 +761,39 @@ class MemoryCacheLayer extends CacheLayerInstance {
 
 /**
  * Redis 캐시 레이어
+ * 태그마다 `cache-tag:<tag>` set에 키를 모아 두어 KEYS 없이 태그 기반 무효화를 수행
  */
 class RedisCacheLayer extends CacheLayerInstance {
     private redis: Redis;
+    private ownsClient: boolean;
     private stats: CacheStats;
 
     constructor(config: CacheLayer) {
         super(config);
+        this.redis = config.redis?.client ?? this.connect(config.redis?.url);
+        this.ownsClient = !config.redis?.client;
+        this.initializeStats();
+    }
+
+    private connect(url?: string): Redis {
         try {
             const Redis = require('ioredis');
-            this.redis = new Redis({
-                host: process.env.REDIS_HOST || 'localhost',
-                port: parseInt(process.env.REDIS_PORT || '6379'),
-                retryDelayOnFailover: 100,
-                maxRetriesPerRequest: 3
-            });
+            const options = { retryDelayOnFailover: 100, maxRetriesPerRequest: 3 };
+            return url
+                ? new Redis(url, options)
+                : new Redis({
+                    host: process.env.REDIS_HOST || 'localhost',
+                    port: parseInt(process.env.REDIS_PORT || '6379'),
+                    ...options
+                });
         } catch (error) {
             // Redis not available, use fallback
-            this.redis = null;
+            return null;
         }
-        this.initializeStats();
+    }
+
+    private tagKey(tag: string): string {
+        return `cache-tag:${tag}`;
     }
 
     async get<T>(key: string): Promise<CacheEntry<T> | null> {
@@ -708,10 +808,8 @@ class RedisCacheLayer extends CacheLayerInstance {
             const entry: CacheEntry<T> = JSON.parse(data);
             entry.accessCount++;
             entry.lastAccessed = Date.now();
-            
-            // 업데이트된 엔트리 저장
-            await this.redis.set(key, JSON.stringify(entry), 'EX', entry.ttl);
-            
+
+            // 다시 저장하면 TTL이 연장되므로 조회 정보는 Redis에 반영하지 않음
             this.stats.hits++;
             return entry;
             
@@ -724,6 +822,10 @@ class RedisCacheLayer extends CacheLayerInstance {
     async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
         try {
             await this.redis.set(key, JSON.stringify(entry), 'EX', entry.ttl);
+            for (const tag of entry.metadata.tags) {
+                await this.redis.sadd(this.tagKey(tag), key);
+                await this.redis.expire(this.tagKey(tag), entry.ttl);
+            }
             this.stats.size++;
         } catch (error) {
             // Redis 저장 실패 로깅
@@ -736,26 +838,9 @@ class RedisCacheLayer extends CacheLayerInstance {
     }
 
     async invalidateByTag(tag: string): Promise<void> {
-        const keys = await this.redis.keys('*');
-        const keysToDelete: string[] = [];
-        
-        for (const key of keys) {
-            try {
-                const data = await this.redis.get(key);
-                if (data) {
-                    const entry: CacheEntry = JSON.parse(data);
-                    if (entry.metadata.tags.includes(tag)) {
-                        keysToDelete.push(key);
-                    }
-                }
-            } catch (error) {
-                // 파싱 실패한 키는 건너뛰기
-            }
-        }
-        
-        if (keysToDelete.length > 0) {
-            await this.redis.del(...keysToDelete);
-        }
+        const keysToDelete: string[] = await this.redis.smembers(this.tagKey(tag));
+        await this.redis.del(...keysToDelete, this.tagKey(tag));
+        this.stats.size = Math.max(0, this.stats.size - keysToDelete.length);
     }
 
     async invalidateByPattern(pattern: string): Promise<void> {
@@ -788,7 +873,10 @@ class RedisCacheLayer extends CacheLayerInstance {
     }
 
     async close(): Promise<void> {
-        await this.redis.quit();
+        // 외부에서 전달받은 client는 호출한 쪽에서 종료
+        if (this.ownsClient) {
+            await this.redis?.quit();
+        }
     }
 
     private initializeStats(): void {
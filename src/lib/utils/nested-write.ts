@@ -0,0 +1,81 @@
+import _ from 'lodash';
+import { getMetadataArgsStorage } from 'typeorm';
+import { MetadataUtils } from 'typeorm/metadata-builder/MetadataUtils';
+
+import type { CrudNestedWrite, CrudNestedWriteOperation, EntityType } from '../interface';
+import type { ClassConstructor } from 'class-transformer';
+
+const OPERATIONS = new Set<string>(['connect', 'disconnect', 'create', 'update', 'delete'] satisfies CrudNestedWriteOperation[]);
+
+/**
+ * Nested writes of a body, keyed by relation
+ */
+export type CrudNestedWrites = Record<string, CrudNestedWrite>;
+
+/**
+ * Reads the nested writes (`{ connect, disconnect, create, update, delete }`) of the relations in request bodies
+ */
+export class NestedWrite {
+    /**
+     * Whether a value is a nested write: a plain object of nested write operations only
+     */
+    static isNestedWrite(value: unknown): value is CrudNestedWrite {
+        if (!_.isPlainObject(value)) {
+            return false;
+        }
+        const operations = Object.keys(value as Record<string, unknown>);
+        return operations.length > 0 && operations.every((operation) => OPERATIONS.has(operation));
+    }
+
+    /**
+     * Splits the nested writes of the relations from a body. The body is not changed; a copy without them is returned.
+     */
+    static split<B>(body: B, relations: string[]): { body: B; nestedWrites: CrudNestedWrites } {
+        if (!_.isObject(body) || Array.isArray(body)) {
+            return { body, nestedWrites: {} };
+        }
+        const nestedWrites = _.pickBy(_.pick(body, relations), (value) => this.isNestedWrite(value)) as CrudNestedWrites;
+        const relationNames = Object.keys(nestedWrites);
+        return { body: relationNames.length > 0 ? (_.omit(body, relationNames) as B) : body, nestedWrites };
+    }
+
+    /**
+     * Operations of a nested write
+     */
+    static operations(nestedWrite: CrudNestedWrite): CrudNestedWriteOperation[] {
+        return Object.keys(nestedWrite) as CrudNestedWriteOperation[];
+    }
+
+    /**
+     * Class of the related entity of a relation, also when the relation names its entity by string
+     */
+    static relatedEntity(entity: EntityType, propertyName: string): ClassConstructor<unknown> | undefined {
+        const storage = getMetadataArgsStorage();
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const inheritanceTree = MetadataUtils.getInheritanceTree(entity as Function);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const relation = storage.relations.find(({ target, propertyName: name }) => name === propertyName && inheritanceTree.includes(target as Function));
+        if (!relation) {
+            return;
+        }
+        if (typeof relation.type === 'function') {
+            return (relation.type as () => ClassConstructor<unknown>)();
+        }
+        const table = storage.tables.find(({ target, name }) => typeof target === 'function' && (target.name === relation.type || name === relation.type));
+        return table?.target as ClassConstructor<unknown> | undefined;
+    }
+
+    /**
+     * Primary key properties of an entity class
+     */
+    static primaryKeys(entity: ClassConstructor<unknown>): string[] {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+        const inheritanceTree = MetadataUtils.getInheritanceTree(entity as Function);
+        return (
+            getMetadataArgsStorage()
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+                .columns.filter(({ target, options }) => inheritanceTree.includes(target as Function) && options.primary)
+                .map(({ propertyName }) => propertyName)
+        );
+    }
+}
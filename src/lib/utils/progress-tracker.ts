@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Injectable } from '@nestjs/common';
-import { Response } from 'express';
+
+import { HttpPlatform } from './http-platform';
+
+import type { CrudHttpResponse } from './http-platform';
 
 /**
  * 진행 상황 추적 클래스
@@ -38,16 +41,19 @@ export class ProgressTracker {
 
     /**
      * 작업 진행 상황 업데이트
+     * increment가 숫자이면 그만큼 단계를 진행 (예: 배치에서 저장된 행 수)
      */
     static updateProgress(
         jobId: string,
         stepInfo: StepInfo,
-        increment: boolean = true
+        increment: boolean | number = true
     ): ProgressJob | null {
         const job = this.activeJobs.get(jobId);
         if (!job) return null;
 
-        if (increment) {
+        if (typeof increment === 'number') {
+            job.currentStep += increment;
+        } else if (increment) {
             job.currentStep++;
         }
 
@@ -136,38 +142,42 @@ export class ProgressTracker {
 
     /**
      * 실시간 진행 상황 스트리밍 (Server-Sent Events)
+     * Express response와 Fastify reply를 모두 받으며, Fastify reply는 hijack한 뒤 Node.js response에 직접 씀
      */
-    static streamProgress(jobId: string, response: Response): void {
+    static streamProgress(jobId: string, reply: CrudHttpResponse): void {
+        const response = HttpPlatform.rawResponse(reply);
         response.setHeader('Content-Type', 'text/event-stream');
         response.setHeader('Cache-Control', 'no-cache');
         response.setHeader('Connection', 'keep-alive');
         response.setHeader('Access-Control-Allow-Origin', '*');
 
-        const sendUpdate = () => {
+        // 완료 또는 실패한 작업은 마지막 상태를 보낸 뒤 스트림을 종료하고 true를 반환
+        const sendUpdate = (): boolean => {
             const job = this.getJob(jobId);
-            if (job) {
-                const data = JSON.stringify(job);
-                response.write(`data: ${data}\n\n`);
+            if (!job) {
+                response.end();
+                return true;
+            }
+            const data = JSON.stringify(job);
+            response.write(`data: ${data}\n\n`);
 
-                if (job.status === 'completed' || job.status === 'failed') {
-                    response.end();
-                    return;
-                }
+            if (job.status === 'completed' || job.status === 'failed') {
+                response.end();
+                return true;
             }
+            return false;
         };
 
         // 초기 상태 전송
-        sendUpdate();
+        if (sendUpdate()) {
+            return;
+        }
 
         // 주기적 업데이트 (실제 환경에서는 이벤트 기반으로 개선)
         const interval = setInterval(() => {
-            const job = this.getJob(jobId);
-            if (!job || job.status === 'completed' || job.status === 'failed') {
+            if (sendUpdate()) {
                 clearInterval(interval);
-                response.end();
-                return;
             }
-            sendUpdate();
         }, 1000);
 
         // 클라이언트 연결 해제 시 정리
@@ -0,0 +1,40 @@
+import type { CacheInvalidationHandler, CacheInvalidationMessage, CacheInvalidationTransport, RedisPubSubLike } from './cache-invalidation-bus';
+
+/**
+ * Transport over a Redis pub/sub channel.
+ * A connection in subscriber mode cannot publish, so it takes two clients, e.g. `redis` and `redis.duplicate()`.
+ */
+export class RedisInvalidationTransport implements CacheInvalidationTransport {
+    private subscribed?: Promise<unknown>;
+
+    constructor(
+        private readonly publisher: RedisPubSubLike,
+        private readonly subscriber: RedisPubSubLike,
+        private readonly channel: string = 'crud-cache:invalidation',
+    ) {}
+
+    async publish(message: CacheInvalidationMessage): Promise<void> {
+        await this.publisher.publish(this.channel, JSON.stringify(message));
+    }
+
+    async subscribe(handler: CacheInvalidationHandler): Promise<() => void> {
+        this.subscribed ??= this.subscriber.subscribe(this.channel);
+        await this.subscribed;
+
+        const listener = (channel: string, payload: string) => {
+            if (channel !== this.channel) return;
+            let message: CacheInvalidationMessage;
+            try {
+                message = JSON.parse(payload);
+            } catch {
+                // 다른 발행자의 잘못된 메시지는 무시
+                return;
+            }
+            void handler(message);
+        };
+        this.subscriber.on('message', listener);
+        return () => {
+            this.subscriber.removeListener('message', listener);
+        };
+    }
+}
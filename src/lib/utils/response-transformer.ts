@@ -78,7 +78,7 @@ export class ResponseTransformer {
             }
         } else {
             Object.assign(response, data);
-            this.addHalLinks(response, context);
+            return this.addHalLinks(response, context);
         }
 
         return response;
@@ -256,7 +256,7 @@ export class ResponseTransformer {
     ): JsonApiData<T> {
         const resource: JsonApiData<T> = {
             type: context?.type || 'resource',
-            id: this.extractId(item),
+            id: context?.id ? context.id(item) : this.extractId(item),
             attributes: this.extractAttributes(item, context?.excludeFromAttributes),
         };
 
@@ -343,8 +343,9 @@ export class ResponseTransformer {
         return ['default', 'json-api', 'hal', 'odata', 'graphql'].includes(format);
     }
 
-    private static extractId(item: any): string | number {
-        return item.id || item._id || item.uuid || '0';
+    private static extractId(item: any): string {
+        // JSON:API의 id는 문자열
+        return String(item.id ?? item._id ?? item.uuid ?? '0');
     }
 
     private static extractAttributes(
@@ -387,6 +388,11 @@ export class ResponseTransformer {
         data: any,
         config: RelationshipConfig
     ): any {
+        // 비어있는 to-one 관계
+        if (data === null) {
+            return null;
+        }
+
         if (Array.isArray(data)) {
             return data.map(item => ({
                 type: config.type,
@@ -423,6 +429,10 @@ export interface TransformationContext {
 
 export interface JsonApiContext extends TransformationContext {
     type?: string;
+    /**
+     * id of a resource, `id`, `_id` or `uuid` of the item by default
+     */
+    id?: (item: any) => string;
     meta?: any;
     links?: any;
     included?: any[];
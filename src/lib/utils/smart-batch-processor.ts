@@ -185,7 +185,20 @@ export class SmartBatchProcessor<T extends ObjectLiteral = any> {
             const batchItems = items.slice(batchStart, batchEnd);
 
             try {
-                const batchResults = await this.repository.save(batchItems as any);
+                let savedItems = batchItems;
+                if (options?.upsertKeys && options.upsertKeys.length > 0) {
+                    const conflicts = await this.assignExistingPrimaryKeys(batchItems, options.upsertKeys, options.upsertScope);
+                    if (conflicts.length > 0) {
+                        result.errors.push({
+                            batchIndex: i,
+                            error: new Error(`Row matches an existing entity by ${options.upsertKeys.join(', ')} which cannot be updated`),
+                            affectedItems: conflicts,
+                        });
+                        result.failureCount += conflicts.length;
+                        savedItems = batchItems.filter((item) => !conflicts.includes(item));
+                    }
+                }
+                const batchResults = await this.repository.save(savedItems as any);
                 result.results.push(...batchResults);
                 result.successCount += batchResults.length;
 
@@ -330,6 +343,49 @@ export class SmartBatchProcessor<T extends ObjectLiteral = any> {
         return results;
     }
 
+    /**
+     * 키 컬럼이 일치하는 기존 엔티티의 primary key를 할당하여 save가 insert 대신 update하도록 함 (upsert by key).
+     * scope 밖의 엔티티와 키가 일치하는 항목은 갱신하지 않고 충돌로 반환
+     */
+    private async assignExistingPrimaryKeys(
+        items: Array<Partial<T>>,
+        keys: string[],
+        scope?: Record<string, unknown>,
+    ): Promise<Array<Partial<T>>> {
+        const keyed = items.filter((item) => keys.every((key) => (item as any)[key] !== undefined && (item as any)[key] !== null));
+        if (keyed.length === 0) {
+            return [];
+        }
+
+        const primaryColumns = this.repository.metadata.primaryColumns;
+        const keyValuesOf = (item: Partial<T>) => Object.fromEntries(keys.map((key) => [key, (item as any)[key]]));
+        const findByKeys = (candidates: Array<Partial<T>>, conditions?: Record<string, unknown>) =>
+            this.repository.find({
+                select: [...primaryColumns.map((column) => column.propertyPath), ...keys] as any,
+                where: candidates.map((item) => ({ ...keyValuesOf(item), ...conditions })) as any,
+            });
+        const keyOf = (entity: any) => JSON.stringify(keys.map((key) => entity[key]));
+
+        const existingByKey = new Map((await findByKeys(keyed, scope)).map((entity) => [keyOf(entity), entity]));
+        const unmatched: Array<Partial<T>> = [];
+        for (const item of keyed) {
+            const match = existingByKey.get(keyOf(item));
+            if (!match) {
+                unmatched.push(item);
+                continue;
+            }
+            for (const column of primaryColumns) {
+                column.setEntityValue(item, column.getEntityValue(match));
+            }
+        }
+
+        if (!scope || unmatched.length === 0) {
+            return [];
+        }
+        const outOfScopeKeys = new Set((await findByKeys(unmatched)).map((entity) => keyOf(entity)));
+        return unmatched.filter((item) => outOfScopeKeys.has(keyOf(item)));
+    }
+
     private async processBatchUpdates(
         updates: Array<{ id: any; data: Partial<T> }>,
         batchSize: number,
@@ -553,6 +609,8 @@ export interface SmartBatchOptions {
     softDelete?: boolean;
     optimistic?: boolean;
     cascade?: string[];
+    upsertKeys?: string[]; // createBatchWithProgress: rows matching an existing entity by these columns update it
+    upsertScope?: Record<string, unknown>; // conditions an entity matched by upsertKeys must satisfy; rows matching an entity outside of them fail
 }
 
 export interface BatchResult<T> {
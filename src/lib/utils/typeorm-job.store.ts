@@ -0,0 +1,38 @@
+import { CrudJobRecord } from './crud-job-record';
+
+import type { CrudJob, CrudJobStore } from '../interface';
+import type { DataSource, EntityManager, EntityTarget, Repository } from 'typeorm';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+
+/**
+ * Job store of a TypeORM table, which keeps the jobs across restarts and shares them between instances
+ *
+ * @example
+ * @Crud({ entity: User, jobs: { store: new TypeOrmJobStore(dataSource) } })
+ */
+export class TypeOrmJobStore implements CrudJobStore {
+    constructor(
+        private readonly connection: DataSource | EntityManager,
+        private readonly entity: EntityTarget<CrudJobRecord> = CrudJobRecord,
+    ) {}
+
+    private get repository(): Repository<CrudJobRecord> {
+        return this.connection.getRepository(this.entity);
+    }
+
+    async create(job: CrudJob): Promise<void> {
+        await this.repository.insert(job as QueryDeepPartialEntity<CrudJobRecord>);
+    }
+
+    async get(id: string): Promise<CrudJob | undefined> {
+        return (await this.repository.findOneBy({ id })) ?? undefined;
+    }
+
+    async update(id: string, changes: Partial<Omit<CrudJob, 'id'>>): Promise<void> {
+        await this.repository.update(id, changes as QueryDeepPartialEntity<CrudJobRecord>);
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.repository.delete(id);
+    }
+}
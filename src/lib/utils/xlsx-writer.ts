@@ -0,0 +1,202 @@
+import { once } from 'events';
+import { createDeflateRaw } from 'zlib';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_value, index) => {
+    let crc = index;
+    for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 1 ? 0xED_B8_83_20 ^ (crc >>> 1) : crc >>> 1;
+    }
+    return crc >>> 0;
+});
+
+const crc32 = (crc: number, data: Buffer): number => {
+    let value = ~crc;
+    for (const byte of data) {
+        value = CRC_TABLE[(value ^ byte) & 0xFF] ^ (value >>> 8);
+    }
+    return ~value >>> 0;
+};
+
+/**
+ * General purpose flags: sizes and crc in a data descriptor after the data (bit 3), UTF-8 names (bit 11)
+ */
+const ZIP_FLAGS = 0x08_08;
+const DEFLATE = 8;
+
+interface ZipEntry {
+    name: Buffer;
+    offset: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+}
+
+const dosDateTime = (date: Date): [time: number, day: number] => [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// XML 1.0에서 허용되지 않는 제어 문자
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (value: string): string =>
+    value.replace(INVALID_XML_CHARACTERS, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Column letters of a zero-based column index, e.g. 0 → A, 27 → AB
+ */
+const columnName = (index: number): string => {
+    let name = '';
+    for (let column = index + 1; column > 0; column = Math.floor((column - 1) / 26)) {
+        name = String.fromCharCode(65 + ((column - 1) % 26)) + name;
+    }
+    return name;
+};
+
+const cell = (value: unknown, reference: string): string => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+    }
+    if (typeof value === 'boolean') {
+        return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const row = (values: unknown[], rowNumber: number): string =>
+    `<row r="${rowNumber}">${values.map((value, index) => cell(value, `${columnName(index)}${rowNumber}`)).join('')}</row>`;
+
+/**
+ * Streaming writer of a single sheet XLSX workbook.
+ * The sheet is deflated into the ZIP container while the rows are read, so the workbook is never held in memory.
+ * Cells are written as inline strings, numbers and booleans without styles; dates are ISO 8601 strings.
+ */
+export class XlsxWriter {
+    /**
+     * Bytes of the workbook with the header row followed by the rows
+     */
+    static async *write(header: string[], rows: AsyncIterable<unknown[][]>, sheetName = 'Sheet1'): AsyncGenerator<Buffer> {
+        const entries: ZipEntry[] = [];
+        let offset = 0;
+        const [time, day] = dosDateTime(new Date());
+
+        const writeEntry = async function* (name: string, content: AsyncIterable<string> | Iterable<string>): AsyncGenerator<Buffer> {
+            const entry: ZipEntry = { name: Buffer.from(name), offset, crc: 0, compressedSize: 0, size: 0 };
+            const localHeader = Buffer.alloc(30);
+            localHeader.writeUInt32LE(0x04_03_4B_50, 0);
+            localHeader.writeUInt16LE(20, 4);
+            localHeader.writeUInt16LE(ZIP_FLAGS, 6);
+            localHeader.writeUInt16LE(DEFLATE, 8);
+            localHeader.writeUInt16LE(time, 10);
+            localHeader.writeUInt16LE(day, 12);
+            localHeader.writeUInt16LE(entry.name.length, 26);
+            yield localHeader;
+            yield entry.name;
+
+            const deflate = createDeflateRaw();
+            const feed = (async () => {
+                for await (const part of content) {
+                    const data = Buffer.from(part);
+                    entry.crc = crc32(entry.crc, data);
+                    entry.size += data.length;
+                    if (!deflate.write(data)) {
+                        await once(deflate, 'drain');
+                    }
+                }
+                deflate.end();
+            })().catch((error: Error) => deflate.destroy(error));
+
+            for await (const compressed of deflate) {
+                entry.compressedSize += (compressed as Buffer).length;
+                yield compressed as Buffer;
+            }
+            await feed;
+
+            const descriptor = Buffer.alloc(16);
+            descriptor.writeUInt32LE(0x08_07_4B_50, 0);
+            descriptor.writeUInt32LE(entry.crc, 4);
+            descriptor.writeUInt32LE(entry.compressedSize, 8);
+            descriptor.writeUInt32LE(entry.size, 12);
+            yield descriptor;
+
+            offset += localHeader.length + entry.name.length + entry.compressedSize + descriptor.length;
+            entries.push(entry);
+        };
+
+        const sheetRows = async function* (): AsyncGenerator<string> {
+            yield `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>`;
+            let rowNumber = 1;
+            yield row(header, rowNumber);
+            for await (const chunk of rows) {
+                yield chunk.map((values) => row(values, ++rowNumber)).join('');
+            }
+            yield '</sheetData></worksheet>';
+        };
+
+        yield* writeEntry('[Content_Types].xml', [
+            `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`,
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+            '<Default Extension="xml" ContentType="application/xml"/>',
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>',
+            '</Types>',
+        ]);
+        yield* writeEntry('_rels/.rels', [
+            `${XML_HEADER}<Relationships xmlns="${RELATIONSHIP_NS}">`,
+            `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>`,
+            '</Relationships>',
+        ]);
+        yield* writeEntry('xl/workbook.xml', [
+            `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}">`,
+            // 시트 이름은 31자까지, []:*?/\ 문자는 사용할 수 없음
+            `<sheets><sheet name="${escapeXml(sheetName.replace(/[*/:?[\\\]]/g, '_').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`,
+            '</workbook>',
+        ]);
+        yield* writeEntry('xl/_rels/workbook.xml.rels', [
+            `${XML_HEADER}<Relationships xmlns="${RELATIONSHIP_NS}">`,
+            `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>`,
+            '</Relationships>',
+        ]);
+        yield* writeEntry('xl/worksheets/sheet1.xml', sheetRows());
+
+        // central directory
+        const centralDirectoryOffset = offset;
+        let centralDirectorySize = 0;
+        for (const entry of entries) {
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02_01_4B_50, 0);
+            header.writeUInt16LE(20, 4);
+            header.writeUInt16LE(20, 6);
+            header.writeUInt16LE(ZIP_FLAGS, 8);
+            header.writeUInt16LE(DEFLATE, 10);
+            header.writeUInt16LE(time, 12);
+            header.writeUInt16LE(day, 14);
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.compressedSize, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(entry.name.length, 28);
+            header.writeUInt32LE(entry.offset, 42);
+            centralDirectorySize += header.length + entry.name.length;
+            yield header;
+            yield entry.name;
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06_05_4B_50, 0);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralDirectorySize, 12);
+        end.writeUInt32LE(centralDirectoryOffset, 16);
+        yield end;
+    }
+}
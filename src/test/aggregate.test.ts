@@ -0,0 +1,173 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { QueryParser } from '../lib/provider/query-parser';
+
+/**
+ * 집계(aggregate) 라우트 테스트를 위한 엔티티
+ */
+@Entity('test_aggregate_orders')
+class Order {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    status!: string;
+
+    @Column()
+    category!: string;
+
+    @Column()
+    price!: number;
+
+    @Column()
+    cost!: number;
+}
+
+@Controller('test_aggregate_orders')
+@Crud({
+    entity: Order,
+    allowedFilters: ['status', 'category'],
+    routes: {
+        aggregate: {
+            allowedGroups: ['status', 'category'],
+            allowedAggregates: ['price'],
+        },
+    },
+})
+class OrderController {
+    constructor(public readonly crudService: CrudService<Order>) {}
+}
+
+@Controller('test_aggregate_plain_orders')
+@Crud({
+    entity: Order,
+})
+class PlainOrderController {
+    constructor(public readonly crudService: CrudService<Order>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Order])],
+    controllers: [OrderController, PlainOrderController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['OrderRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Aggregate route: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Order],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const repository = module.get(CrudService).repository;
+        await repository.save([
+            { status: 'paid', category: 'book', price: 10, cost: 1 },
+            { status: 'paid', category: 'book', price: 20, cost: 2 },
+            { status: 'paid', category: 'food', price: 5, cost: 3 },
+            { status: 'refunded', category: 'book', price: 40, cost: 4 },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('QueryParser는 허용된 집계와 그룹만 파싱해야 함', () => {
+        const parser = new QueryParser({ allowedAggregates: ['price'], allowedGroups: ['status'] });
+
+        const parsed = parser.parse({
+            'aggregate[sum]': 'price,cost',
+            'aggregate[count]': '*',
+            'aggregate[median]': 'price',
+            'group[]': ['status', 'category'],
+        });
+
+        expect(parsed.aggregates).toEqual([
+            { function: 'sum', field: 'price' },
+            { function: 'count', field: '*' },
+        ]);
+        expect(parsed.groups).toEqual(['status']);
+    });
+
+    it('그룹별 합계와 행 수를 반환해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_aggregate_orders/aggregate')
+            .query({ 'aggregate[sum]': 'price', 'aggregate[count]': '*', 'group[]': 'status' })
+            .expect(200);
+
+        expect(response.body.data).toEqual([
+            { group: { status: 'paid' }, sum: { price: 35 }, count: { '*': 3 } },
+            { group: { status: 'refunded' }, sum: { price: 40 }, count: { '*': 1 } },
+        ]);
+    });
+
+    it('여러 컬럼으로 그룹화하고 avg/min/max를 계산해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_aggregate_orders/aggregate')
+            .query({
+                'aggregate[avg]': 'price',
+                'aggregate[min]': 'price',
+                'aggregate[max]': 'price',
+                'group[]': ['status', 'category'],
+            })
+            .expect(200);
+
+        expect(response.body.data).toEqual([
+            { group: { status: 'paid', category: 'book' }, avg: { price: 15 }, min: { price: 10 }, max: { price: 20 } },
+            { group: { status: 'paid', category: 'food' }, avg: { price: 5 }, min: { price: 5 }, max: { price: 5 } },
+            { group: { status: 'refunded', category: 'book' }, avg: { price: 40 }, min: { price: 40 }, max: { price: 40 } },
+        ]);
+    });
+
+    it('filter[...]를 적용하고 집계 항목이 없으면 행 수를 반환해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_aggregate_orders/aggregate')
+            .query({ 'filter[category_eq]': 'book' })
+            .expect(200);
+
+        expect(response.body.data).toEqual([{ group: {}, count: { '*': 3 } }]);
+    });
+
+    it('허용되지 않은 컬럼은 집계하지 않아야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_aggregate_orders/aggregate')
+            .query({ 'aggregate[sum]': 'cost', 'group[]': 'id' })
+            .expect(200);
+
+        expect(response.body.data).toEqual([{ group: {}, count: { '*': 4 } }]);
+    });
+
+    it('aggregate 라우트는 설정한 경우에만 생성되어야 함', async () => {
+        // 설정하지 않으면 /aggregate는 show 라우트(/:id)로 처리됨
+        await request(app.getHttpServer()).get('/test_aggregate_plain_orders/aggregate').expect(404);
+        await request(app.getHttpServer()).get('/test_aggregate_orders/1').expect(200);
+    });
+});
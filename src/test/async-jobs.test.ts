@@ -0,0 +1,299 @@
+import { Controller, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsEmail, IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CrudJobRecord } from '../lib/utils/crud-job-record';
+import { MemoryJobStore } from '../lib/utils/memory-job.store';
+import { TypeOrmJobStore } from '../lib/utils/typeorm-job.store';
+
+import type { CrudJob, CrudJobStore } from '../lib/interface';
+
+/**
+ * 비동기 작업 테스트를 위한 엔티티
+ */
+@Entity('test_job_members')
+class Member {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    name!: string;
+
+    @Column({ unique: true })
+    @IsEmail()
+    email!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsString()
+    tenantId?: string;
+}
+
+const memoryStore = new MemoryJobStore();
+const tableStore: { current?: CrudJobStore } = {};
+
+/**
+ * TypeOrmJobStore는 DataSource가 만들어진 뒤에 연결
+ */
+const lazyTableStore: CrudJobStore = {
+    create: (job) => tableStore.current!.create(job),
+    get: (id) => tableStore.current!.get(id),
+    update: (id, changes) => tableStore.current!.update(id, changes),
+    delete: (id) => tableStore.current!.delete(id),
+};
+
+@Controller('test_job_members')
+@Crud({
+    entity: Member,
+    jobs: { store: memoryStore, batchSize: 2, staleAfter: 1000 },
+})
+class MemberController {
+    constructor(public readonly crudService: CrudService<Member>) {}
+}
+
+@Controller('test_job_table_members')
+@Crud({
+    entity: Member,
+    only: ['create'],
+    jobs: { store: lazyTableStore, methods: ['create'] },
+})
+class TableMemberController {
+    constructor(public readonly crudService: CrudService<Member>) {}
+}
+
+@Controller('test_job_tenant_members')
+@Crud({
+    entity: Member,
+    only: ['create'],
+    tenant: { column: 'tenantId', resolver: { header: 'x-tenant-id' } },
+    jobs: { store: memoryStore, methods: ['create'], user: (request: { headers: Record<string, string> }) => request.headers['x-user-id'] },
+})
+class TenantMemberController {
+    constructor(public readonly crudService: CrudService<Member>) {}
+}
+
+@Controller('test_job_plain_members')
+@Crud({ entity: Member })
+class PlainMemberController {
+    constructor(public readonly crudService: CrudService<Member>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Member])],
+    controllers: [MemberController, TableMemberController, TenantMemberController, PlainMemberController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['MemberRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Async jobs: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Member>;
+
+    /**
+     * Polls the job until it is finished
+     */
+    const waitForJob = async (location: string): Promise<CrudJob> => {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const { body } = await request(app.getHttpServer()).get(location).expect(HttpStatus.OK);
+            if (body.data.status !== 'pending' && body.data.status !== 'running') {
+                return body.data;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error(`${location} is not finished`);
+    };
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Member, CrudJobRecord],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        service = module.get(CrudService);
+        tableStore.current = new TypeOrmJobStore(module.get(DataSource));
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('Prefer: respond-async인 bulk create는 202와 job 위치를 응답하고 저장 결과와 항목별 오류를 기록해야 함', async () => {
+        await service.repository.save({ name: 'Existing', email: 'existing@example.com' });
+
+        const response = await request(app.getHttpServer())
+            .post('/test_job_members')
+            .set('Prefer', 'respond-async')
+            .send([
+                { name: 'Alice', email: 'alice@example.com' },
+                { name: 'Bob', email: 'bob@example.com' },
+                { name: 'Copy', email: 'existing@example.com' },
+                { name: 'Carol', email: 'carol@example.com' },
+                { name: 'Dave', email: 'dave@example.com' },
+            ])
+            .expect(HttpStatus.ACCEPTED);
+
+        const { data } = response.body;
+        expect(response.headers['preference-applied']).toBe('respond-async');
+        expect(response.headers.location).toBe(`/test_job_members/jobs/${data.id}`);
+        expect(data).toMatchObject({ entityName: 'Member', method: 'create', status: 'pending', total: 5, processed: 0 });
+
+        const job = await waitForJob(response.headers.location);
+        expect(job).toMatchObject({ status: 'completed', total: 5, processed: 5, error: null });
+        expect(job.completedAt).toEqual(expect.any(String));
+        expect(job.errors).toEqual([{ index: 2, message: expect.stringContaining('UNIQUE') }]);
+        expect((job.results as Member[]).map(({ name }) => name)).toEqual(['Alice', 'Bob', 'Carol', 'Dave']);
+
+        // 실패한 배치의 나머지 항목은 한 번만 저장
+        await expect(service.repository.countBy({ email: 'carol@example.com' })).resolves.toBe(1);
+        await expect(service.repository.countBy({ email: 'existing@example.com' })).resolves.toBe(1);
+    });
+
+    it('bulk update도 job으로 실행할 수 있어야 함', async () => {
+        const members = await service.repository.findBy([{ email: 'alice@example.com' }, { email: 'bob@example.com' }]);
+
+        const response = await request(app.getHttpServer())
+            .patch('/test_job_members/bulk')
+            .set('Prefer', 'respond-async, wait=10')
+            .send(members.map(({ id }) => ({ id, name: `Updated ${id}` })))
+            .expect(HttpStatus.ACCEPTED);
+
+        const job = await waitForJob(response.headers.location);
+        expect(job).toMatchObject({ method: 'update', status: 'completed', processed: 2, errors: [] });
+        const updated = await service.repository.findBy([{ email: 'alice@example.com' }, { email: 'bob@example.com' }]);
+        expect(updated.map(({ id, name }) => name === `Updated ${id}`)).toEqual([true, true]);
+    });
+
+    it('Prefer 헤더가 없거나 jobs를 설정하지 않은 controller는 동기적으로 응답해야 함', async () => {
+        const { body } = await request(app.getHttpServer())
+            .post('/test_job_members')
+            .send([{ name: 'Erin', email: 'erin@example.com' }])
+            .expect(HttpStatus.CREATED);
+        expect(body.data).toEqual([expect.objectContaining({ name: 'Erin' })]);
+
+        await request(app.getHttpServer())
+            .post('/test_job_plain_members')
+            .set('Prefer', 'respond-async')
+            .send([{ name: 'Frank', email: 'frank@example.com' }])
+            .expect(HttpStatus.CREATED);
+        await request(app.getHttpServer()).get('/test_job_plain_members/jobs/unknown').expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('DELETE는 job을 삭제하고 끝나지 않은 job은 cancelled로 응답해야 함', async () => {
+        const now = new Date();
+        await memoryStore.create({
+            id: 'pending-job',
+            entityName: 'Member',
+            owner: { scope: null, user: null },
+            method: 'create',
+            status: 'pending',
+            total: 1,
+            processed: 0,
+            results: [],
+            errors: [],
+            error: null,
+            createdAt: now,
+            updatedAt: now,
+            completedAt: null,
+        });
+
+        const { body } = await request(app.getHttpServer()).delete('/test_job_members/jobs/pending-job').expect(HttpStatus.OK);
+        expect(body.data).toMatchObject({ id: 'pending-job', status: 'cancelled' });
+        await expect(memoryStore.get('pending-job')).resolves.toBeUndefined();
+        await request(app.getHttpServer()).get('/test_job_members/jobs/pending-job').expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('staleAfter 동안 갱신되지 않은 running job은 재시작으로 중단된 것으로 보고 failed로 표시해야 함', async () => {
+        const before = new Date(Date.now() - 5000);
+        await memoryStore.create({
+            id: 'stale-job',
+            entityName: 'Member',
+            owner: { scope: null, user: null },
+            method: 'update',
+            status: 'running',
+            total: 10,
+            processed: 4,
+            results: [],
+            errors: [],
+            error: null,
+            createdAt: before,
+            updatedAt: before,
+            completedAt: null,
+        });
+
+        const { body } = await request(app.getHttpServer()).get('/test_job_members/jobs/stale-job').expect(HttpStatus.OK);
+        expect(body.data).toMatchObject({ status: 'failed', processed: 4, error: 'Job was interrupted before it finished' });
+        await expect(memoryStore.get('stale-job')).resolves.toMatchObject({ status: 'failed' });
+    });
+
+    it('TypeOrmJobStore는 job을 테이블에 저장해야 하고 다른 엔티티의 job은 찾을 수 없어야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .post('/test_job_table_members')
+            .set('Prefer', 'respond-async')
+            .send([{ name: 'Grace', email: 'grace@example.com' }])
+            .expect(HttpStatus.ACCEPTED);
+        expect(response.headers.location).toBe(`/test_job_table_members/jobs/${response.body.data.id}`);
+
+        const job = await waitForJob(response.headers.location);
+        expect(job).toMatchObject({ status: 'completed', processed: 1, results: [expect.objectContaining({ name: 'Grace' })] });
+
+        const record = await module.get(DataSource).getRepository(CrudJobRecord).findOneByOrFail({ id: job.id });
+        expect(record).toMatchObject({ entityName: 'Member', status: 'completed' });
+        expect(record.completedAt).toBeInstanceOf(Date);
+
+        await tableStore.current!.update(job.id, { entityName: 'Other' });
+        await request(app.getHttpServer()).get(response.headers.location).expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('다른 tenant나 다른 사용자는 job을 조회하거나 삭제할 수 없어야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .post('/test_job_tenant_members')
+            .set('Prefer', 'respond-async')
+            .set('x-tenant-id', 'a')
+            .set('x-user-id', '1')
+            .send([{ name: 'Heidi', email: 'heidi@example.com' }])
+            .expect(HttpStatus.ACCEPTED);
+        const { location } = response.headers;
+        expect(response.body.data.owner).toEqual({ scope: { tenantId: 'a' }, user: '1' });
+
+        const read = (tenantId: string, userId: string) =>
+            request(app.getHttpServer()).get(location).set('x-tenant-id', tenantId).set('x-user-id', userId);
+        await read('b', '1').expect(HttpStatus.NOT_FOUND);
+        await read('a', '2').expect(HttpStatus.NOT_FOUND);
+        await request(app.getHttpServer()).delete(location).set('x-tenant-id', 'b').set('x-user-id', '1').expect(HttpStatus.NOT_FOUND);
+
+        const { body } = await read('a', '1').expect(HttpStatus.OK);
+        expect(body.data).toMatchObject({ id: response.body.data.id, method: 'create' });
+        await expect(memoryStore.get(response.body.data.id)).resolves.toBeDefined();
+    });
+
+    it('jobs를 설정하지 않으면 job route가 생성되지 않아야 함', () => {
+        const plain = PlainMemberController.prototype as unknown as Record<string, unknown>;
+        expect(plain.reservedJobShow).toBeUndefined();
+        expect(plain.reservedJobDestroy).toBeUndefined();
+        expect((TableMemberController.prototype as unknown as Record<string, unknown>).reservedJobShow).toBeDefined();
+    });
+});
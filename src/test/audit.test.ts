@@ -0,0 +1,260 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, DeleteDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CrudAuditLog } from '../lib/utils/crud-audit-log';
+
+import type { AuditRecord } from '../lib/interface';
+import type { NextFunction, Request } from 'express';
+
+/**
+ * 감사 기록 테스트를 위한 엔티티
+ */
+@Entity('test_audit_customers')
+class Customer {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    name!: string;
+
+    @Column({ default: '' })
+    @IsString()
+    @IsOptional()
+    email!: string;
+
+    @Column({ default: '' })
+    @IsString()
+    @IsOptional()
+    secret!: string;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
+
+const callbackRecords: AuditRecord[] = [];
+
+@Controller('test_audit_customers')
+@Crud({
+    entity: Customer,
+    allowedParams: ['name', 'email', 'secret'],
+    audit: { entity: CrudAuditLog, exclude: ['secret'] },
+    routes: {
+        destroy: { softDelete: true },
+        history: { numberOfTake: 10 },
+    },
+})
+class CustomerController {
+    constructor(public readonly crudService: CrudService<Customer>) {}
+}
+
+@Controller('test_audit_callback_customers')
+@Crud({
+    entity: Customer,
+    only: ['create', 'destroy'],
+    allowedParams: ['name'],
+    audit: {
+        callback: (record) => {
+            callbackRecords.push(record);
+        },
+        actor: (req: Request) => req.headers['x-service'],
+    },
+})
+class CallbackCustomerController {
+    constructor(public readonly crudService: CrudService<Customer>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Customer, CrudAuditLog])],
+    controllers: [CustomerController, CallbackCustomerController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['CustomerRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('Audit trail', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Customer>;
+
+    const auditLogs = () => service.repository.manager.getRepository(CrudAuditLog).find({ order: { id: 'ASC' } });
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Customer, CrudAuditLog],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        // 인증 가드가 req.user를 채우는 것을 흉내냄
+        app.use((req: Request & { user?: unknown }, _res: unknown, next: NextFunction) => {
+            if (req.headers['x-user-id']) {
+                req.user = { id: Number(req.headers['x-user-id']) };
+            }
+            next();
+        });
+        await app.init();
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        await service.repository.manager.getRepository(CrudAuditLog).clear();
+        callbackRecords.length = 0;
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('audit table', () => {
+        it('생성한 엔티티의 값을 호출자와 함께 기록해야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/test_audit_customers')
+                .set('x-user-id', '7')
+                .send({ name: 'kim', email: 'kim@example.com', secret: 'hidden' })
+                .expect(201);
+
+            const [log] = await auditLogs();
+            expect(log).toEqual(
+                expect.objectContaining({
+                    entityName: 'test_audit_customers',
+                    entityId: String(response.body.data.id),
+                    operation: 'create',
+                    actor: '7',
+                }),
+            );
+            expect(log.changes).toEqual(
+                expect.arrayContaining([
+                    { field: 'id', before: null, after: response.body.data.id },
+                    { field: 'name', before: null, after: 'kim' },
+                    { field: 'email', before: null, after: 'kim@example.com' },
+                ]),
+            );
+            expect(log.changes.map(({ field }) => field)).not.toContain('secret');
+        });
+
+        it('수정된 필드의 변경 전후 값만 기록하고 변경이 없으면 기록하지 않아야 함', async () => {
+            const customer = await service.repository.save({ name: 'kim', email: 'kim@example.com' });
+
+            await request(app.getHttpServer()).patch(`/test_audit_customers/${customer.id}`).send({ name: 'lee', secret: 'changed' }).expect(200);
+            await request(app.getHttpServer()).patch(`/test_audit_customers/${customer.id}`).send({ name: 'lee' }).expect(200);
+
+            const logs = await auditLogs();
+            expect(logs).toHaveLength(1);
+            expect(logs[0]).toEqual(
+                expect.objectContaining({
+                    operation: 'update',
+                    actor: null,
+                    changes: [{ field: 'name', before: 'kim', after: 'lee' }],
+                }),
+            );
+        });
+
+        it('여러 건 수정과 upsert를 엔티티마다 기록해야 함', async () => {
+            const [first, second] = await service.repository.save([{ name: 'first' }, { name: 'second' }]);
+
+            await request(app.getHttpServer())
+                .patch('/test_audit_customers/bulk')
+                .send([
+                    { id: first.id, name: 'renamed' },
+                    { id: second.id, email: 'second@example.com' },
+                ])
+                .expect(200);
+            await request(app.getHttpServer()).put('/test_audit_customers/100').send({ name: 'upserted' }).expect(200);
+
+            const logs = await auditLogs();
+            expect(logs.map(({ entityId, operation }) => [entityId, operation])).toEqual([
+                [String(first.id), 'update'],
+                [String(second.id), 'update'],
+                ['100', 'upsert'],
+            ]);
+            expect(logs[1].changes).toEqual([{ field: 'email', before: '', after: 'second@example.com' }]);
+        });
+
+        it('soft delete와 복구를 deletedAt의 변경으로 기록해야 함', async () => {
+            const customer = await service.repository.save({ name: 'kim' });
+
+            await request(app.getHttpServer()).delete(`/test_audit_customers/${customer.id}`).expect(200);
+            await request(app.getHttpServer()).post(`/test_audit_customers/${customer.id}/recover`).expect(201);
+
+            const [destroyed, recovered] = await auditLogs();
+            expect(destroyed.operation).toBe('destroy');
+            expect(destroyed.changes).toEqual([{ field: 'deletedAt', before: null, after: expect.any(String) }]);
+            expect(recovered.operation).toBe('recover');
+            expect(recovered.changes).toEqual([{ field: 'deletedAt', before: destroyed.changes[0].after, after: null }]);
+        });
+    });
+
+    describe('callback', () => {
+        it('사용자 정의 sink로 기록을 전달해야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/test_audit_callback_customers')
+                .set('x-service', 'billing')
+                .send({ name: 'kim' })
+                .expect(201);
+            await request(app.getHttpServer()).delete(`/test_audit_callback_customers/${response.body.data.id}`).expect(200);
+
+            expect(callbackRecords.map(({ operation, actor }) => [operation, actor])).toEqual([
+                ['create', 'billing'],
+                ['destroy', null],
+            ]);
+            // hard delete는 모든 값이 null로 바뀐 것으로 기록
+            expect(callbackRecords[1].entityId).toBe(String(response.body.data.id));
+            expect(callbackRecords[1].changes).toEqual(expect.arrayContaining([{ field: 'name', before: 'kim', after: null }]));
+            expect(await auditLogs()).toHaveLength(0);
+        });
+    });
+
+    describe('history', () => {
+        it('엔티티의 기록을 최신순으로 페이지네이션해야 함', async () => {
+            const customer = await service.repository.save({ name: 'v0' });
+            for (const name of ['v1', 'v2', 'v3']) {
+                await request(app.getHttpServer()).patch(`/test_audit_customers/${customer.id}`).send({ name }).expect(200);
+            }
+            const other = await service.repository.save({ name: 'other' });
+            await request(app.getHttpServer()).patch(`/test_audit_customers/${other.id}`).send({ name: 'changed' }).expect(200);
+
+            const response = await request(app.getHttpServer())
+                .get(`/test_audit_customers/${customer.id}/history`)
+                .query({ 'page[number]': 1, 'page[size]': 2 })
+                .expect(200);
+
+            expect(response.body.data.map(({ changes }: CrudAuditLog) => changes[0].after)).toEqual(['v3', 'v2']);
+            expect(response.body.metadata.pagination).toEqual(expect.objectContaining({ type: 'offset', total: 3, page: 1, pages: 2 }));
+
+            const secondPage = await request(app.getHttpServer())
+                .get(`/test_audit_customers/${customer.id}/history`)
+                .query({ 'page[number]': 2, 'page[size]': 2 })
+                .expect(200);
+
+            expect(secondPage.body.data.map(({ changes }: CrudAuditLog) => changes[0].after)).toEqual(['v1']);
+        });
+
+        it('history route는 opt-in이어야 함', async () => {
+            await request(app.getHttpServer()).get('/test_audit_callback_customers/1/history').expect(404);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, DeleteDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * 필터 기반 일괄 수정/삭제 테스트를 위한 엔티티
+ */
+@Entity('test_bulk_filter_coupons')
+class Coupon {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    code!: string;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    status!: string;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
+
+@Controller('test_bulk_filter_coupons')
+@Crud({
+    entity: Coupon,
+    allowedFilters: ['status', 'code'],
+    allowedParams: ['status'],
+    routes: {
+        update: {
+            bulkFilter: { maxRows: 3, sampleSize: 2 },
+        },
+        destroy: {
+            bulkFilter: true,
+            softDelete: true,
+        },
+    },
+})
+class CouponController {
+    constructor(public readonly crudService: CrudService<Coupon>) {}
+}
+
+@Controller('test_bulk_filter_plain_coupons')
+@Crud({
+    entity: Coupon,
+    allowedFilters: ['status'],
+    allowedParams: ['status'],
+})
+class PlainCouponController {
+    constructor(public readonly crudService: CrudService<Coupon>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Coupon])],
+    controllers: [CouponController, PlainCouponController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['CouponRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Bulk update and delete by filter: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Coupon>;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Coupon],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        await service.repository.save([
+            { code: 'A', status: 'expired' },
+            { code: 'B', status: 'expired' },
+            { code: 'C', status: 'expired' },
+            { code: 'D', status: 'active' },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('필터와 일치하는 모든 행을 수정해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .patch('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[status_eq]': 'expired' })
+            .send({ status: 'archived' })
+            .expect(200);
+
+        expect(response.body.data).toHaveLength(3);
+        expect(response.body.metadata.affectedCount).toBe(3);
+
+        const archived = await service.repository.find({ where: { status: 'archived' }, order: { id: 'ASC' } });
+        expect(archived.map(({ code }) => code)).toEqual(['A', 'B', 'C']);
+        expect(await service.repository.countBy({ status: 'active' })).toBe(1);
+    });
+
+    it('dryRun은 일치하는 행 수와 샘플만 반환하고 변경하지 않아야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .patch('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[status_eq]': 'expired', dryRun: 'true' })
+            .send({ status: 'archived' })
+            .expect(200);
+
+        expect(response.body.metadata).toEqual(expect.objectContaining({ affectedCount: 3, dryRun: true }));
+        expect(response.body.data.map(({ code }: Coupon) => code)).toEqual(['A', 'B']);
+        expect(await service.repository.countBy({ status: 'expired' })).toBe(3);
+    });
+
+    it('maxRows를 초과하면 422를 반환하고 변경하지 않아야 함', async () => {
+        await service.repository.save({ code: 'E', status: 'expired' });
+
+        await request(app.getHttpServer())
+            .patch('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[status_eq]': 'expired' })
+            .send({ status: 'archived' })
+            .expect(422);
+
+        expect(await service.repository.countBy({ status: 'archived' })).toBe(0);
+    });
+
+    it('허용된 필터가 없으면 422를 반환해야 함', async () => {
+        await request(app.getHttpServer()).patch('/test_bulk_filter_coupons/bulk').send({ status: 'archived' }).expect(422);
+        await request(app.getHttpServer())
+            .patch('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[id_gt]': '0' })
+            .send({ status: 'archived' })
+            .expect(422);
+        await request(app.getHttpServer()).delete('/test_bulk_filter_coupons/bulk').expect(422);
+
+        expect(await service.repository.countBy({ status: 'archived' })).toBe(0);
+        expect(await service.repository.count()).toBe(4);
+    });
+
+    it('필터와 일치하는 행을 삭제해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .delete('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[code_in]': 'A,D' })
+            .expect(200);
+
+        expect(response.body.metadata.affectedCount).toBe(2);
+        expect((await service.repository.find({ order: { id: 'ASC' } })).map(({ code }) => code)).toEqual(['B', 'C']);
+        // softDelete 설정이 그대로 적용됨
+        expect(await service.repository.count({ withDeleted: true })).toBe(4);
+    });
+
+    it('삭제 dryRun은 행을 삭제하지 않아야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .delete('/test_bulk_filter_coupons/bulk')
+            .query({ 'filter[status_eq]': 'expired', dryRun: 'true' })
+            .expect(200);
+
+        expect(response.body.metadata).toEqual(expect.objectContaining({ affectedCount: 3, dryRun: true }));
+        expect(await service.repository.count()).toBe(4);
+    });
+
+    it('bulkFilter를 설정하지 않으면 필터 기반 요청을 처리하지 않아야 함', async () => {
+        // 기존 bulk update와 같이 배열 body를 요구함
+        await request(app.getHttpServer())
+            .patch('/test_bulk_filter_plain_coupons/bulk')
+            .query({ 'filter[status_eq]': 'expired' })
+            .send({ status: 'archived' })
+            .expect(422);
+
+        expect(await service.repository.countBy({ status: 'archived' })).toBe(0);
+    });
+});
@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+
+import { InProcessInvalidationTransport } from '../lib/utils/in-process-invalidation.transport';
+import { MultiTierCache } from '../lib/utils/multi-tier-cache';
+import { RedisInvalidationTransport } from '../lib/utils/redis-invalidation.transport';
+
+import type { CacheInvalidationTransport, RedisPubSubLike } from '../lib/utils/cache-invalidation-bus';
+import type { CacheLayer } from '../lib/utils/multi-tier-cache';
+
+const memoryLayer: CacheLayer = { name: 'L1_Memory', priority: 1, ttl: 60, strategy: 'lru', storage: 'memory' };
+
+/**
+ * 테스트용 Redis 서버: 같은 서버에 연결된 client 사이에 pub/sub 메시지를 전달
+ */
+class RedisServerMock {
+    private readonly subscribers = new Map<string, Set<RedisPubSubMock>>();
+
+    client(): RedisPubSubMock {
+        return new RedisPubSubMock(this);
+    }
+
+    subscribe(channel: string, client: RedisPubSubMock): void {
+        const clients = this.subscribers.get(channel) ?? new Set<RedisPubSubMock>();
+        clients.add(client);
+        this.subscribers.set(channel, clients);
+    }
+
+    publish(channel: string, message: string): number {
+        const clients = [...(this.subscribers.get(channel) ?? [])];
+        for (const client of clients) {
+            client.emit('message', channel, message);
+        }
+        return clients.length;
+    }
+}
+
+class RedisPubSubMock extends EventEmitter implements RedisPubSubLike {
+    constructor(private readonly server: RedisServerMock) {
+        super();
+    }
+
+    async publish(channel: string, message: string): Promise<number> {
+        return this.server.publish(channel, message);
+    }
+
+    async subscribe(channel: string): Promise<number> {
+        this.server.subscribe(channel, this);
+        return 1;
+    }
+}
+
+const createInstances = async (transports: CacheInvalidationTransport[]) => {
+    const caches = transports.map((invalidationBus) => new MultiTierCache({ layers: [memoryLayer], invalidationBus }));
+    for (const cache of caches) {
+        await cache.initialize();
+    }
+    return caches;
+};
+
+describe('Cache invalidation bus', () => {
+    const caches: MultiTierCache[] = [];
+
+    afterEach(async () => {
+        for (const cache of caches.splice(0)) {
+            await cache.onModuleDestroy();
+        }
+    });
+
+    it('delete, 태그와 패턴 무효화를 다른 인스턴스의 메모리 레이어에 전파해야 함', async () => {
+        const transport = new InProcessInvalidationTransport();
+        const [writer, reader] = await createInstances([transport, transport]);
+        caches.push(writer, reader);
+
+        for (const cache of [writer, reader]) {
+            await cache.set('user:1', { name: 'a' }, { tags: ['user:row:1'] });
+            await cache.set('user:2', { name: 'b' }, { tags: ['user:row:2'] });
+            await cache.set('post:1', { title: 'c' });
+            await cache.set('post:2', { title: 'd' });
+        }
+
+        await writer.invalidateByTag('user:row:1');
+        await writer.delete('user:2');
+        await writer.invalidateByPattern('^post:1$');
+
+        expect(await reader.get('user:1')).toBeNull();
+        expect(await reader.get('user:2')).toBeNull();
+        expect(await reader.get('post:1')).toBeNull();
+        expect(await reader.get('post:2')).toEqual({ title: 'd' });
+    });
+
+    it('getMetrics()에 전파를 보내고 받은 횟수를 집계해야 함', async () => {
+        const transport = new InProcessInvalidationTransport();
+        const [writer, reader, other] = await createInstances([transport, transport, transport]);
+        caches.push(writer, reader, other);
+
+        await writer.invalidateByTag('user:list');
+        await writer.delete('user:1');
+
+        expect(await writer.getMetrics()).toEqual(expect.objectContaining({ broadcastsSent: 2, broadcastsReceived: 0 }));
+        expect(await reader.getMetrics()).toEqual(expect.objectContaining({ broadcastsSent: 0, broadcastsReceived: 2 }));
+        expect((await other.getMetrics()).broadcastsReceived).toBe(2);
+    });
+
+    it('Redis pub/sub transport로 다른 인스턴스에 전파해야 함', async () => {
+        const server = new RedisServerMock();
+        const [writer, reader] = await createInstances([
+            new RedisInvalidationTransport(server.client(), server.client()),
+            new RedisInvalidationTransport(server.client(), server.client()),
+        ]);
+        caches.push(writer, reader);
+
+        await reader.set('user:1', { name: 'a' }, { tags: ['user:row:1'] });
+        await writer.invalidateByTag('user:row:1');
+
+        expect(await reader.get('user:1')).toBeNull();
+        expect((await reader.getMetrics()).broadcastsReceived).toBe(1);
+    });
+
+    it('모듈 종료 후에는 전파를 받지 않아야 함', async () => {
+        const transport = new InProcessInvalidationTransport();
+        const [writer, reader] = await createInstances([transport, transport]);
+        caches.push(writer);
+
+        await reader.onModuleDestroy();
+        await writer.delete('user:1');
+
+        expect((await reader.getMetrics()).broadcastsReceived).toBe(0);
+    });
+});
@@ -0,0 +1,227 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Injectable, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { InjectRepository, TypeOrmModule } from '@nestjs/typeorm';
+import { IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn, Repository } from 'typeorm';
+
+import { CacheableCrudService } from '../lib/cacheable-crud.service';
+import { Crud } from '../lib/crud.decorator';
+
+import type { RedisClientLike } from '../lib/utils/multi-tier-cache';
+
+/**
+ * 테스트용 in-memory ioredis
+ */
+class RedisMock implements RedisClientLike {
+    public readonly strings = new Map<string, string>();
+    public readonly sets = new Map<string, Set<string>>();
+
+    async get(key: string): Promise<string | null> {
+        return this.strings.get(key) ?? null;
+    }
+
+    async set(key: string, value: string): Promise<string> {
+        this.strings.set(key, value);
+        return 'OK';
+    }
+
+    async del(...keys: string[]): Promise<number> {
+        return keys.filter((key) => this.strings.delete(key) || this.sets.delete(key)).length;
+    }
+
+    async keys(): Promise<string[]> {
+        return [...this.strings.keys(), ...this.sets.keys()];
+    }
+
+    async sadd(key: string, ...members: string[]): Promise<number> {
+        const set = this.sets.get(key) ?? new Set<string>();
+        for (const member of members) {
+            set.add(member);
+        }
+        this.sets.set(key, set);
+        return members.length;
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        return [...(this.sets.get(key) ?? [])];
+    }
+
+    async expire(): Promise<number> {
+        return 1;
+    }
+
+    async flushdb(): Promise<string> {
+        this.strings.clear();
+        this.sets.clear();
+        return 'OK';
+    }
+
+    async quit(): Promise<string> {
+        return 'OK';
+    }
+}
+
+/**
+ * CacheableCrudService 테스트를 위한 엔티티
+ */
+@Entity('test_cache_articles')
+class Article {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    title!: string;
+
+    @Column({ default: 0 })
+    views!: number;
+}
+
+const redis = new RedisMock();
+
+@Injectable()
+class RedisArticleService extends CacheableCrudService<Article> {
+    constructor(@InjectRepository(Article) repository: Repository<Article>) {
+        super(repository, { entity: Article, cache: { enabled: true, strategy: 'redis', keyPrefix: 'redis:articles', redis: { client: redis } } });
+    }
+}
+
+@Injectable()
+class MultiTierArticleService extends CacheableCrudService<Article> {
+    constructor(@InjectRepository(Article) repository: Repository<Article>) {
+        super(repository, { entity: Article, cache: { enabled: true, strategy: 'multi-tier', keyPrefix: 'tier:articles', redis: { client: redis } } });
+    }
+}
+
+@Controller('test_cache_redis_articles')
+@Crud({ entity: Article, allowedParams: ['title'], allowedFields: ['title', 'views'], routes: { index: { paginationType: 'offset' } } })
+class RedisArticleController {
+    constructor(public readonly crudService: RedisArticleService) {}
+}
+
+@Controller('test_cache_tier_articles')
+@Crud({ entity: Article, allowedParams: ['title'], routes: { index: { paginationType: 'offset' } } })
+class MultiTierArticleController {
+    constructor(public readonly crudService: MultiTierArticleService) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Article])],
+    controllers: [RedisArticleController, MultiTierArticleController],
+    providers: [RedisArticleService, MultiTierArticleService],
+})
+class TestModule {}
+
+const cachedKeys = (prefix: string) => [...redis.strings.keys()].filter((key) => key.startsWith(prefix));
+
+describe('CacheableCrudService', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let repository: Repository<Article>;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Article],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        repository = module.get(RedisArticleService).repository;
+        await repository.save([{ title: 'first' }, { title: 'second' }, { title: 'third' }]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    beforeEach(async () => {
+        await redis.flushdb();
+    });
+
+    it('redis strategy는 show와 index 결과를 Redis에 저장하고 다시 조회하지 않아야 함', async () => {
+        const findOne = jest.spyOn(repository, 'findOne');
+        try {
+            await request(app.getHttpServer()).get('/test_cache_redis_articles/1').expect(200);
+            const cached = await request(app.getHttpServer()).get('/test_cache_redis_articles/1').expect(200);
+
+            expect(cached.body.data.title).toBe('first');
+            expect(findOne).toHaveBeenCalledTimes(1);
+        } finally {
+            findOne.mockRestore();
+        }
+
+        await request(app.getHttpServer()).get('/test_cache_redis_articles').expect(200);
+        expect(cachedKeys('redis:articles:show')).toHaveLength(1);
+        expect(cachedKeys('redis:articles:index')).toHaveLength(1);
+        expect(await redis.smembers('cache-tag:redis:articles:row:1')).toHaveLength(2);
+    });
+
+    it('update는 변경된 행의 show와 index만 무효화해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_cache_redis_articles/1').expect(200);
+        await request(app.getHttpServer()).get('/test_cache_redis_articles/2').expect(200);
+        await request(app.getHttpServer()).get('/test_cache_redis_articles').expect(200);
+
+        await request(app.getHttpServer()).patch('/test_cache_redis_articles/1').send({ title: 'updated' }).expect(200);
+
+        expect(cachedKeys('redis:articles:show')).toHaveLength(1);
+        expect(cachedKeys('redis:articles:index')).toHaveLength(0);
+
+        const show = await request(app.getHttpServer()).get('/test_cache_redis_articles/1').expect(200);
+        expect(show.body.data.title).toBe('updated');
+    });
+
+    it('create는 index만 무효화하고 show는 유지해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_cache_redis_articles/2').expect(200);
+        await request(app.getHttpServer()).get('/test_cache_redis_articles').expect(200);
+
+        await request(app.getHttpServer()).post('/test_cache_redis_articles').send({ title: 'fourth' }).expect(201);
+
+        expect(cachedKeys('redis:articles:show')).toHaveLength(1);
+        const index = await request(app.getHttpServer()).get('/test_cache_redis_articles').expect(200);
+        expect(index.body.data.map(({ title }: Article) => title)).toContain('fourth');
+    });
+
+    it('index는 fieldset마다 따로 캐시하여 전체 행을 캐시한 페이지를 재사용하지 않아야 함', async () => {
+        await request(app.getHttpServer()).get('/test_cache_redis_articles').expect(200);
+        const response = await request(app.getHttpServer())
+            .get('/test_cache_redis_articles')
+            .query({ 'fields[test_cache_articles]': 'title' })
+            .expect(200);
+
+        for (const article of response.body.data) {
+            expect(Object.keys(article).sort()).toEqual(['id', 'title']);
+        }
+        expect(cachedKeys('redis:articles:index')).toHaveLength(2);
+    });
+
+    it('multi-tier strategy는 destroy 후 메모리와 Redis 모두에서 삭제된 행을 무효화해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_cache_tier_articles/3').expect(200);
+        await request(app.getHttpServer()).get('/test_cache_tier_articles/2').expect(200);
+        expect(cachedKeys('tier:articles:show')).toHaveLength(2);
+
+        // Redis가 비워져도 메모리 레이어에서 응답
+        await redis.flushdb();
+        const findOne = jest.spyOn(repository, 'findOne');
+        try {
+            await request(app.getHttpServer()).get('/test_cache_tier_articles/3').expect(200);
+            expect(findOne).not.toHaveBeenCalled();
+        } finally {
+            findOne.mockRestore();
+        }
+
+        await request(app.getHttpServer()).delete('/test_cache_tier_articles/3').expect(200);
+        await request(app.getHttpServer()).get('/test_cache_tier_articles/3').expect(404);
+    });
+});
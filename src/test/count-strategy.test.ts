@@ -0,0 +1,166 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * countStrategy 테스트를 위한 엔티티
+ */
+@Entity('test_count_events')
+class Event {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    kind!: string;
+}
+
+@Controller('test_count_none_events')
+@Crud({
+    entity: Event,
+    routes: {
+        index: { paginationType: 'offset', numberOfTake: 2, countStrategy: 'none' },
+    },
+})
+class NoneController {
+    constructor(public readonly crudService: CrudService<Event>) {}
+}
+
+@Controller('test_count_cursor_none_events')
+@Crud({
+    entity: Event,
+    routes: {
+        index: { paginationType: 'cursor', numberOfTake: 3, countStrategy: 'none' },
+    },
+})
+class CursorNoneController {
+    constructor(public readonly crudService: CrudService<Event>) {}
+}
+
+@Controller('test_count_capped_events')
+@Crud({
+    entity: Event,
+    allowedFilters: ['kind'],
+    routes: {
+        index: { paginationType: 'offset', numberOfTake: 2, countStrategy: 'capped:3' },
+    },
+})
+class CappedController {
+    constructor(public readonly crudService: CrudService<Event>) {}
+}
+
+@Controller('test_count_estimate_events')
+@Crud({
+    entity: Event,
+    routes: {
+        index: { paginationType: 'offset', countStrategy: 'estimate' },
+    },
+})
+class EstimateController {
+    constructor(public readonly crudService: CrudService<Event>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Event])],
+    controllers: [NoneController, CursorNoneController, CappedController, EstimateController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['EventRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+/**
+ * index route의 Swagger 응답 스키마에서 metadata의 속성 이름
+ */
+const metadataOf = (controller: { prototype: unknown }) => {
+    const { reservedIndex } = controller.prototype as Record<string, Record<string, unknown>>;
+    const responses = Reflect.getMetadata(DECORATORS.API_RESPONSE, reservedIndex);
+    return Object.keys(responses[HttpStatus.OK].content['application/json'].schema.allOf[0].properties.metadata.properties);
+};
+
+describe('Count strategy', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Event],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        const service: CrudService<Event> = module.get(CrudService);
+        await service.repository.save(['click', 'view', 'click', 'view', 'view'].map((kind) => ({ kind })));
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('none은 전체 행 수 대신 hasNextPage를 응답해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_count_none_events').query({ 'page[number]': 1 }).expect(200);
+        expect(first.body.data).toHaveLength(2);
+        expect(first.body.metadata.pagination).toEqual(expect.objectContaining({ type: 'offset', page: 1, hasNextPage: true }));
+        expect(first.body.metadata.pagination).not.toHaveProperty('total');
+        expect(first.body.metadata.pagination).not.toHaveProperty('pages');
+
+        const last = await request(app.getHttpServer()).get('/test_count_none_events').query({ 'page[number]': 3, 'page[size]': 2 }).expect(200);
+        expect(last.body.data).toHaveLength(1);
+        expect(last.body.metadata.pagination.hasNextPage).toBe(false);
+    });
+
+    it('cursor pagination에서도 none은 다음 페이지 여부만 응답해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_count_cursor_none_events').expect(200);
+        expect(first.body.data).toHaveLength(3);
+        expect(first.body.metadata.pagination).toEqual(expect.objectContaining({ type: 'cursor', hasNextPage: true }));
+        expect(first.body.metadata.pagination).not.toHaveProperty('totalPages');
+
+        const second = await request(app.getHttpServer())
+            .get('/test_count_cursor_none_events')
+            .query({ 'page[after]': first.body.metadata.pagination.nextCursor })
+            .expect(200);
+        expect(second.body.data.map(({ id }: Event) => id)).toEqual([2, 1]);
+        expect(second.body.metadata.pagination.hasNextPage).toBe(false);
+    });
+
+    it('capped:N은 N개까지만 세고 상한에 도달했음을 표시해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_count_capped_events').expect(200);
+        expect(response.body.metadata.pagination).toEqual(expect.objectContaining({ total: 3, pages: 2, capped: true }));
+
+        const filtered = await request(app.getHttpServer()).get('/test_count_capped_events').query({ 'filter[kind_eq]': 'click' }).expect(200);
+        expect(filtered.body.metadata.pagination.total).toBe(2);
+        expect(filtered.body.metadata.pagination).not.toHaveProperty('capped');
+    });
+
+    it('통계를 제공하지 않는 데이터베이스에서 estimate는 정확한 행 수를 세야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_count_estimate_events').expect(200);
+        expect(response.body.metadata.pagination.total).toBe(5);
+        expect(response.body.metadata.pagination).not.toHaveProperty('estimated');
+    });
+
+    it('Swagger 응답 스키마가 countStrategy의 응답 형태를 따라야 함', () => {
+        expect(metadataOf(NoneController)).toEqual(['page', 'hasNextPage', 'offset', 'nextCursor']);
+        expect(metadataOf(CappedController)).toEqual(['page', 'total', 'pages', 'capped', 'offset', 'nextCursor']);
+        expect(metadataOf(EstimateController)).toContain('estimated');
+    });
+});
@@ -0,0 +1,174 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, Module } from '@nestjs/common';
+import { ClientProxyFactory, Transport } from '@nestjs/microservices';
+import { Test } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsInt, IsOptional, IsString, MinLength } from 'class-validator';
+import { lastValueFrom } from 'rxjs';
+import { Column, DeleteDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { CrudMessageController } from '../lib/crud-message.decorator';
+import { CrudService } from '../lib/crud.service';
+import { BeforeCreate } from '../lib/dto/lifecycle-hooks.decorator';
+
+import type { CrudArrayResponse, CrudMessagePayload, CrudResponse } from '../lib/interface';
+import type { INestApplication } from '@nestjs/common';
+import type { ClientProxy } from '@nestjs/microservices';
+
+const PORT = 48_731;
+
+/**
+ * Message pattern 테스트를 위한 엔티티
+ */
+@Entity('test_message_members')
+class Member {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @MinLength(2)
+    name!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsInt()
+    age?: number;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsString()
+    handle?: string;
+
+    @Column({ default: 'secret' })
+    password!: string;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
+
+@Controller()
+@CrudMessageController({
+    entity: Member,
+    allowedFilters: ['name', 'age'],
+    allowedParams: ['name', 'age'],
+    exclude: ['password'],
+    only: ['index', 'show', 'create', 'update', 'destroy', 'recover', 'export'],
+    routes: { destroy: { softDelete: true } },
+})
+class MemberMessageController {
+    constructor(public readonly crudService: CrudService<Member>) {}
+
+    @BeforeCreate()
+    assignHandle(body: Partial<Member>) {
+        return { ...body, handle: `@${body.name?.toLowerCase()}` };
+    }
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Member])],
+    controllers: [MemberMessageController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['MemberRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('CrudMessageController', () => {
+    let app: INestApplication;
+    let client: ClientProxy;
+
+    const send = async <T,>(cmd: string, payload: CrudMessagePayload = {}) => lastValueFrom(client.send<T>({ cmd }, payload));
+    const sendError = async (cmd: string, payload: CrudMessagePayload = {}) => send(cmd, payload).then(
+        () => {
+            throw new Error(`${cmd} should fail`);
+        },
+        (error: unknown) => error,
+    );
+
+    beforeAll(async () => {
+        const module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Member],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        app.connectMicroservice({ transport: Transport.TCP, options: { port: PORT } });
+        await app.startAllMicroservices();
+        await app.init();
+
+        client = ClientProxyFactory.create({ transport: Transport.TCP, options: { port: PORT } });
+        await client.connect();
+
+        for (const [name, age] of [
+            ['Alice', 31],
+            ['Bob', 25],
+            ['Carol', 42],
+            ['Dave', 19],
+        ] as const) {
+            await send('member.create', { body: { name, age } });
+        }
+    });
+
+    afterAll(async () => {
+        await client?.close();
+        await app?.close();
+    });
+
+    it('create는 검증과 훅을 route와 같이 실행하고 exclude 필드는 제외해야 함', async () => {
+        const created = await send<CrudResponse<Member>>('member.create', { body: { name: 'Erin', age: 28 } });
+        expect(created.data).toMatchObject({ name: 'Erin', age: 28, handle: '@erin' });
+        expect(created.data).not.toHaveProperty('password');
+
+        const error = await sendError('member.create', { body: { name: 'E' } });
+        // message는 HTTP route의 CrudExceptionFilter 응답과 같은 형식
+        expect(error).toMatchObject({ statusCode: 422, message: [expect.objectContaining({ property: 'name' })] });
+    });
+
+    it('index는 bracket key와 중첩 객체 query를 모두 받아야 함', async () => {
+        const flat = await send<CrudArrayResponse<Member>>('member.index', { query: { 'filter[age_gte]': 25, sort: '-age', 'page[size]': 2 } });
+        expect(flat.data.map(({ name }) => name)).toEqual(['Carol', 'Alice']);
+        expect(flat.metadata?.pagination).toMatchObject({ total: 4 });
+
+        const nested = await send<CrudArrayResponse<Member>>('member.index', {
+            query: { filter: { or: [{ name_eq: 'Dave' }, { age_gt: 40 }] }, sort: 'name' },
+        });
+        expect(nested.data.map(({ name }) => name)).toEqual(['Carol', 'Dave']);
+        expect(nested.data[0]).not.toHaveProperty('password');
+
+        const listed = await send<CrudArrayResponse<Member>>('member.index', { query: { filter: { name_not_in: ['Alice', 'Bob'] }, sort: 'name' } });
+        expect(listed.data.map(({ name }) => name)).toEqual(['Carol', 'Dave', 'Erin']);
+    });
+
+    it('show, update, destroy, recover는 params로 대상을 찾아야 함', async () => {
+        const { data } = await send<CrudArrayResponse<Member>>('member.index', { query: { 'filter[name_eq]': 'Bob' } });
+        const { id } = data[0];
+
+        expect((await send<CrudResponse<Member>>('member.show', { params: { id } })).data).toMatchObject({ id, name: 'Bob', age: 25 });
+        expect((await send<CrudResponse<Member>>('member.update', { params: { id }, body: { age: 26 } })).data).toMatchObject({ id, age: 26 });
+
+        const destroyed = await send<CrudResponse<Member>>('member.destroy', { params: { id } });
+        expect(destroyed.data.deletedAt).toEqual(expect.any(String));
+        expect(await sendError('member.show', { params: { id } })).toMatchObject({ statusCode: 404 });
+
+        const recovered = await send<CrudResponse<Member>>('member.recover', { params: { id } });
+        expect(recovered.data).toMatchObject({ id, name: 'Bob', deletedAt: null });
+    });
+
+    it('file method는 message pattern으로 등록하지 않아야 함', async () => {
+        const error = await sendError('member.export');
+        expect(error).toEqual(expect.stringContaining('no matching message handler'));
+    });
+});
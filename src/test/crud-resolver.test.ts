@@ -0,0 +1,233 @@
+import { ApolloDriver } from '@nestjs/apollo';
+import { Module } from '@nestjs/common';
+import { GraphQLModule } from '@nestjs/graphql';
+import { Test } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsBoolean, IsInt, IsOptional, IsString, MinLength } from 'class-validator';
+import request from 'supertest';
+import { Column, DeleteDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { CrudResolver } from '../lib/crud-resolver.decorator';
+import { CrudService } from '../lib/crud.service';
+import { BeforeCreate } from '../lib/dto/lifecycle-hooks.decorator';
+
+import type { ApolloDriverConfig } from '@nestjs/apollo';
+import type { INestApplication } from '@nestjs/common';
+import type { TestingModule } from '@nestjs/testing';
+
+/**
+ * GraphQL resolver 테스트를 위한 엔티티
+ */
+@Entity('test_resolver_books')
+class Book {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @MinLength(2)
+    title!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsInt()
+    pages?: number;
+
+    @Column({ default: false })
+    @IsOptional()
+    @IsBoolean()
+    published?: boolean;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsString()
+    slug?: string;
+
+    @Column({ default: 'secret' })
+    secret!: string;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
+
+@CrudResolver({
+    entity: Book,
+    allowedFilters: ['title', 'pages'],
+    allowedParams: ['title', 'pages', 'published'],
+    exclude: ['secret'],
+    routes: { destroy: { softDelete: true } },
+})
+class BookResolver {
+    constructor(public readonly crudService: CrudService<Book>) {}
+
+    @BeforeCreate()
+    assignSlug(body: Partial<Book>) {
+        return { ...body, slug: body.title?.toLowerCase().split(' ').join('-') };
+    }
+}
+
+interface TypeRef {
+    name: string | null;
+    kind: string;
+    ofType: { name: string | null } | null;
+}
+
+interface Connection {
+    nodes: Book[];
+    edges: Array<{ cursor: string; node: Book }>;
+}
+
+const titles = ({ nodes }: Connection) => nodes.map(({ title }) => title);
+const edgeTitles = ({ edges }: Connection) => edges.map(({ node }) => node.title);
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Book])],
+    providers: [
+        BookResolver,
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['BookRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('CrudResolver', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    const graphql = async (query: string, variables?: Record<string, unknown>) => {
+        const { body } = await request(app.getHttpServer()).post('/graphql').send({ query, variables }).expect(200);
+        return body;
+    };
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Book],
+                    synchronize: true,
+                    logging: false,
+                }),
+                GraphQLModule.forRoot<ApolloDriverConfig>({ driver: ApolloDriver, autoSchemaFile: true }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        for (const [title, pages] of [
+            ['Dune', 412],
+            ['Emma', 320],
+            ['Ulysses', 730],
+            ['Walden', 150],
+            ['Beloved', 275],
+        ] as const) {
+            await graphql('mutation ($input: CreateBookInput!) { createBook(input: $input) { id } }', { input: { title, pages } });
+        }
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('스키마는 컬럼과 옵션으로 타입을 만들고 exclude 필드는 제외해야 함', async () => {
+        const { data } = await graphql(`
+            {
+                book: __type(name: "Book") { fields { name type { name kind ofType { name } } } }
+                filter: __type(name: "BookFilterInput") { inputFields { name type { name kind ofType { name } } } }
+                create: __type(name: "CreateBookInput") { inputFields { name } }
+            }
+        `);
+        const fields = Object.fromEntries(data.book.fields.map(({ name, type }: { name: string; type: TypeRef }) => [name, type.name ?? type.ofType?.name]));
+        expect(fields).toEqual({ id: 'Int', title: 'String', pages: 'Float', published: 'Boolean', slug: 'String', deletedAt: 'DateTime' });
+
+        const filterFields = Object.fromEntries(data.filter.inputFields.map(({ name, type }: { name: string; type: TypeRef }) => [name, type]));
+        expect(filterFields.pages_gte).toMatchObject({ name: 'Float' });
+        expect(filterFields.pages_in).toMatchObject({ kind: 'LIST' });
+        expect(filterFields.title_null).toMatchObject({ name: 'Boolean' });
+        expect(filterFields.or).toMatchObject({ kind: 'LIST' });
+        expect(filterFields.published_eq).toBeUndefined();
+
+        expect(data.create.inputFields.map(({ name }: { name: string }) => name)).toEqual(['title', 'pages', 'published']);
+    });
+
+    it('create mutation은 검증과 훅을 route와 같이 실행해야 함', async () => {
+        const { data } = await graphql('mutation { createBook(input: { title: "Moby Dick", pages: 635 }) { id title slug published } }');
+        expect(data.createBook).toMatchObject({ title: 'Moby Dick', slug: 'moby-dick', published: false });
+
+        const invalid = await graphql('mutation { createBook(input: { title: "A" }) { id } }');
+        expect(invalid.data).toBeNull();
+        expect(invalid.errors[0].extensions).toMatchObject({ code: 'BAD_USER_INPUT', originalError: { statusCode: 422 } });
+    });
+
+    it('list query는 filter와 sort를 쿼리 문법으로 변환해야 함', async () => {
+        const { data } = await graphql(`
+            {
+                long: books(filter: { pages_gte: 300 }, sort: [{ field: pages, direction: DESC }]) { nodes { title } totalCount }
+                grouped: books(filter: { or: [{ title_eq: "Walden" }, { pages_gt: 700 }] }, sort: [{ field: title }]) { nodes { title } }
+                excluded: books(filter: { title_not_in: ["Dune", "Emma"], not: { pages_lt: 200 } }, sort: [{ field: title }]) { nodes { title } }
+            }
+        `);
+        expect(titles(data.long)).toEqual(['Ulysses', 'Moby Dick', 'Dune', 'Emma']);
+        expect(data.long.totalCount).toBe(4);
+        expect(titles(data.grouped)).toEqual(['Ulysses', 'Walden']);
+        expect(titles(data.excluded)).toEqual(['Beloved', 'Moby Dick', 'Ulysses']);
+    });
+
+    it('connection은 cursor로 앞뒤 페이지를 이어서 읽어야 함', async () => {
+        const query = `
+            query ($page: CrudPageInput) {
+                books(sort: [{ field: id }], page: $page) {
+                    edges { cursor node { title } }
+                    pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+                    totalCount
+                }
+            }
+        `;
+        const first = (await graphql(query, { page: { first: 2 } })).data.books;
+        expect(edgeTitles(first)).toEqual(['Dune', 'Emma']);
+        expect(first.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false, endCursor: first.edges[1].cursor });
+        expect(first.totalCount).toBe(6);
+
+        const second = (await graphql(query, { page: { first: 2, after: first.pageInfo.endCursor } })).data.books;
+        expect(edgeTitles(second)).toEqual(['Ulysses', 'Walden']);
+        expect(second.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+
+        // 임의의 edge cursor에서도 이어서 읽을 수 있음
+        const fromEdge = (await graphql(query, { page: { first: 3, after: first.edges[0].cursor } })).data.books;
+        expect(edgeTitles(fromEdge)).toEqual(['Emma', 'Ulysses', 'Walden']);
+
+        const previous = (await graphql(query, { page: { last: 2, before: second.pageInfo.startCursor } })).data.books;
+        expect(edgeTitles(previous)).toEqual(['Dune', 'Emma']);
+        expect(previous.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+
+        const invalid = await graphql(query, { page: { last: 2 } });
+        expect(invalid.errors[0].message).toBe('last requires before');
+    });
+
+    it('단건 query와 update, delete, recover mutation을 실행해야 함', async () => {
+        const { data } = await graphql('{ books(filter: { title_eq: "Emma" }) { nodes { id } } }');
+        const id = data.books.nodes[0].id;
+
+        const shown = await graphql('query ($id: ID!) { book(id: $id) { id title pages } }', { id });
+        expect(shown.data.book).toEqual({ id, title: 'Emma', pages: 320 });
+
+        const updated = await graphql('mutation ($id: ID!) { updateBook(id: $id, input: { pages: 474, published: true }) { pages published } }', { id });
+        expect(updated.data.updateBook).toEqual({ pages: 474, published: true });
+
+        const deleted = await graphql('mutation ($id: ID!) { deleteBook(id: $id) { id deletedAt } }', { id });
+        expect(deleted.data.deleteBook.deletedAt).toEqual(expect.any(String));
+
+        const missing = await graphql('query ($id: ID!) { book(id: $id) { id } }', { id });
+        expect(missing.errors[0].extensions).toMatchObject({ status: 404 });
+
+        const recovered = await graphql('mutation ($id: ID!) { recoverBook(id: $id) { id title deletedAt } }', { id });
+        expect(recovered.data.recoverBook).toEqual({ id, title: 'Emma', deletedAt: null });
+        expect((await graphql('query ($id: ID!) { book(id: $id) { title } }', { id })).data.book.title).toBe('Emma');
+    });
+});
@@ -0,0 +1,153 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CursorToken } from '../lib/utils/cursor-token';
+
+/**
+ * 서명된 cursor 테스트를 위한 엔티티
+ */
+@Entity('test_cursor_tickets')
+class Ticket {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    status!: string;
+}
+
+@Controller('test_cursor_tickets')
+@Crud({
+    entity: Ticket,
+    allowedFilters: ['status'],
+    pagination: { cursor: { secret: 'cursor-secret', expiresIn: 60 } },
+    routes: {
+        index: { paginationType: 'cursor', numberOfTake: 2 },
+    },
+})
+class TicketController {
+    constructor(public readonly crudService: CrudService<Ticket>) {}
+}
+
+@Controller('test_cursor_encrypted_tickets')
+@Crud({
+    entity: Ticket,
+    pagination: { cursor: { secret: 'cursor-secret', encrypt: true } },
+    routes: {
+        index: { paginationType: 'cursor', numberOfTake: 2 },
+    },
+})
+class EncryptedTicketController {
+    constructor(public readonly crudService: CrudService<Ticket>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Ticket])],
+    controllers: [TicketController, EncryptedTicketController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['TicketRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const ids = (body: { data: Ticket[] }) => body.data.map(({ id }) => id);
+
+describe.each(platforms)('Signed cursor tokens: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Ticket],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const service: CrudService<Ticket> = module.get(CrudService);
+        await service.repository.save(['open', 'open', 'closed', 'open', 'open', 'closed'].map((status) => ({ status })));
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('서명된 nextCursor로 다음 페이지를 조회해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_cursor_tickets').query({ 'filter[status_eq]': 'open' }).expect(200);
+        expect(ids(first.body)).toEqual([5, 4]);
+
+        const second = await request(app.getHttpServer())
+            .get('/test_cursor_tickets')
+            .query({ 'filter[status_eq]': 'open', 'page[cursor]': first.body.metadata.pagination.nextCursor })
+            .expect(200);
+        expect(ids(second.body)).toEqual([2, 1]);
+        expect(second.body.metadata.pagination.total).toBe(4);
+    });
+
+    it('변조된 cursor는 400으로 거부해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_cursor_tickets').expect(200);
+        const [body, signature] = first.body.metadata.pagination.nextCursor.split('.');
+
+        const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+        payload.data.where = Buffer.from(JSON.stringify({ status: 'closed' })).toString('base64');
+        const tampered = `${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${signature}`;
+
+        const response = await request(app.getHttpServer()).get('/test_cursor_tickets').query({ 'page[cursor]': tampered }).expect(400);
+        expect(response.body.message).toBe('Invalid cursor');
+
+        // 서명이 없는 기존 형식의 cursor도 거부
+        const unsigned = Buffer.from(JSON.stringify({ nextCursor: Buffer.from('{"id":0}').toString('base64'), total: 100 })).toString('base64');
+        await request(app.getHttpServer()).get('/test_cursor_tickets').query({ nextCursor: unsigned }).expect(400);
+    });
+
+    it('만료된 cursor는 400으로 거부해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_cursor_tickets').expect(200);
+        const now = Date.now();
+        const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+
+        try {
+            const response = await request(app.getHttpServer())
+                .get('/test_cursor_tickets')
+                .query({ 'page[cursor]': first.body.metadata.pagination.nextCursor })
+                .expect(400);
+            expect(response.body.message).toBe('Cursor has expired');
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    it('암호화된 cursor는 내용을 읽을 수 없고 다음 페이지를 조회할 수 있어야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_cursor_encrypted_tickets').expect(200);
+        const { nextCursor } = first.body.metadata.pagination;
+
+        expect(Buffer.from(nextCursor.split('.')[0], 'base64url').toString()).not.toContain('nextCursor');
+
+        const second = await request(app.getHttpServer()).get('/test_cursor_encrypted_tickets').query({ 'page[cursor]': nextCursor }).expect(200);
+        expect(ids(second.body)).toEqual([4, 3]);
+    });
+
+    it('secret 배열의 이전 secret으로 서명된 cursor도 허용해야 함', () => {
+        const token = CursorToken.sign({ id: 1 }, { secret: 'old', encrypt: true });
+
+        expect(CursorToken.verify(token, { secret: ['new', 'old'], encrypt: true })).toEqual({ id: 1 });
+        expect(() => CursorToken.verify(token, { secret: 'new', encrypt: true })).toThrow('Invalid cursor');
+    });
+});
@@ -0,0 +1,239 @@
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CrudEventDispatcher } from '../lib/utils/crud-event-dispatcher';
+import { CrudOutboxEvent } from '../lib/utils/crud-outbox-event';
+import { EventEmitterTransport } from '../lib/utils/event-emitter.transport';
+
+import type { CrudEvent, CrudEventTransport } from '../lib/interface';
+
+/**
+ * 도메인 이벤트 테스트를 위한 엔티티
+ */
+@Entity('test_event_orders')
+class Order {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    status!: string;
+
+    @Column({ default: 0 })
+    @IsInt()
+    @IsOptional()
+    total!: number;
+
+    @Column({ default: '' })
+    @IsString()
+    @IsOptional()
+    paymentToken!: string;
+}
+
+@Controller('test_event_orders')
+@Crud({
+    entity: Order,
+    allowedParams: ['status', 'total', 'paymentToken'],
+    allowedFilters: ['status'],
+    events: { outbox: CrudOutboxEvent, exclude: ['paymentToken'], methods: ['create', 'update'] },
+    routes: {
+        create: {
+            transaction: true,
+            hooks: {
+                saveAfter: (order) => {
+                    if (order.status === 'fail') {
+                        throw new Error('hook failure');
+                    }
+                    return order;
+                },
+            },
+        },
+        update: {
+            bulkFilter: true,
+        },
+    },
+})
+class OrderController {
+    constructor(public readonly crudService: CrudService<Order>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Order, CrudOutboxEvent])],
+    controllers: [OrderController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['OrderRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('Domain events', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Order>;
+    let transport: EventEmitterTransport;
+    let dispatcher: CrudEventDispatcher;
+    let received: Array<CrudEvent<Order>>;
+
+    const outbox = () => service.repository.manager.getRepository(CrudOutboxEvent).find({ order: { id: 'ASC' } });
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Order, CrudOutboxEvent],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        service = module.get(CrudService);
+        transport = new EventEmitterTransport()
+            .on<Order, 'create'>('order.created', (event) => received.push(event))
+            .on<Order, 'update'>('order.updated', (event) => received.push(event));
+        dispatcher = new CrudEventDispatcher(service.repository.manager, { transports: [transport], maxAttempts: 2 });
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        await service.repository.manager.getRepository(CrudOutboxEvent).clear();
+        received = [];
+    });
+
+    afterAll(async () => {
+        dispatcher.stop();
+        await app?.close();
+    });
+
+    it('저장과 같은 트랜잭션에서 outbox에 이벤트를 기록해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .post('/test_event_orders')
+            .send({ status: 'placed', total: 30, paymentToken: 'tok' })
+            .expect(201);
+
+        const [event] = await outbox();
+        expect(event).toEqual(
+            expect.objectContaining({
+                name: 'order.created',
+                entityName: 'test_event_orders',
+                entityId: String(response.body.data.id),
+                method: 'create',
+                dispatchedAt: null,
+                data: { id: response.body.data.id, status: 'placed', total: 30 },
+            }),
+        );
+        expect(event.changes.map(({ field }) => field).sort()).toEqual(['id', 'status', 'total']);
+        expect(received).toHaveLength(0);
+    });
+
+    it('트랜잭션이 롤백되면 이벤트를 남기지 않아야 함', async () => {
+        await request(app.getHttpServer()).post('/test_event_orders').send({ status: 'fail' }).expect(409);
+
+        expect(await outbox()).toHaveLength(0);
+    });
+
+    it('dispatcher가 커밋된 이벤트를 순서대로 transport에 전달해야 함', async () => {
+        const order = await service.repository.save({ status: 'placed', total: 10 });
+        await request(app.getHttpServer()).patch(`/test_event_orders/${order.id}`).send({ status: 'paid' }).expect(200);
+        await request(app.getHttpServer()).patch(`/test_event_orders/${order.id}`).send({ status: 'shipped', total: 12 }).expect(200);
+
+        expect(await dispatcher.dispatch()).toBe(2);
+
+        expect(received.map(({ name, changes }) => [name, changes])).toEqual([
+            ['order.updated', [{ field: 'status', before: 'placed', after: 'paid' }]],
+            [
+                'order.updated',
+                [
+                    { field: 'status', before: 'paid', after: 'shipped' },
+                    { field: 'total', before: 10, after: 12 },
+                ],
+            ],
+        ]);
+        expect((await outbox()).every(({ dispatchedAt }) => dispatchedAt !== null)).toBe(true);
+        expect(await dispatcher.dispatch()).toBe(0);
+    });
+
+    it('필터 기반 bulk update도 수정한 행마다 이벤트를 기록해야 함', async () => {
+        const [placed] = await service.repository.save([
+            { status: 'placed', total: 10 },
+            { status: 'paid', total: 20 },
+        ]);
+
+        await request(app.getHttpServer())
+            .patch('/test_event_orders/bulk')
+            .query('filter[status_eq]=placed')
+            .send({ status: 'cancelled' })
+            .expect(200);
+
+        expect((await outbox()).map(({ name, entityId, changes }) => [name, entityId, changes])).toEqual([
+            ['order.updated', String(placed.id), [{ field: 'status', before: 'placed', after: 'cancelled' }]],
+        ]);
+    });
+
+    it('methods에 없는 변경은 이벤트를 기록하지 않아야 함', async () => {
+        const order = await service.repository.save({ status: 'placed' });
+
+        await request(app.getHttpServer()).delete(`/test_event_orders/${order.id}`).expect(200);
+
+        expect(await outbox()).toHaveLength(0);
+    });
+
+    it('transport가 실패하면 재시도하고 이후 이벤트를 앞질러 보내지 않아야 함', async () => {
+        let failures = 1;
+        const flaky: CrudEventTransport = {
+            publish: () => {
+                if (failures-- > 0) {
+                    throw new Error('broker unavailable');
+                }
+            },
+        };
+        const flakyDispatcher = new CrudEventDispatcher(service.repository.manager, { transports: [flaky, transport] });
+        await request(app.getHttpServer()).post('/test_event_orders').send({ status: 'first' }).expect(201);
+        await request(app.getHttpServer()).post('/test_event_orders').send({ status: 'second' }).expect(201);
+
+        expect(await flakyDispatcher.dispatch()).toBe(0);
+        const [failed] = await outbox();
+        expect(failed).toEqual(expect.objectContaining({ attempts: 1, lastError: 'broker unavailable', dispatchedAt: null }));
+
+        expect(await flakyDispatcher.dispatch()).toBe(2);
+        expect(received.map(({ data }) => data.status)).toEqual(['first', 'second']);
+    });
+
+    it('maxAttempts를 넘긴 이벤트는 더 이상 전달하지 않아야 함', async () => {
+        const broken = new CrudEventDispatcher(service.repository.manager, {
+            transports: [
+                {
+                    publish: () => {
+                        throw new Error('always');
+                    },
+                },
+            ],
+            maxAttempts: 2,
+        });
+        await request(app.getHttpServer()).post('/test_event_orders').send({ status: 'placed' }).expect(201);
+
+        await broken.dispatch();
+        await broken.dispatch();
+        await broken.dispatch();
+
+        const [event] = await outbox();
+        expect(event.attempts).toBe(2);
+    });
+});
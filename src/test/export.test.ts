@@ -0,0 +1,270 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Readable } from 'stream';
+import { inflateRawSync } from 'zlib';
+
+import { Controller, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn, SelectQueryBuilder, TypeORMError } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+import type { ReadStream } from 'fs';
+import type { ObjectLiteral } from 'typeorm';
+
+/**
+ * 내보내기 테스트를 위한 엔티티
+ */
+@Entity('test_export_products')
+class Product {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    name!: string;
+
+    @Column()
+    price!: number;
+
+    @Column({ nullable: true })
+    note?: string;
+
+    @Column({ default: 'secret' })
+    secret!: string;
+}
+
+@Controller('test_export_products')
+@Crud({
+    entity: Product,
+    routes: {
+        export: {
+            allowedFilters: ['price'],
+            columns: ['id', 'name', 'price', 'note'],
+            labels: { name: 'Product Name' },
+            chunkSize: 2,
+            filename: 'products',
+        },
+    },
+})
+class ProductController {
+    constructor(public readonly crudService: CrudService<Product>) {}
+}
+
+@Controller('test_export_ndjson_products')
+@Crud({ entity: Product, routes: { export: { exclude: ['secret'], formats: ['ndjson', 'xlsx'] } } })
+class NdjsonProductController {
+    constructor(public readonly crudService: CrudService<Product>) {}
+}
+
+@Controller('test_export_plain_products')
+@Crud({ entity: Product })
+class PlainProductController {
+    constructor(public readonly crudService: CrudService<Product>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Product])],
+    controllers: [ProductController, NdjsonProductController, PlainProductController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ProductRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const binary = (response: request.Response, callback: (error: Error | null, body: Buffer) => void) => {
+    const chunks: Buffer[] = [];
+    response.on('data', (chunk: Buffer) => chunks.push(chunk));
+    response.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+/**
+ * Entries of a ZIP file read from its central directory
+ */
+const unzip = (zip: Buffer): Record<string, string> => {
+    const end = zip.lastIndexOf(Buffer.from([0x50, 0x4B, 0x05, 0x06]));
+    const count = zip.readUInt16LE(end + 10);
+    let offset = zip.readUInt32LE(end + 16);
+    const entries: Record<string, string> = {};
+    for (let index = 0; index < count; index++) {
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const localOffset = zip.readUInt32LE(offset + 42);
+        const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        const dataOffset = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+        entries[name] = inflateRawSync(zip.subarray(dataOffset, dataOffset + compressedSize)).toString('utf8');
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+describe.each(platforms)('Export: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Product],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const service: CrudService<Product> = module.get(CrudService);
+        await service.repository.save([
+            { name: 'pen', price: 3 },
+            { name: 'ink, black', price: 5, note: 'say "hi"' },
+            { name: '=SUM(A1:A2)', price: 5 },
+            { name: 'paper', price: 1, note: 'line\nbreak' },
+            { name: 'notebook', price: 5 },
+        ]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    /**
+     * Exports the rows as a driver which streams them, e.g. postgres
+     */
+    const streamingDriver = () => {
+        const service: CrudService<Product> = module.get(CrudService);
+        jest.replaceProperty(service.repository.manager.connection.options, 'type', 'postgres');
+        return jest.spyOn(SelectQueryBuilder.prototype, 'stream');
+    };
+
+    it('기본 포맷은 CSV이며 header label, 따옴표 처리와 수식 방지를 적용해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_export_products/export').expect(200);
+
+        expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+        expect(response.headers['content-disposition']).toBe('attachment; filename="products.csv"');
+        expect(response.text).toBe(
+            [
+                '\uFEFFid,Product Name,price,note',
+                '1,pen,3,',
+                '2,"ink, black",5,"say ""hi"""',
+                "3,'=SUM(A1:A2),5,",
+                '4,paper,1,"line\nbreak"',
+                '5,notebook,5,',
+                '',
+            ].join('\r\n'),
+        );
+    });
+
+    it('filter와 sort를 적용하고 chunk 경계를 넘어 같은 값의 행을 빠짐없이 내보내야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_export_products/export')
+            .query({ 'filter[price_gte]': 3, sort: '-price' })
+            .expect(200);
+
+        const ids = response.text
+            .trim()
+            .split('\r\n')
+            .slice(1)
+            .map((line) => Number(line.split(',')[0]));
+        expect(ids).toEqual([5, 3, 2, 1]);
+    });
+
+    it('Accept 헤더로 NDJSON을 요청하면 컬럼 이름을 key로 응답해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_export_products/export')
+            .query({ 'filter[price_gte]': 5 })
+            .set('Accept', 'application/x-ndjson')
+            .expect(200);
+
+        expect(response.headers['content-type']).toContain('application/x-ndjson');
+        const lines = response.text.trim().split('\n').map((line) => JSON.parse(line));
+        expect(lines).toEqual([
+            { id: 2, name: 'ink, black', price: 5, note: 'say "hi"' },
+            { id: 3, name: '=SUM(A1:A2)', price: 5, note: null },
+            { id: 5, name: 'notebook', price: 5, note: null },
+        ]);
+    });
+
+    it('format=xlsx는 header label과 값을 가진 시트의 XLSX 파일을 응답해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_export_products/export').query({ format: 'xlsx' }).buffer(true).parse(binary).expect(200);
+
+        expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        expect(response.headers['content-disposition']).toBe('attachment; filename="products.xlsx"');
+
+        const entries = unzip(response.body as Buffer);
+        expect(Object.keys(entries)).toEqual(['[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/worksheets/sheet1.xml']);
+        expect(entries['xl/workbook.xml']).toContain('<sheet name="test_export_products"');
+
+        const sheet = entries['xl/worksheets/sheet1.xml'];
+        expect(sheet.match(/<row /g)).toHaveLength(6);
+        expect(sheet).toContain('<c r="B1" t="inlineStr"><is><t xml:space="preserve">Product Name</t></is></c>');
+        expect(sheet).toContain('<c r="C3"><v>5</v></c>');
+        expect(sheet).toContain('<t xml:space="preserve">say &quot;hi&quot;</t>');
+        expect(sheet).not.toContain('<c r="D2"');
+    });
+
+    it('exclude한 컬럼은 내보내지 않고 첫 번째 허용 포맷을 기본으로 사용해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_export_ndjson_products/export').expect(200);
+
+        expect(response.headers['content-type']).toContain('application/x-ndjson');
+        expect(response.headers['content-disposition']).toBe('attachment; filename="test_export_products.ndjson"');
+        const [first] = response.text.trim().split('\n').map((line) => JSON.parse(line));
+        expect(first).toEqual({ id: 1, name: 'pen', price: 3, note: null });
+    });
+
+    it('허용하지 않은 format은 406을 응답해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_export_ndjson_products/export').query({ format: 'csv' }).expect(HttpStatus.NOT_ACCEPTABLE);
+        await request(app.getHttpServer()).get('/test_export_products/export').query({ format: 'json' }).expect(HttpStatus.NOT_ACCEPTABLE);
+    });
+
+    it('스트림을 지원하는 드라이버는 query stream의 행을 chunk로 나눠 내보내야 함', async () => {
+        const stream = streamingDriver().mockImplementation(async function (this: SelectQueryBuilder<ObjectLiteral>) {
+            return Readable.from(await this.getRawMany()) as unknown as ReadStream;
+        });
+
+        const response = await request(app.getHttpServer())
+            .get('/test_export_products/export')
+            .query({ 'filter[price_gte]': 3, sort: '-price' })
+            .set('Accept', 'application/x-ndjson')
+            .expect(200);
+
+        expect(stream).toHaveBeenCalledTimes(1);
+        expect(response.text.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+            { id: 5, name: 'notebook', price: 5, note: null },
+            { id: 3, name: '=SUM(A1:A2)', price: 5, note: null },
+            { id: 2, name: 'ink, black', price: 5, note: 'say "hi"' },
+            { id: 1, name: 'pen', price: 3, note: null },
+        ]);
+    });
+
+    it('스트림을 열 수 없으면 keyset pagination으로 모든 행을 내보내야 함', async () => {
+        const stream = streamingDriver().mockRejectedValue(new TypeORMError('To use streams you should install pg-query-stream package.'));
+
+        const response = await request(app.getHttpServer()).get('/test_export_products/export').query({ sort: 'id' }).expect(200);
+
+        expect(stream).toHaveBeenCalledTimes(1);
+        expect(response.text.trim().split('\r\n').slice(1).map((line) => Number(line.split(',')[0]))).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('export route는 설정하지 않으면 생성되지 않아야 함', () => {
+        expect((PlainProductController.prototype as unknown as Record<string, unknown>).reservedExport).toBeUndefined();
+        expect((ProductController.prototype as unknown as Record<string, unknown>).reservedExport).toBeDefined();
+    });
+});
@@ -0,0 +1,201 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { QueryParser } from '../lib/provider/query-parser';
+
+/**
+ * 필터 그룹(OR / AND / NOT) 테스트를 위한 엔티티
+ */
+@Entity('test_filter_group_tasks')
+class Task {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    title!: string;
+
+    @Column()
+    status!: string;
+
+    @Column()
+    ownerId!: number;
+
+    @Column({ nullable: true })
+    secret?: string;
+}
+
+@Controller('test_filter_group_tasks')
+@Crud({
+    entity: Task,
+    routes: {
+        index: {
+            paginationType: 'offset',
+            allowedFilters: ['title', 'status', 'ownerId'],
+        },
+    },
+})
+class TaskController {
+    constructor(public readonly crudService: CrudService<Task>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Task])],
+    controllers: [TaskController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['TaskRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const titlesOf = (body: { data: Task[] }) => body.data.map((task) => task.title).sort();
+
+describe.each(platforms)('Filter Groups (OR / AND / NOT): %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Task],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const repository = module.get(CrudService).repository;
+        await repository.save([
+            { title: 'a', status: 'active', ownerId: 1, secret: 'x' },
+            { title: 'b', status: 'active', ownerId: 2, secret: 'y' },
+            { title: 'c', status: 'archived', ownerId: 1, secret: 'x' },
+            { title: 'd', status: 'archived', ownerId: 2, secret: 'y' },
+            { title: 'e', status: 'draft', ownerId: 3, secret: 'x' },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('QueryParser', () => {
+        it('filter[or][n][...] 키를 그룹으로 파싱해야 함', () => {
+            const parser = new QueryParser({ allowedFilters: ['status', 'ownerId'] });
+
+            const parsed = parser.parse({
+                'filter[or][0][status_eq]': 'active',
+                'filter[or][1][ownerId_eq]': '1',
+                'filter[or][1][status_ne]': 'draft',
+            });
+
+            expect(parsed.filters).toEqual([]);
+            expect(parsed.filterGroups).toEqual([
+                {
+                    type: 'or',
+                    conditions: [
+                        { field: 'status', operator: 'eq', value: 'active', relation: undefined },
+                        {
+                            type: 'and',
+                            conditions: [
+                                { field: 'ownerId', operator: 'eq', value: '1', relation: undefined },
+                                { field: 'status', operator: 'ne', value: 'draft', relation: undefined },
+                            ],
+                        },
+                    ],
+                },
+            ]);
+        });
+
+        it('allowedFilters에 없는 필드는 그룹 안에서도 무시해야 함', () => {
+            const parser = new QueryParser({ allowedFilters: ['status'] });
+
+            const parsed = parser.parse({
+                'filter[or][0][secret_eq]': 'x',
+                'filter[not][secret_eq]': 'y',
+            });
+
+            expect(parsed.filterGroups).toBeUndefined();
+        });
+    });
+
+    it('OR 그룹은 어느 한 조건이라도 만족하는 항목을 반환해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({ 'filter[or][0][status_eq]': 'draft', 'filter[or][1][ownerId_eq]': '2' })
+            .expect(200);
+
+        expect(titlesOf(response.body)).toEqual(['b', 'd', 'e']);
+        expect(response.body.metadata.pagination.total).toBe(3);
+    });
+
+    it('일반 필터와 OR 그룹은 AND로 결합되어야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({
+                'filter[status_eq]': 'active',
+                'filter[or][0][ownerId_eq]': '1',
+                'filter[or][1][title_eq]': 'd',
+            })
+            .expect(200);
+
+        expect(titlesOf(response.body)).toEqual(['a']);
+    });
+
+    it('NOT 그룹은 조건을 부정해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({ 'filter[not][status_eq]': 'archived', 'filter[not][ownerId_eq]': '1' })
+            .expect(200);
+
+        // NOT (status = archived AND ownerId = 1)
+        expect(titlesOf(response.body)).toEqual(['a', 'b', 'd', 'e']);
+    });
+
+    it('중첩된 그룹을 지원해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({
+                'filter[or][0][status_eq]': 'draft',
+                'filter[or][1][and][0][status_eq]': 'archived',
+                'filter[or][1][not][ownerId_eq]': '1',
+            })
+            .expect(200);
+
+        // status = draft OR (status = archived AND NOT ownerId = 1)
+        expect(titlesOf(response.body)).toEqual(['d', 'e']);
+    });
+
+    it('허용되지 않은 필드의 OR 분기는 무시해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({ 'filter[or][0][secret_eq]': 'x', 'filter[or][1][status_eq]': 'draft' })
+            .expect(200);
+
+        expect(titlesOf(response.body)).toEqual(['e']);
+    });
+
+    it('같은 필드의 여러 조건은 모두 적용되어야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_filter_group_tasks')
+            .query({ 'filter[ownerId_gte]': '2', 'filter[ownerId_lte]': '2' })
+            .expect(200);
+
+        expect(titlesOf(response.body)).toEqual(['b', 'd']);
+    });
+});
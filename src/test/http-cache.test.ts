@@ -0,0 +1,159 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * HTTP 캐시 테스트를 위한 엔티티
+ */
+@Entity('test_http_cache_products')
+class Product {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    name!: string;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
+
+@Controller('test_http_cache_products')
+@Crud({
+    entity: Product,
+    allowedParams: ['name'],
+    allowedFilters: ['name'],
+    routes: {
+        show: { httpCache: { maxAge: 60, visibility: 'public', staleWhileRevalidate: 30 } },
+        index: { paginationType: 'offset', httpCache: { maxAge: 10, vary: ['Authorization', 'Accept-Language'] } },
+    },
+})
+class ProductController {
+    constructor(public readonly crudService: CrudService<Product>) {}
+}
+
+@Controller('test_http_uncached_products')
+@Crud({ entity: Product })
+class UncachedProductController {
+    constructor(public readonly crudService: CrudService<Product>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Product])],
+    controllers: [ProductController, UncachedProductController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ProductRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('HTTP cache: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Product],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const service: CrudService<Product> = module.get(CrudService);
+        await service.repository.save([{ name: 'pen' }, { name: 'ink' }, { name: 'paper' }]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('show는 Cache-Control, ETag와 Last-Modified를 응답하고 If-None-Match가 일치하면 304를 응답해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_http_cache_products/1').expect(200);
+
+        expect(response.headers['cache-control']).toBe('public, max-age=60, stale-while-revalidate=30');
+        expect(response.headers.etag).toBe(`"${new Date(response.body.data.updatedAt).getTime()}"`);
+        expect(response.headers['last-modified']).toBe(new Date(response.body.data.updatedAt).toUTCString());
+
+        const notModified = await request(app.getHttpServer()).get('/test_http_cache_products/1').set('If-None-Match', response.headers.etag).expect(304);
+        expect(notModified.text).toBe('');
+        expect(notModified.headers['cache-control']).toBe('public, max-age=60, stale-while-revalidate=30');
+    });
+
+    it('If-Modified-Since 이후에 변경되지 않았으면 304를, 변경되었으면 200을 응답해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_http_cache_products/2').expect(200);
+        const lastModified = response.headers['last-modified'];
+
+        await request(app.getHttpServer()).get('/test_http_cache_products/2').set('If-Modified-Since', lastModified).expect(304);
+
+        const earlier = new Date(Date.parse(lastModified) - 60 * 1000).toUTCString();
+        await request(app.getHttpServer()).get('/test_http_cache_products/2').set('If-Modified-Since', earlier).expect(200);
+
+        // If-None-Match가 있으면 If-Modified-Since보다 우선
+        await request(app.getHttpServer())
+            .get('/test_http_cache_products/2')
+            .set('If-None-Match', '"stale"')
+            .set('If-Modified-Since', lastModified)
+            .expect(200);
+    });
+
+    it('index는 응답의 hash를 ETag로 응답하고 Vary를 보내야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_http_cache_products').expect(200);
+        const second = await request(app.getHttpServer()).get('/test_http_cache_products').expect(200);
+
+        expect(first.headers['cache-control']).toBe('private, max-age=10');
+        expect(first.headers.vary).toContain('Authorization, Accept-Language');
+        expect(first.headers.etag).toMatch(/^W\/"/);
+        expect(second.headers.etag).toBe(first.headers.etag);
+
+        const filtered = await request(app.getHttpServer()).get('/test_http_cache_products').query({ 'filter[name_eq]': 'pen' }).expect(200);
+        expect(filtered.headers.etag).not.toBe(first.headers.etag);
+
+        await request(app.getHttpServer()).get('/test_http_cache_products').set('If-None-Match', first.headers.etag).expect(304);
+    });
+
+    it('변경된 행이 있으면 index의 ETag가 달라져야 함', async () => {
+        const before = await request(app.getHttpServer()).get('/test_http_cache_products').expect(200);
+
+        await request(app.getHttpServer()).patch('/test_http_cache_products/3').send({ name: 'notebook' }).expect(200);
+
+        const after = await request(app.getHttpServer()).get('/test_http_cache_products').set('If-None-Match', before.headers.etag).expect(200);
+        expect(after.headers.etag).not.toBe(before.headers.etag);
+    });
+
+    it('index는 Last-Modified를 보내지 않고 If-Modified-Since로 304를 응답하지 않아야 함', async () => {
+        const before = await request(app.getHttpServer()).get('/test_http_cache_products').expect(200);
+        expect(before.headers['last-modified']).toBeUndefined();
+
+        // 행이 삭제되어도 페이지의 가장 최근 updatedAt은 그대로임
+        const latest = new Date(Math.max(...before.body.data.map(({ updatedAt }: Product) => new Date(updatedAt).getTime())));
+        await request(app.getHttpServer()).delete(`/test_http_cache_products/${before.body.data[0].id}`).expect(200);
+
+        const after = await request(app.getHttpServer()).get('/test_http_cache_products').set('If-Modified-Since', latest.toUTCString()).expect(200);
+        expect(after.body.data).toHaveLength(before.body.data.length - 1);
+    });
+
+    it('httpCache가 없는 route는 Cache-Control을 보내지 않아야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_http_uncached_products').expect(200);
+        expect(response.headers['cache-control']).toBeUndefined();
+    });
+});
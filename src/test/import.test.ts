@@ -0,0 +1,306 @@
+import { Controller, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { InjectRepository, TypeOrmModule } from '@nestjs/typeorm';
+import { IsEmail, IsInt, IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn, Repository } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * 가져오기 테스트를 위한 엔티티
+ */
+@Entity('test_import_contacts')
+class Contact {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    name!: string;
+
+    @Column({ unique: true })
+    @IsEmail()
+    email!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsInt()
+    age?: number;
+}
+
+/**
+ * 테넌트마다 같은 email을 가질 수 있는 엔티티
+ */
+@Entity('test_import_tenant_contacts')
+class TenantContact {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    tenantId!: string;
+
+    @Column()
+    @IsString()
+    name!: string;
+
+    @Column()
+    @IsEmail()
+    email!: string;
+}
+
+class TenantContactService extends CrudService<TenantContact> {
+    constructor(@InjectRepository(TenantContact) repository: Repository<TenantContact>) {
+        super(repository);
+    }
+}
+
+@Controller('test_import_contacts')
+@Crud({
+    entity: Contact,
+    routes: {
+        import: {
+            allowedParams: ['name', 'email', 'age'],
+            upsertKeys: ['email'],
+            batchSize: 2,
+            maxFileSize: 1024,
+        },
+    },
+})
+class ContactController {
+    constructor(public readonly crudService: CrudService<Contact>) {}
+}
+
+@Controller('test_import_plain_contacts')
+@Crud({ entity: Contact })
+class PlainContactController {
+    constructor(public readonly crudService: CrudService<Contact>) {}
+}
+
+@Controller('test_import_tenant_contacts')
+@Crud({
+    entity: TenantContact,
+    tenant: { column: 'tenantId', resolver: { header: 'x-tenant-id' } },
+    routes: {
+        import: {
+            allowedParams: ['name', 'email'],
+            upsertKeys: ['email'],
+        },
+    },
+})
+class TenantContactController {
+    constructor(public readonly crudService: TenantContactService) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Contact, TenantContact])],
+    controllers: [ContactController, PlainContactController, TenantContactController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ContactRepository'],
+        },
+        TenantContactService,
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Import: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Contact>;
+
+    /**
+     * Progress events of a job, read until the job is completed
+     */
+    const waitForJob = async (jobId: string, path = '/test_import_contacts', tenantId?: string) => {
+        const progress = request(app.getHttpServer()).get(`${path}/import/${jobId}`);
+        const response = await (tenantId ? progress.set('x-tenant-id', tenantId) : progress).buffer(true).expect(200);
+        expect(response.headers['content-type']).toContain('text/event-stream');
+        return response.text
+            .split('\n\n')
+            .filter((event) => event.startsWith('data: '))
+            .map((event) => JSON.parse(event.slice('data: '.length)));
+    };
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Contact, TenantContact],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        service = module.get(CrudService);
+        await service.repository.save({ name: 'Old Erin', email: 'erin@example.com' });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('CSV의 유효한 행은 저장하고 검증에 실패한 행은 줄 번호와 함께 오류 리포트로 제공해야 함', async () => {
+        const csv = [
+            'name,email,age',
+            'Alice,alice@example.com,30',
+            'Bob,not-an-email,20',
+            '"Carol, Jr.",carol@example.com,',
+            'Dave,dave@example.com,abc',
+        ].join('\r\n');
+
+        const { body } = await request(app.getHttpServer())
+            .post('/test_import_contacts/import')
+            .attach('file', Buffer.from(csv), 'contacts.csv')
+            .expect(HttpStatus.ACCEPTED);
+
+        const { jobId } = body.data;
+        expect(body.data).toEqual({
+            jobId: expect.any(String),
+            status: 'pending',
+            format: 'csv',
+            total: 4,
+            accepted: 2,
+            rejected: 2,
+            links: {
+                progress: `/test_import_contacts/import/${jobId}`,
+                errors: `/test_import_contacts/import/${jobId}/errors`,
+            },
+        });
+
+        const events = await waitForJob(jobId);
+        const last = events.at(-1);
+        expect(last.status).toBe('completed');
+        expect(last.steps.at(-1).data).toEqual({ saved: 2, failed: 0, rejected: 2 });
+
+        const alice = await service.repository.findOneByOrFail({ email: 'alice@example.com' });
+        expect(alice.age).toBe(30);
+        const carol = await service.repository.findOneByOrFail({ email: 'carol@example.com' });
+        expect(carol.name).toBe('Carol, Jr.');
+        expect(carol.age).toBeNull();
+
+        const report = await request(app.getHttpServer()).get(`/test_import_contacts/import/${jobId}/errors`).expect(200);
+        expect(report.headers['content-type']).toBe('text/csv; charset=utf-8');
+        expect(report.headers['content-disposition']).toBe(`attachment; filename="${jobId}-errors.csv"`);
+        expect(report.text).toBe(
+            [
+                '\uFEFFline,errors,name,email,age',
+                '3,email must be an email,Bob,not-an-email,20',
+                '5,age must be an integer number,Dave,dave@example.com,abc',
+                '',
+            ].join('\r\n'),
+        );
+    });
+
+    it('NDJSON은 upsertKeys가 같은 기존 행을 갱신하고 읽을 수 없는 줄은 거부해야 함', async () => {
+        const existing = await service.repository.findOneByOrFail({ email: 'erin@example.com' });
+        const ndjson = [
+            JSON.stringify({ name: 'Erin', email: 'erin@example.com', age: 41 }),
+            'not json',
+            JSON.stringify({ name: 'Frank', email: 'frank@example.com', secret: 'ignored' }),
+        ].join('\n');
+
+        const { body } = await request(app.getHttpServer())
+            .post('/test_import_contacts/import')
+            .attach('file', Buffer.from(ndjson), { filename: 'contacts.ndjson', contentType: 'application/x-ndjson' })
+            .expect(HttpStatus.ACCEPTED);
+        expect(body.data).toMatchObject({ format: 'ndjson', total: 3, accepted: 2, rejected: 1 });
+
+        const [last] = (await waitForJob(body.data.jobId)).slice(-1);
+        expect(last.status).toBe('completed');
+
+        const erins = await service.repository.findBy({ email: 'erin@example.com' });
+        expect(erins).toEqual([{ id: existing.id, name: 'Erin', email: 'erin@example.com', age: 41 }]);
+        await expect(service.repository.findOneBy({ email: 'frank@example.com' })).resolves.toMatchObject({ name: 'Frank' });
+
+        const report = await request(app.getHttpServer()).get(`/test_import_contacts/import/${body.data.jobId}/errors`).expect(200);
+        expect(report.text).toBe(['\uFEFFline,errors', '2,Row is not valid JSON', ''].join('\r\n'));
+    });
+
+    it('upsertKeys가 다른 테넌트의 행과 일치하면 그 행을 갱신하지 않고 오류 리포트에 남겨야 함', async () => {
+        const tenantContacts = module.get(TenantContactService).repository;
+        const other = await tenantContacts.save({ tenantId: 'b', name: 'Vera', email: 'v@b.com' });
+        const own = await tenantContacts.save({ tenantId: 'a', name: 'Walt', email: 'w@a.com' });
+        const csv = ['name,email', 'hijacked,v@b.com', 'Walter,w@a.com', 'Xena,x@a.com'].join('\n');
+
+        const { body } = await request(app.getHttpServer())
+            .post('/test_import_tenant_contacts/import')
+            .set('x-tenant-id', 'a')
+            .attach('file', Buffer.from(csv), 'contacts.csv')
+            .expect(HttpStatus.ACCEPTED);
+
+        const [last] = (await waitForJob(body.data.jobId, '/test_import_tenant_contacts', 'a')).slice(-1);
+        expect(last.status).toBe('completed');
+        expect(last.steps.at(-1).data).toEqual({ saved: 2, failed: 1, rejected: 1 });
+
+        await expect(tenantContacts.findOneByOrFail({ id: other.id })).resolves.toEqual(other);
+        await expect(tenantContacts.findOneByOrFail({ id: own.id })).resolves.toEqual({ ...own, name: 'Walter' });
+        await expect(tenantContacts.findBy({ email: 'v@b.com' })).resolves.toHaveLength(1);
+        await expect(tenantContacts.findOneBy({ email: 'x@a.com' })).resolves.toMatchObject({ tenantId: 'a', name: 'Xena' });
+
+        const report = await request(app.getHttpServer())
+            .get(`/test_import_tenant_contacts/import/${body.data.jobId}/errors`)
+            .set('x-tenant-id', 'a')
+            .expect(200);
+        expect(report.text).toBe(
+            ['\uFEFFline,errors,email,name,tenantId', '2,Row matches an existing entity by email which cannot be updated,v@b.com,hijacked,a', ''].join('\r\n'),
+        );
+    });
+
+    it('다른 테넌트는 import의 진행 상황과 오류 리포트를 조회할 수 없어야 함', async () => {
+        const { body } = await request(app.getHttpServer())
+            .post('/test_import_tenant_contacts/import')
+            .set('x-tenant-id', 'a')
+            .attach('file', Buffer.from(['name,email', 'Yara,y@a.com', ',invalid'].join('\n')), 'contacts.csv')
+            .expect(HttpStatus.ACCEPTED);
+        const { jobId } = body.data;
+
+        await request(app.getHttpServer()).get(`/test_import_tenant_contacts/import/${jobId}`).set('x-tenant-id', 'b').expect(HttpStatus.NOT_FOUND);
+        await request(app.getHttpServer())
+            .get(`/test_import_tenant_contacts/import/${jobId}/errors`)
+            .set('x-tenant-id', 'b')
+            .expect(HttpStatus.NOT_FOUND);
+
+        const [last] = (await waitForJob(jobId, '/test_import_tenant_contacts', 'a')).slice(-1);
+        expect(last.status).toBe('completed');
+        const report = await request(app.getHttpServer()).get(`/test_import_tenant_contacts/import/${jobId}/errors`).set('x-tenant-id', 'a').expect(200);
+        expect(report.text).toContain('invalid');
+    });
+
+    it('파일이 없으면 400, 허용하지 않은 포맷은 415, maxFileSize를 넘으면 413을 응답해야 함', async () => {
+        await request(app.getHttpServer()).post('/test_import_contacts/import').expect(HttpStatus.BAD_REQUEST);
+        await request(app.getHttpServer())
+            .post('/test_import_contacts/import')
+            .attach('file', Buffer.from('name'), 'contacts.xlsx')
+            .expect(HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+        await request(app.getHttpServer())
+            .post('/test_import_contacts/import')
+            .attach('file', Buffer.from(`name,email\n${'a,b@example.com\n'.repeat(100)}`), 'contacts.csv')
+            .expect(HttpStatus.PAYLOAD_TOO_LARGE);
+    });
+
+    it('알 수 없는 job은 404를 응답해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_import_contacts/import/unknown').expect(HttpStatus.NOT_FOUND);
+        await request(app.getHttpServer()).get('/test_import_contacts/import/unknown/errors').expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('import route는 설정하지 않으면 생성되지 않아야 함', () => {
+        const plain = PlainContactController.prototype as unknown as Record<string, unknown>;
+        expect(plain.reservedImport).toBeUndefined();
+        expect(plain.reservedImportProgress).toBeUndefined();
+        expect(plain.reservedImportReport).toBeUndefined();
+        expect((ContactController.prototype as unknown as Record<string, unknown>).reservedImport).toBeDefined();
+    });
+});
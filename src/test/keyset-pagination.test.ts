@@ -0,0 +1,155 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import _ from 'lodash';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * keyset pagination 테스트를 위한 엔티티
+ */
+@Entity('test_keyset_posts')
+class Post {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    title!: string;
+
+    @Column()
+    score!: number;
+
+    @Column()
+    publishedAt!: Date;
+}
+
+@Controller('test_keyset_posts')
+@Crud({
+    entity: Post,
+    allowedFilters: ['score'],
+    routes: {
+        index: { paginationType: 'cursor', numberOfTake: 3 },
+    },
+})
+class PostController {
+    constructor(public readonly crudService: CrudService<Post>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Post])],
+    controllers: [PostController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['PostRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const seeds = [
+    { title: 'b', score: 10, publishedAt: new Date('2024-01-02T00:00:00Z') },
+    { title: 'a', score: 10, publishedAt: new Date('2024-01-01T00:00:00Z') },
+    { title: 'a', score: 30, publishedAt: new Date('2024-01-03T00:00:00Z') },
+    { title: 'c', score: 20, publishedAt: new Date('2024-01-01T00:00:00Z') },
+    { title: 'a', score: 10, publishedAt: new Date('2024-01-02T00:00:00Z') },
+    { title: 'b', score: 20, publishedAt: new Date('2024-01-05T00:00:00Z') },
+    { title: 'd', score: 10, publishedAt: new Date('2024-01-04T00:00:00Z') },
+];
+
+const ids = (body: { data: Post[] }) => body.data.map(({ id }) => id);
+
+describe.each(platforms)('Keyset pagination: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let posts: Post[];
+
+    const get = (query: Record<string, unknown>) => request(app.getHttpServer()).get('/test_keyset_posts').query(query);
+
+    /**
+     * 모든 페이지를 page[after]로 따라가며 id를 모음
+     */
+    const walk = async (query: Record<string, unknown>) => {
+        const pages: number[][] = [];
+        let cursor: string | undefined;
+        do {
+            const response = await get({ ...query, ...(cursor ? { 'page[after]': cursor } : {}) }).expect(200);
+            pages.push(ids(response.body));
+            cursor = response.body.data.length > 0 ? response.body.metadata.pagination.nextCursor : undefined;
+        } while (cursor && pages.length < 10);
+        return pages;
+    };
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Post],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const service: CrudService<Post> = module.get(CrudService);
+        posts = await service.repository.save(seeds);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('ASC/DESC가 섞인 여러 컬럼 정렬을 중복이나 누락 없이 페이지네이션해야 함', async () => {
+        const pages = await walk({ sort: '-score,title' });
+
+        const expected = _.orderBy(posts, ['score', 'title', 'id'], ['desc', 'asc', 'asc']).map(({ id }) => id);
+        expect(pages.flat()).toEqual(expected);
+        expect(pages.map((page) => page.length)).toEqual([3, 3, 1, 0]);
+    });
+
+    it('날짜 컬럼 정렬과 기본 키 tiebreaker를 지원해야 함', async () => {
+        const pages = await walk({ sort: '-publishedAt' });
+
+        const expected = _.orderBy(posts, ['publishedAt', 'id'], ['desc', 'desc']).map(({ id }) => id);
+        expect(pages.flat()).toEqual(expected);
+    });
+
+    it('page[before]로 이전 페이지를 같은 순서로 조회해야 함', async () => {
+        const first = await get({ sort: 'score,title' }).expect(200);
+        const second = await get({ sort: 'score,title', 'page[after]': first.body.metadata.pagination.nextCursor }).expect(200);
+
+        const previous = await get({ sort: 'score,title', 'page[before]': second.body.metadata.pagination.prevCursor }).expect(200);
+
+        expect(ids(previous.body)).toEqual(ids(first.body));
+        expect(previous.body.metadata.pagination.nextCursor).toBe(first.body.metadata.pagination.nextCursor);
+    });
+
+    it('같은 컬럼의 필터와 keyset 조건을 함께 적용해야 함', async () => {
+        const pages = await walk({ sort: 'score', 'filter[score_gte]': 20 });
+
+        const expected = _.orderBy(
+            posts.filter(({ score }) => score >= 20),
+            ['score', 'id'],
+            ['asc', 'asc'],
+        ).map(({ id }) => id);
+        expect(pages.flat()).toEqual(expected);
+    });
+
+    it('다른 정렬에서 만든 cursor는 400으로 거부해야 함', async () => {
+        const first = await get({ sort: '-score,title' }).expect(200);
+
+        const response = await get({ sort: 'title', 'page[after]': first.body.metadata.pagination.nextCursor }).expect(400);
+        expect(response.body.message).toBe('Cursor does not match the sort');
+    });
+});
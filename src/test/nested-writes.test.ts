@@ -0,0 +1,389 @@
+import { Controller, HttpStatus, INestApplication, Injectable, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { InjectRepository, TypeOrmModule } from '@nestjs/typeorm';
+import { IsInt, IsOptional, IsString, Min, MinLength } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, JoinTable, ManyToMany, ManyToOne, OneToMany, PrimaryGeneratedColumn, Repository } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+/**
+ * 중첩 쓰기 테스트를 위한 엔티티
+ */
+@Entity('test_nested_customers')
+class Customer {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @MinLength(2)
+    name!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsString()
+    tenantId?: string;
+}
+
+@Entity('test_nested_tags')
+class Tag {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    label!: string;
+
+    @Column({ nullable: true })
+    @IsOptional()
+    @IsString()
+    tenantId?: string;
+}
+
+@Entity('test_nested_orders')
+class Order {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    title!: string;
+
+    @Column({ nullable: true })
+    customerId?: number | null;
+
+    @Column({ nullable: true })
+    tenantId?: string;
+
+    @ManyToOne(() => Customer, { nullable: true })
+    customer?: Customer | null;
+
+    @ManyToMany(() => Tag)
+    @JoinTable({ name: 'test_nested_order_tags' })
+    tags?: Tag[];
+
+    @OneToMany(() => OrderItem, (item) => item.order)
+    items?: OrderItem[];
+}
+
+@Entity('test_nested_order_items')
+class OrderItem {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    name!: string;
+
+    @Column()
+    @IsInt()
+    @Min(1)
+    quantity!: number;
+
+    @Column({ nullable: true })
+    orderId?: number;
+
+    @ManyToOne(() => Order, (order) => order.items, { onDelete: 'CASCADE' })
+    order?: Order;
+}
+
+@Injectable()
+class OrderService extends CrudService<Order> {
+    constructor(@InjectRepository(Order) repository: Repository<Order>) {
+        super(repository);
+    }
+}
+
+@Controller('test_nested_orders')
+@Crud({
+    entity: Order,
+    allowedParams: ['title'],
+    allowedNestedWrites: {
+        customer: ['connect', 'create', 'update', 'disconnect'],
+        tags: ['connect', 'disconnect', 'create'],
+        items: ['create', 'update', 'delete'],
+    },
+})
+class OrderController {
+    constructor(public readonly crudService: OrderService) {}
+}
+
+@Controller('test_nested_tenant_orders')
+@Crud({
+    entity: Order,
+    allowedParams: ['title'],
+    tenant: { column: 'tenantId', resolver: { header: 'x-tenant-id' } },
+    allowedNestedWrites: { customer: ['connect', 'create', 'update'], tags: ['connect', 'create', 'update'] },
+})
+class TenantOrderController {
+    constructor(public readonly crudService: OrderService) {}
+}
+
+@Controller('test_nested_plain_orders')
+@Crud({ entity: Order, allowedParams: ['title'] })
+class PlainOrderController {
+    constructor(public readonly crudService: OrderService) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Order, Customer, Tag, OrderItem])],
+    controllers: [OrderController, TenantOrderController, PlainOrderController],
+    providers: [OrderService],
+})
+class TestModule {}
+
+describe('Nested writes', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: OrderService;
+    let tags: Tag[];
+    let customer: Customer;
+
+    const findOrder = (id: number) =>
+        service.repository.findOneOrFail({ where: { id }, relations: { customer: true, tags: true, items: true }, order: { tags: { id: 'ASC' }, items: { id: 'ASC' } } });
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Order, Customer, Tag, OrderItem],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        service = module.get(OrderService);
+        const dataSource = service.repository.manager;
+        tags = await dataSource.save(Tag, [{ label: 'red' }, { label: 'green' }, { label: 'blue' }]);
+        customer = await dataSource.save(Customer, { name: 'Alice' });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('create는 ManyToOne과 ManyToMany를 id로 연결하고 OneToMany 행을 생성해야 함', async () => {
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({
+                title: 'First',
+                customer: { connect: customer.id },
+                tags: { connect: [tags[0].id, tags[1].id], create: [{ label: 'new' }] },
+                items: { create: [{ name: 'pen', quantity: 2 }, { name: 'ink', quantity: 1 }] },
+            })
+            .expect(HttpStatus.CREATED);
+
+        expect(body.data).toMatchObject({ title: 'First', customer: { id: customer.id, name: 'Alice' } });
+        expect(body.data.tags.map(({ label }: Tag) => label).sort()).toEqual(['green', 'new', 'red']);
+        expect(body.data.items.map(({ name }: OrderItem) => name).sort()).toEqual(['ink', 'pen']);
+
+        const order = await findOrder(body.data.id);
+        expect(order.customerId).toBe(customer.id);
+        expect(order.tags?.map(({ label }) => label)).toEqual(['red', 'green', 'new']);
+        expect(order.items?.map(({ name, quantity }) => ({ name, quantity }))).toEqual([
+            { name: 'pen', quantity: 2 },
+            { name: 'ink', quantity: 1 },
+        ]);
+    });
+
+    it('update는 연결을 추가하거나 해제하고 관련 행을 수정하거나 삭제해야 함', async () => {
+        const created = await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({
+                title: 'Second',
+                tags: { connect: [tags[0].id, tags[1].id] },
+                items: { create: [{ name: 'cup', quantity: 1 }, { name: 'plate', quantity: 4 }] },
+            })
+            .expect(HttpStatus.CREATED);
+        const order = await findOrder(created.body.data.id);
+        const [cup, plate] = order.items!;
+
+        const { body } = await request(app.getHttpServer())
+            .patch(`/test_nested_orders/${order.id}`)
+            .send({
+                title: 'Second (edited)',
+                customer: { create: { name: 'Bob' } },
+                tags: { connect: [tags[1].id, tags[2].id], disconnect: [tags[0].id] },
+                items: { update: [{ id: cup.id, quantity: 3 }], delete: [plate.id], create: [{ name: 'bowl', quantity: 1 }] },
+            })
+            .expect(HttpStatus.OK);
+        expect(body.data.customer).toMatchObject({ name: 'Bob' });
+
+        const updated = await findOrder(order.id);
+        expect(updated.title).toBe('Second (edited)');
+        expect(updated.customer?.name).toBe('Bob');
+        expect(updated.tags?.map(({ label }) => label)).toEqual(['green', 'blue']);
+        expect(updated.items?.map(({ name, quantity }) => ({ name, quantity }))).toEqual([
+            { name: 'cup', quantity: 3 },
+            { name: 'bowl', quantity: 1 },
+        ]);
+        await expect(service.repository.manager.findOneBy(OrderItem, { id: plate.id })).resolves.toBeNull();
+
+        await request(app.getHttpServer())
+            .patch(`/test_nested_orders/${order.id}`)
+            .send({ customer: { update: { name: 'Bobby' } } })
+            .expect(HttpStatus.OK);
+        await request(app.getHttpServer())
+            .patch(`/test_nested_orders/${order.id}`)
+            .send({ customer: { disconnect: true } })
+            .expect(HttpStatus.OK);
+        const disconnected = await findOrder(order.id);
+        expect(disconnected.customer).toBeNull();
+        await expect(service.repository.manager.findOneBy(Customer, { name: 'Bobby' })).resolves.not.toBeNull();
+    });
+
+    it('upsert도 중첩 쓰기를 처리해야 함', async () => {
+        await request(app.getHttpServer())
+            .put('/test_nested_orders/500')
+            .send({ title: 'Upserted', tags: { connect: [tags[2].id] }, items: { create: [{ name: 'box', quantity: 5 }] } })
+            .expect(HttpStatus.OK);
+
+        const order = await findOrder(500);
+        expect(order.tags?.map(({ label }) => label)).toEqual(['blue']);
+        expect(order.items?.map(({ name }) => name)).toEqual(['box']);
+    });
+
+    it('관련 행은 관련 엔티티의 검증 규칙으로 검증하고 실패하면 아무것도 저장하지 않아야 함', async () => {
+        const count = await service.repository.count();
+        await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({ title: 'Invalid', items: { create: [{ name: 'pen', quantity: 0 }] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({ title: 'Invalid', customer: { create: { name: 'A' } } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+        // 존재하지 않는 id를 연결하면 부모도 저장하지 않음
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({ title: 'Missing tag', tags: { connect: [tags[0].id, 9999] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(body.message).toBe('tags 9999 not found');
+        await expect(service.repository.count()).resolves.toBe(count);
+    });
+
+    it('allowedNestedWrites에 없는 관계나 연산은 거부하고 다른 부모의 행은 수정할 수 없어야 함', async () => {
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({ title: 'Denied', tags: { delete: [tags[0].id] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(body.message).toBe('delete of tags is not allowed');
+
+        await request(app.getHttpServer())
+            .post('/test_nested_plain_orders')
+            .send({ title: 'Plain', tags: { connect: [tags[0].id] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+        const other = await service.repository.findOneOrFail({ where: { title: 'First' }, relations: { items: true } });
+        const target = await service.repository.save({ title: 'Target' });
+        const response = await request(app.getHttpServer())
+            .patch(`/test_nested_orders/${target.id}`)
+            .send({ items: { delete: [other.items![0].id] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(response.body.message).toBe(`items ${other.items![0].id} is not related`);
+        await expect(service.repository.manager.countBy(OrderItem, { orderId: other.id })).resolves.toBe(2);
+    });
+
+    it('to-one update는 현재 연결된 행만 수정하고 연결과 함께 쓸 수 없어야 함', async () => {
+        const victim = await service.repository.manager.save(Customer, { name: 'Victor' });
+        const order = await service.repository.save({ title: 'Owned', customerId: customer.id });
+
+        const { body } = await request(app.getHttpServer())
+            .patch(`/test_nested_orders/${order.id}`)
+            .send({ customer: { connect: victim.id, update: { name: 'Hijacked' } } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(body.message).toBe('update of customer cannot be combined with connect, create or disconnect');
+        await expect(service.repository.manager.findOneByOrFail(Customer, { id: victim.id })).resolves.toMatchObject({ name: 'Victor' });
+        await expect(findOrder(order.id)).resolves.toMatchObject({ customer: { id: customer.id } });
+    });
+
+    it('다른 테넌트의 행은 연결할 수 없어야 함', async () => {
+        const manager = service.repository.manager;
+        const [own, other] = await manager.save(Customer, [
+            { name: 'Own', tenantId: 'a' },
+            { name: 'Other', tenantId: 'b' },
+        ]);
+        const otherTag = await manager.save(Tag, { label: 'secret', tenantId: 'b' });
+
+        const response = await request(app.getHttpServer())
+            .post('/test_nested_tenant_orders')
+            .set('x-tenant-id', 'a')
+            .send({ title: 'Tenant', customer: { connect: other.id } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(response.body.message).toBe(`customer ${other.id} not found`);
+        await request(app.getHttpServer())
+            .post('/test_nested_tenant_orders')
+            .set('x-tenant-id', 'a')
+            .send({ title: 'Tenant', tags: { connect: [otherTag.id] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_tenant_orders')
+            .set('x-tenant-id', 'a')
+            .send({ title: 'Tenant', customer: { connect: own.id } })
+            .expect(HttpStatus.CREATED);
+        await expect(findOrder(body.data.id)).resolves.toMatchObject({ tenantId: 'a', customer: { id: own.id } });
+
+        await request(app.getHttpServer())
+            .patch(`/test_nested_tenant_orders/${body.data.id}`)
+            .set('x-tenant-id', 'a')
+            .send({ customer: { connect: other.id } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        await expect(findOrder(body.data.id)).resolves.toMatchObject({ customer: { id: own.id } });
+    });
+
+    it('중첩 create와 update는 테넌트를 바꿀 수 없어야 함', async () => {
+        const manager = service.repository.manager;
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_tenant_orders')
+            .set('x-tenant-id', 'a')
+            .send({
+                title: 'Tenant',
+                customer: { create: { name: 'Created', tenantId: 'b' } },
+                tags: { create: [{ label: 'created', tenantId: 'b' }] },
+            })
+            .expect(HttpStatus.CREATED);
+        const order = await findOrder(body.data.id);
+        expect(order).toMatchObject({ tenantId: 'a', customer: { name: 'Created', tenantId: 'a' }, tags: [{ label: 'created', tenantId: 'a' }] });
+
+        const customerResponse = await request(app.getHttpServer())
+            .patch(`/test_nested_tenant_orders/${order.id}`)
+            .set('x-tenant-id', 'a')
+            .send({ customer: { update: { name: 'Moved', tenantId: 'b' } } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        expect(customerResponse.body.message).toBe('tenantId of customer cannot be changed');
+        await request(app.getHttpServer())
+            .patch(`/test_nested_tenant_orders/${order.id}`)
+            .set('x-tenant-id', 'a')
+            .send({ tags: { update: [{ id: order.tags![0].id, tenantId: 'b' }] } })
+            .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+        await expect(manager.findOneByOrFail(Customer, { id: order.customer!.id })).resolves.toMatchObject({ name: 'Created', tenantId: 'a' });
+        await expect(manager.findOneByOrFail(Tag, { id: order.tags![0].id })).resolves.toMatchObject({ tenantId: 'a' });
+
+        await request(app.getHttpServer())
+            .patch(`/test_nested_tenant_orders/${order.id}`)
+            .set('x-tenant-id', 'a')
+            .send({ customer: { update: { name: 'Renamed', tenantId: 'a' } } })
+            .expect(HttpStatus.OK);
+        await expect(manager.findOneByOrFail(Customer, { id: order.customer!.id })).resolves.toMatchObject({ name: 'Renamed', tenantId: 'a' });
+    });
+
+    it('중첩 쓰기 문법이 아닌 관계 값은 기존처럼 allowedParams를 따라야 함', async () => {
+        const { body } = await request(app.getHttpServer())
+            .post('/test_nested_orders')
+            .send({ title: 'Plain relation', tags: [{ id: tags[0].id }] })
+            .expect(HttpStatus.CREATED);
+        const order = await findOrder(body.data.id);
+        expect(order.tags).toEqual([]);
+    });
+});
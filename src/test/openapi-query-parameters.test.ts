@@ -0,0 +1,168 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, Module } from '@nestjs/common';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { Test } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { FilterOperator } from '../lib/interface';
+
+import type { INestApplication } from '@nestjs/common';
+import type { OpenAPIObject } from '@nestjs/swagger';
+import type { ParameterObject, SchemaObject } from '@nestjs/swagger/dist/interfaces/open-api-spec.interface';
+
+/**
+ * OpenAPI 문서 테스트를 위한 엔티티
+ */
+@Entity('test_openapi_publishers')
+class Publisher {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    name!: string;
+}
+
+@Entity('test_openapi_books')
+class Book {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    title!: string;
+
+    @Column({ type: 'float', nullable: true })
+    price?: number;
+
+    @Column({ default: false })
+    published!: boolean;
+
+    @Column({ nullable: true })
+    secret?: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @ManyToOne(() => Publisher, { nullable: true })
+    publisher?: Publisher;
+}
+
+@Crud({
+    entity: Book,
+    only: ['index', 'show', 'create', 'export'],
+    allowedFilters: ['title', 'price', 'published', 'createdAt'],
+    allowedIncludes: ['publisher'],
+    exclude: ['secret'],
+    routes: { export: { allowedFilters: ['title'] } },
+})
+@Controller('books')
+class BookController {
+    constructor(public readonly crudService: CrudService<Book>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Book, Publisher])],
+    controllers: [BookController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['BookRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('OpenAPI query parameters', () => {
+    let app: INestApplication;
+    let document: OpenAPIObject;
+
+    const parameterOf = (path: string, name: string) =>
+        (document.paths[path].get?.parameters as ParameterObject[]).find((parameter) => parameter.name === name);
+
+    beforeAll(async () => {
+        const module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Book, Publisher],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+        document = SwaggerModule.createDocument(app, new DocumentBuilder().build());
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('filter는 허용된 필드와 연산자마다 컬럼 타입의 deepObject 속성이어야 함', () => {
+        const filter = parameterOf('/books', 'filter')!;
+        expect(filter).toMatchObject({ in: 'query', required: false, style: 'deepObject', explode: true });
+
+        const { properties } = filter.schema as SchemaObject;
+        expect(Object.keys(properties!)).toHaveLength(4 * Object.values(FilterOperator).length);
+        expect(properties).toMatchObject({
+            title_eq: { type: 'string' },
+            title_like: { type: 'string' },
+            price_gte: { type: 'number' },
+            price_in: { type: 'string', description: 'Comma separated number values' },
+            price_between: { type: 'string', description: 'Two number values, comma separated' },
+            published_eq: { type: 'boolean' },
+            createdAt_lt: { type: 'string', format: 'date-time' },
+            createdAt_null: { type: 'boolean' },
+        });
+        expect(properties).not.toHaveProperty('secret_eq');
+
+        // route의 allowedFilters가 우선
+        const exportFilter = parameterOf('/books/export', 'filter')!;
+        expect(Object.keys((exportFilter.schema as SchemaObject).properties!).every((name) => name.startsWith('title_'))).toBe(true);
+    });
+
+    it('sort와 include는 허용된 값의 enum이어야 함', () => {
+        const sort = parameterOf('/books', 'sort')!;
+        expect(sort).toMatchObject({ in: 'query', style: 'form', explode: false, schema: { type: 'array' } });
+        expect(((sort.schema as SchemaObject).items as SchemaObject).enum).toEqual(
+            expect.arrayContaining(['id', '-id', 'title', '-title', 'price', '-price', 'createdAt', '-createdAt']),
+        );
+
+        // export는 파일에 쓰지 않는 컬럼으로 정렬할 수 없음
+        const exportSort = ((parameterOf('/books/export', 'sort')!.schema as SchemaObject).items as SchemaObject).enum;
+        expect(exportSort).toContain('title');
+        expect(exportSort).not.toContain('secret');
+
+        const include = parameterOf('/books', 'include')!;
+        expect(((include.schema as SchemaObject).items as SchemaObject).enum).toEqual(['publisher']);
+        expect(parameterOf('/books/export', 'include')).toBeUndefined();
+
+        // show도 allowedIncludes의 관계를 include할 수 있음
+        const showInclude = parameterOf('/books/{id}', 'include')!;
+        expect(showInclude).toMatchObject({ in: 'query', style: 'form', explode: false, schema: { type: 'array' } });
+        expect(((showInclude.schema as SchemaObject).items as SchemaObject).enum).toEqual(['publisher']);
+    });
+
+    it('오류 응답은 CrudExceptionFilter의 형식이어야 함', () => {
+        const responses = document.paths['/books'].post!.responses;
+        expect(responses['422']).toMatchObject({
+            description: 'Invalid field',
+            content: {
+                'application/json': {
+                    schema: {
+                        required: ['statusCode', 'message'],
+                        properties: { statusCode: { type: 'integer', example: 422 }, message: { type: 'array' } },
+                    },
+                },
+            },
+        });
+        expect(responses['409']).toMatchObject({ content: { 'application/json': { schema: { properties: { statusCode: { example: 409 } } } } } });
+    });
+});
@@ -0,0 +1,216 @@
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn, VersionColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { EntityTagUtil } from '../lib/utils/entity-tag.util';
+
+/**
+ * 낙관적 동시성 제어 테스트를 위한 엔티티
+ */
+@Entity('test_versioned_documents')
+class Document {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    title!: string;
+
+    @VersionColumn()
+    @IsInt()
+    @IsOptional()
+    version!: number;
+}
+
+@Controller('test_versioned_documents')
+@Crud({
+    entity: Document,
+    allowedParams: ['title'],
+})
+class DocumentController {
+    constructor(public readonly crudService: CrudService<Document>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Document])],
+    controllers: [DocumentController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['DocumentRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Optimistic concurrency control: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Document>;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Document],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        await service.repository.save({ id: 1, title: 'draft' });
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('EntityTagUtil', () => {
+        it('버전 값으로 ETag를 만들고 비교해야 함', () => {
+            expect(EntityTagUtil.create(3)).toBe('"3"');
+            expect(EntityTagUtil.create(new Date(1000))).toBe('"1000"');
+            expect(EntityTagUtil.create(undefined)).toBeUndefined();
+
+            expect(EntityTagUtil.parse('"1", W/"2"')).toEqual(['"1"', 'W/"2"']);
+            expect(EntityTagUtil.matches(['"1"', 'W/"2"'], '"2"')).toBe(true);
+            expect(EntityTagUtil.matches(['*'], '"5"')).toBe(true);
+            expect(EntityTagUtil.matches(['"1"'], '"2"')).toBe(false);
+
+            expect(EntityTagUtil.matchesStrongly(['"2"'], '"2"')).toBe(true);
+            expect(EntityTagUtil.matchesStrongly(['W/"2"'], '"2"')).toBe(false);
+            expect(EntityTagUtil.matchesStrongly(['*'], '"5"')).toBe(true);
+
+            expect(EntityTagUtil.forFormat('"3"', 'hal')).toBe('"3;hal"');
+            expect(EntityTagUtil.forFormat('W/"3"', 'json-api')).toBe('W/"3;json-api"');
+            expect(EntityTagUtil.forFormat('"3"', 'default')).toBe('"3"');
+            expect(EntityTagUtil.withoutFormat('"3;json-api"')).toBe('"3"');
+        });
+    });
+
+    describe('show', () => {
+        it('버전 컬럼으로 ETag를 응답해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_versioned_documents/1').expect(200);
+
+            expect(response.headers.etag).toBe('"1"');
+            expect(response.body.metadata.etag).toBe('"1"');
+        });
+
+        it('If-None-Match가 일치하면 304를 응답해야 함', async () => {
+            await request(app.getHttpServer()).get('/test_versioned_documents/1').set('If-None-Match', '"1"').expect(304);
+            await request(app.getHttpServer()).get('/test_versioned_documents/1').set('If-None-Match', '"0"').expect(200);
+        });
+
+        it('포맷마다 다른 ETag를 응답하고 If-Match는 어느 포맷의 ETag든 받아야 함', async () => {
+            const hal = await request(app.getHttpServer()).get('/test_versioned_documents/1').query({ format: 'hal' }).expect(200);
+            expect(hal.headers.etag).toBe('"1;hal"');
+            await request(app.getHttpServer()).get('/test_versioned_documents/1').query({ format: 'hal' }).set('If-None-Match', '"1"').expect(200);
+
+            await request(app.getHttpServer()).patch('/test_versioned_documents/1').set('If-Match', hal.headers.etag).send({ title: 'published' }).expect(200);
+        });
+    });
+
+    describe('update', () => {
+        it('If-Match가 일치하면 수정하고 새 ETag를 응답해야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .patch('/test_versioned_documents/1')
+                .set('If-Match', '"1"')
+                .send({ title: 'published' })
+                .expect(200);
+
+            expect(response.headers.etag).toBe('"2"');
+            expect(response.body.data).toEqual(expect.objectContaining({ title: 'published', version: 2 }));
+        });
+
+        it('If-Match가 일치하지 않으면 412를 응답하고 수정하지 않아야 함', async () => {
+            await request(app.getHttpServer())
+                .patch('/test_versioned_documents/1')
+                .set('If-Match', '"0"')
+                .send({ title: 'published' })
+                .expect(412);
+
+            expect(await service.repository.findOneBy({ id: 1 })).toEqual(expect.objectContaining({ title: 'draft', version: 1 }));
+        });
+
+        it('If-Match는 약한 ETag와 일치하지 않아야 함', async () => {
+            await request(app.getHttpServer()).patch('/test_versioned_documents/1').set('If-Match', 'W/"1"').send({ title: 'published' }).expect(412);
+        });
+
+        it('같은 If-Match로 동시에 수정하면 하나만 저장하고 나머지는 412를 응답해야 함', async () => {
+            const responses = await Promise.all(
+                ['first', 'second', 'third'].map((title) =>
+                    request(app.getHttpServer()).patch('/test_versioned_documents/1').set('If-Match', '"1"').send({ title }),
+                ),
+            );
+
+            const statuses = responses.map(({ status }) => status);
+            expect(statuses.filter((status) => status === 200)).toHaveLength(1);
+            expect(statuses.filter((status) => status === 412)).toHaveLength(2);
+
+            const saved = responses.find(({ status }) => status === 200)!;
+            expect(saved.headers.etag).toBe('"2"');
+            expect(await service.repository.findOneBy({ id: 1 })).toEqual({ id: 1, title: saved.body.data.title, version: 2 });
+        });
+
+        it('body의 version이 다르면 409를 응답해야 함', async () => {
+            await service.repository.save({ id: 1, title: 'edited by someone else' });
+
+            await request(app.getHttpServer()).patch('/test_versioned_documents/1').send({ title: 'published', version: 1 }).expect(409);
+            await request(app.getHttpServer()).patch('/test_versioned_documents/1').send({ title: 'published', version: 2 }).expect(200);
+
+            expect(await service.repository.findOneBy({ id: 1 })).toEqual(expect.objectContaining({ title: 'published', version: 3 }));
+        });
+    });
+
+    describe('upsert', () => {
+        it('저장된 버전과 다르면 412를 응답해야 함', async () => {
+            await request(app.getHttpServer()).put('/test_versioned_documents/1').set('If-Match', '"0"').send({ title: 'replaced' }).expect(412);
+            await request(app.getHttpServer()).put('/test_versioned_documents/1').set('If-Match', '"1"').send({ title: 'replaced' }).expect(200);
+
+            expect(await service.repository.findOneBy({ id: 1 })).toEqual({ id: 1, title: 'replaced', version: 2 });
+        });
+
+        it('If-Match가 있으면 존재하지 않는 엔티티를 생성하지 않아야 함', async () => {
+            await request(app.getHttpServer()).put('/test_versioned_documents/2').set('If-Match', '*').send({ title: 'new' }).expect(412);
+
+            expect(await service.repository.count()).toBe(1);
+        });
+    });
+
+    describe('destroy', () => {
+        it('If-Match가 일치하지 않으면 삭제하지 않아야 함', async () => {
+            await request(app.getHttpServer()).delete('/test_versioned_documents/1').set('If-Match', '"0"').expect(412);
+            expect(await service.repository.count()).toBe(1);
+
+            await request(app.getHttpServer()).delete('/test_versioned_documents/1').set('If-Match', '"1"').expect(200);
+            expect(await service.repository.count()).toBe(0);
+        });
+
+        it('같은 If-Match로 동시에 삭제하면 하나만 삭제해야 함', async () => {
+            const statuses = await Promise.all(
+                [1, 2].map(async () => (await request(app.getHttpServer()).delete('/test_versioned_documents/1').set('If-Match', '"1"')).status),
+            );
+
+            expect(statuses.sort()).toEqual([200, 412]);
+            expect(await service.repository.count()).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import multipart from '@fastify/multipart';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import qs from 'qs';
+
+import type { INestApplication } from '@nestjs/common';
+import type { NestFastifyApplication } from '@nestjs/platform-fastify';
+import type { TestingModule } from '@nestjs/testing';
+
+/**
+ * Creates and initializes the application of a test module on a platform.
+ * `configure` runs before the application is initialized, e.g. to add global filters.
+ */
+export type CreateApplication = (module: TestingModule, configure?: (app: INestApplication) => void) => Promise<INestApplication>;
+
+const fastify =
+    (adapter: () => FastifyAdapter): CreateApplication =>
+    async (module: TestingModule, configure?: (app: INestApplication) => void): Promise<INestApplication> => {
+        const app = module.createNestApplication<NestFastifyApplication>(adapter());
+        await app.register(multipart);
+        configure?.(app);
+        await app.init();
+        await app.getHttpAdapter().getInstance().ready();
+        return app;
+    };
+
+/**
+ * Platforms the e2e suites run on, for `describe.each`.
+ * `fastify (qs)` parses the query string into nested objects like the extended query parser of Express.
+ */
+export const platforms: Array<[string, CreateApplication]> = [
+    [
+        'express',
+        async (module: TestingModule, configure?: (app: INestApplication) => void): Promise<INestApplication> => {
+            const app = module.createNestApplication();
+            configure?.(app);
+            await app.init();
+            return app;
+        },
+    ],
+    ['fastify', fastify(() => new FastifyAdapter())],
+    ['fastify (qs)', fastify(() => new FastifyAdapter({ querystringParser: (query) => qs.parse(query) }))],
+];
@@ -0,0 +1,248 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CrudRoles } from '../lib/decorator/conditional.decorator';
+import { CrudExceptionFilter } from '../lib/provider/crud-exception.filter';
+
+import type { CrudPolicyOptions } from '../lib/interface';
+import type { CrudHttpRequest } from '../lib/utils/http-platform';
+import type { ExecutionContext } from '@nestjs/common';
+
+/**
+ * 권한 정책 테스트를 위한 엔티티
+ */
+@Entity('test_policy_articles')
+class Article {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsInt()
+    @IsOptional()
+    ownerId!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    title!: string;
+
+    @Column({ default: 'draft' })
+    @IsString()
+    @IsOptional()
+    status!: string;
+
+    @Column({ default: '' })
+    @IsString()
+    @IsOptional()
+    internalNote!: string;
+}
+
+interface User {
+    id: number;
+    roles: string[];
+}
+
+const isAdmin = (user: User) => user.roles.includes('admin');
+
+/**
+ * 요청의 호출자를 지정하는 헤더
+ */
+const as = (id: number, roles: string) => ({ 'x-user-id': String(id), 'x-user-roles': roles });
+
+/**
+ * admin은 모든 권한, editor는 자신의 글만 다루며 잠긴 글은 수정할 수 없고 삭제는 불가
+ */
+const policy: CrudPolicyOptions = {
+    can: (user: User, method, entity?: Article) => {
+        if (isAdmin(user)) {
+            return true;
+        }
+        if (method === 'destroy') {
+            return false;
+        }
+        return entity?.status !== 'locked' || method === 'show';
+    },
+    conditions: (user: User) => (isAdmin(user) ? undefined : { ownerId: user.id }),
+    fields: (user: User) => (isAdmin(user) ? undefined : { writable: ['title'], hidden: ['internalNote'] }),
+};
+
+@Controller('test_policy_articles')
+@Crud({
+    entity: Article,
+    allowedParams: ['ownerId', 'title', 'status', 'internalNote'],
+    allowedFilters: ['title', 'internalNote'],
+    policy,
+})
+@CrudRoles(['editor', 'admin'])
+class ArticleController {
+    constructor(public readonly crudService: CrudService<Article>) {}
+}
+
+@CrudRoles(['admin'])
+@Controller('test_admin_articles')
+@Crud({
+    entity: Article,
+    only: ['index'],
+})
+class AdminArticleController {
+    constructor(public readonly crudService: CrudService<Article>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Article])],
+    controllers: [ArticleController, AdminArticleController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ArticleRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Authorization policy: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Article>;
+    let own: Article;
+    let locked: Article;
+    let other: Article;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Article],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module, (application) => {
+            // 인증 가드가 req.user를 채우는 것을 흉내냄
+            application.useGlobalGuards({
+                canActivate: (context: ExecutionContext) => {
+                    const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+                    if (req.headers['x-user-id']) {
+                        req.user = {
+                            id: Number(req.headers['x-user-id']),
+                            roles: String(req.headers['x-user-roles']).split(','),
+                        } satisfies User;
+                    }
+                    return true;
+                },
+            });
+            application.useGlobalFilters(new CrudExceptionFilter());
+        });
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        [own, locked, other] = await service.repository.save([
+            { ownerId: 1, title: 'own', internalNote: 'note' },
+            { ownerId: 1, title: 'locked', status: 'locked' },
+            { ownerId: 2, title: 'other' },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('@CrudRoles', () => {
+        it('호출자가 없으면 401을 CrudExceptionFilter 형식으로 응답해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_policy_articles').expect(401);
+
+            expect(response.body).toEqual({ message: ['Unauthorized'], statusCode: 401 });
+        });
+
+        it('역할이 없으면 403을 응답해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_policy_articles').set(as(1, 'viewer')).expect(403);
+
+            expect(response.body).toEqual({ message: ['Not allowed to index'], statusCode: 403 });
+        });
+
+        it('@Crud 위에 선언한 @CrudRoles도 적용해야 함', async () => {
+            await request(app.getHttpServer()).get('/test_admin_articles').set(as(1, 'editor')).expect(403);
+            await request(app.getHttpServer()).get('/test_admin_articles').set(as(1, 'admin')).expect(200);
+        });
+    });
+
+    describe('row-level conditions and field rules', () => {
+        it('자신의 행만 조회하고 숨김 필드를 제외해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_policy_articles').set(as(1, 'editor')).expect(200);
+
+            expect(response.body.data.map(({ title }: Article) => title).sort()).toEqual(['locked', 'own']);
+            expect(response.body.data[0]).not.toHaveProperty('internalNote');
+
+            await request(app.getHttpServer()).get(`/test_policy_articles/${other.id}`).set(as(1, 'editor')).expect(404);
+        });
+
+        it('숨김 필드로 필터링하거나 정렬하면 400을 응답해야 함', async () => {
+            for (const query of ['filter[internalNote_eq]=note', 'filter[or][0][internalNote_eq]=note&filter[or][1][title_eq]=own', 'sort=-internalNote']) {
+                const response = await request(app.getHttpServer()).get(`/test_policy_articles?${query}`).set(as(1, 'editor')).expect(400);
+                expect(response.body).toEqual({ message: ['Cannot filter or sort by internalNote'], statusCode: 400 });
+            }
+
+            const filtered = await request(app.getHttpServer()).get('/test_policy_articles?filter[title_eq]=own').set(as(1, 'editor')).expect(200);
+            expect(filtered.body.data).toHaveLength(1);
+            const admin = await request(app.getHttpServer()).get('/test_policy_articles?filter[internalNote_eq]=note').set(as(9, 'admin')).expect(200);
+            expect(admin.body.data.map(({ title }: Article) => title)).toEqual(['own']);
+        });
+
+        it('admin은 모든 행과 필드를 조회해야 함', async () => {
+            const response = await request(app.getHttpServer()).get(`/test_policy_articles/${own.id}`).set(as(9, 'admin')).expect(200);
+
+            expect(response.body.data).toEqual(expect.objectContaining({ title: 'own', internalNote: 'note' }));
+        });
+
+        it('쓰기 가능한 필드만 저장하고 조건을 강제해야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/test_policy_articles')
+                .set(as(1, 'editor'))
+                .send({ title: 'new', ownerId: 2, internalNote: 'sneaky' })
+                .expect(201);
+
+            const saved = await service.repository.findOneByOrFail({ id: response.body.data.id });
+            expect(saved).toEqual(expect.objectContaining({ title: 'new', ownerId: 1, internalNote: '' }));
+            expect(response.body.data).not.toHaveProperty('internalNote');
+        });
+    });
+
+    describe('ability', () => {
+        it('엔티티 단위로 거부되면 403을 응답하고 수정하지 않아야 함', async () => {
+            await request(app.getHttpServer())
+                .patch(`/test_policy_articles/${locked.id}`)
+                .set(as(1, 'editor'))
+                .send({ title: 'changed' })
+                .expect(403);
+            await request(app.getHttpServer())
+                .patch(`/test_policy_articles/${own.id}`)
+                .set(as(1, 'editor'))
+                .send({ title: 'changed' })
+                .expect(200);
+
+            expect(await service.repository.findOneBy({ id: locked.id })).toEqual(expect.objectContaining({ title: 'locked' }));
+        });
+
+        it('메서드 단위로 거부되면 403을 응답해야 함', async () => {
+            await request(app.getHttpServer()).delete(`/test_policy_articles/${own.id}`).set(as(1, 'editor')).expect(403);
+            await request(app.getHttpServer()).delete(`/test_policy_articles/${own.id}`).set(as(9, 'admin')).expect(200);
+        });
+    });
+});
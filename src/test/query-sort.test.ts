@@ -4,6 +4,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import request from 'supertest';
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 
+import { platforms } from './platforms';
 import { Crud } from '../lib/crud.decorator';
 import { CrudService } from '../lib/crud.service';
 
@@ -54,7 +55,7 @@ class JobCategoryController {
 })
 class TestModule {}
 
-describe('Query Sort (정렬 버그 수정 테스트)', () => {
+describe.each(platforms)('Query Sort (정렬 버그 수정 테스트): %s', (_platform, createApplication) => {
     let app: INestApplication;
     let module: TestingModule;
 
@@ -72,8 +73,7 @@ describe('Query Sort (정렬 버그 수정 테스트)', () => {
             ],
         }).compile();
 
-        app = module.createNestApplication();
-        await app.init();
+        app = await createApplication(module);
 
         // 테스트 데이터 생성 (시간 차이를 두고 생성)
         const crudService = module.get(CrudService);
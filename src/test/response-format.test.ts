@@ -0,0 +1,237 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, HttpStatus, INestApplication, Module } from '@nestjs/common';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, ManyToOne, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { CrudResponseFormat } from '../lib/decorator/conditional.decorator';
+
+/**
+ * 응답 포맷 테스트를 위한 엔티티
+ */
+@Entity('test_format_writers')
+class Writer {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    name!: string;
+
+    @OneToMany(() => Story, (story) => story.writer)
+    stories!: Story[];
+}
+
+@Entity('test_format_stories')
+class Story {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    title!: string;
+
+    @ManyToOne(() => Writer, (writer) => writer.stories)
+    writer!: Writer;
+}
+
+@Controller('test_format_stories')
+@Crud({
+    entity: Story,
+    allowedIncludes: ['writer'],
+    routes: {
+        show: { httpCache: { maxAge: 60 } },
+        index: { paginationType: 'offset', httpCache: { maxAge: 10 } },
+    },
+})
+class StoryController {
+    constructor(public readonly crudService: CrudService<Story>) {}
+}
+
+@Controller('test_format_json_api_stories')
+@CrudResponseFormat('json-api')
+@Crud({ entity: Story, routes: { index: { paginationType: 'cursor', numberOfTake: 2 } } })
+class JsonApiStoryController {
+    constructor(public readonly crudService: CrudService<Story>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Story, Writer])],
+    controllers: [StoryController, JsonApiStoryController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['StoryRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const queryOf = (link: string) => Object.fromEntries(new URL(link, 'http://localhost').searchParams);
+
+describe.each(platforms)('Response format: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Story, Writer],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const manager = module.get(CrudService).repository.manager;
+        const writer = await manager.getRepository(Writer).save({ name: 'kim' });
+        await manager.getRepository(Story).save([
+            { title: 'first', writer },
+            { title: 'second', writer },
+            { title: 'third', writer },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('Accept 헤더가 없으면 기존 응답 형식을 유지해야 함', async () => {
+        const response = await request(app.getHttpServer()).get('/test_format_stories').expect(200);
+
+        expect(response.headers['content-type']).toContain('application/json');
+        expect(response.headers.vary).toContain('Accept');
+        expect(response.body.data).toHaveLength(3);
+        expect(response.body.metadata.pagination.total).toBe(3);
+    });
+
+    it('application/vnd.api+json은 include한 관계를 relationships와 included로 응답해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_format_stories/1')
+            .query({ include: 'writer' })
+            .set('Accept', 'application/vnd.api+json')
+            .expect(200);
+
+        expect(response.headers['content-type']).toContain('application/vnd.api+json');
+        expect(response.body.data).toEqual({
+            type: 'test_format_stories',
+            id: '1',
+            attributes: { title: 'first' },
+            relationships: { writer: { data: { type: 'writer', id: '1' } } },
+        });
+        expect(response.body.included).toEqual([{ type: 'writer', id: '1', attributes: { name: 'kim' } }]);
+        expect(response.body.links.self).toBe('/test_format_stories/1?include=writer');
+    });
+
+    it('JSON:API index는 included의 중복을 제거하고 offset pagination links를 응답해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_format_stories')
+            .query({ include: 'writer', 'page[number]': 2, 'page[size]': 1 })
+            .set('Accept', 'application/vnd.api+json')
+            .expect(200);
+
+        expect(response.body.data).toHaveLength(1);
+        expect(response.body.included).toHaveLength(1);
+        expect(response.body.meta.pagination).toEqual(expect.objectContaining({ total: 3, page: 2, pages: 3 }));
+        expect(queryOf(response.body.links.first)).toEqual(expect.objectContaining({ 'page[number]': '1', 'page[size]': '1', include: 'writer' }));
+        expect(queryOf(response.body.links.prev)['page[number]']).toBe('1');
+        expect(queryOf(response.body.links.next)['page[number]']).toBe('3');
+        expect(queryOf(response.body.links.last)['page[number]']).toBe('3');
+
+        const last = await request(app.getHttpServer()).get(response.body.links.last).set('Accept', 'application/vnd.api+json').expect(200);
+        expect(last.body.links.next).toBeUndefined();
+    });
+
+    it('format=hal은 관계를 _embedded에, 링크를 _links에 응답해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_format_stories')
+            .query({ format: 'hal', include: 'writer', 'page[size]': 2 })
+            .expect(200);
+
+        expect(response.headers['content-type']).toContain('application/hal+json');
+        const stories = response.body._embedded.test_format_stories;
+        expect(stories).toHaveLength(2);
+        expect(stories[0]._links.self.href).toBe(`/test_format_stories/${stories[0].id}`);
+        expect(stories[0]._embedded.writer.name).toBe('kim');
+        expect(stories[0].writer).toBeUndefined();
+        expect(queryOf(response.body._links.next.href)).toEqual(expect.objectContaining({ format: 'hal', 'page[number]': '2' }));
+    });
+
+    it('OData Accept 헤더는 value와 @odata.count로 응답해야 함', async () => {
+        const index = await request(app.getHttpServer())
+            .get('/test_format_stories')
+            .query({ 'page[size]': 2 })
+            .set('Accept', 'application/json;odata.metadata=minimal')
+            .expect(200);
+
+        expect(index.body['@odata.context']).toBe('$metadata#test_format_stories');
+        expect(index.body['@odata.count']).toBe(3);
+        expect(index.body.value).toHaveLength(2);
+        expect(queryOf(index.body['@odata.nextLink'])['page[number]']).toBe('2');
+
+        const show = await request(app.getHttpServer()).get('/test_format_stories/2').query({ format: 'odata' }).expect(200);
+        expect(show.body).toEqual(expect.objectContaining({ '@odata.context': '$metadata#test_format_stories/$entity', id: 2, title: 'second' }));
+    });
+
+    it('알 수 없는 format은 406을 응답해야 함', async () => {
+        await request(app.getHttpServer()).get('/test_format_stories').query({ format: 'xml' }).expect(HttpStatus.NOT_ACCEPTABLE);
+    });
+
+    it('@CrudResponseFormat의 포맷을 기본으로 사용하고 cursor links로 이어서 조회해야 함', async () => {
+        const first = await request(app.getHttpServer()).get('/test_format_json_api_stories').expect(200);
+
+        expect(first.headers['content-type']).toContain('application/vnd.api+json');
+        expect(first.body.data.map(({ id }: { id: string }) => id)).toEqual(['3', '2']);
+        expect(first.body.links.prev).toBeUndefined();
+        expect(queryOf(first.body.links.next)['page[after]']).toBe(first.body.meta.pagination.nextCursor);
+
+        const second = await request(app.getHttpServer()).get(first.body.links.next).expect(200);
+        expect(second.body.data.map(({ id }: { id: string }) => id)).toEqual(['1']);
+        expect(second.body.links.next).toBeUndefined();
+
+        const previous = await request(app.getHttpServer()).get(second.body.links.prev).expect(200);
+        expect(previous.body.data.map(({ id }: { id: string }) => id)).toEqual(['3', '2']);
+
+        // 기본 포맷은 format 쿼리로 바꿀 수 있음
+        const json = await request(app.getHttpServer()).get('/test_format_json_api_stories').query({ format: 'default' }).expect(200);
+        expect(json.body.data[0].title).toBe('third');
+    });
+
+    it('같은 엔티티라도 포맷마다 다른 ETag를 응답해야 함', async () => {
+        for (const path of ['/test_format_stories/1', '/test_format_stories']) {
+            const json = await request(app.getHttpServer()).get(path).expect(200);
+            const hal = await request(app.getHttpServer()).get(path).set('Accept', 'application/hal+json').expect(200);
+            const jsonApi = await request(app.getHttpServer()).get(path).query({ format: 'json-api' }).expect(200);
+
+            expect(new Set([json.headers.etag, hal.headers.etag, jsonApi.headers.etag]).size).toBe(3);
+            await request(app.getHttpServer()).get(path).set('Accept', 'application/hal+json').set('If-None-Match', json.headers.etag).expect(200);
+            await request(app.getHttpServer()).get(path).set('Accept', 'application/hal+json').set('If-None-Match', hal.headers.etag).expect(304);
+        }
+    });
+
+    it('show와 index의 Swagger 응답은 포맷별 media type의 schema를 가져야 함', () => {
+        const { reservedShow, reservedIndex } = StoryController.prototype as unknown as Record<string, Record<string, unknown>>;
+
+        for (const route of [reservedShow, reservedIndex]) {
+            const { content } = Reflect.getMetadata(DECORATORS.API_RESPONSE, route)[HttpStatus.OK];
+            expect(Object.keys(content)).toEqual([
+                'application/json',
+                'application/vnd.api+json',
+                'application/hal+json',
+                'application/json;odata.metadata=minimal',
+            ]);
+        }
+        const { content } = Reflect.getMetadata(DECORATORS.API_RESPONSE, reservedIndex)[HttpStatus.OK];
+        expect(Object.keys(content['application/vnd.api+json'].schema.properties.links.properties)).toEqual(['self', 'first', 'prev', 'next', 'last']);
+    });
+});
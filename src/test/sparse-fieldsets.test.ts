@@ -0,0 +1,190 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import request from 'supertest';
+import { Column, Entity, ManyToOne, OneToMany, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+import { QueryParser } from '../lib/provider/query-parser';
+
+/**
+ * Sparse fieldsets 테스트를 위한 엔티티
+ */
+@Entity('test_fieldset_authors')
+class Author {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    name!: string;
+
+    @Column()
+    email!: string;
+
+    @OneToMany(() => Article, (article) => article.author)
+    articles!: Article[];
+}
+
+@Entity('test_fieldset_articles')
+class Article {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    title!: string;
+
+    @Column()
+    body!: string;
+
+    @Column()
+    views!: number;
+
+    @ManyToOne(() => Author, (author) => author.articles)
+    author!: Author;
+}
+
+@Controller('test_fieldset_articles')
+@Crud({
+    entity: Article,
+    allowedFields: ['title', 'views', 'author.name'],
+    allowedIncludes: ['author'],
+    routes: {
+        index: {
+            paginationType: 'cursor',
+        },
+    },
+})
+class ArticleController {
+    constructor(public readonly crudService: CrudService<Article>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Article, Author])],
+    controllers: [ArticleController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ArticleRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+const decode = (value: string) => JSON.parse(Buffer.from(value, 'base64').toString());
+
+describe.each(platforms)('Sparse Fieldsets: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Article, Author],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module);
+
+        const dataSource = module.get(CrudService).repository.manager;
+        const author = await dataSource.getRepository(Author).save({ name: 'kim', email: 'kim@example.com' });
+        await dataSource.getRepository(Article).save([
+            { title: 'first', body: 'body 1', views: 10, author },
+            { title: 'second', body: 'body 2', views: 20, author },
+            { title: 'third', body: 'body 3', views: 30, author },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('QueryParser', () => {
+        it('fields[type] 키를 리소스와 관계의 fieldset으로 파싱해야 함', () => {
+            const parser = new QueryParser({
+                allowedFields: ['title', 'author.name'],
+                resourceType: 'articles',
+            });
+
+            const parsed = parser.parse({
+                'fields[articles]': 'title,body',
+                'fields[author]': 'name,email',
+            });
+
+            expect(parsed.fields).toEqual([
+                { relation: undefined, fields: ['title'] },
+                { relation: 'author', fields: ['name'] },
+            ]);
+        });
+
+        it('allowedFields가 없으면 fieldset을 무시해야 함', () => {
+            const parser = new QueryParser({ resourceType: 'articles' });
+
+            expect(parser.parse({ 'fields[articles]': 'title' }).fields).toBeUndefined();
+        });
+    });
+
+    it('index는 요청한 필드와 기본 키만 반환해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_fieldset_articles')
+            .query({ 'fields[test_fieldset_articles]': 'title' })
+            .expect(200);
+
+        expect(response.body.data).toHaveLength(3);
+        for (const article of response.body.data) {
+            expect(Object.keys(article).sort()).toEqual(['id', 'title']);
+        }
+    });
+
+    it('허용되지 않은 필드는 선택되지 않아야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_fieldset_articles')
+            .query({ 'fields[test_fieldset_articles]': 'title,body' })
+            .expect(200);
+
+        expect(response.body.data[0].body).toBeUndefined();
+        expect(response.body.data[0].title).toBeDefined();
+    });
+
+    it('fieldset에 없어도 cursor에 필요한 정렬 키는 선택해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_fieldset_articles')
+            .query({ 'fields[test_fieldset_articles]': 'title', 'page[size]': '2', sort: '-views' })
+            .expect(200);
+
+        expect(response.body.data.map((article: Article) => article.views)).toEqual([30, 20]);
+
+        const { nextCursor } = decode(response.body.metadata.pagination.nextCursor);
+        // 기본 키는 tiebreaker로 항상 cursor에 포함
+        expect(decode(nextCursor)).toEqual({ views: 20, id: 2 });
+    });
+
+    it('포함된 관계의 필드도 선택할 수 있어야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_fieldset_articles')
+            .query({ include: 'author', 'fields[test_fieldset_articles]': 'title', 'fields[author]': 'name' })
+            .expect(200);
+
+        expect(response.body.data[0].author).toEqual({ id: 1, name: 'kim' });
+        expect(response.body.data[0].body).toBeUndefined();
+    });
+
+    it('show도 fieldset을 적용해야 함', async () => {
+        const response = await request(app.getHttpServer())
+            .get('/test_fieldset_articles/1')
+            .query({ include: 'author', 'fields[test_fieldset_articles]': 'views', 'fields[author]': 'name' })
+            .expect(200);
+
+        expect(response.body.data).toEqual({ id: 1, views: 10, author: { id: 1, name: 'kim' } });
+    });
+});
@@ -0,0 +1,228 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, DeleteDateColumn, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { platforms } from './platforms';
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+import type { CrudHttpRequest } from '../lib/utils/http-platform';
+import type { ExecutionContext } from '@nestjs/common';
+
+/**
+ * 테넌트 범위 지정 테스트를 위한 엔티티
+ */
+@Entity('test_tenant_projects')
+class Project {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    tenantId!: string;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    name!: string;
+
+    @DeleteDateColumn()
+    deletedAt?: Date;
+}
+
+@Controller('test_tenant_projects')
+@Crud({
+    entity: Project,
+    allowedFilters: ['name', 'tenantId'],
+    allowedParams: ['name', 'tenantId'],
+    tenant: { column: 'tenantId', resolver: { header: 'x-tenant-id' } },
+    routes: {
+        destroy: { softDelete: true },
+    },
+})
+class ProjectController {
+    constructor(public readonly crudService: CrudService<Project>) {}
+}
+
+@Controller('test_user_tenant_projects')
+@Crud({
+    entity: Project,
+    only: ['index'],
+    tenant: { column: 'tenantId', resolver: { user: 'claims.tenant' } },
+})
+class UserTenantProjectController {
+    constructor(public readonly crudService: CrudService<Project>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Project])],
+    controllers: [ProjectController, UserTenantProjectController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['ProjectRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe.each(platforms)('Tenant scoping: %s', (_platform, createApplication) => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Project>;
+    let own: Project;
+    let other: Project;
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Project],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = await createApplication(module, (application) => {
+            // 인증 가드가 검증한 JWT claim을 req.user에 담는 것을 흉내냄
+            application.useGlobalGuards({
+                canActivate: (context: ExecutionContext) => {
+                    const req = context.switchToHttp().getRequest<CrudHttpRequest>();
+                    if (req.headers['x-user-tenant']) {
+                        req.user = { claims: { tenant: req.headers['x-user-tenant'] } };
+                    }
+                    return true;
+                },
+            });
+        });
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        [own, other] = await service.repository.save([
+            { tenantId: 'a', name: 'own' },
+            { tenantId: 'b', name: 'other' },
+        ]);
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    describe('read', () => {
+        it('요청의 테넌트 행만 조회해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_tenant_projects').set('x-tenant-id', 'a').expect(200);
+
+            expect(response.body.data.map(({ name }: Project) => name)).toEqual(['own']);
+        });
+
+        it('테넌트 컬럼 필터로 범위를 넓힐 수 없어야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .get('/test_tenant_projects')
+                .query({ 'filter[tenantId_eq]': 'b' })
+                .set('x-tenant-id', 'a')
+                .expect(200);
+
+            expect(response.body.data.map(({ name }: Project) => name)).toEqual(['own']);
+        });
+
+        it('테넌트를 확인할 수 없으면 403을 응답해야 함', async () => {
+            await request(app.getHttpServer()).get('/test_tenant_projects').expect(403);
+            await request(app.getHttpServer()).get(`/test_tenant_projects/${own.id}`).expect(403);
+        });
+
+        it('다른 테넌트의 행은 404를 응답해야 함', async () => {
+            await request(app.getHttpServer()).get(`/test_tenant_projects/${other.id}`).set('x-tenant-id', 'a').expect(404);
+            await request(app.getHttpServer()).get(`/test_tenant_projects/${own.id}`).set('x-tenant-id', 'a').expect(200);
+        });
+
+        it('req.user의 claim으로 테넌트를 확인해야 함', async () => {
+            const response = await request(app.getHttpServer()).get('/test_user_tenant_projects').set('x-user-tenant', 'b').expect(200);
+
+            expect(response.body.data.map(({ name }: Project) => name)).toEqual(['other']);
+            await request(app.getHttpServer()).get('/test_user_tenant_projects').expect(403);
+        });
+    });
+
+    describe('write', () => {
+        it('생성 시 요청의 테넌트를 강제해야 함', async () => {
+            const response = await request(app.getHttpServer())
+                .post('/test_tenant_projects')
+                .set('x-tenant-id', 'a')
+                .send([{ name: 'first', tenantId: 'b' }, { name: 'second' }])
+                .expect(201);
+
+            expect(response.body.data.map(({ tenantId }: Project) => tenantId)).toEqual(['a', 'a']);
+            expect(await service.repository.countBy({ tenantId: 'b' })).toBe(1);
+        });
+
+        it('다른 테넌트의 행은 수정할 수 없고 테넌트를 옮길 수 없어야 함', async () => {
+            await request(app.getHttpServer())
+                .patch(`/test_tenant_projects/${other.id}`)
+                .set('x-tenant-id', 'a')
+                .send({ name: 'hijacked' })
+                .expect(404);
+            await request(app.getHttpServer())
+                .patch(`/test_tenant_projects/${own.id}`)
+                .set('x-tenant-id', 'a')
+                .send({ name: 'renamed', tenantId: 'b' })
+                .expect(200);
+
+            expect(await service.repository.findOneBy({ id: own.id })).toEqual(expect.objectContaining({ name: 'renamed', tenantId: 'a' }));
+            expect(await service.repository.findOneBy({ id: other.id })).toEqual(expect.objectContaining({ name: 'other' }));
+        });
+
+        it('여러 건 수정에 다른 테넌트의 행이 있으면 404를 응답해야 함', async () => {
+            await request(app.getHttpServer())
+                .patch('/test_tenant_projects/bulk')
+                .set('x-tenant-id', 'a')
+                .send([
+                    { id: own.id, name: 'renamed' },
+                    { id: other.id, name: 'hijacked' },
+                ])
+                .expect(404);
+
+            expect(await service.repository.findOneBy({ id: other.id })).toEqual(expect.objectContaining({ name: 'other' }));
+        });
+
+        it('upsert는 다른 테넌트의 행을 덮어쓰지 않아야 함', async () => {
+            const conflict = await request(app.getHttpServer())
+                .put(`/test_tenant_projects/${other.id}`)
+                .set('x-tenant-id', 'a')
+                .send({ name: 'hijacked' })
+                .expect(409);
+            expect(conflict.body.message).toBe('An entity with the same primary key already exists');
+            await request(app.getHttpServer()).put('/test_tenant_projects/100').set('x-tenant-id', 'a').send({ name: 'new' }).expect(200);
+
+            expect(await service.repository.findOneBy({ id: other.id })).toEqual(expect.objectContaining({ name: 'other', tenantId: 'b' }));
+            expect(await service.repository.findOneBy({ id: 100 })).toEqual(expect.objectContaining({ tenantId: 'a' }));
+        });
+
+        it('다른 테넌트의 행은 삭제하거나 복구할 수 없어야 함', async () => {
+            await request(app.getHttpServer()).delete(`/test_tenant_projects/${other.id}`).set('x-tenant-id', 'a').expect(404);
+            await request(app.getHttpServer())
+                .delete('/test_tenant_projects/bulk')
+                .set('x-tenant-id', 'a')
+                .send({ ids: [own.id, other.id] })
+                .expect(404);
+            expect(await service.repository.count()).toBe(2);
+
+            await request(app.getHttpServer()).delete(`/test_tenant_projects/${other.id}`).set('x-tenant-id', 'b').expect(200);
+            await request(app.getHttpServer()).post(`/test_tenant_projects/${other.id}/recover`).set('x-tenant-id', 'a').expect(404);
+            await request(app.getHttpServer()).post(`/test_tenant_projects/${other.id}/recover`).set('x-tenant-id', 'b').expect(201);
+            expect(await service.repository.count()).toBe(2);
+        });
+    });
+});
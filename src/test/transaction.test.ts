@@ -0,0 +1,195 @@
+import { Controller, INestApplication, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IsOptional, IsString } from 'class-validator';
+import request from 'supertest';
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+import { Crud } from '../lib/crud.decorator';
+import { CrudService } from '../lib/crud.service';
+
+import type { HookContext } from '../lib/interface';
+
+/**
+ * 트랜잭션 테스트를 위한 엔티티
+ */
+@Entity('test_transaction_accounts')
+class Account {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    @IsString()
+    @IsOptional()
+    name!: string;
+}
+
+@Entity('test_transaction_outbox')
+class OutboxEvent {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column()
+    type!: string;
+}
+
+/**
+ * outbox 행을 기록한 뒤 이름이 'fail'이면 실패하는 saveAfter 훅
+ */
+const writeOutbox = (type: string) => async (entity: Account, context: HookContext<Account>) => {
+    await context.manager!.getRepository(OutboxEvent).save({ type });
+    if (entity.name === 'fail') {
+        throw new Error('outbox failure');
+    }
+    return entity;
+};
+
+@Controller('test_transaction_accounts')
+@Crud({
+    entity: Account,
+    allowedParams: ['name'],
+    routes: {
+        create: { transaction: true, hooks: { saveAfter: writeOutbox('created') } },
+        update: { transaction: { isolation: 'SERIALIZABLE' }, hooks: { saveAfter: writeOutbox('updated') } },
+        upsert: { transaction: true, hooks: { saveAfter: writeOutbox('upserted') } },
+        destroy: {
+            transaction: true,
+            hooks: {
+                destroyAfter: async (entity, context) => {
+                    await context.manager!.getRepository(OutboxEvent).save({ type: 'destroyed' });
+                    throw new Error('outbox failure');
+                },
+            },
+        },
+    },
+})
+class AccountController {
+    constructor(public readonly crudService: CrudService<Account>) {}
+}
+
+@Controller('test_non_transaction_accounts')
+@Crud({
+    entity: Account,
+    allowedParams: ['name'],
+    routes: {
+        create: { hooks: { saveAfter: writeOutbox('created') } },
+    },
+})
+class NonTransactionAccountController {
+    constructor(public readonly crudService: CrudService<Account>) {}
+}
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Account, OutboxEvent])],
+    controllers: [AccountController, NonTransactionAccountController],
+    providers: [
+        {
+            provide: CrudService,
+            useFactory: (repo: any) => new CrudService(repo),
+            inject: ['AccountRepository'],
+        },
+    ],
+})
+class TestModule {}
+
+describe('Route transaction', () => {
+    let app: INestApplication;
+    let module: TestingModule;
+    let service: CrudService<Account>;
+
+    const countOutbox = () => service.repository.manager.getRepository(OutboxEvent).count();
+
+    beforeAll(async () => {
+        module = await Test.createTestingModule({
+            imports: [
+                TypeOrmModule.forRoot({
+                    type: 'sqlite',
+                    database: ':memory:',
+                    entities: [Account, OutboxEvent],
+                    synchronize: true,
+                    logging: false,
+                }),
+                TestModule,
+            ],
+        }).compile();
+
+        app = module.createNestApplication();
+        await app.init();
+
+        service = module.get(CrudService);
+    });
+
+    beforeEach(async () => {
+        await service.repository.clear();
+        await service.repository.manager.getRepository(OutboxEvent).clear();
+    });
+
+    afterAll(async () => {
+        await app?.close();
+    });
+
+    it('저장과 훅을 같은 트랜잭션에서 커밋해야 함', async () => {
+        await request(app.getHttpServer()).post('/test_transaction_accounts').send({ name: 'ok' }).expect(201);
+
+        expect(await service.repository.count()).toBe(1);
+        expect(await countOutbox()).toBe(1);
+    });
+
+    it('훅이 실패하면 저장을 롤백해야 함', async () => {
+        await request(app.getHttpServer()).post('/test_transaction_accounts').send({ name: 'fail' }).expect(409);
+
+        expect(await service.repository.count()).toBe(0);
+        expect(await countOutbox()).toBe(0);
+    });
+
+    it('transaction이 없으면 저장이 커밋된 채로 남음', async () => {
+        await request(app.getHttpServer()).post('/test_non_transaction_accounts').send({ name: 'fail' }).expect(409);
+
+        expect(await service.repository.count()).toBe(1);
+    });
+
+    it('여러 건 생성 중 하나의 훅이 실패하면 모두 롤백해야 함', async () => {
+        await request(app.getHttpServer())
+            .post('/test_transaction_accounts')
+            .send([{ name: 'first' }, { name: 'fail' }])
+            .expect(409);
+
+        expect(await service.repository.count()).toBe(0);
+        expect(await countOutbox()).toBe(0);
+    });
+
+    it('여러 건 수정 중 훅이 실패하면 모두 롤백해야 함', async () => {
+        const [first, second] = await service.repository.save([{ name: 'first' }, { name: 'second' }]);
+
+        await request(app.getHttpServer())
+            .patch('/test_transaction_accounts/bulk')
+            .send([
+                { id: first.id, name: 'renamed' },
+                { id: second.id, name: 'fail' },
+            ])
+            .expect(409);
+
+        const accounts = await service.repository.find({ order: { id: 'ASC' } });
+        expect(accounts.map(({ name }) => name)).toEqual(['first', 'second']);
+        expect(await countOutbox()).toBe(0);
+    });
+
+    it('여러 건 upsert 중 훅이 실패하면 모두 롤백해야 함', async () => {
+        await request(app.getHttpServer())
+            .put('/test_transaction_accounts/bulk')
+            .send([{ name: 'first' }, { name: 'fail' }])
+            .expect(409);
+
+        expect(await service.repository.count()).toBe(0);
+        expect(await countOutbox()).toBe(0);
+    });
+
+    it('삭제 후 훅이 실패하면 삭제를 롤백해야 함', async () => {
+        const account = await service.repository.save({ name: 'keep' });
+
+        await request(app.getHttpServer()).delete(`/test_transaction_accounts/${account.id}`).expect(500);
+
+        expect(await service.repository.count()).toBe(1);
+        expect(await countOutbox()).toBe(0);
+    });
+});